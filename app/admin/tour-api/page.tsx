@@ -0,0 +1,78 @@
+/**
+ * @file app/admin/tour-api/page.tsx
+ * @description 한국관광공사 API 인증키 사용량 페이지 (관리자 전용)
+ *
+ * 인증키별 오늘(KST) 호출 수와 일일 한도 대비 사용률, 키 교체 상태를 표시합니다.
+ * 관리자가 아니면 404를 반환합니다.
+ *
+ * 주요 기능:
+ * 1. 인증키별 사용량 카드 (호출 수, 사용률, 한도 초과 응답 수)
+ * 2. 요청/캐시 통계, 회로 차단기 상태 요약
+ *
+ * @dependencies
+ * - lib/api/tour-api-client.ts: getTourApiClient
+ * - lib/utils/admin.ts: isAdminUser
+ * - components/admin/tour-api-key-usage.tsx: 인증키별 사용량 카드
+ * - lib/utils/logger.ts: 구조화 로거
+ * - lib/utils/request-context-server.ts: 요청 컨텍스트 (상관관계 ID)
+ */
+
+import { notFound } from "next/navigation";
+import { TourApiKeyUsage } from "@/components/admin/tour-api-key-usage";
+import { getTourApiClient } from "@/lib/api/tour-api-client";
+import { isAdminUser } from "@/lib/utils/admin";
+import { createLogger } from "@/lib/utils/logger";
+import { withRequestContext } from "@/lib/utils/request-context-server";
+
+const logger = createLogger("page.admin.tour-api");
+
+async function TourApiAdminPage() {
+  if (!(await isAdminUser())) {
+    notFound();
+  }
+
+  const client = getTourApiClient();
+
+  try {
+    const report = await client.getKeyUsage();
+    const stats = client.getStats();
+    const cacheStats = client.cache?.getStats();
+    const circuit = client.circuitBreaker?.getStats();
+
+    return (
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Tour API 사용량</h1>
+          <p className="text-muted-foreground mt-2">
+            {report.date} (KST) 기준 인증키별 호출 수
+            {report.dailyQuota
+              ? ` · 키별 일일 한도 ${report.dailyQuota.toLocaleString()}회`
+              : " · 호출 수 집계 사용 안 함"}
+          </p>
+        </div>
+
+        <TourApiKeyUsage report={report} />
+
+        <p className="text-sm text-muted-foreground">
+          이 서버 인스턴스: 실제 요청 {stats.upstreamRequests.toLocaleString()}
+          회, 병합 {stats.coalescedRequests.toLocaleString()}회
+          {cacheStats && `, 캐시 적중 ${cacheStats.hits.toLocaleString()}회`}
+          {circuit && `, 회로 상태 ${circuit.state}`}
+        </p>
+      </main>
+    );
+  } catch (error) {
+    logger.error("인증키 사용량 조회 실패", { error });
+    return (
+      <main className="container mx-auto px-4 py-8">
+        <div className="text-center py-16">
+          <p className="text-lg font-semibold text-destructive">
+            인증키 사용량을 불러오는 중 오류가 발생했습니다.
+          </p>
+        </div>
+      </main>
+    );
+  }
+}
+
+export default withRequestContext(TourApiAdminPage);
@@ -0,0 +1,157 @@
+/**
+ * @file app/admin/tour-catalog/page.tsx
+ * @description 관광지 카탈로그 동기화 상태 페이지 (관리자 전용)
+ *
+ * Supabase 카탈로그에 저장된 관광지 수와 작업별(가져오기, 증분 동기화, 상세 정보)
+ * 체크포인트를 표시합니다. 관리자가 아니면 404를 반환합니다.
+ *
+ * 주요 기능:
+ * 1. 저장된 관광지 수, 상세 정보 수집 대기 수
+ * 2. 작업별 상태, 진행 페이지, 처리/삭제 수, watermark, 마지막 오류
+ *
+ * @dependencies
+ * - lib/api/tour-catalog.ts: getTourCatalogSize, isTourCatalogEnabled
+ * - lib/api/tour-catalog-sync.ts: getTourCatalogSyncStates
+ * - lib/utils/admin.ts: isAdminUser
+ * - components/ui/card: Card 컴포넌트
+ * - lib/utils/logger.ts: 구조화 로거
+ * - lib/utils/request-context-server.ts: 요청 컨텍스트 (상관관계 ID)
+ */
+
+import { notFound } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  getTourCatalogSize,
+  isTourCatalogEnabled,
+} from "@/lib/api/tour-catalog";
+import {
+  getTourCatalogSyncStates,
+  type TourCatalogSyncState,
+} from "@/lib/api/tour-catalog-sync";
+import { isAdminUser } from "@/lib/utils/admin";
+import { createLogger } from "@/lib/utils/logger";
+import { withRequestContext } from "@/lib/utils/request-context-server";
+
+const logger = createLogger("page.admin.tour-catalog");
+
+/**
+ * 작업 이름
+ */
+const JOB_LABELS: Record<TourCatalogSyncState["job"], string> = {
+  import: "전체 가져오기",
+  incremental: "증분 동기화",
+  details: "상세 정보 수집",
+};
+
+/**
+ * 상태 문구
+ */
+const STATUS_LABELS: Record<TourCatalogSyncState["status"], string> = {
+  idle: "대기",
+  running: "실행 중",
+  completed: "완료",
+  failed: "실패",
+};
+
+const formatTime = (date: Date | null) => {
+  if (!date) {
+    return "-";
+  }
+  return new Intl.DateTimeFormat("ko-KR", {
+    timeZone: "Asia/Seoul",
+    month: "long",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(date);
+};
+
+async function TourCatalogAdminPage() {
+  if (!(await isAdminUser())) {
+    notFound();
+  }
+
+  try {
+    const [states, size] = await Promise.all([
+      getTourCatalogSyncStates(),
+      getTourCatalogSize(),
+    ]);
+
+    return (
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">관광지 카탈로그</h1>
+          <p className="text-muted-foreground mt-2">
+            관광지 {size.items.toLocaleString()}개 저장 · 상세 정보 수집
+            대기 {size.pendingDetails.toLocaleString()}개
+            {isTourCatalogEnabled()
+              ? " · 목록/통계 조회에 사용 중"
+              : " · 목록/통계 조회에 사용 안 함 (TOUR_CATALOG=on)"}
+          </p>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-3">
+          {states.map((state) => (
+            <Card key={state.job} className="border-2">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium">
+                  {JOB_LABELS[state.job]}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <div
+                  className={
+                    state.status === "failed"
+                      ? "text-2xl font-bold text-destructive"
+                      : "text-2xl font-bold"
+                  }
+                >
+                  {STATUS_LABELS[state.status]}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  처리 {state.processedCount.toLocaleString()}개
+                  {state.deletedCount > 0 &&
+                    ` · 삭제 ${state.deletedCount.toLocaleString()}개`}
+                  {state.job !== "details" &&
+                    ` · 다음 페이지 ${state.nextPage.toLocaleString()}`}
+                  {state.totalCount !== null &&
+                    ` / 전체 ${state.totalCount.toLocaleString()}개`}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  시작 {formatTime(state.startedAt)} · 종료{" "}
+                  {formatTime(state.finishedAt)}
+                </p>
+                {state.watermark && (
+                  <p className="text-xs text-muted-foreground">
+                    기준 수정일 {state.watermark}
+                  </p>
+                )}
+                {state.lastError && (
+                  <p className="text-xs text-destructive">{state.lastError}</p>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <p className="text-sm text-muted-foreground">
+          동기화는 POST /api/admin/tour-catalog 호출마다 체크포인트에서 이어서
+          진행됩니다.
+        </p>
+      </main>
+    );
+  } catch (error) {
+    logger.error("카탈로그 동기화 상태 조회 실패", { error });
+    return (
+      <main className="container mx-auto px-4 py-8">
+        <div className="text-center py-16">
+          <p className="text-lg font-semibold text-destructive">
+            카탈로그 동기화 상태를 불러오는 중 오류가 발생했습니다.
+          </p>
+        </div>
+      </main>
+    );
+  }
+}
+
+export default withRequestContext(TourCatalogAdminPage);
@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { getTourApiClient } from "@/lib/api/tour-api-client";
+import { isAdminUser } from "@/lib/utils/admin";
+import { createLogger } from "@/lib/utils/logger";
+
+const logger = createLogger("admin.tour-api-cache");
+
+/**
+ * 한국관광공사 API 요청/캐시 통계 조회 API (관리자 전용)
+ *
+ * 실제 API 요청 수, 병합되어 생략된 요청 수, 캐시 적중 수, 스케줄러 대기열 상태,
+ * 인증키별 오늘 호출 수, 회로 차단기 상태를 반환합니다.
+ *
+ * @example
+ * GET /api/admin/tour-api-cache
+ */
+export async function GET() {
+  if (!(await isAdminUser())) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const client = getTourApiClient();
+
+  return NextResponse.json({
+    requests: client.getStats(),
+    cache: client.cache?.getStats() || null,
+    scheduler: client.scheduler?.getStats() || null,
+    circuit: client.circuitBreaker?.getStats() || null,
+    keys: await client.getKeyUsage(),
+  });
+}
+
+/**
+ * 한국관광공사 API 응답 캐시 삭제 API (관리자 전용)
+ *
+ * 메모리 LRU와 Supabase tour_api_cache 테이블의 캐시를 삭제합니다.
+ * endpoint 파라미터가 없으면 전체 캐시를 삭제합니다.
+ *
+ * @example
+ * DELETE /api/admin/tour-api-cache
+ * DELETE /api/admin/tour-api-cache?endpoint=/detailCommon2
+ */
+export async function DELETE(request: Request) {
+  try {
+    if (!(await isAdminUser())) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const cache = getTourApiClient().cache;
+    if (!cache) {
+      return NextResponse.json(
+        { error: "Tour API cache is disabled" },
+        { status: 404 },
+      );
+    }
+
+    const endpoint =
+      new URL(request.url).searchParams.get("endpoint") || undefined;
+    await cache.purge(endpoint);
+
+    logger.info("Tour API 캐시 삭제", { endpoint: endpoint || null });
+
+    return NextResponse.json({
+      success: true,
+      endpoint: endpoint || null,
+      stats: cache.getStats(),
+    });
+  } catch (error) {
+    logger.error("Tour API 캐시 삭제 실패", { error });
+    return NextResponse.json(
+      { error: "Failed to purge cache" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import {
+  getFakeTourApiServer,
+  isFakeTourApiEnabled,
+} from "@/lib/api/fake-tour-api";
+
+/**
+ * 로컬 가짜 한국관광공사 API (KorService2) 엔드포인트
+ *
+ * TOUR_API_FAKE=true일 때만 동작하며, fixtures/tour-api의 픽스처로 응답합니다.
+ * TOUR_API_BASE_URL=http://localhost:3000/api/dev/tour-api 로 설정하면
+ * 클라이언트가 HTTP를 통해 이 라우트를 호출합니다.
+ * 국문 외 언어 요청은 경로에 서비스 이름이 붙습니다 (예: /EngService2/areaBasedList2).
+ *
+ * @example
+ * GET /api/dev/tour-api/areaBasedList2?areaCode=1&pageNo=1&numOfRows=10
+ * GET /api/dev/tour-api/detailCommon2?contentId=126508&fakeFailure=503
+ * GET /api/dev/tour-api/EngService2/areaBasedList2?areaCode=1
+ */
+export async function GET(request: Request) {
+  if (!isFakeTourApiEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  return getFakeTourApiServer().handle(request);
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { getSearchSuggestions } from "@/lib/api/suggest-api";
+import { TourApiAbortedError } from "@/lib/api/tour-api-errors";
+import { getPreferredLanguage } from "@/lib/utils/language-server";
+import { createLogger } from "@/lib/utils/logger";
+import { runInRequestContext } from "@/lib/utils/request-context-server";
+
+const logger = createLogger("api.search.suggest");
+
+/**
+ * 검색어 최대 길이 (그 이상은 잘라서 추천)
+ */
+const MAX_QUERY_LENGTH = 50;
+
+/**
+ * 검색어 추천 API (자동완성)
+ *
+ * 검색창(components/tour-search.tsx)에서 입력할 때마다 호출합니다.
+ * Server Action은 취소 신호를 받을 수 없어 Route Handler로 제공하며,
+ * 다음 글자를 입력해 요청을 취소(request.signal)하면 한국관광공사 API 요청도 함께 취소됩니다.
+ * 응답은 브라우저에서 1분 동안 재사용합니다 (언어 쿠키별로 달라지므로 private).
+ *
+ * @example
+ * GET /api/search/suggest?q=경복
+ */
+export async function GET(request: Request) {
+  const query = (new URL(request.url).searchParams.get("q") || "")
+    .trim()
+    .slice(0, MAX_QUERY_LENGTH);
+
+  return runInRequestContext(async () => {
+    try {
+      const lang = await getPreferredLanguage();
+      const result = await getSearchSuggestions(query, {
+        lang,
+        signal: request.signal,
+      });
+      return NextResponse.json(result, {
+        headers: { "Cache-Control": "private, max-age=60" },
+      });
+    } catch (error) {
+      if (error instanceof TourApiAbortedError) {
+        logger.debug("검색어 추천 취소", { query });
+        // 499: 응답 전에 클라이언트가 요청을 닫음 (응답은 전달되지 않음)
+        return new NextResponse(null, { status: 499 });
+      }
+      logger.error("검색어 추천 실패", { query, error });
+      return NextResponse.json(
+        { error: "Failed to load search suggestions" },
+        { status: 500 },
+      );
+    }
+  });
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { getAreaCode } from "@/lib/api/tour-api";
+import { TourApiAbortedError } from "@/lib/api/tour-api-errors";
+import { createLogger } from "@/lib/utils/logger";
+import { runInRequestContext } from "@/lib/utils/request-context-server";
+
+const logger = createLogger("api.tour.sigungu");
+
+/**
+ * 시/군/구 코드 조회 API
+ *
+ * 필터에서 시/도를 선택할 때 호출합니다 (components/tour-filters.tsx).
+ * Server Action은 취소 신호를 받을 수 없어 Route Handler로 제공하며,
+ * 사용자가 다른 시/도를 선택해 요청을 취소(request.signal)하면
+ * 한국관광공사 API 요청도 함께 취소됩니다.
+ *
+ * @example
+ * GET /api/tour/sigungu?areaCode=1
+ */
+export async function GET(request: Request) {
+  const areaCode = new URL(request.url).searchParams.get("areaCode");
+  if (!areaCode) {
+    return NextResponse.json(
+      { error: "areaCode is required" },
+      { status: 400 },
+    );
+  }
+
+  return runInRequestContext(async () => {
+    try {
+      const codes = await getAreaCode(areaCode, { signal: request.signal });
+      logger.debug("시/군/구 목록 조회", {
+        areaCode,
+        itemCount: codes.length,
+      });
+      return NextResponse.json(codes);
+    } catch (error) {
+      if (error instanceof TourApiAbortedError) {
+        logger.debug("시/군/구 목록 조회 취소", { areaCode });
+        // 499: 응답 전에 클라이언트가 요청을 닫음 (응답은 전달되지 않음)
+        return new NextResponse(null, { status: 499 });
+      }
+      logger.error("시/군/구 목록 조회 실패", { areaCode, error });
+      return NextResponse.json(
+        { error: "Failed to load sigungu codes" },
+        { status: 500 },
+      );
+    }
+  });
+}
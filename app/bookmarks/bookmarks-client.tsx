@@ -13,6 +13,7 @@
  * - lib/api/bookmark-api.ts: removeBookmark
  * - components/tour-list.tsx: 관광지 목록 컴포넌트
  * - components/tour-card.tsx: 관광지 카드 컴포넌트
+ * - lib/utils/place.ts: 수정일 정렬
  */
 
 "use client";
@@ -21,20 +22,21 @@ import { useState, useMemo, useCallback } from "react";
 import { Trash2, CheckSquare, Square } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { TourCard } from "@/components/tour-card";
-import type { TourItem } from "@/lib/types/tour";
+import type { Place } from "@/lib/types/place";
+import { comparePlacesByModified } from "@/lib/utils/place";
 import { removeBookmark } from "@/lib/api/bookmark-api";
 import { useRouter } from "next/navigation";
 import { cn } from "@/lib/utils";
 
 interface BookmarksClientProps {
-  initialTours: TourItem[];
+  initialTours: Place[];
 }
 
 type SortOption = "latest" | "name-asc" | "name-desc" | "area";
 
 export function BookmarksClient({ initialTours }: BookmarksClientProps) {
   const router = useRouter();
-  const [tours, setTours] = useState<TourItem[]>(initialTours);
+  const [tours, setTours] = useState<Place[]>(initialTours);
   const [sortOption, setSortOption] = useState<SortOption>("latest");
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [isDeleting, setIsDeleting] = useState(false);
@@ -51,17 +53,11 @@ export function BookmarksClient({ initialTours }: BookmarksClientProps) {
       case "area":
         return sorted.sort((a, b) => {
           // 주소의 첫 번째 부분(시/도)으로 정렬
-          const areaA = a.addr1.split(" ")[0] || "";
-          const areaB = b.addr1.split(" ")[0] || "";
-          return areaA.localeCompare(areaB, "ko");
+          return (a.region || "").localeCompare(b.region || "", "ko");
         });
       case "latest":
       default:
-        return sorted.sort((a, b) => {
-          const dateA = new Date(a.modifiedtime || 0);
-          const dateB = new Date(b.modifiedtime || 0);
-          return dateB.getTime() - dateA.getTime();
-        });
+        return sorted.sort(comparePlacesByModified);
     }
   }, [tours, sortOption]);
 
@@ -83,7 +79,7 @@ export function BookmarksClient({ initialTours }: BookmarksClientProps) {
     if (selectedIds.size === sortedTours.length) {
       setSelectedIds(new Set());
     } else {
-      setSelectedIds(new Set(sortedTours.map((tour) => tour.contentid)));
+      setSelectedIds(new Set(sortedTours.map((tour) => tour.id)));
     }
   }, [selectedIds.size, sortedTours]);
 
@@ -123,7 +119,7 @@ export function BookmarksClient({ initialTours }: BookmarksClientProps) {
 
       // 삭제된 항목 제거
       setTours((prev) =>
-        prev.filter((tour) => !selectedIds.has(tour.contentid)),
+        prev.filter((tour) => !selectedIds.has(tour.id)),
       );
       setSelectedIds(new Set());
 
@@ -149,7 +145,7 @@ export function BookmarksClient({ initialTours }: BookmarksClientProps) {
       const result = await removeBookmark(contentId);
 
       if (result.success) {
-        setTours((prev) => prev.filter((tour) => tour.contentid !== contentId));
+        setTours((prev) => prev.filter((tour) => tour.id !== contentId));
         router.refresh();
       } else {
         alert(result.error || "북마크 삭제에 실패했습니다.");
@@ -241,7 +237,7 @@ export function BookmarksClient({ initialTours }: BookmarksClientProps) {
 
 // 체크박스가 있는 TourList 컴포넌트
 interface TourListWithCheckboxProps {
-  tours: TourItem[];
+  tours: Place[];
   selectedIds: Set<string>;
   onToggleSelect: (contentId: string) => void;
 }
@@ -254,10 +250,10 @@ function TourListWithCheckbox({
   return (
     <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
       {tours.map((tour) => {
-        const isSelected = selectedIds.has(tour.contentid);
+        const isSelected = selectedIds.has(tour.id);
         return (
           <div
-            key={tour.contentid}
+            key={tour.id}
             className={cn(
               "relative rounded-xl border transition-all overflow-hidden",
               isSelected
@@ -271,7 +267,7 @@ function TourListWithCheckbox({
                 onClick={(e) => {
                   e.preventDefault();
                   e.stopPropagation();
-                  onToggleSelect(tour.contentid);
+                  onToggleSelect(tour.id);
                 }}
                 className={cn(
                   "rounded-md p-1.5 transition-colors shadow-md",
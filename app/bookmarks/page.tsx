@@ -13,7 +13,10 @@
  * @dependencies
  * - lib/api/bookmark-api.ts: getUserBookmarks, removeBookmark
  * - lib/api/tour-api.ts: getTourDetail
+ * - lib/utils/place.ts: 상세 정보 → Place 변환
  * - components/tour-list.tsx: 관광지 목록 컴포넌트
+ * - lib/utils/logger.ts: 구조화 로거
+ * - lib/utils/request-context-server.ts: 요청 컨텍스트 (상관관계 ID)
  */
 
 import { redirect } from "next/navigation";
@@ -21,9 +24,14 @@ import { auth } from "@clerk/nextjs/server";
 import { BookmarksClient } from "./bookmarks-client";
 import { getUserBookmarks } from "@/lib/api/bookmark-api";
 import { getTourDetail } from "@/lib/api/tour-api";
-import type { TourItem } from "@/lib/types/tour";
+import type { Place } from "@/lib/types/place";
+import { createLogger } from "@/lib/utils/logger";
+import { parseTourApiDate, toPlaceFromDetail } from "@/lib/utils/place";
+import { withRequestContext } from "@/lib/utils/request-context-server";
 
-export default async function BookmarksPage() {
+const logger = createLogger("page.bookmarks");
+
+async function BookmarksPage() {
   // 인증 확인
   const authResult = await auth();
   if (!authResult.userId) {
@@ -31,8 +39,6 @@ export default async function BookmarksPage() {
   }
 
   try {
-    console.log("[BookmarksPage] 북마크 목록 로드 시작");
-
     // 북마크 목록 조회
     const result = await getUserBookmarks();
     if (!result.success || !result.bookmarks) {
@@ -42,47 +48,36 @@ export default async function BookmarksPage() {
     }
 
     const bookmarks = result.bookmarks;
-    console.log("[BookmarksPage] 북마크 개수:", bookmarks.length);
 
     // 각 contentId에 대해 관광지 상세 정보 가져오기
     const tourPromises = bookmarks.map(async (bookmark) => {
       const contentId = bookmark.contentId;
       try {
         const detail = await getTourDetail(contentId);
-        // TourItem 형태로 변환 (북마크 생성일을 modifiedtime으로 사용)
-        const tourItem: TourItem = {
-          contentid: detail.contentid,
-          contenttypeid: detail.contenttypeid,
-          title: detail.title,
-          addr1: detail.addr1,
-          addr2: detail.addr2,
-          areacode: "", // 상세 정보에는 없음
-          mapx: detail.mapx,
-          mapy: detail.mapy,
-          firstimage: detail.firstimage,
-          firstimage2: detail.firstimage2,
-          tel: detail.tel,
-          modifiedtime: bookmark.createdAt || new Date().toISOString(),
+        // 북마크 생성일을 수정일로 사용 (최신순 정렬 기준)
+        const place: Place = {
+          ...toPlaceFromDetail(detail),
+          modifiedAt: parseTourApiDate(bookmark.createdAt) || new Date(),
         };
-        return tourItem;
+        return place;
       } catch (error) {
-        console.error(
-          `[BookmarksPage] 관광지 ${contentId} 정보 로드 실패:`,
-          error,
-        );
+        logger.error("관광지 정보 로드 실패", { contentId, error });
         return null;
       }
     });
 
     const tours = (await Promise.all(tourPromises)).filter(
-      (tour): tour is TourItem => tour !== null,
+      (tour): tour is Place => tour !== null,
     );
 
-    console.log("[BookmarksPage] 관광지 정보 로드 완료:", tours.length, "개");
+    logger.info("북마크 목록 로드 완료", {
+      bookmarkCount: bookmarks.length,
+      placeCount: tours.length,
+    });
 
     return <BookmarksClient initialTours={tours} />;
   } catch (error) {
-    console.error("[BookmarksPage] 오류 발생:", error);
+    logger.error("북마크 목록 로드 실패", { error });
     return (
       <main className="container mx-auto px-4 py-8">
         <div className="text-center py-16">
@@ -96,3 +91,5 @@ export default async function BookmarksPage() {
     );
   }
 }
+
+export default withRequestContext(BookmarksPage);
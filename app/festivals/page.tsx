@@ -0,0 +1,230 @@
+/**
+ * @file app/festivals/page.tsx
+ * @description 축제/행사 검색 페이지
+ *
+ * searchFestival2 API로 기간 내 열리는 축제/행사를 조회하는 페이지입니다.
+ *
+ * 주요 기능:
+ * 1. 기간 프리셋 (이번 주말 / 이번 달 / 직접 선택)
+ * 2. 지역 필터
+ * 3. 축제 카드 목록 (행사 기간, 진행중/예정/종료 뱃지)
+ * 4. 페이지네이션
+ * 5. 콘텐츠 언어 (Navbar에서 선택한 언어의 서비스로 조회)
+ *
+ * URL Query:
+ * - preset: weekend | month | custom (기본: month)
+ * - start, end: 직접 선택 기간 (YYYYMMDD, preset=custom일 때)
+ * - areaCode: 지역코드
+ * - page: 페이지 번호
+ *
+ * @dependencies
+ * - lib/api/tour-api.ts: searchFestival, getAreaCode
+ * - components/ui/stale-data-banner.tsx: API 장애 시 최신 데이터 안내 배너
+ * - lib/utils/festival.ts: 기간 프리셋 계산
+ * - components/festivals/*: 축제 카드, 필터
+ * - lib/utils/language-server.ts: 선택한 콘텐츠 언어
+ * - lib/utils/place.ts: 축제 목록 항목 → Place 변환
+ * - lib/utils/logger.ts: 구조화 로거
+ * - lib/utils/request-context-server.ts: 요청 컨텍스트 (상관관계 ID)
+ */
+
+import type { Metadata } from "next";
+import { PartyPopper } from "lucide-react";
+import { FestivalCard } from "@/components/festivals/festival-card";
+import { FestivalFilters } from "@/components/festivals/festival-filters";
+import { TourPagination } from "@/components/tour-pagination";
+import { Error } from "@/components/ui/error";
+import { StaleDataBanner } from "@/components/ui/stale-data-banner";
+import { getAreaCode, searchFestival } from "@/lib/api/tour-api";
+import { isServingStaleTourData } from "@/lib/api/tour-api-client";
+import {
+  formatYmd,
+  getFestivalPresetRange,
+  toYmd,
+  type FestivalPreset,
+} from "@/lib/utils/festival";
+import { formatApiError, isRetryableError } from "@/lib/utils/error-handler";
+import { getPreferredLanguage } from "@/lib/utils/language-server";
+import { createLogger } from "@/lib/utils/logger";
+import { toPlace } from "@/lib/utils/place";
+import { withRequestContext } from "@/lib/utils/request-context-server";
+
+export const metadata: Metadata = {
+  title: "축제·행사 | JLG Trip",
+  description: "이번 주말, 이번 달 전국에서 열리는 축제와 행사를 확인하세요.",
+};
+
+const logger = createLogger("page.festivals");
+
+interface FestivalsPageProps {
+  searchParams: Promise<{
+    preset?: string;
+    start?: string; // 직접 선택 시작일 (YYYYMMDD)
+    end?: string; // 직접 선택 종료일 (YYYYMMDD)
+    areaCode?: string;
+    page?: string;
+  }>;
+}
+
+/**
+ * URL Query에서 조회 기간 결정
+ * 직접 선택 기간이 올바르지 않으면 이번 달로 대체합니다.
+ */
+function resolveRange(params: {
+  preset?: string;
+  start?: string;
+  end?: string;
+}): { preset: FestivalPreset; start: string; end: string } {
+  if (params.preset === "custom" && /^\d{8}$/.test(params.start || "")) {
+    const start = params.start as string;
+    const end =
+      params.end && /^\d{8}$/.test(params.end) && params.end >= start
+        ? params.end
+        : "";
+    return { preset: "custom", start, end };
+  }
+
+  const preset = params.preset === "weekend" ? "weekend" : "month";
+  return { preset, ...getFestivalPresetRange(preset) };
+}
+
+async function FestivalsPage({
+  searchParams,
+}: FestivalsPageProps) {
+  const params = await searchParams;
+  const { preset, start, end } = resolveRange(params);
+  const areaCode = params.areaCode;
+  const page = parseInt(params.page || "1", 10) || 1;
+  const numOfRows = 20;
+  const today = toYmd(new Date());
+  const lang = await getPreferredLanguage();
+
+  try {
+    // 지역코드 목록 (필터용, 실패해도 페이지는 표시)
+    let areaCodes: Awaited<ReturnType<typeof getAreaCode>> = [];
+    try {
+      areaCodes = await getAreaCode(undefined, { lang });
+    } catch (error) {
+      logger.warn("지역코드 로드 실패", { lang, error });
+    }
+
+    const result = await searchFestival(
+      start,
+      end || undefined,
+      areaCode,
+      page,
+      numOfRows,
+      { lang },
+    );
+    const festivals = result.items.map((item) => toPlace(item));
+    const totalPages = Math.ceil(result.totalCount / result.numOfRows);
+
+    logger.info("축제 목록 로드 완료", {
+      preset,
+      start,
+      end,
+      areaCode,
+      page,
+      lang,
+      itemCount: festivals.length,
+      totalCount: result.totalCount,
+    });
+
+    return (
+      <main className="container mx-auto px-4 py-8 max-w-7xl">
+        {/* API 장애로 마지막 캐시 응답을 보여주는 경우 */}
+        {isServingStaleTourData() && (
+          <StaleDataBanner className="mb-6 rounded-md border" />
+        )}
+
+        {/* 헤더 */}
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-3">
+            <div className="p-2 rounded-lg bg-primary/10">
+              <PartyPopper className="h-8 w-8 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-4xl font-bold bg-gradient-to-r from-primary to-primary/60 bg-clip-text text-transparent">
+                축제·행사
+              </h1>
+            </div>
+          </div>
+          <p className="text-muted-foreground text-lg ml-14">
+            전국에서 열리는 축제와 행사를 기간별로 찾아보세요.
+          </p>
+        </div>
+
+        {/* 필터 */}
+        <FestivalFilters
+          key={`${preset}-${start}-${end}`}
+          preset={preset}
+          start={start}
+          end={end}
+          areaCodes={areaCodes}
+          className="mb-6"
+        />
+
+        {/* 결과 개수 */}
+        <p className="mb-4 text-sm text-muted-foreground">
+          {formatYmd(start)}
+          {end ? ` ~ ${formatYmd(end)}` : " 이후"} 기간의 축제{" "}
+          <span className="font-medium text-foreground">
+            {result.totalCount.toLocaleString()}개
+          </span>
+        </p>
+
+        {/* 축제 목록 */}
+        {festivals.length > 0 ? (
+          <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
+            {festivals.map((festival) => (
+              <FestivalCard
+                key={festival.id}
+                festival={festival}
+                today={today}
+              />
+            ))}
+          </div>
+        ) : (
+          <div className="flex flex-col items-center justify-center rounded-lg border border-dashed py-16 text-center">
+            <PartyPopper className="mb-4 h-12 w-12 text-muted-foreground/40" />
+            <p className="text-muted-foreground">
+              해당 기간에 열리는 축제가 없습니다.
+            </p>
+          </div>
+        )}
+
+        {/* 페이지네이션 */}
+        {totalPages > 1 && (
+          <div className="mt-8">
+            <TourPagination
+              currentPage={page}
+              totalPages={totalPages}
+              basePath="/festivals"
+            />
+          </div>
+        )}
+      </main>
+    );
+  } catch (error: unknown) {
+    logger.error("축제 목록 로드 실패", {
+      preset,
+      start,
+      end,
+      areaCode,
+      error,
+    });
+    const errorMessage = formatApiError(error);
+    const query = new URLSearchParams(params as Record<string, string>);
+    const retryHref = isRetryableError(error)
+      ? `/festivals?${query.toString()}`
+      : undefined;
+
+    return (
+      <main className="container mx-auto px-4 py-8">
+        <Error message={errorMessage} retryHref={retryHref} />
+      </main>
+    );
+  }
+}
+
+export default withRequestContext(FestivalsPage);
@@ -6,13 +6,26 @@
  *
  * 주요 기능:
  * 1. 관광지 목록 표시 (기본: 전체 목록 또는 서울 지역)
- * 2. 필터 기능 (지역, 관광 타입)
- * 3. 검색 기능
+ * 2. 필터 기능 (지역, 관광 타입, 분류 cat1/cat2/cat3)
+ * 3. 검색 기능 (카탈로그를 사용하면 관련도순 검색, 검색어 일치 구간 강조)
  * 4. 지도 연동 (향후 구현)
+ * 5. 내 주변 모드 (lat, lng, radius 쿼리 → locationBasedList2, 거리순)
+ * 6. 콘텐츠 언어 (Navbar에서 선택한 언어의 서비스로 조회)
+ * 7. 관광지 카탈로그 (TOUR_CATALOG=on이면 한국어 지역 기반 목록을 Supabase에서 조회,
+ *    반려동물/주차 필터가 전체 목록에 적용되고 실패하면 API로 조회)
  *
  * @dependencies
  * - components/tour-list.tsx: 관광지 목록 컴포넌트
  * - lib/api/tour-api.ts: 한국관광공사 API 함수들
+ * - lib/api/category-api.ts: 분류 트리, 분류명 변환
+ * - lib/api/tour-catalog.ts: 관광지 카탈로그 목록 조회
+ * - lib/api/search-api.ts: 키워드 검색 (카탈로그 우선, API 대체)
+ * - components/ui/stale-data-banner.tsx: API 장애 시 최신 데이터 안내 배너
+ * - lib/utils/language-server.ts: 선택한 콘텐츠 언어
+ * - lib/utils/tour-intro.ts: 타입별 소개 정보의 주차/반려동물 정보, 가능 여부 판단
+ * - lib/utils/place.ts: 목록 항목 → Place 변환
+ * - lib/utils/logger.ts: 구조화 로거
+ * - lib/utils/request-context-server.ts: 요청 컨텍스트 (상관관계 ID)
  */
 
 import type { Metadata } from "next";
@@ -22,15 +35,44 @@ import { TourFilters } from "@/components/tour-filters";
 import { TourSort } from "@/components/tour-sort";
 import { TourPagination } from "@/components/tour-pagination";
 import { Error } from "@/components/ui/error";
+import { StaleDataBanner } from "@/components/ui/stale-data-banner";
 import {
   getAreaBasedList,
   getAreaCode,
-  searchKeyword,
+  getLocationBasedList,
   getTourIntro,
   getPetTourInfo,
 } from "@/lib/api/tour-api";
-import type { TourItem } from "@/lib/types/tour";
-import { formatApiError } from "@/lib/utils/error-handler";
+import {
+  buildCategoryNameMap,
+  getCategoryPath,
+  getCategoryTree,
+} from "@/lib/api/category-api";
+import { searchTours } from "@/lib/api/search-api";
+import { isServingStaleTourData } from "@/lib/api/tour-api-client";
+import {
+  isTourCatalogEnabled,
+  queryTourCatalog,
+} from "@/lib/api/tour-catalog";
+import {
+  CONTENT_TYPE,
+  type CategoryFilter,
+  type CategoryNode,
+  type ContentTypeId,
+  type PagedResult,
+  type TourItem,
+} from "@/lib/types/tour";
+import { formatApiError, isRetryableError } from "@/lib/utils/error-handler";
+import { getPreferredLanguage } from "@/lib/utils/language-server";
+import { createLogger } from "@/lib/utils/logger";
+import { comparePlacesByModified, toPlace } from "@/lib/utils/place";
+import { withRequestContext } from "@/lib/utils/request-context-server";
+import {
+  getTourIntroSummary,
+  isChkpetAllowed,
+  isParkingAvailable,
+  isPetLeashAllowed,
+} from "@/lib/utils/tour-intro";
 
 export const metadata: Metadata = {
   title: "한국 관광지 검색",
@@ -44,30 +86,20 @@ export const metadata: Metadata = {
   },
 };
 
+const logger = createLogger("page.home");
+
 /**
- * 날짜 문자열을 파싱하여 Date 객체로 변환합니다.
- * 유효하지 않은 날짜 형식도 처리합니다.
+ * 반경(m)을 표시용 문자열로 변환 (예: 500m, 3km)
  */
-function parseDate(dateString: string): Date {
-  if (!dateString || dateString.trim() === "") {
-    return new Date(NaN);
-  }
-
-  // 일반적인 날짜 형식 시도
-  const date = new Date(dateString);
-
-  // 유효하지 않은 경우 다른 형식 시도
-  if (isNaN(date.getTime())) {
-    // YYYYMMDD 형식인 경우
-    if (/^\d{8}$/.test(dateString)) {
-      const year = parseInt(dateString.substring(0, 4), 10);
-      const month = parseInt(dateString.substring(4, 6), 10) - 1;
-      const day = parseInt(dateString.substring(6, 8), 10);
-      return new Date(year, month, day);
-    }
-  }
+function formatRadius(meters: number): string {
+  return meters >= 1000 ? `${meters / 1000}km` : `${meters}m`;
+}
 
-  return date;
+/**
+ * 지원하는 관광 타입 ID인지 확인 (CONTENT_TYPE 값)
+ */
+function isContentTypeId(value: string | undefined): value is ContentTypeId {
+  return (Object.values(CONTENT_TYPE) as string[]).includes(value ?? "");
 }
 
 interface HomePageProps {
@@ -75,82 +107,151 @@ interface HomePageProps {
     areaCode?: string;
     sigunguCode?: string;
     contentTypeId?: string;
+    cat1?: string; // 대분류
+    cat2?: string; // 중분류
+    cat3?: string; // 소분류
     keyword?: string;
     page?: string;
     sort?: string;
     petFriendly?: string;
     parkingAvailable?: string;
+    lat?: string; // 내 주변 모드: 위도
+    lng?: string; // 내 주변 모드: 경도
+    radius?: string; // 내 주변 모드: 반경 (m)
   }>;
 }
 
-export default async function HomePage({ searchParams }: HomePageProps) {
+async function HomePage({ searchParams }: HomePageProps) {
   const params = await searchParams;
   const areaCode = params.areaCode;
   const sigunguCode = params.sigunguCode;
-  const contentTypeId = params.contentTypeId;
+  // 지원하지 않는 관광 타입은 필터 없이 조회
+  const contentTypeId = isContentTypeId(params.contentTypeId)
+    ? params.contentTypeId
+    : undefined;
+  const category: CategoryFilter = {
+    cat1: params.cat1,
+    cat2: params.cat2,
+    cat3: params.cat3,
+  };
   const keyword = params.keyword;
   const page = parseInt(params.page || "1", 10);
-  const sort = (params.sort || "latest") as "latest" | "name-asc" | "name-desc";
+  const lat = params.lat ? parseFloat(params.lat) : NaN;
+  const lng = params.lng ? parseFloat(params.lng) : NaN;
+  const isNearby = Number.isFinite(lat) && Number.isFinite(lng);
+  const radius = parseInt(params.radius || "3000", 10) || 3000;
+  const isKeywordSearch = !!keyword && keyword.trim() !== "";
+  // 내 주변 모드는 거리순, 키워드 검색은 관련도순(검색 결과 순서)이 기본값
+  const sort = (params.sort ||
+    (isNearby ? "distance" : isKeywordSearch ? "relevance" : "latest")) as
+    | "latest"
+    | "name-asc"
+    | "name-desc"
+    | "distance"
+    | "relevance";
   const petFriendly = params.petFriendly === "true";
   const parkingAvailable = params.parkingAvailable === "true";
   const numOfRows = 20;
+  // 콘텐츠 언어 (모든 관광 정보 요청에 적용)
+  const lang = await getPreferredLanguage();
+  const callOptions = { lang };
 
   try {
     // 지역코드 목록 가져오기 (필터 컴포넌트용)
     let areaCodes: Awaited<ReturnType<typeof getAreaCode>> = [];
     try {
-      areaCodes = await getAreaCode();
-      console.log("[HomePage] 지역코드 로드 완료:", areaCodes.length, "개");
+      areaCodes = await getAreaCode(undefined, callOptions);
     } catch (error) {
-      console.warn("[HomePage] 지역코드 로드 실패, 기본값 사용:", error);
+      logger.warn("지역코드 로드 실패, 기본값 사용", { lang, error });
       // 기본값은 TourFilters 컴포넌트에서 처리
     }
 
+    // 분류 트리 가져오기 (분류 필터, 분류명 표시용)
+    let categoryTree: CategoryNode[] = [];
+    try {
+      categoryTree = await getCategoryTree(callOptions);
+    } catch (error) {
+      logger.warn("분류 트리 로드 실패, 분류 필터 숨김", { lang, error });
+    }
+
     // 관광지 목록 가져오기 (키워드가 있으면 검색, 없으면 지역 기반)
-    let tours: TourItem[];
-    if (keyword && keyword.trim() !== "") {
-      console.log("[HomePage] 키워드 검색 실행:", keyword);
-      tours = await searchKeyword(
-        keyword,
-        areaCode || undefined,
-        contentTypeId as any,
-        page,
-        numOfRows,
-      );
-    } else {
-      console.log("[HomePage] 지역 기반 목록 조회", {
-        areaCode,
-        sigunguCode,
-        contentTypeId,
-      });
-      tours = await getAreaBasedList(
-        areaCode || undefined,
-        sigunguCode || undefined,
-        contentTypeId as any,
-        page,
-        numOfRows,
-      );
+    // 한국어 지역 기반 목록은 카탈로그가 켜져 있으면 카탈로그에서 조회
+    let result: PagedResult<TourItem> | null = null;
+    let fromCatalog = false;
+    let searchSource: "catalog" | "api" | undefined;
+    if (
+      !isNearby &&
+      !isKeywordSearch &&
+      lang === "ko" &&
+      isTourCatalogEnabled()
+    ) {
+      try {
+        result = await queryTourCatalog({
+          areaCode: areaCode || undefined,
+          sigunguCode: sigunguCode || undefined,
+          contentTypeId,
+          category,
+          petFriendly,
+          parkingAvailable,
+          sort: sort === "distance" || sort === "relevance" ? "latest" : sort,
+          pageNo: page,
+          numOfRows,
+        });
+        fromCatalog = true;
+      } catch (error) {
+        logger.warn("카탈로그 조회 실패, API로 조회", { error });
+      }
     }
 
-    // 반려동물 필터링 (petFriendly가 true인 경우)
-    if (petFriendly) {
-      console.log(
-        "[HomePage] 반려동물 필터링 시작:",
-        tours.length,
-        "개 관광지 확인",
-      );
+    // 카탈로그를 사용하지 않거나 조회에 실패하면 API로 조회
+    if (!result) {
+      if (isNearby) {
+        result = await getLocationBasedList(
+          lat,
+          lng,
+          radius,
+          contentTypeId,
+          page,
+          numOfRows,
+          callOptions,
+        );
+      } else if (isKeywordSearch) {
+        // 카탈로그를 사용하면 띄어쓰기·오타·로마자도 찾는 관련도순 검색
+        const searchResult = await searchTours(
+          keyword,
+          areaCode || undefined,
+          contentTypeId,
+          category,
+          page,
+          numOfRows,
+          callOptions,
+        );
+        result = searchResult;
+        searchSource = searchResult.source;
+      } else {
+        result = await getAreaBasedList(
+          areaCode || undefined,
+          sigunguCode || undefined,
+          contentTypeId,
+          category,
+          page,
+          numOfRows,
+          callOptions,
+        );
+      }
+    }
+    let tours = result.items;
 
+    // 반려동물 필터링 (petFriendly가 true인 경우, 카탈로그는 SQL에서 필터링함)
+    if (petFriendly && !fromCatalog) {
       // 각 관광지의 반려동물 정보 확인 (병렬 처리)
       const petInfoResults = await Promise.allSettled(
         tours.map(async (tour) => {
           try {
             // 먼저 detailPetTour2 API로 확인
-            const petInfo = await getPetTourInfo(tour.contentid);
+            const petInfo = await getPetTourInfo(tour.contentid, callOptions);
             if (petInfo?.chkpetleash) {
-              const isAllowed =
-                petInfo.chkpetleash === "가능" ||
-                petInfo.chkpetleash === "Y" ||
-                petInfo.chkpetleash === "가능함";
+              const isAllowed = isPetLeashAllowed(petInfo.chkpetleash);
               // 반려동물 정보를 TourItem에 추가
               const tourWithPetInfo: TourItem = {
                 ...tour,
@@ -167,17 +268,11 @@ export default async function HomePage({ searchParams }: HomePageProps) {
             const intro = await getTourIntro(
               tour.contentid,
               tour.contenttypeid,
+              callOptions,
             );
-            if (intro?.chkpet) {
-              const isAllowed =
-                intro.chkpet === "Y" ||
-                intro.chkpet === "y" ||
-                intro.chkpet === "가능" ||
-                intro.chkpet === "있음" ||
-                intro.chkpet === "있습니다" ||
-                intro.chkpet === "OK" ||
-                intro.chkpet === "ok" ||
-                intro.chkpet === "O";
+            const chkpet = intro ? getTourIntroSummary(intro).chkpet : "";
+            if (chkpet) {
+              const isAllowed = isChkpetAllowed(chkpet);
               // detailIntro2의 정보로 간단한 PetTourInfo 생성
               const tourWithPetInfo: TourItem = {
                 ...tour,
@@ -185,7 +280,7 @@ export default async function HomePage({ searchParams }: HomePageProps) {
                   ? {
                       contentid: tour.contentid,
                       contenttypeid: tour.contenttypeid,
-                      chkpetleash: intro.chkpet,
+                      chkpetleash: chkpet,
                     }
                   : undefined,
               };
@@ -198,10 +293,10 @@ export default async function HomePage({ searchParams }: HomePageProps) {
 
             return { tour, isPetAllowed: false, source: "none" };
           } catch (error) {
-            console.warn(
-              `[HomePage] 반려동물 정보 확인 실패 (${tour.contentid}):`,
+            logger.warn("반려동물 정보 확인 실패", {
+              contentId: tour.contentid,
               error,
-            );
+            });
             return { tour, isPetAllowed: false, source: "error" };
           }
         }),
@@ -218,22 +313,16 @@ export default async function HomePage({ searchParams }: HomePageProps) {
         )
         .filter((tour): tour is TourItem => tour !== null);
 
-      console.log("[HomePage] 반려동물 필터링 완료:", {
-        원본: tours.length,
-        필터링후: filteredTours.length,
+      logger.debug("반려동물 필터링 완료", {
+        itemCount: tours.length,
+        filteredCount: filteredTours.length,
       });
 
       tours = filteredTours;
     }
 
-    // 주차 가능 필터링 (parkingAvailable이 true인 경우)
-    if (parkingAvailable) {
-      console.log(
-        "[HomePage] 주차 가능 필터링 시작:",
-        tours.length,
-        "개 관광지 확인",
-      );
-
+    // 주차 가능 필터링 (parkingAvailable이 true인 경우, 카탈로그는 SQL에서 필터링함)
+    if (parkingAvailable && !fromCatalog) {
       // 각 관광지의 주차 정보 확인 (병렬 처리)
       const parkingInfoResults = await Promise.allSettled(
         tours.map(async (tour) => {
@@ -241,36 +330,25 @@ export default async function HomePage({ searchParams }: HomePageProps) {
             const intro = await getTourIntro(
               tour.contentid,
               tour.contenttypeid,
+              callOptions,
             );
 
             // 주차 정보 확인
-            if (intro?.parking) {
-              const parkingInfo = intro.parking.trim().toLowerCase();
-              // 주차 가능한 경우를 판단하는 로직
-              const isAvailable =
-                parkingInfo !== "" &&
-                parkingInfo !== "없음" &&
-                parkingInfo !== "불가" &&
-                parkingInfo !== "불가능" &&
-                parkingInfo !== "없습니다" &&
-                parkingInfo !== "n" &&
-                parkingInfo !== "no" &&
-                !parkingInfo.includes("불가") &&
-                !parkingInfo.includes("없음");
-
+            const parking = intro ? getTourIntroSummary(intro).parking : "";
+            if (parking) {
               return {
                 tour,
-                isParkingAvailable: isAvailable,
-                parkingInfo: intro.parking,
+                isParkingAvailable: isParkingAvailable(parking),
+                parkingInfo: parking,
               };
             }
 
             return { tour, isParkingAvailable: false, parkingInfo: null };
           } catch (error) {
-            console.warn(
-              `[HomePage] 주차 정보 확인 실패 (${tour.contentid}):`,
+            logger.warn("주차 정보 확인 실패", {
+              contentId: tour.contentid,
               error,
-            );
+            });
             return { tour, isParkingAvailable: false, parkingInfo: null };
           }
         }),
@@ -287,54 +365,82 @@ export default async function HomePage({ searchParams }: HomePageProps) {
         )
         .filter((tour): tour is TourItem => tour !== null);
 
-      console.log("[HomePage] 주차 가능 필터링 완료:", {
-        원본: tours.length,
-        필터링후: filteredTours.length,
+      logger.debug("주차 가능 필터링 완료", {
+        itemCount: tours.length,
+        filteredCount: filteredTours.length,
       });
 
       tours = filteredTours;
     }
 
-    // 정렬 처리 (클라이언트 사이드)
-    if (sort === "name-asc") {
-      tours = [...tours].sort((a, b) => a.title.localeCompare(b.title, "ko"));
+    // 도메인 모델로 변환 (분류 코드 cat1/cat2/cat3 → 분류명 경로, 검색어 일치 구간)
+    const categoryNames = buildCategoryNameMap(categoryTree);
+    let places = tours.map((tour) =>
+      toPlace(tour, {
+        categoryPath: getCategoryPath(categoryNames, tour),
+        searchKeyword: isKeywordSearch ? keyword : undefined,
+      }),
+    );
+
+    // 정렬 처리 (클라이언트 사이드, 관련도순은 검색 결과 순서 유지)
+    if (sort === "distance") {
+      // 거리순 (locationBasedList2 응답 순서 유지, 거리가 없으면 그대로)
+      places = [...places].sort(
+        (a, b) => (a.distanceMeters ?? 0) - (b.distanceMeters ?? 0),
+      );
+    } else if (sort === "name-asc") {
+      places = [...places].sort((a, b) => a.title.localeCompare(b.title, "ko"));
     } else if (sort === "name-desc") {
-      tours = [...tours].sort((a, b) => b.title.localeCompare(a.title, "ko"));
-    } else {
-      // 최신순 (modifiedtime 기준 내림차순)
-      tours = [...tours].sort((a, b) => {
-        const dateA = parseDate(a.modifiedtime);
-        const dateB = parseDate(b.modifiedtime);
-        // 유효하지 않은 날짜는 뒤로
-        if (isNaN(dateA.getTime()) && isNaN(dateB.getTime())) return 0;
-        if (isNaN(dateA.getTime())) return 1;
-        if (isNaN(dateB.getTime())) return -1;
-        return dateB.getTime() - dateA.getTime();
-      });
+      places = [...places].sort((a, b) => b.title.localeCompare(a.title, "ko"));
+    } else if (sort !== "relevance") {
+      // 최신순 (수정일 내림차순, 수정일이 없으면 뒤로)
+      places = [...places].sort(comparePlacesByModified);
     }
 
-    // 페이지네이션 계산
-    // 현재 페이지의 데이터 개수가 numOfRows보다 적으면 마지막 페이지로 간주
-    const hasMore = tours.length >= numOfRows;
-    const totalPages = hasMore ? page + 1 : page; // 정확하지 않지만 대략적인 값
-
-    console.log("[HomePage] 관광지 목록 로드:", {
+    // 페이지네이션 계산 (API의 totalCount 기준)
+    // API 조회 시 반려동물/주차 필터는 현재 페이지 안에서만 적용되므로 전체 페이지 수에 영향 없음
+    // (카탈로그는 필터를 적용한 totalCount를 반환)
+    const totalCount = result.totalCount;
+    const totalPages = Math.max(1, Math.ceil(totalCount / result.numOfRows));
+    const rangeStart =
+      result.items.length > 0 ? (result.pageNo - 1) * result.numOfRows + 1 : 0;
+    const rangeEnd =
+      result.items.length > 0 ? rangeStart + result.items.length - 1 : 0;
+    const isFiltered = (petFriendly || parkingAvailable) && !fromCatalog;
+
+    logger.info("관광지 목록 로드 완료", {
       areaCode,
+      sigunguCode,
       contentTypeId,
+      category,
       keyword,
       page,
       sort,
+      lang,
       petFriendly,
       parkingAvailable,
-      count: tours.length,
+      radius: isNearby ? radius : undefined,
+      itemCount: places.length,
+      totalCount,
       totalPages,
-      method: keyword ? "searchKeyword" : "areaBasedList",
+      method: fromCatalog
+        ? "catalog"
+        : isNearby
+          ? "locationBasedList"
+          : searchSource === "catalog"
+            ? "catalogSearch"
+            : keyword
+              ? "searchKeyword"
+              : "areaBasedList",
     });
 
     return (
       <main className="min-h-screen">
+        {/* API 장애로 마지막 캐시 응답을 보여주는 경우 */}
+        {isServingStaleTourData() && <StaleDataBanner />}
+
         {/* 히어로 섹션 (선택 사항) */}
-        {!keyword && !areaCode && !contentTypeId && (
+        {!keyword && !areaCode && !contentTypeId && !isNearby && (
           <section className="bg-gradient-to-br from-primary/10 via-background to-background py-12 md:py-16">
             <div className="container mx-auto px-4">
               <div className="text-center mb-8">
@@ -352,18 +458,39 @@ export default async function HomePage({ searchParams }: HomePageProps) {
         <div className="container mx-auto px-4 py-8">
           {/* 필터 컴포넌트 */}
           <div className="mb-6 sticky top-16 z-40 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 border-b pb-4 -mx-4 px-4">
-            <TourFilters areaCodes={areaCodes} />
+            <TourFilters areaCodes={areaCodes} categories={categoryTree} />
           </div>
 
           {/* 정렬 및 결과 개수 */}
           <div className="mb-6 flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
             <div className="text-sm text-muted-foreground">
-              {(areaCode || contentTypeId || keyword) && (
+              {(areaCode || contentTypeId || keyword || isNearby) && (
                 <>
+                  {isNearby && (
+                    <span className="mr-1">
+                      내 주변 {formatRadius(radius)} 안에서
+                    </span>
+                  )}
                   <span className="font-medium text-foreground">
-                    {tours.length}개
+                    {totalCount.toLocaleString()}개
                   </span>
+                  {rangeStart > 0 && (
+                    <>
+                      {" "}
+                      중 {rangeStart.toLocaleString()}–
+                      {rangeEnd.toLocaleString()}
+                    </>
+                  )}
                   의 관광지가 검색되었습니다.
+                  {isFiltered && (
+                    <span className="ml-2">
+                      (필터 적용 후{" "}
+                      <span className="font-medium text-foreground">
+                        {places.length}개
+                      </span>
+                      )
+                    </span>
+                  )}
                   {keyword && (
                     <span className="ml-2">
                       검색어: &quot;
@@ -375,15 +502,27 @@ export default async function HomePage({ searchParams }: HomePageProps) {
                   )}
                 </>
               )}
-              {!areaCode && !contentTypeId && !keyword && (
-                <span>전국의 관광지를 둘러보세요</span>
+              {!areaCode && !contentTypeId && !keyword && !isNearby && (
+                <span>
+                  전국의 관광지를 둘러보세요
+                  {rangeStart > 0 && (
+                    <span className="ml-2">
+                      (
+                      <span className="font-medium text-foreground">
+                        {totalCount.toLocaleString()}개
+                      </span>{" "}
+                      중 {rangeStart.toLocaleString()}–
+                      {rangeEnd.toLocaleString()})
+                    </span>
+                  )}
+                </span>
               )}
             </div>
             <TourSort />
           </div>
 
           {/* 관광지 목록 및 지도 */}
-          <TourMapView tours={tours} />
+          <TourMapView tours={places} />
 
           {/* 페이지네이션 */}
           {totalPages > 1 && (
@@ -395,13 +534,18 @@ export default async function HomePage({ searchParams }: HomePageProps) {
       </main>
     );
   } catch (error: unknown) {
-    console.error("[HomePage] API 호출 오류:", error);
+    logger.error("관광지 목록 로드 실패", { keyword, areaCode, error });
     const errorMessage = formatApiError(error);
+    const retryHref = isRetryableError(error)
+      ? `/?${new URLSearchParams(params as Record<string, string>).toString()}`
+      : undefined;
 
     return (
       <main className="container mx-auto px-4 py-8">
-        <Error message={errorMessage} />
+        <Error message={errorMessage} retryHref={retryHref} />
       </main>
     );
   }
 }
+
+export default withRequestContext(HomePage);
@@ -10,61 +10,160 @@
  * 3. 이미지 갤러리
  * 4. 지도 표시 (향후 구현)
  * 5. 공유 기능
+ * 6. 반복 정보 (숙박: 객실 정보, 여행코스: 코스 일정 + 지도 경로, 그 외: 이용 안내)
+ * 7. 콘텐츠 언어 (선택한 언어 서비스에 없는 콘텐츠 ID는 한국어로 표시)
  *
  * @dependencies
- * - lib/api/tour-api.ts: getTourDetail, getTourIntro, getTourImages
+ * - lib/api/tour-api.ts: getTourDetail, getTourIntro, getTourImages,
+ *   getTourRepeatInfo
  * - components/tour-detail/: 상세페이지 컴포넌트들
+ * - components/ui/stale-data-banner.tsx: API 장애 시 최신 데이터 안내 배너
+ * - lib/utils/language-server.ts: 선택한 콘텐츠 언어
+ * - lib/utils/place.ts: 상세 정보 → Place 변환
+ * - lib/utils/logger.ts: 구조화 로거
+ * - lib/utils/request-context-server.ts: 요청 컨텍스트 (상관관계 ID)
  */
 
 import { notFound } from "next/navigation";
 import Link from "next/link";
-import { ArrowLeft } from "lucide-react";
+import { ArrowLeft, Languages } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Error } from "@/components/ui/error";
+import { StaleDataBanner } from "@/components/ui/stale-data-banner";
 import { DetailInfo } from "@/components/tour-detail/detail-info";
 import { DetailIntro } from "@/components/tour-detail/detail-intro";
 import { DetailGallery } from "@/components/tour-detail/detail-gallery";
-import { DetailMap } from "@/components/tour-detail/detail-map";
+import {
+  DetailMap,
+  type DetailMapRoutePoint,
+} from "@/components/tour-detail/detail-map";
 import { ShareButton } from "@/components/tour-detail/share-button";
 import { BookmarkButton } from "@/components/bookmarks/bookmark-button";
 import { DetailPetTour } from "@/components/tour-detail/detail-pet-tour";
+import { DetailRooms } from "@/components/tour-detail/detail-rooms";
+import { DetailCourse } from "@/components/tour-detail/detail-course";
+import { DetailRepeatInfo } from "@/components/tour-detail/detail-repeat-info";
 import {
   getTourDetail,
   getTourIntro,
   getTourImages,
   getPetTourInfo,
+  getTourRepeatInfo,
 } from "@/lib/api/tour-api";
+import {
+  isServingStaleTourData,
+  type TourApiCallOptions,
+} from "@/lib/api/tour-api-client";
+import {
+  buildCategoryNameMap,
+  getCategoryPath,
+  getCategoryTree,
+} from "@/lib/api/category-api";
+import {
+  TOUR_LANGUAGE,
+  TOUR_LANGUAGE_NAME,
+  type TourCourseItem,
+  type TourDetail,
+  type TourLanguage,
+  type TourRepeatInfo,
+} from "@/lib/types/tour";
+import {
+  formatApiError,
+  isNotFoundError,
+  isRetryableError,
+} from "@/lib/utils/error-handler";
+import { getPreferredLanguage } from "@/lib/utils/language-server";
+import { createLogger } from "@/lib/utils/logger";
+import { toPlaceFromDetail } from "@/lib/utils/place";
+import { withRequestContext } from "@/lib/utils/request-context-server";
 import type { Metadata } from "next";
 
+const logger = createLogger("page.place");
+
 interface PlacePageProps {
   params: Promise<{
     contentId: string;
   }>;
 }
 
-export async function generateMetadata({
+/**
+ * 선택한 언어로 관광지 상세 정보 조회
+ * 콘텐츠 ID는 언어별 서비스마다 다르므로, 선택한 언어 서비스에 없는 ID
+ * (국문 목록에서 공유된 링크, 북마크 등)는 한국어로 다시 조회합니다.
+ * @returns 상세 정보와 실제로 조회한 언어
+ */
+async function getLocalizedDetail(
+  contentId: string,
+  lang: TourLanguage,
+): Promise<{ detail: TourDetail; lang: TourLanguage }> {
+  try {
+    const detail = await getTourDetail(contentId, { priority: "high", lang });
+    return { detail, lang };
+  } catch (error) {
+    if (lang === TOUR_LANGUAGE.KO || !isNotFoundError(error)) {
+      throw error;
+    }
+    logger.info("선택한 언어의 정보 없음, 한국어로 조회", { contentId, lang });
+    const detail = await getTourDetail(contentId, { priority: "high" });
+    return { detail, lang: TOUR_LANGUAGE.KO };
+  }
+}
+
+/**
+ * 여행코스 경유지의 좌표 조회 (경유지별 detailCommon2)
+ * 좌표를 가져오지 못한 경유지는 경로에서 제외합니다.
+ */
+async function getCourseRoute(
+  items: TourCourseItem[],
+  callOptions: TourApiCallOptions,
+): Promise<DetailMapRoutePoint[]> {
+  const details = await Promise.allSettled(
+    items.map((item) => getTourDetail(item.subcontentid, callOptions)),
+  );
+
+  return details.flatMap((result, index) => {
+    if (result.status === "rejected") {
+      logger.warn("코스 경유지 좌표 조회 실패", {
+        subContentId: items[index].subcontentid,
+        error: result.reason,
+      });
+      return [];
+    }
+    const { lat, lng } = toPlaceFromDetail(result.value);
+    if (lat === null || lng === null) {
+      return [];
+    }
+    return [{ lat, lng, title: items[index].subname }];
+  });
+}
+
+async function generatePlaceMetadata({
   params,
 }: PlacePageProps): Promise<Metadata> {
   const { contentId } = await params;
 
   try {
-    const detail = await getTourDetail(contentId);
+    const { detail } = await getLocalizedDetail(
+      contentId,
+      await getPreferredLanguage(),
+    );
+    const place = toPlaceFromDetail(detail);
     const description =
-      detail.overview?.substring(0, 100) || "관광지 상세 정보를 확인하세요.";
+      place.overviewText?.substring(0, 100) || "관광지 상세 정보를 확인하세요.";
 
     return {
-      title: `${detail.title} - JLG Trip`,
+      title: `${place.title} - JLG Trip`,
       description,
       openGraph: {
-        title: detail.title,
+        title: place.title,
         description,
-        images: detail.firstimage
+        images: place.imageUrl
           ? [
               {
-                url: detail.firstimage,
+                url: place.imageUrl,
                 width: 1200,
                 height: 630,
-                alt: detail.title,
+                alt: place.title,
               },
             ]
           : [],
@@ -80,52 +179,88 @@ export async function generateMetadata({
   }
 }
 
-export default async function PlacePage({ params }: PlacePageProps) {
+export const generateMetadata = withRequestContext(generatePlaceMetadata);
+
+async function PlacePage({ params }: PlacePageProps) {
   const { contentId } = await params;
 
   try {
-    console.group("[PlacePage] 관광지 상세 정보 로드 시작");
-    console.log("Content ID:", contentId);
+    // 선택한 언어로 상세 정보 조회 (없으면 한국어)
+    const preferredLang = await getPreferredLanguage();
+    const { detail: detailResult, lang } = await getLocalizedDetail(
+      contentId,
+      preferredLang,
+    );
 
-    // 병렬로 데이터 로드
-    const detailResult = await getTourDetail(contentId);
+    // 병렬로 데이터 로드 (사용자가 기다리는 요청이므로 high 우선순위)
+    const callOptions: TourApiCallOptions = { priority: "high", lang };
 
-    const [intro, images, petInfo] = await Promise.allSettled([
-      getTourIntro(detailResult.contentid, detailResult.contenttypeid),
-      getTourImages(contentId),
-      getPetTourInfo(contentId),
-    ]);
+    const [intro, images, petInfo, repeatInfo, categoryTree] =
+      await Promise.allSettled([
+        getTourIntro(
+          detailResult.contentid,
+          detailResult.contenttypeid,
+          callOptions,
+        ),
+        getTourImages(contentId, callOptions),
+        getPetTourInfo(contentId, callOptions),
+        getTourRepeatInfo(
+          detailResult.contentid,
+          detailResult.contenttypeid,
+          callOptions,
+        ),
+        getCategoryTree({ lang }),
+      ]);
 
-    const detailData = detailResult;
     const introData = intro.status === "fulfilled" ? intro.value : null;
     const imagesData = images.status === "fulfilled" ? images.value : [];
     const petInfoData = petInfo.status === "fulfilled" ? petInfo.value : null;
+    const categoryPath =
+      categoryTree.status === "fulfilled"
+        ? getCategoryPath(
+            buildCategoryNameMap(categoryTree.value),
+            detailResult,
+          )
+        : [];
+    const place = toPlaceFromDetail(detailResult, { categoryPath });
+    const repeatInfoData: TourRepeatInfo | null =
+      repeatInfo.status === "fulfilled" ? repeatInfo.value : null;
+
+    if (repeatInfo.status === "rejected") {
+      logger.warn("반복 정보 로드 실패", {
+        contentId,
+        error: repeatInfo.reason,
+      });
+    }
+
+    // 여행코스: 경유지 좌표로 지도 경로 구성
+    const courseRoute =
+      repeatInfoData?.kind === "course"
+        ? await getCourseRoute(repeatInfoData.items, callOptions)
+        : [];
 
-    // 반려동물 정보 로깅
     if (petInfo.status === "rejected") {
-      console.warn("[PlacePage] 반려동물 정보 로드 실패:", petInfo.reason);
-    } else if (petInfoData) {
-      console.log("[PlacePage] 반려동물 정보 로드 성공:", {
-        contentid: petInfoData.contentid,
-        chkpetleash: petInfoData.chkpetleash,
-        chkpetsize: petInfoData.chkpetsize,
-        chkpetplace: petInfoData.chkpetplace,
+      logger.warn("반려동물 정보 로드 실패", {
+        contentId,
+        error: petInfo.reason,
       });
-    } else {
-      console.log("[PlacePage] 반려동물 정보 없음 (null 반환)");
     }
 
-    console.log("[PlacePage] 데이터 로드 완료:", {
+    logger.info("관광지 상세 정보 로드 완료", {
       contentId,
-      title: detailData.title,
+      lang,
       hasIntro: !!introData,
-      imagesCount: imagesData.length,
+      imageCount: imagesData.length,
       hasPetInfo: !!petInfoData,
+      repeatInfoKind: repeatInfoData?.kind || null,
+      repeatInfoCount: repeatInfoData?.items.length || 0,
     });
-    console.groupEnd();
 
     return (
       <main className="min-h-screen">
+        {/* API 장애로 마지막 캐시 응답을 보여주는 경우 */}
+        {isServingStaleTourData() && <StaleDataBanner />}
+
         <div className="container mx-auto px-4 py-8 max-w-5xl">
           {/* 뒤로가기 버튼 및 액션 버튼들 */}
           <div className="mb-6 flex items-center justify-between">
@@ -136,19 +271,28 @@ export default async function PlacePage({ params }: PlacePageProps) {
               </Link>
             </Button>
             <div className="flex items-center gap-2">
-              <BookmarkButton contentId={detailData.contentid} size="sm" />
+              <BookmarkButton contentId={place.id} size="sm" />
               <ShareButton
                 size="sm"
-                title={detailData.title}
-                description={detailData.overview?.substring(0, 100)}
-                imageUrl={detailData.firstimage || detailData.firstimage2}
+                title={place.title}
+                description={place.overviewText?.substring(0, 100)}
+                imageUrl={place.imageUrl}
               />
             </div>
           </div>
 
+          {/* 선택한 언어로 제공되지 않는 콘텐츠 안내 */}
+          {lang !== preferredLang && (
+            <p className="mb-6 flex items-center gap-2 rounded-lg border border-border bg-muted/50 px-4 py-3 text-sm text-muted-foreground">
+              <Languages className="h-4 w-4 shrink-0" />
+              이 관광지는 {TOUR_LANGUAGE_NAME[preferredLang]} 정보가 없어
+              한국어로 표시합니다.
+            </p>
+          )}
+
           {/* 기본 정보 섹션 */}
           <section className="mb-8">
-            <DetailInfo detail={detailData} />
+            <DetailInfo detail={place} />
           </section>
 
           {/* 운영 정보 섹션 */}
@@ -158,6 +302,21 @@ export default async function PlacePage({ params }: PlacePageProps) {
             </section>
           )}
 
+          {/* 반복 정보 섹션 (숙박: 객실, 여행코스: 코스 일정, 그 외: 이용 안내) */}
+          {repeatInfoData && repeatInfoData.items.length > 0 && (
+            <section className="mb-8">
+              {repeatInfoData.kind === "room" && (
+                <DetailRooms rooms={repeatInfoData.items} />
+              )}
+              {repeatInfoData.kind === "course" && (
+                <DetailCourse items={repeatInfoData.items} />
+              )}
+              {repeatInfoData.kind === "info" && (
+                <DetailRepeatInfo items={repeatInfoData.items} />
+              )}
+            </section>
+          )}
+
           {/* 반려동물 정보 섹션 - 정보가 없어도 항상 표시 */}
           <section className="mb-8">
             <DetailPetTour petInfo={petInfoData} />
@@ -167,42 +326,30 @@ export default async function PlacePage({ params }: PlacePageProps) {
           <section className="mb-8">
             <DetailGallery
               images={imagesData}
-              mainImageUrl={detailData.firstimage || detailData.firstimage2}
-              title={detailData.title}
+              mainImageUrl={place.imageUrl}
+              title={place.title}
             />
           </section>
 
           {/* 지도 섹션 */}
-          {detailData.mapx && detailData.mapy && (
+          {place.lat !== null && place.lng !== null && (
             <section className="mb-8">
               <h2 className="mb-4 text-2xl font-semibold">위치</h2>
-              <DetailMap detail={detailData} />
+              <DetailMap detail={place} route={courseRoute} />
             </section>
           )}
         </div>
       </main>
     );
   } catch (error) {
-    console.error("[PlacePage] 오류 발생:", error);
+    logger.error("관광지 상세 정보 로드 실패", { contentId, error });
 
     // 404 처리
-    if (
-      error &&
-      typeof error === "object" &&
-      "message" in error &&
-      typeof error.message === "string" &&
-      error.message.includes("찾을 수 없습니다")
-    ) {
+    if (isNotFoundError(error)) {
       notFound();
     }
 
-    const errorMessage =
-      error &&
-      typeof error === "object" &&
-      "message" in error &&
-      typeof error.message === "string"
-        ? error.message
-        : "관광지 정보를 불러오는 중 오류가 발생했습니다.";
+    const errorMessage = formatApiError(error);
 
     return (
       <main className="container mx-auto px-4 py-8">
@@ -214,8 +361,15 @@ export default async function PlacePage({ params }: PlacePageProps) {
             </Link>
           </Button>
         </div>
-        <Error message={errorMessage} />
+        <Error
+          message={errorMessage}
+          retryHref={
+            isRetryableError(error) ? `/places/${contentId}` : undefined
+          }
+        />
       </main>
     );
   }
 }
+
+export default withRequestContext(PlacePage);
@@ -11,7 +11,9 @@
  *
  * @dependencies
  * - lib/api/stats-api.ts: 통계 데이터 조회 함수들
+ * - components/ui/stale-data-banner.tsx: API 장애 시 최신 데이터 안내 배너
  * - components/stats/*: 통계 차트 컴포넌트들
+ * - lib/utils/logger.ts: 구조화 로거
  */
 
 import type { Metadata } from "next";
@@ -24,7 +26,10 @@ import { StatsSummary as StatsSummaryComponent } from "@/components/stats/stats-
 import { RegionChart } from "@/components/stats/region-chart";
 import { TypeChart } from "@/components/stats/type-chart";
 import { Error } from "@/components/ui/error";
-import { formatApiError } from "@/lib/utils/error-handler";
+import { StaleDataBanner } from "@/components/ui/stale-data-banner";
+import { isServingStaleTourData } from "@/lib/api/tour-api-client";
+import { formatApiError, isRetryableError } from "@/lib/utils/error-handler";
+import { createLogger } from "@/lib/utils/logger";
 import { BarChart3 } from "lucide-react";
 
 export const metadata: Metadata = {
@@ -34,10 +39,10 @@ export const metadata: Metadata = {
 
 export const revalidate = 3600; // 1시간마다 재검증
 
+const logger = createLogger("page.stats");
+
 export default async function StatsPage() {
   try {
-    console.group("[StatsPage] 통계 데이터 로드 시작");
-
     // 통계 데이터 병렬 조회
     const [regionStats, typeStats, summary] = await Promise.all([
       getRegionStats(),
@@ -45,11 +50,18 @@ export default async function StatsPage() {
       getStatsSummary(),
     ]);
 
-    console.log("[StatsPage] 통계 데이터 로드 완료");
-    console.groupEnd();
+    logger.info("통계 데이터 로드 완료", {
+      regionCount: regionStats.length,
+      typeCount: typeStats.length,
+    });
 
     return (
       <main className="container mx-auto px-4 py-8 max-w-7xl">
+        {/* API 장애로 마지막 캐시 응답을 보여주는 경우 */}
+        {isServingStaleTourData() && (
+          <StaleDataBanner className="mb-6 rounded-md border" />
+        )}
+
         {/* 헤더 */}
         <div className="mb-10">
           <div className="flex items-center gap-3 mb-3">
@@ -84,12 +96,15 @@ export default async function StatsPage() {
       </main>
     );
   } catch (error: unknown) {
-    console.error("[StatsPage] 오류 발생:", error);
+    logger.error("통계 데이터 로드 실패", { error });
     const errorMessage = formatApiError(error);
 
     return (
       <main className="container mx-auto px-4 py-8">
-        <Error message={errorMessage} />
+        <Error
+          message={errorMessage}
+          retryHref={isRetryableError(error) ? "/stats" : undefined}
+        />
       </main>
     );
   }
@@ -3,17 +3,21 @@
  * @description 메인 네비게이션 바 컴포넌트
  *
  * Design.md 기준으로 디자인 개선된 헤더 컴포넌트입니다.
- * 검색창이 헤더에 통합되어 있습니다.
+ * 검색창과 콘텐츠 언어 선택이 헤더에 통합되어 있습니다.
  */
 
 import { Suspense } from "react";
 import { SignedOut, SignInButton, SignedIn, UserButton } from "@clerk/nextjs";
 import Link from "next/link";
-import { Bookmark, BarChart3 } from "lucide-react";
+import { Bookmark, BarChart3, PartyPopper } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { TourSearch } from "@/components/tour-search";
+import { LanguageSwitcher } from "@/components/language-switcher";
+import { getPreferredLanguage } from "@/lib/utils/language-server";
+
+const Navbar = async () => {
+  const lang = await getPreferredLanguage();
 
-const Navbar = () => {
   return (
     <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
       <div className="container flex h-16 items-center justify-between gap-4 px-4">
@@ -40,6 +44,13 @@ const Navbar = () => {
 
         {/* 우측 네비게이션 */}
         <div className="flex items-center gap-2">
+          <LanguageSwitcher currentLanguage={lang} />
+          <Button variant="ghost" size="sm" asChild className="hidden sm:flex">
+            <Link href="/festivals" className="gap-2">
+              <PartyPopper className="h-4 w-4" />
+              <span className="hidden md:inline">축제</span>
+            </Link>
+          </Button>
           <SignedIn>
             <Button
               variant="ghost"
@@ -0,0 +1,108 @@
+/**
+ * @file tour-api-key-usage.tsx
+ * @description 한국관광공사 API 인증키별 사용량 카드 컴포넌트
+ *
+ * 관리자 페이지에서 인증키별 오늘 호출 수와 일일 한도 대비 사용률, 키 상태를 표시합니다.
+ *
+ * 주요 기능:
+ * 1. 키별 호출 수, 사용률 막대 (80% 이상 경고 색상)
+ * 2. 한도 초과 응답 수
+ * 3. 키 상태 (사용 중, 한도 초과, 미등록/만료, 설정에 없음)
+ *
+ * @dependencies
+ * - lib/api/tour-api-client.ts: TourApiKeyUsageReport
+ * - components/ui/card: Card 컴포넌트
+ */
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { TourApiKeyUsageReport } from "@/lib/api/tour-api-client";
+import { KeyRound } from "lucide-react";
+
+interface TourApiKeyUsageProps {
+  report: TourApiKeyUsageReport;
+}
+
+type KeyUsage = TourApiKeyUsageReport["keys"][number];
+
+/**
+ * 키 상태 문구
+ */
+function getStatusLabel(key: KeyUsage): string {
+  if (key.available) {
+    return "사용 가능";
+  }
+  if (key.reason === "quota") {
+    return "한도 초과";
+  }
+  if (key.reason === "rejected") {
+    return "미등록/만료";
+  }
+  return "설정에 없음";
+}
+
+const formatTime = (date: Date) => {
+  return new Intl.DateTimeFormat("ko-KR", {
+    timeZone: "Asia/Seoul",
+    month: "long",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(date);
+};
+
+export function TourApiKeyUsage({ report }: TourApiKeyUsageProps) {
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      {report.keys.map((key) => {
+        const ratio = report.dailyQuota
+          ? Math.min(key.calls / report.dailyQuota, 1)
+          : 0;
+
+        return (
+          <Card key={key.id} className="border-2">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">{key.label}</CardTitle>
+              <KeyRound
+                className={
+                  key.available
+                    ? "h-5 w-5 text-primary"
+                    : "h-5 w-5 text-destructive"
+                }
+              />
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <div className="text-3xl font-bold">
+                {key.calls.toLocaleString()}
+                {report.dailyQuota && (
+                  <span className="text-base font-normal text-muted-foreground">
+                    {" "}
+                    / {report.dailyQuota.toLocaleString()}회
+                  </span>
+                )}
+              </div>
+              {report.dailyQuota && (
+                <div className="h-2 w-full rounded-full bg-muted">
+                  <div
+                    className={
+                      ratio >= 0.8
+                        ? "h-2 rounded-full bg-destructive"
+                        : "h-2 rounded-full bg-primary"
+                    }
+                    style={{ width: `${Math.round(ratio * 100)}%` }}
+                  />
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {getStatusLabel(key)}
+                {key.unavailableUntil &&
+                  ` (${formatTime(key.unavailableUntil)}까지)`}
+                {" · "}한도 초과 응답 {key.quotaErrors.toLocaleString()}회
+                {" · "}ID {key.id}
+              </p>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
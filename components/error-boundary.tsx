@@ -8,6 +8,7 @@
  * @dependencies
  * - react-error-boundary: 에러 바운더리 라이브러리 (선택 사항)
  * - components/ui/error: 에러 UI 컴포넌트
+ * - lib/utils/error-handler.ts: formatApiError
  */
 
 "use client";
@@ -17,6 +18,7 @@ import { Error } from "@/components/ui/error";
 import { Button } from "@/components/ui/button";
 import { Home, RefreshCw } from "lucide-react";
 import Link from "next/link";
+import { formatApiError } from "@/lib/utils/error-handler";
 
 interface ErrorBoundaryProps {
   children: ReactNode;
@@ -68,7 +70,9 @@ export class ErrorBoundary extends Component<
         <div className="container mx-auto flex min-h-[60vh] flex-col items-center justify-center px-4 py-16">
           <Error
             message={
-              this.state.error?.message || "예상치 못한 오류가 발생했습니다."
+              this.state.error
+                ? formatApiError(this.state.error)
+                : "예상치 못한 오류가 발생했습니다."
             }
             onRetry={this.handleReset}
             retryText="다시 시도"
@@ -0,0 +1,138 @@
+/**
+ * @file festival-card.tsx
+ * @description 축제/행사 카드 컴포넌트
+ *
+ * searchFestival2 결과를 카드 형태로 표시하는 컴포넌트입니다.
+ *
+ * 주요 기능:
+ * 1. 썸네일 이미지 표시 (기본 이미지 fallback)
+ * 2. 축제명, 주소 표시
+ * 3. 행사 기간 표시 (YYYY.MM.DD ~ YYYY.MM.DD)
+ * 4. 진행중 / 예정 / 종료 상태 뱃지
+ * 5. 클릭 시 상세페이지로 이동
+ *
+ * @dependencies
+ * - lib/types/place.ts: Place 타입 (행사 기간 포함)
+ * - lib/utils/festival.ts: 날짜 포맷, 상태 계산
+ */
+
+"use client";
+
+import Link from "next/link";
+import Image from "next/image";
+import { useState } from "react";
+import { CalendarDays, MapPin } from "lucide-react";
+import type { Place } from "@/lib/types/place";
+import { cn } from "@/lib/utils";
+import {
+  FESTIVAL_STATUS_LABEL,
+  formatYmd,
+  getFestivalStatus,
+  toYmd,
+  type FestivalStatus,
+} from "@/lib/utils/festival";
+
+/**
+ * 상태별 뱃지 색상
+ */
+const STATUS_BADGE_CLASS: Record<FestivalStatus, string> = {
+  ongoing: "bg-green-500/90 text-white",
+  upcoming: "bg-blue-500/90 text-white",
+  ended: "bg-gray-500/90 text-white",
+};
+
+interface FestivalCardProps {
+  festival: Place; // 축제 목록 항목 (eventPeriod 포함)
+  today?: string; // 상태 계산 기준일 (YYYYMMDD, 서버와 같은 값을 쓰기 위해 전달)
+  className?: string;
+}
+
+export function FestivalCard({ festival, today, className }: FestivalCardProps) {
+  const [imageError, setImageError] = useState(false);
+
+  const imageUrl = festival.imageUrl;
+  // 행사 기간 (YYYYMMDD, KST)
+  const period = festival.eventPeriod
+    ? {
+        start: toYmd(festival.eventPeriod.start),
+        end: toYmd(festival.eventPeriod.end),
+      }
+    : null;
+  const status = period
+    ? getFestivalStatus(period.start, period.end, today)
+    : null;
+
+  return (
+    <Link
+      href={`/places/${festival.id}`}
+      className={cn(
+        "group flex flex-col overflow-hidden rounded-xl border border-border bg-card shadow-md transition-all duration-300 hover:shadow-xl hover:scale-[1.02]",
+        status === "ended" && "opacity-70",
+        className,
+      )}
+    >
+      {/* 썸네일 이미지 */}
+      <div className="relative aspect-video w-full overflow-hidden bg-muted">
+        {imageUrl && !imageError ? (
+          <Image
+            src={imageUrl}
+            alt={festival.title}
+            fill
+            className="object-cover transition-transform group-hover:scale-105"
+            sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
+            unoptimized={imageUrl.includes("visitkorea.or.kr")}
+            onError={() => {
+              console.warn("[FestivalCard] 이미지 로딩 실패:", {
+                url: imageUrl,
+                contentId: festival.id,
+              });
+              setImageError(true);
+            }}
+          />
+        ) : (
+          <div className="flex h-full w-full items-center justify-center text-muted-foreground">
+            <CalendarDays className="h-12 w-12 opacity-30" />
+          </div>
+        )}
+
+        {/* 상태 뱃지 */}
+        {status && (
+          <span
+            className={cn(
+              "absolute left-3 top-3 inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-semibold shadow-md",
+              STATUS_BADGE_CLASS[status],
+            )}
+          >
+            {FESTIVAL_STATUS_LABEL[status]}
+          </span>
+        )}
+      </div>
+
+      {/* 카드 내용 */}
+      <div className="flex flex-1 flex-col gap-3 p-5">
+        <h3 className="line-clamp-2 text-lg font-semibold leading-tight group-hover:text-primary transition-colors">
+          {festival.title}
+        </h3>
+
+        {/* 행사 기간 */}
+        {period && (
+          <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+            <CalendarDays className="h-4 w-4 shrink-0 text-primary" />
+            <span>
+              {formatYmd(period.start)}
+              {period.end !== period.start && ` ~ ${formatYmd(period.end)}`}
+            </span>
+          </div>
+        )}
+
+        {/* 주소 */}
+        <div className="flex items-start gap-2 text-sm text-muted-foreground">
+          <MapPin className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground/70" />
+          <span className="line-clamp-1">
+            {festival.fullAddress}
+          </span>
+        </div>
+      </div>
+    </Link>
+  );
+}
@@ -0,0 +1,213 @@
+/**
+ * @file festival-filters.tsx
+ * @description 축제 기간/지역 필터 컴포넌트
+ *
+ * /festivals 페이지의 기간 프리셋과 지역 필터를 제공하는 컴포넌트입니다.
+ *
+ * 주요 기능:
+ * 1. 기간 프리셋 (이번 주말 / 이번 달 / 직접 선택)
+ * 2. 직접 선택 시 시작일/종료일 입력
+ * 3. 지역 필터 (시/도)
+ * 4. URL Query를 통한 필터 상태 관리 (preset, start, end, areaCode)
+ *
+ * @dependencies
+ * - next/navigation: useRouter, useSearchParams
+ * - lib/utils/festival.ts: 날짜 변환
+ * - components/ui/*: Button, Input, Label, Select
+ */
+
+"use client";
+
+import { useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { AreaCode } from "@/lib/types/tour";
+import {
+  dateInputToYmd,
+  ymdToDateInput,
+  type FestivalPreset,
+} from "@/lib/utils/festival";
+import { cn } from "@/lib/utils";
+
+/**
+ * 기간 프리셋 버튼
+ */
+const PRESET_OPTIONS: { value: FestivalPreset; label: string }[] = [
+  { value: "weekend", label: "이번 주말" },
+  { value: "month", label: "이번 달" },
+  { value: "custom", label: "직접 선택" },
+];
+
+interface FestivalFiltersProps {
+  preset: FestivalPreset; // 현재 프리셋
+  start: string; // 현재 조회 시작일 (YYYYMMDD)
+  end: string; // 현재 조회 종료일 (YYYYMMDD)
+  areaCodes: AreaCode[];
+  className?: string;
+}
+
+export function FestivalFilters({
+  preset,
+  start,
+  end,
+  areaCodes,
+  className,
+}: FestivalFiltersProps) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const currentAreaCode = searchParams.get("areaCode") || "";
+
+  // 직접 선택 입력값 (적용 버튼을 누를 때 URL에 반영)
+  const [customStart, setCustomStart] = useState(ymdToDateInput(start));
+  const [customEnd, setCustomEnd] = useState(ymdToDateInput(end));
+  const [showCustom, setShowCustom] = useState(preset === "custom");
+
+  /**
+   * URL 쿼리 갱신 (페이지는 1로 리셋)
+   */
+  const pushParams = (update: (params: URLSearchParams) => void) => {
+    const params = new URLSearchParams(searchParams.toString());
+    update(params);
+    params.delete("page");
+    router.push(`/festivals?${params.toString()}`);
+  };
+
+  /**
+   * 프리셋 선택 핸들러
+   */
+  const handlePresetChange = (value: FestivalPreset) => {
+    if (value === "custom") {
+      setShowCustom(true);
+      return;
+    }
+
+    setShowCustom(false);
+    pushParams((params) => {
+      params.set("preset", value);
+      params.delete("start");
+      params.delete("end");
+    });
+  };
+
+  /**
+   * 직접 선택 기간 적용
+   */
+  const handleApplyCustom = () => {
+    if (!customStart) return;
+
+    pushParams((params) => {
+      params.set("preset", "custom");
+      params.set("start", dateInputToYmd(customStart));
+      if (customEnd) {
+        params.set("end", dateInputToYmd(customEnd));
+      } else {
+        params.delete("end");
+      }
+    });
+  };
+
+  /**
+   * 지역 선택 핸들러
+   */
+  const handleAreaChange = (value: string) => {
+    pushParams((params) => {
+      if (value === "all") {
+        params.delete("areaCode");
+      } else {
+        params.set("areaCode", value);
+      }
+    });
+  };
+
+  const activePreset = showCustom ? "custom" : preset;
+
+  return (
+    <div
+      className={cn(
+        "flex flex-col gap-4 rounded-lg border bg-card p-4",
+        className,
+      )}
+    >
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        {/* 기간 프리셋 */}
+        <div className="space-y-2">
+          <Label>기간</Label>
+          <div className="flex gap-1 rounded-md border bg-background p-1">
+            {PRESET_OPTIONS.map((option) => (
+              <Button
+                key={option.value}
+                variant={activePreset === option.value ? "default" : "ghost"}
+                size="sm"
+                onClick={() => handlePresetChange(option.value)}
+                className="h-8 text-xs"
+                aria-pressed={activePreset === option.value}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {/* 지역 필터 */}
+        {areaCodes.length > 0 && (
+          <div className="space-y-2 md:w-48">
+            <Label htmlFor="festival-area-filter">지역 (시/도)</Label>
+            <Select
+              value={currentAreaCode || "all"}
+              onValueChange={handleAreaChange}
+            >
+              <SelectTrigger id="festival-area-filter" className="w-full">
+                <SelectValue placeholder="전체" />
+              </SelectTrigger>
+              <SelectContent className="max-h-[300px]">
+                <SelectItem value="all">전체</SelectItem>
+                {areaCodes.map((area) => (
+                  <SelectItem key={area.code} value={area.code}>
+                    {area.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      {/* 직접 선택 기간 입력 */}
+      {showCustom && (
+        <div className="flex flex-col gap-3 rounded-md border bg-muted/30 p-4 sm:flex-row sm:items-end">
+          <div className="space-y-2">
+            <Label htmlFor="festival-start">시작일</Label>
+            <Input
+              id="festival-start"
+              type="date"
+              value={customStart}
+              onChange={(e) => setCustomStart(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="festival-end">종료일 (선택)</Label>
+            <Input
+              id="festival-end"
+              type="date"
+              value={customEnd}
+              min={customStart || undefined}
+              onChange={(e) => setCustomEnd(e.target.value)}
+            />
+          </div>
+          <Button size="sm" onClick={handleApplyCustom} disabled={!customStart}>
+            적용
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
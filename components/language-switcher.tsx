@@ -0,0 +1,91 @@
+/**
+ * @file language-switcher.tsx
+ * @description 콘텐츠 언어 선택 컴포넌트
+ *
+ * 관광 정보를 받아올 언어(한국관광공사 언어별 서비스)를 선택하는 컴포넌트입니다.
+ *
+ * 주요 기능:
+ * 1. 언어 선택 (한국어, English, 日本語 등)
+ * 2. 선택한 언어를 쿠키에 저장 (1년)
+ * 3. 서버 컴포넌트 새로고침 (현재 페이지를 선택한 언어로 다시 조회)
+ *
+ * @dependencies
+ * - lib/types/tour.ts: TOUR_LANGUAGE, TOUR_LANGUAGE_NAME
+ * - lib/utils/language.ts: 언어 쿠키 이름
+ * - components/ui/select.tsx: Select 컴포넌트
+ */
+
+"use client";
+
+import { useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Languages } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  TOUR_LANGUAGE,
+  TOUR_LANGUAGE_NAME,
+  type TourLanguage,
+} from "@/lib/types/tour";
+import { TOUR_LANGUAGE_COOKIE, isTourLanguage } from "@/lib/utils/language";
+import { cn } from "@/lib/utils";
+
+/**
+ * 언어 쿠키 유지 기간 (초, 1년)
+ */
+const LANGUAGE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+interface LanguageSwitcherProps {
+  currentLanguage: TourLanguage; // 서버에서 읽은 현재 언어
+  className?: string;
+}
+
+export function LanguageSwitcher({
+  currentLanguage,
+  className,
+}: LanguageSwitcherProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const handleLanguageChange = (value: string) => {
+    if (!isTourLanguage(value) || value === currentLanguage) {
+      return;
+    }
+
+    console.log("[LanguageSwitcher] 언어 변경:", currentLanguage, "→", value);
+    document.cookie = `${TOUR_LANGUAGE_COOKIE}=${value}; path=/; max-age=${LANGUAGE_COOKIE_MAX_AGE}; samesite=lax`;
+
+    // 서버 컴포넌트를 새 언어로 다시 렌더링
+    startTransition(() => {
+      router.refresh();
+    });
+  };
+
+  return (
+    <Select
+      value={currentLanguage}
+      onValueChange={handleLanguageChange}
+      disabled={isPending}
+    >
+      <SelectTrigger
+        className={cn("h-9 w-auto gap-2 border-none shadow-none", className)}
+        aria-label="콘텐츠 언어 선택"
+      >
+        <Languages className="h-4 w-4" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent align="end">
+        {Object.values(TOUR_LANGUAGE).map((lang) => (
+          <SelectItem key={lang} value={lang}>
+            {TOUR_LANGUAGE_NAME[lang]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
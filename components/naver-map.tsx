@@ -12,7 +12,8 @@
  *
  * @dependencies
  * - Naver Maps JavaScript API v3 (NCP)
- * - lib/types/tour.ts: TourItem, convertCoordinates
+ * - lib/types/place.ts: Place (관광지 도메인 모델)
+ * - lib/types/tour.ts: CONTENT_TYPE
  *
  * 환경변수:
  * - NEXT_PUBLIC_NAVER_MAP_CLIENT_ID: 네이버 지도 API 클라이언트 ID
@@ -21,8 +22,8 @@
 "use client";
 
 import { useEffect, useRef, useState, useCallback, memo } from "react";
-import type { TourItem } from "@/lib/types/tour";
-import { convertCoordinates, CONTENT_TYPE } from "@/lib/types/tour";
+import type { Place } from "@/lib/types/place";
+import { CONTENT_TYPE } from "@/lib/types/tour";
 import { cn } from "@/lib/utils";
 
 // Naver Maps API 타입 정의
@@ -34,17 +35,17 @@ declare global {
 }
 
 interface NaverMapProps {
-  tours: TourItem[];
+  tours: Place[];
   selectedTourId?: string;
   highlightedTourId?: string;
-  onMarkerClick?: (tour: TourItem) => void;
+  onMarkerClick?: (tour: Place) => void;
   className?: string;
   height?: string;
 }
 
 interface MarkerInfo {
   marker: any;
-  tour: TourItem;
+  tour: Place;
   infoWindow?: any;
 }
 
@@ -185,13 +186,12 @@ function NaverMapComponent({
 
     if (tours.length > 0) {
       const firstTour = tours[0];
-      if (firstTour.mapx && firstTour.mapy) {
-        const coords = convertCoordinates(firstTour.mapx, firstTour.mapy);
-        center = new window.naver.maps.LatLng(coords.lat, coords.lng);
+      if (firstTour.lat !== null && firstTour.lng !== null) {
+        center = new window.naver.maps.LatLng(firstTour.lat, firstTour.lng);
         console.log("[NaverMap] 첫 번째 관광지 좌표로 중심 설정:", {
           title: firstTour.title,
-          lat: coords.lat,
-          lng: coords.lng,
+          lat: firstTour.lat,
+          lng: firstTour.lng,
         });
       }
 
@@ -323,19 +323,18 @@ function NaverMapComponent({
 
       // 새 마커 생성
       tours.forEach((tour) => {
-        if (!tour.mapx || !tour.mapy) {
+        if (tour.lat === null || tour.lng === null) {
           console.warn("[NaverMap] 좌표 정보 없음:", tour.title);
           return;
         }
 
-        const coords = convertCoordinates(tour.mapx, tour.mapy);
-        const position = new window.naver.maps.LatLng(coords.lat, coords.lng);
+        const position = new window.naver.maps.LatLng(tour.lat, tour.lng);
 
         // 관광 타입에 따른 마커 색상 결정
-        const markerColor = getMarkerColor(tour.contenttypeid);
+        const markerColor = getMarkerColor(tour.contentTypeId);
         console.log("[NaverMap] 마커 색상 설정:", {
           title: tour.title,
-          contentTypeId: tour.contenttypeid,
+          contentTypeId: tour.contentTypeId,
           color: markerColor,
         });
 
@@ -390,8 +389,8 @@ function NaverMapComponent({
                 font-size: 14px;
                 color: #6b7280;
                 margin-bottom: 8px;
-              ">${tour.addr1}</p>
-              <a href="/places/${tour.contentid}" style="
+              ">${tour.address}</p>
+              <a href="/places/${tour.id}" style="
                 display: inline-block;
                 padding: 6px 12px;
                 background-color: #4F46E5;
@@ -430,11 +429,11 @@ function NaverMapComponent({
     }
 
     markersRef.current.forEach((markerInfo) => {
-      const isHighlighted = markerInfo.tour.contentid === highlightedTourId;
-      const isSelected = markerInfo.tour.contentid === selectedTourId;
+      const isHighlighted = markerInfo.tour.id === highlightedTourId;
+      const isSelected = markerInfo.tour.id === selectedTourId;
 
       // 관광 타입별 기본 색상 가져오기
-      const defaultColor = getMarkerColor(markerInfo.tour.contenttypeid);
+      const defaultColor = getMarkerColor(markerInfo.tour.contentTypeId);
 
       // 강조된 마커는 더 크고 밝은 색상으로 표시
       const backgroundColor = isHighlighted
@@ -493,15 +492,15 @@ function NaverMapComponent({
     }
 
     const markerInfo = markersRef.current.find(
-      (m) => m.tour.contentid === selectedTourId,
+      (m) => m.tour.id === selectedTourId,
     );
 
     if (markerInfo) {
-      const coords = convertCoordinates(
-        markerInfo.tour.mapx,
-        markerInfo.tour.mapy,
+      // 마커는 좌표가 있는 관광지만 생성됨
+      const position = new window.naver.maps.LatLng(
+        markerInfo.tour.lat,
+        markerInfo.tour.lng,
       );
-      const position = new window.naver.maps.LatLng(coords.lat, coords.lng);
 
       mapInstanceRef.current.setCenter(position);
       mapInstanceRef.current.setZoom(15);
@@ -6,12 +6,14 @@
  *
  * 주요 기능:
  * 1. 썸네일 이미지 표시 (기본 이미지 fallback)
- * 2. 관광지명, 주소, 관광 타입 뱃지 표시
- * 3. 간단한 개요 표시 (1-2줄)
- * 4. 클릭 시 상세페이지로 이동
+ * 2. 관광지명, 주소, 관광 타입/분류명 뱃지 표시 (내 주변 모드에서는 거리 표시)
+ * 3. 간단한 개요 표시 (1-2줄, 검색 결과는 검색어 주변 개요 발췌)
+ * 4. 검색어 일치 구간 강조 (관광지명, 주소, 개요)
+ * 5. 클릭 시 상세페이지로 이동
  *
  * @dependencies
- * - lib/types/tour.ts: TourItem 타입
+ * - lib/types/place.ts: Place 타입 (관광지 도메인 모델)
+ * - components/ui/highlighted-text.tsx: 검색어 강조 텍스트
  * - lucide-react: 아이콘
  * - next/link: 라우팅
  */
@@ -20,46 +22,25 @@
 
 import Link from "next/link";
 import Image from "next/image";
-import { MapPin, Calendar } from "lucide-react";
-import { useState, memo, useMemo } from "react";
-import type { TourItem } from "@/lib/types/tour";
-import { CONTENT_TYPE_NAME } from "@/lib/types/tour";
+import { MapPin, Calendar, Navigation } from "lucide-react";
+import { useState, memo } from "react";
+import { HighlightedText } from "@/components/ui/highlighted-text";
+import type { Place } from "@/lib/types/place";
 import { cn } from "@/lib/utils";
-import { normalizeImageUrl } from "@/lib/utils/image";
 
 /**
- * 날짜 문자열을 파싱하여 Date 객체로 변환합니다.
+ * 거리(m)를 표시용으로 변환 (예: 350m, 1.2km)
  */
-function parseDateString(dateString: string): Date {
-  if (!dateString || dateString.trim() === "") {
-    return new Date(NaN);
-  }
-
-  const date = new Date(dateString);
-
-  // 유효하지 않은 경우 다른 형식 시도
-  if (isNaN(date.getTime())) {
-    // YYYYMMDD 형식인 경우
-    if (/^\d{8}$/.test(dateString)) {
-      const year = parseInt(dateString.substring(0, 4), 10);
-      const month = parseInt(dateString.substring(4, 6), 10) - 1;
-      const day = parseInt(dateString.substring(6, 8), 10);
-      return new Date(year, month, day);
-    }
-    // YYYY-MM-DD 형식인 경우
-    if (/^\d{4}-\d{2}-\d{2}$/.test(dateString)) {
-      return new Date(dateString + "T00:00:00");
-    }
-  }
-
-  return date;
+function formatDistance(meters: number): string {
+  if (meters < 1000) return `${Math.round(meters)}m`;
+  return `${(meters / 1000).toFixed(1)}km`;
 }
 
 interface TourCardProps {
-  tour: TourItem;
+  tour: Place;
   className?: string;
-  onTourClick?: (tour: TourItem) => void;
-  onTourHover?: (tour: TourItem | null) => void;
+  onTourClick?: (tour: Place) => void;
+  onTourHover?: (tour: Place | null) => void;
 }
 
 function TourCardComponent({
@@ -69,22 +50,12 @@ function TourCardComponent({
   onTourHover,
 }: TourCardProps) {
   const [imageError, setImageError] = useState(false);
-
-  // 이미지 URL과 콘텐츠 타입명을 useMemo로 최적화
-  const { imageUrl, contentTypeName } = useMemo(() => {
-    const rawImageUrl = tour.firstimage || tour.firstimage2;
-    return {
-      imageUrl: normalizeImageUrl(rawImageUrl),
-      contentTypeName:
-        CONTENT_TYPE_NAME[
-          tour.contenttypeid as keyof typeof CONTENT_TYPE_NAME
-        ] || "관광지",
-    };
-  }, [tour.firstimage, tour.firstimage2, tour.contenttypeid]);
+  const imageUrl = tour.imageUrl;
+  const highlight = tour.searchHighlight;
 
   return (
     <Link
-      href={`/places/${tour.contentid}`}
+      href={`/places/${tour.id}`}
       className={cn(
         "group flex flex-col overflow-hidden rounded-xl border border-border bg-card shadow-md transition-all duration-300 hover:shadow-xl hover:scale-[1.02]",
         className,
@@ -119,7 +90,7 @@ function TourCardComponent({
               console.warn("[TourCard] 이미지 로딩 실패:", {
                 url: imageUrl,
                 tourTitle: tour.title,
-                contentId: tour.contentid,
+                contentId: tour.id,
               });
               setImageError(true);
             }}
@@ -192,39 +163,59 @@ function TourCardComponent({
       <div className="flex flex-1 flex-col gap-3 p-5">
         {/* 관광지명 */}
         <h3 className="line-clamp-2 text-lg font-semibold leading-tight group-hover:text-primary transition-colors">
-          {tour.title}
+          {highlight ? (
+            <HighlightedText segments={highlight.title} />
+          ) : (
+            tour.title
+          )}
         </h3>
 
         {/* 주소 */}
         <div className="flex items-start gap-2 text-sm text-muted-foreground">
           <MapPin className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground/70" />
           <span className="line-clamp-1">
-            {tour.addr1}
-            {tour.addr2 && ` ${tour.addr2}`}
+            {highlight ? (
+              <HighlightedText segments={highlight.address} />
+            ) : (
+              tour.fullAddress
+            )}
           </span>
         </div>
 
+        {/* 개요 발췌 (검색어가 개요에서 일치한 경우) */}
+        {highlight?.snippet && (
+          <p className="line-clamp-2 text-sm text-muted-foreground">
+            <HighlightedText segments={highlight.snippet} />
+          </p>
+        )}
+
+        {/* 거리 (locationBasedList2 결과) */}
+        {tour.distanceMeters !== null && (
+          <div className="flex items-center gap-2 text-sm font-medium text-primary">
+            <Navigation className="h-4 w-4 shrink-0" />
+            <span>{formatDistance(tour.distanceMeters)}</span>
+          </div>
+        )}
+
         {/* 관광 타입 뱃지 및 수정일 */}
         <div className="mt-auto flex items-center justify-between gap-2 pt-2 border-t border-border/50">
-          <span className="inline-flex items-center rounded-full bg-primary/10 px-3 py-1 text-xs font-medium text-primary ring-1 ring-inset ring-primary/20">
-            {contentTypeName}
+          <span className="inline-flex min-w-0 items-center rounded-full bg-primary/10 px-3 py-1 text-xs font-medium text-primary ring-1 ring-inset ring-primary/20">
+            <span className="truncate">
+              {tour.typeName}
+              {tour.categoryName && ` · ${tour.categoryName}`}
+            </span>
           </span>
-          {tour.modifiedtime &&
-            (() => {
-              const date = parseDateString(tour.modifiedtime);
-              if (isNaN(date.getTime())) return null;
-              return (
-                <div className="flex items-center gap-1 text-xs text-muted-foreground">
-                  <Calendar className="h-3 w-3" />
-                  <span>
-                    {date.toLocaleDateString("ko-KR", {
-                      year: "numeric",
-                      month: "short",
-                    })}
-                  </span>
-                </div>
-              );
-            })()}
+          {tour.modifiedAt && (
+            <div className="flex items-center gap-1 text-xs text-muted-foreground">
+              <Calendar className="h-3 w-3" />
+              <span>
+                {tour.modifiedAt.toLocaleDateString("ko-KR", {
+                  year: "numeric",
+                  month: "short",
+                })}
+              </span>
+            </div>
+          )}
         </div>
       </div>
     </Link>
@@ -235,13 +226,16 @@ function TourCardComponent({
 export const TourCard = memo(TourCardComponent, (prevProps, nextProps) => {
   // tour 객체의 주요 속성만 비교하여 리렌더링 최적화
   return (
-    prevProps.tour.contentid === nextProps.tour.contentid &&
+    prevProps.tour.id === nextProps.tour.id &&
     prevProps.tour.title === nextProps.tour.title &&
-    prevProps.tour.firstimage === nextProps.tour.firstimage &&
-    prevProps.tour.firstimage2 === nextProps.tour.firstimage2 &&
-    prevProps.tour.addr1 === nextProps.tour.addr1 &&
-    prevProps.tour.contenttypeid === nextProps.tour.contenttypeid &&
-    prevProps.tour.modifiedtime === nextProps.tour.modifiedtime &&
+    prevProps.tour.imageUrl === nextProps.tour.imageUrl &&
+    prevProps.tour.fullAddress === nextProps.tour.fullAddress &&
+    prevProps.tour.typeName === nextProps.tour.typeName &&
+    prevProps.tour.modifiedAt?.getTime() ===
+      nextProps.tour.modifiedAt?.getTime() &&
+    prevProps.tour.distanceMeters === nextProps.tour.distanceMeters &&
+    prevProps.tour.categoryName === nextProps.tour.categoryName &&
+    prevProps.tour.searchHighlight === nextProps.tour.searchHighlight &&
     prevProps.className === nextProps.className
   );
 });
@@ -0,0 +1,104 @@
+/**
+ * @file detail-course.tsx
+ * @description 여행코스 일정 섹션 컴포넌트
+ *
+ * 여행코스(25) 타입 관광지의 경유지(detailInfo2)를 순서대로 표시하는 컴포넌트입니다.
+ *
+ * 주요 기능:
+ * 1. 경유지를 코스 순서대로 번호와 함께 표시
+ * 2. 경유지 이미지, 개요 표시
+ * 3. 각 경유지 상세페이지로 이동 링크
+ *
+ * @dependencies
+ * - lib/types/tour.ts: TourCourseItem 타입
+ * - lib/utils/image.ts: normalizeImageUrl
+ * - lib/utils/text.ts: sanitizeText
+ */
+
+"use client";
+
+import Link from "next/link";
+import Image from "next/image";
+import { ChevronRight, Route } from "lucide-react";
+import type { TourCourseItem } from "@/lib/types/tour";
+import { cn } from "@/lib/utils";
+import { normalizeImageUrl } from "@/lib/utils/image";
+import { sanitizeText } from "@/lib/utils/text";
+
+interface DetailCourseProps {
+  items: TourCourseItem[]; // 코스 순서대로 정렬된 경유지
+  className?: string;
+}
+
+export function DetailCourse({ items, className }: DetailCourseProps) {
+  console.log("[DetailCourse] 코스 경유지 렌더링:", items.length, "개");
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={cn("space-y-6", className)}>
+      <h2 className="flex items-center gap-2 text-2xl font-semibold text-foreground">
+        <Route className="h-6 w-6 text-primary" />
+        코스 일정
+      </h2>
+
+      <ol className="relative space-y-4">
+        {items.map((item, index) => {
+          const imageUrl = normalizeImageUrl(item.subdetailimg);
+          const isLast = index === items.length - 1;
+
+          return (
+            <li
+              key={`${item.subnum}-${item.subcontentid}`}
+              className="relative flex gap-4"
+            >
+              {/* 순서 번호 + 연결선 */}
+              <div className="flex flex-col items-center">
+                <span className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-primary text-sm font-bold text-primary-foreground">
+                  {index + 1}
+                </span>
+                {!isLast && (
+                  <span className="mt-1 w-0.5 flex-1 bg-primary/30" />
+                )}
+              </div>
+
+              {/* 경유지 카드 */}
+              <Link
+                href={`/places/${item.subcontentid}`}
+                className="group mb-2 flex flex-1 flex-col overflow-hidden rounded-xl border border-border bg-card shadow-sm transition-shadow hover:shadow-md sm:flex-row"
+              >
+                {imageUrl && (
+                  <div className="relative aspect-video w-full shrink-0 bg-muted sm:aspect-auto sm:w-40">
+                    <Image
+                      src={imageUrl}
+                      alt={item.subdetailalt || item.subname}
+                      fill
+                      className="object-cover"
+                      sizes="(max-width: 640px) 100vw, 160px"
+                      unoptimized={imageUrl.includes("visitkorea.or.kr")}
+                    />
+                  </div>
+                )}
+                <div className="flex flex-1 flex-col gap-2 p-4">
+                  <div className="flex items-center justify-between gap-2">
+                    <h3 className="font-semibold text-foreground group-hover:text-primary transition-colors">
+                      {item.subname}
+                    </h3>
+                    <ChevronRight className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  </div>
+                  {item.subdetailoverview && (
+                    <p className="line-clamp-3 whitespace-pre-line text-sm leading-relaxed text-foreground/80">
+                      {sanitizeText(item.subdetailoverview)}
+                    </p>
+                  )}
+                </div>
+              </Link>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -8,13 +8,14 @@
  * 1. 관광지명 표시
  * 2. 대표 이미지 표시
  * 3. 주소 표시 및 복사 기능
- * 4. 전화번호 표시 및 클릭 시 전화 연결
+ * 4. 전화번호 표시 및 클릭 시 전화 연결 (번호가 여러 개면 모두 표시)
  * 5. 홈페이지 링크 표시
  * 6. 개요 (긴 설명문) 표시
  * 7. 관광 타입 및 카테고리 표시
  *
  * @dependencies
- * - lib/types/tour.ts: TourDetail 타입
+ * - lib/types/place.ts: Place 타입 (관광지 도메인 모델)
+ * - lib/utils/place.ts: toTelHref (전화 연결 링크)
  * - lucide-react: 아이콘
  * - next/image: 이미지 최적화
  */
@@ -32,13 +33,12 @@ import {
   MapPin as MapPinIcon,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import type { TourDetail } from "@/lib/types/tour";
-import { CONTENT_TYPE_NAME } from "@/lib/types/tour";
+import type { Place } from "@/lib/types/place";
 import { cn } from "@/lib/utils";
-import { normalizeImageUrl } from "@/lib/utils/image";
+import { toTelHref } from "@/lib/utils/place";
 
 interface DetailInfoProps {
-  detail: TourDetail;
+  detail: Place;
   className?: string;
 }
 
@@ -46,96 +46,14 @@ export function DetailInfo({ detail, className }: DetailInfoProps) {
   const [copied, setCopied] = useState(false);
   const [imageError, setImageError] = useState(false);
 
-  const rawImageUrl = detail.firstimage || detail.firstimage2;
-  const imageUrl = normalizeImageUrl(rawImageUrl);
-  const contentTypeName =
-    CONTENT_TYPE_NAME[detail.contenttypeid as keyof typeof CONTENT_TYPE_NAME] ||
-    "관광지";
-
-  const fullAddress = `${detail.addr1}${
-    detail.addr2 ? ` ${detail.addr2}` : ""
-  }`;
-
-  /**
-   * 홈페이지 URL 정규화
-   * - HTML 태그 제거 및 URL 추출
-   * - 빈 문자열 체크
-   * - 프로토콜 추가 (없는 경우)
-   * - 공백 제거
-   */
-  const normalizeHomepageUrl = (
-    url: string | undefined | null,
-  ): { url: string; displayText: string } | null => {
-    if (!url || url.trim() === "") {
-      return null;
-    }
-
-    let extractedUrl = url.trim();
-    let displayText = extractedUrl;
-
-    // HTML 태그가 포함된 경우 처리
-    if (extractedUrl.includes("<a") || extractedUrl.includes("</a>")) {
-      // href 속성에서 URL 추출
-      const hrefMatch = extractedUrl.match(/href=["']([^"']+)["']/i);
-      if (hrefMatch && hrefMatch[1]) {
-        extractedUrl = hrefMatch[1];
-      }
-
-      // 표시 텍스트 추출 (태그 사이의 텍스트)
-      const textMatch = url.match(/<a[^>]*>([^<]+)<\/a>/i);
-      if (textMatch && textMatch[1]) {
-        displayText = textMatch[1].trim();
-      } else {
-        // 태그 사이에 텍스트가 없으면 URL 사용
-        displayText = extractedUrl;
-      }
-    } else {
-      // HTML 태그가 없는 경우 HTML 태그 제거만 수행
-      extractedUrl = extractedUrl.replace(/<[^>]*>/g, "").trim();
-      displayText = displayText.replace(/<[^>]*>/g, "").trim();
-    }
-
-    if (!extractedUrl || extractedUrl === "") {
-      return null;
-    }
-
-    // 이미 절대 URL인 경우
-    if (
-      extractedUrl.startsWith("http://") ||
-      extractedUrl.startsWith("https://")
-    ) {
-      return {
-        url: extractedUrl,
-        displayText: displayText || extractedUrl,
-      };
-    }
-
-    // 프로토콜이 없는 경우 https:// 추가
-    return {
-      url: `https://${extractedUrl}`,
-      displayText: displayText || extractedUrl,
-    };
-  };
-
-  const homepageData = normalizeHomepageUrl(detail.homepage);
-
-  // 디버깅: 홈페이지 URL 로깅
-  if (process.env.NODE_ENV === "development") {
-    if (detail.homepage) {
-      console.log("[DetailInfo] 홈페이지 URL:", {
-        original: detail.homepage,
-        normalized: homepageData,
-        isEmpty: !detail.homepage.trim(),
-      });
-    }
-  }
+  const imageUrl = detail.imageUrl;
 
   /**
    * 주소 복사 기능
    */
   const handleCopyAddress = async () => {
     try {
-      await navigator.clipboard.writeText(fullAddress);
+      await navigator.clipboard.writeText(detail.fullAddress);
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     } catch (error) {
@@ -143,45 +61,6 @@ export function DetailInfo({ detail, className }: DetailInfoProps) {
     }
   };
 
-  /**
-   * 전화번호 정규화
-   * - 빈 문자열 체크
-   * - 공백 및 하이픈 제거
-   * - 전화번호 형식 정리
-   */
-  const normalizePhoneNumber = (
-    tel: string | undefined | null,
-  ): string | null => {
-    if (!tel || tel.trim() === "") {
-      return null;
-    }
-
-    // HTML 태그 제거
-    const cleaned = tel.replace(/<[^>]*>/g, "").trim();
-
-    // 공백, 하이픈, 괄호 등 제거 (선택사항 - 실제 전화번호 형식 유지)
-    // cleaned = cleaned.replace(/[\s\-\(\)]/g, "");
-
-    if (!cleaned || cleaned === "") {
-      return null;
-    }
-
-    return cleaned;
-  };
-
-  const phoneNumber = normalizePhoneNumber(detail.tel);
-
-  // 디버깅: 전화번호 로깅
-  if (process.env.NODE_ENV === "development") {
-    if (detail.tel) {
-      console.log("[DetailInfo] 전화번호:", {
-        original: detail.tel,
-        normalized: phoneNumber,
-        isEmpty: !detail.tel.trim(),
-      });
-    }
-  }
-
   return (
     <div className={cn("space-y-8", className)}>
       {/* 대표 이미지 - 히어로 섹션 */}
@@ -199,7 +78,7 @@ export function DetailInfo({ detail, className }: DetailInfoProps) {
               console.warn("[DetailInfo] 이미지 로딩 실패:", {
                 url: imageUrl,
                 title: detail.title,
-                contentId: detail.contentid,
+                contentId: detail.id,
               });
               setImageError(true);
             }}
@@ -221,12 +100,17 @@ export function DetailInfo({ detail, className }: DetailInfoProps) {
           </h1>
           <div className="flex items-center gap-3 flex-wrap">
             <span className="inline-flex items-center rounded-full bg-primary/10 px-3 py-1.5 text-sm font-medium text-primary ring-1 ring-inset ring-primary/20">
-              {contentTypeName}
+              {detail.typeName}
             </span>
-            {detail.addr1 && (
+            {detail.categoryPath.length > 0 && (
+              <span className="text-sm text-muted-foreground">
+                {detail.categoryPath.join(" › ")}
+              </span>
+            )}
+            {detail.region && (
               <div className="flex items-center gap-1.5 text-sm text-muted-foreground">
                 <MapPinIcon className="h-4 w-4" />
-                <span>{detail.addr1.split(" ")[0]}</span>
+                <span>{detail.region}</span>
               </div>
             )}
           </div>
@@ -241,7 +125,7 @@ export function DetailInfo({ detail, className }: DetailInfoProps) {
               <MapPinIcon className="h-4 w-4 text-primary" />
               주소
             </div>
-            <p className="text-base leading-relaxed">{fullAddress}</p>
+            <p className="text-base leading-relaxed">{detail.fullAddress}</p>
             {detail.zipcode && (
               <p className="mt-2 text-sm text-muted-foreground">
                 우편번호: {detail.zipcode}
@@ -272,19 +156,24 @@ export function DetailInfo({ detail, className }: DetailInfoProps) {
       {/* 연락처 정보 */}
       <div className="grid gap-4 md:grid-cols-2">
         {/* 전화번호 */}
-        {phoneNumber && (
+        {detail.phoneNumbers.length > 0 && (
           <div className="rounded-xl border border-border bg-card p-5 shadow-sm">
             <div className="mb-3 flex items-center gap-2 text-sm font-semibold text-foreground">
               <Phone className="h-4 w-4 text-primary" />
               전화번호
             </div>
-            <a
-              href={`tel:${phoneNumber.replace(/\s/g, "")}`}
-              className="inline-flex items-center gap-2 text-base font-medium text-primary hover:text-primary/80 transition-colors group"
-            >
-              <Phone className="h-4 w-4 group-hover:scale-110 transition-transform" />
-              <span className="break-all">{phoneNumber}</span>
-            </a>
+            <div className="flex flex-col gap-2">
+              {detail.phoneNumbers.map((phone) => (
+                <a
+                  key={phone}
+                  href={toTelHref(phone)}
+                  className="inline-flex items-center gap-2 text-base font-medium text-primary hover:text-primary/80 transition-colors group"
+                >
+                  <Phone className="h-4 w-4 group-hover:scale-110 transition-transform" />
+                  <span className="break-all">{phone}</span>
+                </a>
+              ))}
+            </div>
             <p className="mt-2 text-xs text-muted-foreground">
               클릭하여 전화 연결
             </p>
@@ -292,45 +181,35 @@ export function DetailInfo({ detail, className }: DetailInfoProps) {
         )}
 
         {/* 홈페이지 */}
-        {homepageData && (
+        {detail.homepageUrl && (
           <div className="rounded-xl border border-border bg-card p-5 shadow-sm">
             <div className="mb-3 flex items-center gap-2 text-sm font-semibold text-foreground">
               <Globe className="h-4 w-4 text-primary" />
               홈페이지
             </div>
             <a
-              href={homepageData.url}
+              href={detail.homepageUrl}
               target="_blank"
               rel="noopener noreferrer"
               className="break-all text-base text-primary hover:underline hover:text-primary/80 transition-colors"
             >
-              {homepageData.displayText}
+              {detail.homepageLabel || detail.homepageUrl}
             </a>
           </div>
         )}
       </div>
 
       {/* 개요 */}
-      {detail.overview &&
-        (() => {
-          // <br> 태그를 줄바꿈으로 변환하고 나머지 HTML 태그 제거
-          const sanitizedOverview = detail.overview
-            .replace(/<br\s*\/?>/gi, "\n")
-            .replace(/<\/?[^>]+(>|$)/g, "");
-
-          return (
-            <div className="rounded-xl border border-border bg-card p-6 md:p-8 shadow-sm">
-              <h2 className="mb-4 text-xl font-semibold text-foreground">
-                개요
-              </h2>
-              <div className="prose prose-sm max-w-none dark:prose-invert">
-                <p className="whitespace-pre-line text-base leading-relaxed text-foreground/90">
-                  {sanitizedOverview}
-                </p>
-              </div>
-            </div>
-          );
-        })()}
+      {detail.overviewText && (
+        <div className="rounded-xl border border-border bg-card p-6 md:p-8 shadow-sm">
+          <h2 className="mb-4 text-xl font-semibold text-foreground">개요</h2>
+          <div className="prose prose-sm max-w-none dark:prose-invert">
+            <p className="whitespace-pre-line text-base leading-relaxed text-foreground/90">
+              {detail.overviewText}
+            </p>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -2,19 +2,26 @@
  * @file detail-intro.tsx
  * @description 관광지 운영 정보 섹션 컴포넌트
  *
- * 관광지의 운영 정보를 표시하는 컴포넌트입니다.
+ * 관광지의 운영 정보(detailIntro2)를 표시하는 컴포넌트입니다.
+ * 소개 정보는 관광 타입(contenttypeid)마다 필드 구성이 달라,
+ * 타입별 섹션 컴포넌트가 해당 타입의 필드를 모두 표시합니다.
  *
  * 주요 기능:
- * 1. 운영시간/개장시간 표시
- * 2. 휴무일 표시
- * 3. 이용요금 표시
- * 4. 주차 가능 여부 표시
- * 5. 수용인원 표시
- * 6. 체험 프로그램 표시
- * 7. 유모차/반려동물 동반 가능 여부 표시
+ * 1. 관광지: 이용시간, 쉬는날, 체험 안내, 세계유산 여부 등
+ * 2. 문화시설: 이용요금, 관람 소요시간, 할인정보 등
+ * 3. 축제/행사: 행사 기간/장소, 공연시간, 프로그램, 주최/주관 등
+ * 4. 여행코스: 코스 총 거리/소요시간, 일정, 테마
+ * 5. 레포츠: 개장기간, 입장료, 예약안내 등
+ * 6. 숙박: 체크인/체크아웃, 객실 정보, 부대시설 등
+ * 7. 쇼핑: 영업시간, 판매 품목, 장서는 날 등
+ * 8. 음식점: 대표/취급 메뉴, 영업시간, 좌석수 등
+ *
+ * 반려동물 상세 정보는 별도 카드(DetailPetTour)로 표시합니다.
  *
  * @dependencies
- * - lib/types/tour.ts: TourIntro 타입
+ * - lib/types/tour.ts: TourIntro 및 타입별 소개 정보 타입
+ * - lib/utils/text.ts: sanitizeText
+ * - lib/utils/festival.ts: formatYmd (행사 기간 표시)
  * - lucide-react: 아이콘
  */
 
@@ -28,29 +35,40 @@ import {
   Users,
   Baby,
   Info,
+  Route,
+  Phone,
+  Utensils,
+  BedDouble,
+  ShoppingBag,
+  Ticket,
+  Landmark,
+  CreditCard,
+  MapPin,
+  Globe,
+  Sparkles,
+  Ruler,
 } from "lucide-react";
-import type { TourIntro } from "@/lib/types/tour";
+import {
+  CONTENT_TYPE,
+  type AccommodationIntro,
+  type CulturalFacilityIntro,
+  type FestivalIntro,
+  type LeisureSportsIntro,
+  type RestaurantIntro,
+  type ShoppingIntro,
+  type TourCourseIntro,
+  type TourIntro,
+  type TouristSpotIntro,
+} from "@/lib/types/tour";
 import { cn } from "@/lib/utils";
+import { sanitizeText } from "@/lib/utils/text";
+import { formatYmd } from "@/lib/utils/festival";
 
 interface DetailIntroProps {
   intro: TourIntro;
   className?: string;
 }
 
-/**
- * HTML 태그를 제거하고 줄바꿈을 처리하는 헬퍼 함수
- */
-function sanitizeText(text: string): string {
-  if (!text) return "";
-
-  // <br>, <br/>, <br /> 태그를 줄바꿈으로 변환
-  const sanitized = text
-    .replace(/<br\s*\/?>/gi, "\n")
-    .replace(/<\/?[^>]+(>|$)/g, ""); // 나머지 HTML 태그 제거
-
-  return sanitized.trim();
-}
-
 /**
  * 정보 항목을 표시하는 헬퍼 컴포넌트
  */
@@ -129,29 +147,457 @@ function BooleanInfoItem({
   );
 }
 
+/**
+ * 여부 항목 목록을 칩으로 표시하는 헬퍼 컴포넌트 ("1"인 항목만 표시)
+ */
+function FlagChips({
+  icon: Icon,
+  label,
+  flags,
+}: {
+  icon: typeof Clock;
+  label: string;
+  flags: { label: string; value: string | undefined }[];
+}) {
+  const activeFlags = flags.filter((flag) => flag.value?.trim() === "1");
+  if (activeFlags.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-start gap-3">
+      <div className="mt-0.5 shrink-0">
+        <Icon className="h-5 w-5 text-primary" />
+      </div>
+      <div className="flex-1">
+        <div className="mb-2 text-sm font-semibold text-foreground">
+          {label}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {activeFlags.map((flag) => (
+            <span
+              key={flag.label}
+              className="rounded-full bg-primary/10 px-3 py-1 text-xs font-medium text-primary"
+            >
+              {flag.label}
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 관광지(12) 운영 정보
+ */
+function TouristSpotSection({ intro }: { intro: TouristSpotIntro }) {
+  return (
+    <>
+      <FlagChips
+        icon={Landmark}
+        label="유네스코 세계유산"
+        flags={[
+          { label: "세계문화유산", value: intro.heritage1 },
+          { label: "세계자연유산", value: intro.heritage2 },
+          { label: "세계기록유산", value: intro.heritage3 },
+        ]}
+      />
+      <InfoItem icon={Clock} label="이용시간" value={intro.usetime} />
+      <InfoItem icon={Calendar} label="쉬는날" value={intro.restdate} />
+      <InfoItem icon={Calendar} label="이용시기" value={intro.useseason} />
+      <InfoItem icon={Calendar} label="개장일" value={intro.opendate} />
+      <InfoItem icon={Info} label="체험 안내" value={intro.expguide} />
+      <InfoItem icon={Baby} label="체험 가능 연령" value={intro.expagerange} />
+      <InfoItem icon={Users} label="수용인원" value={intro.accomcount} />
+      <BooleanInfoItem icon={Car} label="주차시설" value={intro.parking} />
+      <BooleanInfoItem
+        icon={Baby}
+        label="유모차 대여"
+        value={intro.chkbabycarriage}
+      />
+      <BooleanInfoItem
+        icon={CreditCard}
+        label="신용카드"
+        value={intro.chkcreditcard}
+      />
+      <InfoItem icon={Phone} label="문의 및 안내" value={intro.infocenter} />
+    </>
+  );
+}
+
+/**
+ * 문화시설(14) 운영 정보
+ */
+function CulturalFacilitySection({ intro }: { intro: CulturalFacilityIntro }) {
+  return (
+    <>
+      <InfoItem icon={Clock} label="이용시간" value={intro.usetimeculture} />
+      <InfoItem icon={Calendar} label="쉬는날" value={intro.restdateculture} />
+      <InfoItem icon={DollarSign} label="이용요금" value={intro.usefee} />
+      <InfoItem icon={Ticket} label="할인정보" value={intro.discountinfo} />
+      <InfoItem icon={Clock} label="관람 소요시간" value={intro.spendtime} />
+      <InfoItem icon={Ruler} label="규모" value={intro.scale} />
+      <InfoItem icon={Users} label="수용인원" value={intro.accomcountculture} />
+      <BooleanInfoItem
+        icon={Car}
+        label="주차시설"
+        value={intro.parkingculture}
+      />
+      <InfoItem icon={DollarSign} label="주차요금" value={intro.parkingfee} />
+      <BooleanInfoItem
+        icon={Baby}
+        label="유모차 대여"
+        value={intro.chkbabycarriageculture}
+      />
+      <BooleanInfoItem
+        icon={CreditCard}
+        label="신용카드"
+        value={intro.chkcreditcardculture}
+      />
+      <InfoItem
+        icon={Phone}
+        label="문의 및 안내"
+        value={intro.infocenterculture}
+      />
+    </>
+  );
+}
+
+/**
+ * 축제/행사(15) 운영 정보
+ */
+function FestivalSection({ intro }: { intro: FestivalIntro }) {
+  // 종료일이 없으면 시작일 하루 행사로 표시
+  const eventEnd = intro.eventenddate || intro.eventstartdate;
+  const eventPeriod = intro.eventstartdate
+    ? `${formatYmd(intro.eventstartdate)} ~ ${formatYmd(eventEnd)}`
+    : undefined;
+  const sponsors = [
+    intro.sponsor1 &&
+      `주최: ${intro.sponsor1}${intro.sponsor1tel ? ` (${intro.sponsor1tel})` : ""}`,
+    intro.sponsor2 &&
+      `주관: ${intro.sponsor2}${intro.sponsor2tel ? ` (${intro.sponsor2tel})` : ""}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  return (
+    <>
+      <InfoItem icon={Calendar} label="행사 기간" value={eventPeriod} />
+      <InfoItem icon={MapPin} label="행사 장소" value={intro.eventplace} />
+      <InfoItem
+        icon={MapPin}
+        label="행사장 위치 안내"
+        value={intro.placeinfo}
+      />
+      <InfoItem icon={Clock} label="공연시간" value={intro.playtime} />
+      <InfoItem
+        icon={Clock}
+        label="관람 소요시간"
+        value={intro.spendtimefestival}
+      />
+      <InfoItem
+        icon={DollarSign}
+        label="이용요금"
+        value={intro.usetimefestival}
+      />
+      <InfoItem
+        icon={Ticket}
+        label="할인정보"
+        value={intro.discountinfofestival}
+      />
+      <InfoItem icon={Ticket} label="예매처" value={intro.bookingplace} />
+      <InfoItem icon={Baby} label="관람 가능 연령" value={intro.agelimit} />
+      <InfoItem icon={Sparkles} label="행사 프로그램" value={intro.program} />
+      <InfoItem icon={Sparkles} label="부대행사" value={intro.subevent} />
+      <InfoItem icon={Info} label="축제 등급" value={intro.festivalgrade} />
+      <InfoItem
+        icon={Globe}
+        label="행사 홈페이지"
+        value={intro.eventhomepage}
+      />
+      <InfoItem icon={Phone} label="주최 / 주관" value={sponsors} />
+    </>
+  );
+}
+
+/**
+ * 여행코스(25) 운영 정보
+ */
+function TourCourseSection({ intro }: { intro: TourCourseIntro }) {
+  return (
+    <>
+      <InfoItem icon={Route} label="코스 총 거리" value={intro.distance} />
+      <InfoItem icon={Clock} label="소요시간" value={intro.taketime} />
+      <InfoItem icon={Calendar} label="코스 일정" value={intro.schedule} />
+      <InfoItem icon={Sparkles} label="코스 테마" value={intro.theme} />
+      <InfoItem
+        icon={Phone}
+        label="문의 및 안내"
+        value={intro.infocentertourcourse}
+      />
+    </>
+  );
+}
+
+/**
+ * 레포츠(28) 운영 정보
+ */
+function LeisureSportsSection({ intro }: { intro: LeisureSportsIntro }) {
+  return (
+    <>
+      <InfoItem icon={Calendar} label="개장기간" value={intro.openperiod} />
+      <InfoItem icon={Clock} label="이용시간" value={intro.usetimeleports} />
+      <InfoItem icon={Calendar} label="쉬는날" value={intro.restdateleports} />
+      <InfoItem icon={DollarSign} label="입장료" value={intro.usefeeleports} />
+      <InfoItem icon={Ticket} label="예약안내" value={intro.reservation} />
+      <InfoItem
+        icon={Baby}
+        label="체험 가능 연령"
+        value={intro.expagerangeleports}
+      />
+      <InfoItem icon={Ruler} label="규모" value={intro.scaleleports} />
+      <InfoItem icon={Users} label="수용인원" value={intro.accomcountleports} />
+      <BooleanInfoItem
+        icon={Car}
+        label="주차시설"
+        value={intro.parkingleports}
+      />
+      <InfoItem
+        icon={DollarSign}
+        label="주차요금"
+        value={intro.parkingfeeleports}
+      />
+      <BooleanInfoItem
+        icon={Baby}
+        label="유모차 대여"
+        value={intro.chkbabycarriageleports}
+      />
+      <BooleanInfoItem
+        icon={CreditCard}
+        label="신용카드"
+        value={intro.chkcreditcardleports}
+      />
+      <InfoItem
+        icon={Phone}
+        label="문의 및 안내"
+        value={intro.infocenterleports}
+      />
+    </>
+  );
+}
+
+/**
+ * 숙박(32) 운영 정보
+ */
+function AccommodationSection({ intro }: { intro: AccommodationIntro }) {
+  const checkTime =
+    intro.checkintime || intro.checkouttime
+      ? [
+          intro.checkintime && `체크인: ${intro.checkintime}`,
+          intro.checkouttime && `체크아웃: ${intro.checkouttime}`,
+        ]
+          .filter(Boolean)
+          .join("\n")
+      : undefined;
+
+  return (
+    <>
+      <InfoItem icon={Clock} label="체크인 / 체크아웃" value={checkTime} />
+      <InfoItem icon={BedDouble} label="객실유형" value={intro.roomtype} />
+      <InfoItem icon={BedDouble} label="객실수" value={intro.roomcount} />
+      <InfoItem
+        icon={Users}
+        label="수용 가능인원"
+        value={intro.accomcountlodging}
+      />
+      <InfoItem icon={Ruler} label="규모" value={intro.scalelodging} />
+      <BooleanInfoItem
+        icon={Utensils}
+        label="객실 내 취사"
+        value={intro.chkcooking}
+      />
+      <InfoItem icon={Utensils} label="식음료장" value={intro.foodplace} />
+      <FlagChips
+        icon={Sparkles}
+        label="부대시설"
+        flags={[
+          { label: "바비큐장", value: intro.barbecue },
+          { label: "뷰티시설", value: intro.beauty },
+          { label: "식음료장", value: intro.beverage },
+          { label: "자전거 대여", value: intro.bicycle },
+          { label: "캠프파이어", value: intro.campfire },
+          { label: "휘트니스센터", value: intro.fitness },
+          { label: "노래방", value: intro.karaoke },
+          { label: "공용 샤워실", value: intro.publicbath },
+          { label: "공용 PC실", value: intro.publicpc },
+          { label: "사우나실", value: intro.sauna },
+          { label: "세미나실", value: intro.seminar },
+          { label: "스포츠시설", value: intro.sports },
+        ]}
+      />
+      <InfoItem
+        icon={Sparkles}
+        label="기타 부대시설"
+        value={intro.subfacility}
+      />
+      <BooleanInfoItem icon={Car} label="픽업 서비스" value={intro.pickup} />
+      <BooleanInfoItem
+        icon={Car}
+        label="주차시설"
+        value={intro.parkinglodging}
+      />
+      <InfoItem
+        icon={Ticket}
+        label="예약안내"
+        value={intro.reservationlodging}
+      />
+      <InfoItem
+        icon={Globe}
+        label="예약 홈페이지"
+        value={intro.reservationurl}
+      />
+      <InfoItem icon={Info} label="환불규정" value={intro.refundregulation} />
+      <InfoItem
+        icon={Phone}
+        label="문의 및 안내"
+        value={intro.infocenterlodging}
+      />
+    </>
+  );
+}
+
+/**
+ * 쇼핑(38) 운영 정보
+ */
+function ShoppingSection({ intro }: { intro: ShoppingIntro }) {
+  return (
+    <>
+      <InfoItem icon={Clock} label="영업시간" value={intro.opentime} />
+      <InfoItem icon={Calendar} label="쉬는날" value={intro.restdateshopping} />
+      <InfoItem icon={Calendar} label="장서는 날" value={intro.fairday} />
+      <InfoItem icon={Calendar} label="개장일" value={intro.opendateshopping} />
+      <InfoItem icon={ShoppingBag} label="판매 품목" value={intro.saleitem} />
+      <InfoItem
+        icon={DollarSign}
+        label="품목별 가격"
+        value={intro.saleitemcost}
+      />
+      <InfoItem icon={Info} label="매장안내" value={intro.shopguide} />
+      <InfoItem icon={Ruler} label="규모" value={intro.scaleshopping} />
+      <InfoItem icon={Info} label="화장실" value={intro.restroom} />
+      <InfoItem icon={Globe} label="문화센터" value={intro.culturecenter} />
+      <BooleanInfoItem
+        icon={Car}
+        label="주차시설"
+        value={intro.parkingshopping}
+      />
+      <BooleanInfoItem
+        icon={Baby}
+        label="유모차 대여"
+        value={intro.chkbabycarriageshopping}
+      />
+      <BooleanInfoItem
+        icon={CreditCard}
+        label="신용카드"
+        value={intro.chkcreditcardshopping}
+      />
+      <InfoItem
+        icon={Phone}
+        label="문의 및 안내"
+        value={intro.infocentershopping}
+      />
+    </>
+  );
+}
+
+/**
+ * 음식점(39) 운영 정보
+ */
+function RestaurantSection({ intro }: { intro: RestaurantIntro }) {
+  return (
+    <>
+      <InfoItem icon={Utensils} label="대표 메뉴" value={intro.firstmenu} />
+      <InfoItem icon={Utensils} label="취급 메뉴" value={intro.treatmenu} />
+      <InfoItem icon={Clock} label="영업시간" value={intro.opentimefood} />
+      <InfoItem icon={Calendar} label="쉬는날" value={intro.restdatefood} />
+      <InfoItem icon={Ticket} label="예약안내" value={intro.reservationfood} />
+      <InfoItem icon={Ticket} label="할인정보" value={intro.discountinfofood} />
+      <InfoItem icon={Users} label="좌석수" value={intro.seat} />
+      <InfoItem icon={Ruler} label="규모" value={intro.scalefood} />
+      <BooleanInfoItem icon={ShoppingBag} label="포장" value={intro.packing} />
+      <BooleanInfoItem
+        icon={Baby}
+        label="어린이 놀이방"
+        value={intro.kidsfacility}
+      />
+      <InfoItem icon={Info} label="금연 / 흡연" value={intro.smoking} />
+      <BooleanInfoItem icon={Car} label="주차시설" value={intro.parkingfood} />
+      <BooleanInfoItem
+        icon={CreditCard}
+        label="신용카드"
+        value={intro.chkcreditcardfood}
+      />
+      <InfoItem icon={Calendar} label="개업일" value={intro.opendatefood} />
+      <InfoItem icon={Info} label="인허가번호" value={intro.lcnsno} />
+      <InfoItem
+        icon={Phone}
+        label="문의 및 안내"
+        value={intro.infocenterfood}
+      />
+    </>
+  );
+}
+
+/**
+ * 관광 타입별 운영 정보 섹션 선택 (모든 타입을 처리해야 컴파일됨)
+ */
+function IntroSection({ intro }: { intro: TourIntro }) {
+  switch (intro.contenttypeid) {
+    case CONTENT_TYPE.TOURIST_SPOT:
+      return <TouristSpotSection intro={intro} />;
+    case CONTENT_TYPE.CULTURAL_FACILITY:
+      return <CulturalFacilitySection intro={intro} />;
+    case CONTENT_TYPE.FESTIVAL:
+      return <FestivalSection intro={intro} />;
+    case CONTENT_TYPE.TOUR_COURSE:
+      return <TourCourseSection intro={intro} />;
+    case CONTENT_TYPE.LEISURE_SPORTS:
+      return <LeisureSportsSection intro={intro} />;
+    case CONTENT_TYPE.ACCOMMODATION:
+      return <AccommodationSection intro={intro} />;
+    case CONTENT_TYPE.SHOPPING:
+      return <ShoppingSection intro={intro} />;
+    case CONTENT_TYPE.RESTAURANT:
+      return <RestaurantSection intro={intro} />;
+    default: {
+      const unknownIntro: never = intro;
+      console.warn("[DetailIntro] 지원하지 않는 관광 타입:", unknownIntro);
+      return null;
+    }
+  }
+}
+
+/**
+ * 표시할 소개 정보가 있는지 확인 (식별자 외 값이 있고, 여부 값 "0"은 제외)
+ */
+function hasIntroInfo(intro: TourIntro): boolean {
+  return Object.entries(intro).some(
+    ([key, value]) =>
+      key !== "contentid" &&
+      key !== "contenttypeid" &&
+      typeof value === "string" &&
+      value.trim() !== "" &&
+      value.trim() !== "0",
+  );
+}
+
 export function DetailIntro({ intro, className }: DetailIntroProps) {
   console.group("[DetailIntro] 운영 정보 렌더링");
   console.log("Intro data:", intro);
 
-  // 표시할 정보가 있는지 확인
-  const hasInfo =
-    intro.usetime ||
-    intro.restdate ||
-    intro.parking ||
-    intro.chkpet ||
-    intro.expguide ||
-    intro.expagerange ||
-    intro.eventstartdate ||
-    intro.eventenddate ||
-    intro.eventplace ||
-    intro.openperiod ||
-    intro.checkintime ||
-    intro.checkouttime ||
-    intro.opentimefood ||
-    intro.reservationfood ||
-    intro.infocenter;
-
-  if (!hasInfo) {
+  if (!hasIntroInfo(intro)) {
     console.log("표시할 운영 정보 없음");
     console.groupEnd();
     return (
@@ -169,7 +615,7 @@ export function DetailIntro({ intro, className }: DetailIntroProps) {
     );
   }
 
-  console.log("운영 정보 표시 중");
+  console.log("운영 정보 표시 중 (관광 타입:", intro.contenttypeid, ")");
   console.groupEnd();
 
   return (
@@ -178,97 +624,7 @@ export function DetailIntro({ intro, className }: DetailIntroProps) {
 
       <div className="rounded-xl border border-border bg-card p-6 shadow-sm">
         <div className="space-y-6">
-          {/* 운영시간/개장시간 */}
-          <InfoItem
-            icon={Clock}
-            label="운영시간 / 개장시간"
-            value={intro.usetime || intro.opentimefood}
-          />
-
-          {/* 체크인/체크아웃 시간 (숙박) */}
-          {intro.checkintime && intro.checkouttime && (
-            <div className="flex items-start gap-3">
-              <div className="mt-0.5 shrink-0">
-                <Clock className="h-5 w-5 text-primary" />
-              </div>
-              <div className="flex-1">
-                <div className="mb-1 text-sm font-semibold text-foreground">
-                  체크인/체크아웃
-                </div>
-                <div className="whitespace-pre-line text-sm leading-relaxed text-foreground/80">
-                  {sanitizeText(
-                    `체크인: ${intro.checkintime}\n체크아웃: ${intro.checkouttime}`,
-                  )}
-                </div>
-              </div>
-            </div>
-          )}
-
-          {/* 휴무일 */}
-          <InfoItem icon={Calendar} label="휴무일" value={intro.restdate} />
-
-          {/* 이용요금 */}
-          <InfoItem
-            icon={DollarSign}
-            label="이용요금"
-            value={intro.expguide} // 일부 타입에서는 이용요금이 expguide에 포함될 수 있음
-          />
-
-          {/* 주차 가능 여부 */}
-          <BooleanInfoItem icon={Car} label="주차 가능" value={intro.parking} />
-
-          {/* 수용인원 (있는 경우) */}
-          {intro.eventplace && (
-            <InfoItem icon={Users} label="행사 장소" value={intro.eventplace} />
-          )}
-
-          {/* 체험 프로그램 */}
-          <InfoItem icon={Info} label="체험 안내" value={intro.expguide} />
-
-          {/* 체험 가능 연령 */}
-          <InfoItem
-            icon={Baby}
-            label="체험 가능 연령"
-            value={intro.expagerange}
-          />
-
-          {/* 반려동물 정보는 별도 카드(DetailPetTour)로 표시되므로 여기서는 제거 */}
-
-          {/* 행사 기간 (축제/행사) */}
-          {intro.eventstartdate && intro.eventenddate && (
-            <div className="flex items-start gap-3">
-              <div className="mt-0.5 shrink-0">
-                <Calendar className="h-5 w-5 text-primary" />
-              </div>
-              <div className="flex-1">
-                <div className="mb-1 text-sm font-semibold text-foreground">
-                  행사 기간
-                </div>
-                <div className="whitespace-pre-line text-sm leading-relaxed text-foreground/80">
-                  {sanitizeText(
-                    `${intro.eventstartdate} ~ ${intro.eventenddate}`,
-                  )}
-                </div>
-              </div>
-            </div>
-          )}
-
-          {/* 운영 기간 (레포츠) */}
-          <InfoItem
-            icon={Calendar}
-            label="운영 기간"
-            value={intro.openperiod}
-          />
-
-          {/* 예약 안내 (음식점) */}
-          <InfoItem
-            icon={Info}
-            label="예약 안내"
-            value={intro.reservationfood}
-          />
-
-          {/* 문의처 */}
-          <InfoItem icon={Info} label="문의처" value={intro.infocenter} />
+          <IntroSection intro={intro} />
         </div>
       </div>
     </div>
@@ -8,10 +8,11 @@
  * 1. 해당 관광지 위치를 마커로 표시
  * 2. 길찾기 버튼 (네이버 지도 앱/웹 연동)
  * 3. 좌표 정보 표시
+ * 4. 여행코스 경로 표시 (경유지 번호 마커 + 폴리라인)
  *
  * @dependencies
  * - Naver Maps JavaScript API v3 (NCP)
- * - lib/types/tour.ts: TourDetail, convertCoordinates
+ * - lib/types/place.ts: Place (관광지 도메인 모델)
  *
  * 환경변수:
  * - NEXT_PUBLIC_NAVER_MAP_CLIENT_ID: 네이버 지도 API 클라이언트 ID
@@ -22,8 +23,7 @@
 import { useEffect, useRef, useState, useCallback, useMemo } from "react";
 import { Navigation } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import type { TourDetail } from "@/lib/types/tour";
-import { convertCoordinates } from "@/lib/types/tour";
+import type { Place } from "@/lib/types/place";
 import { cn } from "@/lib/utils";
 import { NavigationDialog } from "./navigation-dialog";
 
@@ -35,13 +35,28 @@ declare global {
   }
 }
 
+/**
+ * 여행코스 경로의 경유지 (WGS84)
+ */
+export interface DetailMapRoutePoint {
+  lat: number;
+  lng: number;
+  title: string;
+}
+
 interface DetailMapProps {
-  detail: TourDetail;
+  detail: Place;
+  route?: DetailMapRoutePoint[]; // 여행코스 경유지 (순서대로, 2개 이상이면 경로 표시)
   className?: string;
   height?: string;
 }
 
-function DetailMap({ detail, className, height = "400px" }: DetailMapProps) {
+function DetailMap({
+  detail,
+  route,
+  className,
+  height = "400px",
+}: DetailMapProps) {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<any>(null);
   const markerRef = useRef<any>(null);
@@ -51,13 +66,13 @@ function DetailMap({ detail, className, height = "400px" }: DetailMapProps) {
   const initializedRef = useRef(false);
   const [navigationDialogOpen, setNavigationDialogOpen] = useState(false);
 
-  // 좌표 변환 (메모이제이션하여 불필요한 재생성 방지)
+  // 좌표 (메모이제이션하여 불필요한 재생성 방지)
   const coordinates = useMemo(() => {
-    if (detail.mapx && detail.mapy) {
-      return convertCoordinates(detail.mapx, detail.mapy);
+    if (detail.lat !== null && detail.lng !== null) {
+      return { lat: detail.lat, lng: detail.lng };
     }
     return null;
-  }, [detail.mapx, detail.mapy]);
+  }, [detail.lat, detail.lng]);
 
   // 네이버 지도 스크립트 로드
   const loadNaverMapScript = useCallback(() => {
@@ -291,7 +306,7 @@ function DetailMap({ detail, className, height = "400px" }: DetailMapProps) {
           <p style="
             font-size: 14px;
             color: #6b7280;
-          ">${detail.addr1}${detail.addr2 ? ` ${detail.addr2}` : ""}</p>
+          ">${detail.fullAddress}</p>
         </div>
       `,
     });
@@ -301,8 +316,63 @@ function DetailMap({ detail, className, height = "400px" }: DetailMapProps) {
       infoWindow.open(map, marker);
     });
 
-    // 초기 인포윈도우 열기
-    infoWindow.open(map, marker);
+    const hasRoute = !!route && route.length >= 2;
+
+    // 초기 인포윈도우 열기 (경로가 있으면 경유지 마커를 가리지 않도록 생략)
+    if (!hasRoute) {
+      infoWindow.open(map, marker);
+    }
+
+    // 여행코스 경로: 경유지 순서대로 폴리라인과 번호 마커 표시
+    if (hasRoute) {
+      const path = route.map(
+        (point) => new window.naver.maps.LatLng(point.lat, point.lng),
+      );
+
+      new window.naver.maps.Polyline({
+        map,
+        path,
+        strokeColor: "#4F46E5",
+        strokeWeight: 4,
+        strokeOpacity: 0.8,
+        strokeLineCap: "round",
+        strokeLineJoin: "round",
+      });
+
+      route.forEach((point, index) => {
+        new window.naver.maps.Marker({
+          position: path[index],
+          map,
+          title: `${index + 1}. ${point.title}`,
+          icon: {
+            content: `
+              <div style="
+                background-color: #4F46E5;
+                color: white;
+                width: 28px;
+                height: 28px;
+                border-radius: 50%;
+                border: 2px solid white;
+                box-shadow: 0 2px 6px rgba(0,0,0,0.3);
+                display: flex;
+                align-items: center;
+                justify-content: center;
+                font-size: 13px;
+                font-weight: bold;
+              ">${index + 1}</div>
+            `,
+            anchor: new window.naver.maps.Point(14, 14),
+          },
+        });
+      });
+
+      // 모든 경유지가 보이도록 지도 범위 조정
+      const bounds = new window.naver.maps.LatLngBounds(path[0], path[0]);
+      path.forEach((latLng: any) => bounds.extend(latLng));
+      map.fitBounds(bounds, { top: 40, right: 40, bottom: 40, left: 40 });
+
+      console.log("[DetailMap] 코스 경로 표시:", route.length, "개 경유지");
+    }
 
     mapInstanceRef.current = map;
     markerRef.current = marker;
@@ -311,7 +381,7 @@ function DetailMap({ detail, className, height = "400px" }: DetailMapProps) {
     console.groupEnd();
 
     return map;
-  }, [coordinates, detail.title, detail.addr1, detail.addr2]);
+  }, [coordinates, route, detail.title, detail.fullAddress]);
 
   // 지도 초기화
   useEffect(() => {
@@ -485,7 +555,7 @@ function DetailMap({ detail, className, height = "400px" }: DetailMapProps) {
     console.log("[DetailMap] 길찾기 버튼 클릭:", {
       title: detail.title,
       coordinates,
-      address: detail.addr1 + (detail.addr2 || ""),
+      address: detail.fullAddress,
     });
     setNavigationDialogOpen(true);
   };
@@ -574,7 +644,7 @@ function DetailMap({ detail, className, height = "400px" }: DetailMapProps) {
             lat: coordinates.lat,
             lng: coordinates.lng,
             name: detail.title,
-            address: detail.addr1 + (detail.addr2 ? ` ${detail.addr2}` : ""),
+            address: detail.fullAddress,
           }}
         />
       )}
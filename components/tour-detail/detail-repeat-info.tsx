@@ -0,0 +1,59 @@
+/**
+ * @file detail-repeat-info.tsx
+ * @description 이용 안내(반복 정보) 섹션 컴포넌트
+ *
+ * 여행코스/숙박 외 타입의 반복 정보(detailInfo2)를 표시하는 컴포넌트입니다.
+ * 입장료, 시설, 해설 안내 등 이름/내용 쌍을 순서대로 보여줍니다.
+ *
+ * @dependencies
+ * - lib/types/tour.ts: TourRepeatInfoItem 타입
+ * - lib/utils/text.ts: sanitizeText
+ */
+
+"use client";
+
+import { ClipboardList } from "lucide-react";
+import type { TourRepeatInfoItem } from "@/lib/types/tour";
+import { cn } from "@/lib/utils";
+import { sanitizeText } from "@/lib/utils/text";
+
+interface DetailRepeatInfoProps {
+  items: TourRepeatInfoItem[];
+  className?: string;
+}
+
+export function DetailRepeatInfo({ items, className }: DetailRepeatInfoProps) {
+  // 제목이나 내용이 비어 있는 항목은 제외
+  const visibleItems = items.filter(
+    (item) => item.infoname?.trim() && item.infotext?.trim(),
+  );
+
+  if (visibleItems.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={cn("space-y-6", className)}>
+      <h2 className="flex items-center gap-2 text-2xl font-semibold text-foreground">
+        <ClipboardList className="h-6 w-6 text-primary" />
+        이용 안내
+      </h2>
+
+      <dl className="divide-y divide-border rounded-xl border border-border bg-card shadow-sm">
+        {visibleItems.map((item, index) => (
+          <div
+            key={`${item.serialnum ?? index}-${item.infoname}`}
+            className="flex flex-col gap-1 p-4 sm:flex-row sm:gap-6"
+          >
+            <dt className="shrink-0 text-sm font-semibold text-foreground sm:w-32">
+              {sanitizeText(item.infoname)}
+            </dt>
+            <dd className="whitespace-pre-line text-sm leading-relaxed text-foreground/80">
+              {sanitizeText(item.infotext)}
+            </dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+/**
+ * @file detail-rooms.tsx
+ * @description 숙박 객실 정보 섹션 컴포넌트
+ *
+ * 숙박(32) 타입 관광지의 객실 정보(detailInfo2)를 표시하는 컴포넌트입니다.
+ *
+ * 주요 기능:
+ * 1. 객실명, 객실 크기(평/㎡), 객실 수 표시
+ * 2. 기준/최대 인원 표시
+ * 3. 비수기/성수기 주중·주말 최소 요금 표시
+ * 4. 편의시설 표시 (Y인 항목만)
+ * 5. 객실 소개, 대표 객실 이미지 표시
+ *
+ * @dependencies
+ * - lib/types/tour.ts: TourRoomInfo 타입
+ * - lib/utils/image.ts: normalizeImageUrl
+ * - lib/utils/text.ts: sanitizeText
+ * - lucide-react: 아이콘
+ */
+
+"use client";
+
+import Image from "next/image";
+import { BedDouble, Maximize, Users } from "lucide-react";
+import type { TourRoomInfo } from "@/lib/types/tour";
+import { cn } from "@/lib/utils";
+import { normalizeImageUrl } from "@/lib/utils/image";
+import { sanitizeText } from "@/lib/utils/text";
+
+interface DetailRoomsProps {
+  rooms: TourRoomInfo[];
+  className?: string;
+}
+
+/**
+ * 편의시설 필드 → 표시 이름
+ */
+const ROOM_AMENITIES: { key: keyof TourRoomInfo; label: string }[] = [
+  { key: "roombathfacility", label: "목욕시설" },
+  { key: "roombath", label: "욕조" },
+  { key: "roomaircondition", label: "에어컨" },
+  { key: "roomtv", label: "TV" },
+  { key: "roomcable", label: "케이블" },
+  { key: "roominternet", label: "인터넷" },
+  { key: "roompc", label: "PC" },
+  { key: "roomhometheater", label: "홈시어터" },
+  { key: "roomrefrigerator", label: "냉장고" },
+  { key: "roomtoiletries", label: "세면도구" },
+  { key: "roomsofa", label: "소파" },
+  { key: "roomtable", label: "테이블" },
+  { key: "roomcook", label: "취사용품" },
+  { key: "roomhairdryer", label: "드라이기" },
+];
+
+/**
+ * 요금 표시 (0이거나 값이 없으면 "-")
+ */
+function formatFee(fee: string | undefined): string {
+  const value = parseInt(fee || "", 10);
+  return value > 0 ? `${value.toLocaleString()}원` : "-";
+}
+
+/**
+ * 객실 크기 표시 (예: 11평 (36㎡))
+ */
+function formatRoomSize(room: TourRoomInfo): string | null {
+  const pyeong = parseFloat(room.roomsize1 || "");
+  const squareMeters = parseFloat(room.roomsize2 || "");
+  if (pyeong > 0 && squareMeters > 0) {
+    return `${pyeong}평 (${squareMeters}㎡)`;
+  }
+  if (pyeong > 0) {
+    return `${pyeong}평`;
+  }
+  if (squareMeters > 0) {
+    return `${squareMeters}㎡`;
+  }
+  return null;
+}
+
+/**
+ * 인원 표시 (예: 기준 2명 / 최대 3명)
+ */
+function formatCapacity(room: TourRoomInfo): string | null {
+  const base = parseInt(room.roombasecount || "", 10);
+  const max = parseInt(room.roommaxcount || "", 10);
+  const parts = [
+    base > 0 ? `기준 ${base}명` : null,
+    max > 0 ? `최대 ${max}명` : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" / ") : null;
+}
+
+function RoomCard({ room }: { room: TourRoomInfo }) {
+  const size = formatRoomSize(room);
+  const capacity = formatCapacity(room);
+  const roomCount = parseInt(room.roomcount || "", 10);
+  const imageUrl = normalizeImageUrl(room.roomimg1);
+  const amenities = ROOM_AMENITIES.filter(
+    ({ key }) => room[key]?.toUpperCase() === "Y",
+  );
+  const hasFee = [
+    room.roomoffseasonminfee1,
+    room.roomoffseasonminfee2,
+    room.roompeakseasonminfee1,
+    room.roompeakseasonminfee2,
+  ].some((fee) => parseInt(fee || "", 10) > 0);
+
+  return (
+    <div className="overflow-hidden rounded-xl border border-border bg-card shadow-sm">
+      {imageUrl && (
+        <div className="relative aspect-video w-full bg-muted">
+          <Image
+            src={imageUrl}
+            alt={room.roomimg1alt || room.roomtitle}
+            fill
+            className="object-cover"
+            sizes="(max-width: 768px) 100vw, 50vw"
+            unoptimized={imageUrl.includes("visitkorea.or.kr")}
+          />
+        </div>
+      )}
+
+      <div className="space-y-4 p-5">
+        <div className="flex items-start justify-between gap-3">
+          <h3 className="text-lg font-semibold text-foreground">
+            {room.roomtitle}
+          </h3>
+          {roomCount > 0 && (
+            <span className="shrink-0 text-xs text-muted-foreground">
+              {roomCount.toLocaleString()}실
+            </span>
+          )}
+        </div>
+
+        {/* 크기, 인원 */}
+        {(size || capacity) && (
+          <div className="flex flex-wrap gap-x-4 gap-y-2 text-sm text-foreground/80">
+            {size && (
+              <span className="flex items-center gap-1.5">
+                <Maximize className="h-4 w-4 text-primary" />
+                {size}
+              </span>
+            )}
+            {capacity && (
+              <span className="flex items-center gap-1.5">
+                <Users className="h-4 w-4 text-primary" />
+                {capacity}
+              </span>
+            )}
+          </div>
+        )}
+
+        {/* 요금 */}
+        {hasFee && (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-muted-foreground">
+                <th className="py-1 text-left font-medium">최소 요금</th>
+                <th className="py-1 text-right font-medium">주중</th>
+                <th className="py-1 text-right font-medium">주말</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-t border-border">
+                <td className="py-1.5">비수기</td>
+                <td className="py-1.5 text-right">
+                  {formatFee(room.roomoffseasonminfee1)}
+                </td>
+                <td className="py-1.5 text-right">
+                  {formatFee(room.roomoffseasonminfee2)}
+                </td>
+              </tr>
+              <tr className="border-t border-border">
+                <td className="py-1.5">성수기</td>
+                <td className="py-1.5 text-right">
+                  {formatFee(room.roompeakseasonminfee1)}
+                </td>
+                <td className="py-1.5 text-right">
+                  {formatFee(room.roompeakseasonminfee2)}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        )}
+
+        {/* 편의시설 */}
+        {amenities.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {amenities.map(({ key, label }) => (
+              <span
+                key={key}
+                className="rounded-full bg-primary/10 px-2.5 py-0.5 text-xs font-medium text-primary"
+              >
+                {label}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {/* 객실 소개 */}
+        {room.roomintro && (
+          <p className="whitespace-pre-line text-sm leading-relaxed text-foreground/80">
+            {sanitizeText(room.roomintro)}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function DetailRooms({ rooms, className }: DetailRoomsProps) {
+  console.log("[DetailRooms] 객실 정보 렌더링:", rooms.length, "개");
+
+  if (rooms.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={cn("space-y-6", className)}>
+      <h2 className="flex items-center gap-2 text-2xl font-semibold text-foreground">
+        <BedDouble className="h-6 w-6 text-primary" />
+        객실 정보
+      </h2>
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        {rooms.map((room, index) => (
+          <RoomCard key={room.roomcode || index} room={room} />
+        ))}
+      </div>
+    </div>
+  );
+}
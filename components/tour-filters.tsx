@@ -8,14 +8,16 @@
  * 1. 지역 필터 (시/도 선택)
  * 2. 시/군/구 필터 (시/도 선택 시 활성화)
  * 3. 관광 타입 필터 (12, 14, 15, 25, 28, 32, 38, 39)
+ * 3-1. 분류 필터 (대분류 → 중분류 → 소분류, cat1/cat2/cat3 쿼리)
  * 4. 반려동물 동반 가능 필터 (토글)
  * 5. 주차 가능 필터 (토글)
  * 6. URL Query를 통한 필터 상태 관리
  * 7. "전체" 옵션 제공
+ * 8. 내 주변 모드 (브라우저 위치 → lat, lng, radius 쿼리)
  *
  * @dependencies
  * - lib/types/tour.ts: CONTENT_TYPE, CONTENT_TYPE_NAME
- * - actions/tour-actions.ts: getSigunguCodes (Server Action)
+ * - app/api/tour/sigungu/route.ts: 시/군/구 코드 조회 API (시/도를 바꾸면 이전 요청 취소)
  * - next/navigation: useRouter, useSearchParams
  * - components/ui/button: 필터 초기화 버튼
  */
@@ -24,13 +26,13 @@
 
 import { useEffect, useState } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
-import { X } from "lucide-react";
+import { LocateFixed, X } from "lucide-react";
 import {
   CONTENT_TYPE,
   CONTENT_TYPE_NAME,
   type AreaCode,
+  type CategoryNode,
 } from "@/lib/types/tour";
-import { getSigunguCodes } from "@/actions/tour-actions";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import {
@@ -44,9 +46,21 @@ import { cn } from "@/lib/utils";
 
 interface TourFiltersProps {
   areaCodes: AreaCode[];
+  categories?: CategoryNode[]; // 분류 트리 (없으면 분류 필터 숨김)
   className?: string;
 }
 
+/**
+ * 내 주변 모드 반경 옵션 (m)
+ */
+const RADIUS_OPTIONS = [
+  { value: "1000", label: "1km" },
+  { value: "3000", label: "3km" },
+  { value: "5000", label: "5km" },
+  { value: "10000", label: "10km" },
+  { value: "20000", label: "20km" },
+];
+
 /**
  * 지역코드 기본 목록 (한국관광공사 API 표준)
  * 실제로는 API에서 가져오지만, 초기값으로 사용
@@ -71,15 +85,28 @@ const DEFAULT_AREA_CODES: AreaCode[] = [
   { code: "39", name: "제주" },
 ];
 
-export function TourFilters({ areaCodes, className }: TourFiltersProps) {
+export function TourFilters({
+  areaCodes,
+  categories = [],
+  className,
+}: TourFiltersProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
 
   const currentAreaCode = searchParams.get("areaCode") || "";
   const currentSigunguCode = searchParams.get("sigunguCode") || "";
   const currentContentTypeId = searchParams.get("contentTypeId") || "";
+  const currentCat1 = searchParams.get("cat1") || "";
+  const currentCat2 = searchParams.get("cat2") || "";
+  const currentCat3 = searchParams.get("cat3") || "";
   const petFriendly = searchParams.get("petFriendly") === "true";
   const parkingAvailable = searchParams.get("parkingAvailable") === "true";
+  const isNearby = searchParams.has("lat") && searchParams.has("lng");
+  const currentRadius = searchParams.get("radius") || "3000";
+
+  // 내 주변 모드 위치 조회 상태
+  const [locating, setLocating] = useState(false);
+  const [locationError, setLocationError] = useState<string | null>(null);
 
   // 시/군/구 코드 목록 상태
   const [sigunguCodes, setSigunguCodes] = useState<AreaCode[]>([]);
@@ -89,38 +116,57 @@ export function TourFilters({ areaCodes, className }: TourFiltersProps) {
   const availableAreaCodes =
     areaCodes.length > 0 ? areaCodes : DEFAULT_AREA_CODES;
 
+  // 선택된 대분류/중분류의 하위 분류 목록
+  const cat1Node = categories.find((node) => node.code === currentCat1);
+  const cat2Options = cat1Node?.children || [];
+  const cat2Node = cat2Options.find((node) => node.code === currentCat2);
+  const cat3Options = cat2Node?.children || [];
+  const cat3Node = cat3Options.find((node) => node.code === currentCat3);
+
   /**
    * 시/도 선택 시 해당 시/도의 시/군/구 목록 로드
+   * 시/도를 다시 바꾸면 이전 요청을 취소합니다 (늦게 도착한 이전 목록 무시).
    */
   useEffect(() => {
     console.group("[TourFilters] 시/군/구 목록 로드");
     console.log("현재 선택된 시/도 코드:", currentAreaCode);
 
-    if (currentAreaCode) {
-      setLoadingSigungu(true);
-      getSigunguCodes(currentAreaCode)
-        .then((codes) => {
-          if (codes) {
-            console.log(`시/군/구 목록 로드 완료:`, codes.length, "개");
-            setSigunguCodes(codes);
-          } else {
-            console.warn("시/군/구 목록 로드 결과 없음");
-            setSigunguCodes([]);
-          }
-        })
-        .catch((error) => {
-          console.error("시/군/구 목록 로드 실패:", error);
-          setSigunguCodes([]);
-        })
-        .finally(() => {
-          setLoadingSigungu(false);
-        });
-    } else {
+    if (!currentAreaCode) {
       console.log("시/도가 선택되지 않아 시/군/구 목록 초기화");
       setSigunguCodes([]);
+      console.groupEnd();
+      return;
     }
 
+    const controller = new AbortController();
+    setLoadingSigungu(true);
+    fetch(`/api/tour/sigungu?areaCode=${encodeURIComponent(currentAreaCode)}`, {
+      signal: controller.signal,
+    })
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        const codes: AreaCode[] = await response.json();
+        console.log(`시/군/구 목록 로드 완료:`, codes.length, "개");
+        setSigunguCodes(codes);
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) {
+          console.log("시/군/구 목록 로드 취소:", currentAreaCode);
+          return;
+        }
+        console.error("시/군/구 목록 로드 실패:", error);
+        setSigunguCodes([]);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) {
+          setLoadingSigungu(false);
+        }
+      });
+
     console.groupEnd();
+    return () => controller.abort();
   }, [currentAreaCode]);
 
   /**
@@ -140,6 +186,22 @@ export function TourFilters({ areaCodes, className }: TourFiltersProps) {
       params.delete("sigunguCode");
     }
 
+    // 상위 분류 변경 시 하위 분류 필터 초기화
+    if (key === "cat1") {
+      params.delete("cat2");
+      params.delete("cat3");
+    }
+    if (key === "cat2") {
+      params.delete("cat3");
+    }
+
+    // 지역을 선택하면 내 주변 모드 해제
+    if ((key === "areaCode" || key === "sigunguCode") && value) {
+      params.delete("lat");
+      params.delete("lng");
+      params.delete("radius");
+    }
+
     // 페이지는 1로 리셋
     params.delete("page");
 
@@ -181,13 +243,75 @@ export function TourFilters({ areaCodes, className }: TourFiltersProps) {
     router.push(`/?${params.toString()}`);
   };
 
+  /**
+   * 내 주변 모드 토글 핸들러
+   * 켜면 브라우저 위치를 가져와 지역/키워드 필터 대신 위치 기반으로 조회합니다.
+   */
+  const handleNearbyToggle = () => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.delete("page");
+
+    if (isNearby) {
+      params.delete("lat");
+      params.delete("lng");
+      params.delete("radius");
+      if (params.get("sort") === "distance") {
+        params.delete("sort");
+      }
+      router.push(`/?${params.toString()}`);
+      return;
+    }
+
+    if (!navigator.geolocation) {
+      setLocationError("이 브라우저에서는 위치 정보를 사용할 수 없습니다.");
+      return;
+    }
+
+    console.group("[TourFilters] 내 주변 모드 - 현재 위치 조회");
+    setLocating(true);
+    setLocationError(null);
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        console.log("현재 위치:", position.coords);
+        console.groupEnd();
+        setLocating(false);
+
+        params.delete("areaCode");
+        params.delete("sigunguCode");
+        params.delete("keyword");
+        // 위치 기반 조회에는 분류 필터를 적용하지 않음
+        params.delete("cat1");
+        params.delete("cat2");
+        params.delete("cat3");
+        params.set("lat", position.coords.latitude.toFixed(6));
+        params.set("lng", position.coords.longitude.toFixed(6));
+        params.set("radius", currentRadius);
+        router.push(`/?${params.toString()}`);
+      },
+      (error) => {
+        console.error("위치 조회 실패:", error);
+        console.groupEnd();
+        setLocating(false);
+        setLocationError(
+          error.code === error.PERMISSION_DENIED
+            ? "위치 권한이 거부되었습니다. 브라우저 설정에서 위치 권한을 허용해주세요."
+            : "현재 위치를 가져올 수 없습니다. 잠시 후 다시 시도해주세요.",
+        );
+      },
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 60000 },
+    );
+  };
+
   /**
    * 필터가 적용되어 있는지 확인
    */
   const hasActiveFilters =
+    isNearby ||
     currentAreaCode !== "" ||
     currentSigunguCode !== "" ||
     currentContentTypeId !== "" ||
+    currentCat1 !== "" ||
     petFriendly ||
     parkingAvailable;
 
@@ -213,6 +337,54 @@ export function TourFilters({ areaCodes, className }: TourFiltersProps) {
         )}
       </div>
 
+      {/* 내 주변 모드 */}
+      <div className="flex flex-col gap-3 rounded-md border bg-muted/30 p-4 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-3">
+          <Button
+            type="button"
+            variant={isNearby ? "default" : "outline"}
+            size="sm"
+            onClick={handleNearbyToggle}
+            disabled={locating}
+            className="gap-1.5"
+            aria-pressed={isNearby}
+          >
+            <LocateFixed className="h-4 w-4" />
+            {locating ? "위치 확인 중..." : "내 주변"}
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            {isNearby
+              ? "현재 위치 기준 가까운 순으로 표시"
+              : "현재 위치 주변의 관광지를 찾아보세요"}
+          </span>
+        </div>
+        {isNearby && (
+          <div className="flex items-center gap-2">
+            <Label htmlFor="radius-filter" className="text-sm">
+              반경
+            </Label>
+            <Select
+              value={currentRadius}
+              onValueChange={(value) => handleFilterChange("radius", value)}
+            >
+              <SelectTrigger id="radius-filter" className="w-[100px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RADIUS_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+      {locationError && (
+        <p className="text-xs text-destructive">{locationError}</p>
+      )}
+
       {/* 선택 필터 영역 (지역, 시/군/구, 관광 타입) */}
       <div className="space-y-4 rounded-md border bg-muted/30 p-4">
         <div className="grid gap-4 md:grid-cols-3">
@@ -301,9 +473,94 @@ export function TourFilters({ areaCodes, className }: TourFiltersProps) {
           </div>
         </div>
 
+        {/* 분류 필터 (대분류 → 중분류 → 소분류) */}
+        {categories.length > 0 && (
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="cat1-filter">대분류</Label>
+              <Select
+                value={currentCat1 || "all"}
+                onValueChange={(value) =>
+                  handleFilterChange("cat1", value === "all" ? "" : value)
+                }
+                disabled={isNearby}
+              >
+                <SelectTrigger id="cat1-filter" className="w-full">
+                  <SelectValue placeholder="전체" />
+                </SelectTrigger>
+                <SelectContent className="max-h-[300px]">
+                  <SelectItem value="all">전체</SelectItem>
+                  {categories.map((node) => (
+                    <SelectItem key={node.code} value={node.code}>
+                      {node.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="cat2-filter">중분류</Label>
+              <Select
+                value={currentCat2 || "all"}
+                onValueChange={(value) =>
+                  handleFilterChange("cat2", value === "all" ? "" : value)
+                }
+                disabled={isNearby || cat2Options.length === 0}
+              >
+                <SelectTrigger id="cat2-filter" className="w-full">
+                  <SelectValue
+                    placeholder={
+                      !currentCat1 ? "대분류를 먼저 선택하세요" : "전체"
+                    }
+                  />
+                </SelectTrigger>
+                <SelectContent className="max-h-[300px]">
+                  <SelectItem value="all">전체</SelectItem>
+                  {cat2Options.map((node) => (
+                    <SelectItem key={node.code} value={node.code}>
+                      {node.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="cat3-filter">소분류</Label>
+              <Select
+                value={currentCat3 || "all"}
+                onValueChange={(value) =>
+                  handleFilterChange("cat3", value === "all" ? "" : value)
+                }
+                disabled={isNearby || cat3Options.length === 0}
+              >
+                <SelectTrigger id="cat3-filter" className="w-full">
+                  <SelectValue
+                    placeholder={
+                      !currentCat2 ? "중분류를 먼저 선택하세요" : "전체"
+                    }
+                  />
+                </SelectTrigger>
+                <SelectContent className="max-h-[300px]">
+                  <SelectItem value="all">전체</SelectItem>
+                  {cat3Options.map((node) => (
+                    <SelectItem key={node.code} value={node.code}>
+                      {node.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
         {/* 활성 필터 표시 */}
         {hasActiveFilters &&
-          (currentAreaCode || currentSigunguCode || currentContentTypeId) && (
+          (currentAreaCode ||
+            currentSigunguCode ||
+            currentContentTypeId ||
+            currentCat1) && (
             <div className="flex flex-wrap gap-2 pt-2 border-t">
               {currentAreaCode && (
                 <span className="inline-flex items-center gap-1 rounded-full bg-primary/10 px-2 py-1 text-xs text-primary">
@@ -354,6 +611,22 @@ export function TourFilters({ areaCodes, className }: TourFiltersProps) {
                   </button>
                 </span>
               )}
+              {cat1Node && (
+                <span className="inline-flex items-center gap-1 rounded-full bg-primary/10 px-2 py-1 text-xs text-primary">
+                  분류:{" "}
+                  {[cat1Node, cat2Node, cat3Node]
+                    .filter(Boolean)
+                    .map((node) => node?.name)
+                    .join(" > ")}
+                  <button
+                    onClick={() => handleFilterChange("cat1", "")}
+                    className="ml-1 hover:text-primary/80"
+                    aria-label="분류 필터 제거"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              )}
             </div>
           )}
       </div>
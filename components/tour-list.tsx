@@ -13,7 +13,7 @@
  * @dependencies
  * - components/tour-card.tsx: TourCard 컴포넌트
  * - components/ui/skeleton.tsx: 스켈레톤 UI
- * - lib/types/tour.ts: TourItem 타입
+ * - lib/types/place.ts: Place 타입 (관광지 도메인 모델)
  */
 
 "use client";
@@ -21,15 +21,15 @@
 import { memo } from "react";
 import { TourCard } from "@/components/tour-card";
 import { TourListSkeleton } from "@/components/ui/skeleton";
-import type { TourItem } from "@/lib/types/tour";
+import type { Place } from "@/lib/types/place";
 import { cn } from "@/lib/utils";
 
 interface TourListProps {
-  tours: TourItem[];
+  tours: Place[];
   isLoading?: boolean;
   className?: string;
-  onTourClick?: (tour: TourItem) => void;
-  onTourHover?: (tour: TourItem | null) => void;
+  onTourClick?: (tour: Place) => void;
+  onTourHover?: (tour: Place | null) => void;
 }
 
 function TourListComponent({
@@ -70,7 +70,7 @@ function TourListComponent({
     >
       {tours.map((tour) => (
         <TourCard
-          key={tour.contentid}
+          key={tour.id}
           tour={tour}
           onTourClick={onTourClick}
           onTourHover={onTourHover}
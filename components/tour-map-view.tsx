@@ -12,7 +12,7 @@
  * @dependencies
  * - components/tour-list.tsx: 관광지 목록
  * - components/naver-map.tsx: 네이버 지도
- * - lib/types/tour.ts: TourItem
+ * - lib/types/place.ts: Place (관광지 도메인 모델)
  */
 
 "use client";
@@ -22,11 +22,11 @@ import { Map, List } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { TourList } from "@/components/tour-list";
 import { NaverMap } from "@/components/naver-map";
-import type { TourItem } from "@/lib/types/tour";
+import type { Place } from "@/lib/types/place";
 import { cn } from "@/lib/utils";
 
 interface TourMapViewProps {
-  tours: TourItem[];
+  tours: Place[];
   className?: string;
 }
 
@@ -40,25 +40,25 @@ export function TourMapView({ tours, className }: TourMapViewProps) {
   >();
 
   // 리스트 항목 클릭 핸들러
-  const handleTourClick = useCallback((tour: TourItem) => {
+  const handleTourClick = useCallback((tour: Place) => {
     console.log("[TourMapView] 관광지 클릭:", tour.title);
-    setSelectedTourId(tour.contentid);
+    setSelectedTourId(tour.id);
   }, []);
 
   // 리스트 항목 호버 핸들러
-  const handleTourHover = useCallback((tour: TourItem | null) => {
+  const handleTourHover = useCallback((tour: Place | null) => {
     if (tour) {
       console.log("[TourMapView] 관광지 호버:", tour.title);
-      setHighlightedTourId(tour.contentid);
+      setHighlightedTourId(tour.id);
     } else {
       setHighlightedTourId(undefined);
     }
   }, []);
 
   // 마커 클릭 핸들러
-  const handleMarkerClick = useCallback((tour: TourItem) => {
+  const handleMarkerClick = useCallback((tour: Place) => {
     console.log("[TourMapView] 마커 클릭:", tour.title);
-    setSelectedTourId(tour.contentid);
+    setSelectedTourId(tour.id);
   }, []);
 
   return (
@@ -137,9 +137,9 @@ export function TourMapView({ tours, className }: TourMapViewProps) {
 
 // TourList 래퍼 컴포넌트
 interface TourListWithClickProps {
-  tours: TourItem[];
-  onTourClick: (tour: TourItem) => void;
-  onTourHover: (tour: TourItem | null) => void;
+  tours: Place[];
+  onTourClick: (tour: Place) => void;
+  onTourHover: (tour: Place | null) => void;
 }
 
 function TourListWithClick({
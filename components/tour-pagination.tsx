@@ -7,7 +7,8 @@
  * 주요 기능:
  * 1. 페이지 번호 표시 및 이동
  * 2. 이전/다음 페이지 버튼
- * 3. URL Query를 통한 페이지 상태 관리
+ * 3. 첫 페이지/마지막 페이지로 이동 버튼
+ * 4. URL Query를 통한 페이지 상태 관리
  *
  * @dependencies
  * - next/navigation: useRouter, useSearchParams
@@ -18,19 +19,26 @@
 "use client";
 
 import { useRouter, useSearchParams } from "next/navigation";
-import { ChevronLeft, ChevronRight } from "lucide-react";
+import {
+  ChevronLeft,
+  ChevronRight,
+  ChevronsLeft,
+  ChevronsRight,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 
 interface TourPaginationProps {
   currentPage: number;
-  totalPages: number;
+  totalPages: number; // 전체 페이지 수 (totalCount / numOfRows)
+  basePath?: string; // 이동할 페이지 경로 (기본: "/")
   className?: string;
 }
 
 export function TourPagination({
   currentPage,
   totalPages,
+  basePath = "/",
   className,
 }: TourPaginationProps) {
   const router = useRouter();
@@ -47,7 +55,7 @@ export function TourPagination({
       params.set("page", page.toString());
     }
 
-    router.push(`/?${params.toString()}`);
+    router.push(`${basePath}?${params.toString()}`);
 
     // 페이지 상단으로 스크롤
     window.scrollTo({ top: 0, behavior: "smooth" });
@@ -102,6 +110,18 @@ export function TourPagination({
 
   return (
     <div className={cn("flex items-center justify-center gap-2", className)}>
+      {/* 첫 페이지 버튼 */}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => handlePageChange(1)}
+        disabled={currentPage === 1}
+        className="h-9 w-9 p-0"
+        aria-label="첫 페이지"
+      >
+        <ChevronsLeft className="h-4 w-4" />
+      </Button>
+
       {/* 이전 페이지 버튼 */}
       <Button
         variant="outline"
@@ -153,12 +173,24 @@ export function TourPagination({
         variant="outline"
         size="sm"
         onClick={() => handlePageChange(currentPage + 1)}
-        disabled={currentPage === totalPages}
+        disabled={currentPage >= totalPages}
         className="h-9 w-9 p-0"
         aria-label="다음 페이지"
       >
         <ChevronRight className="h-4 w-4" />
       </Button>
+
+      {/* 마지막 페이지 버튼 */}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => handlePageChange(totalPages)}
+        disabled={currentPage >= totalPages}
+        className="h-9 w-9 p-0"
+        aria-label={`마지막 페이지 (${totalPages}페이지)로 이동`}
+      >
+        <ChevronsRight className="h-4 w-4" />
+      </Button>
     </div>
   );
 }
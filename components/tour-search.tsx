@@ -9,31 +9,99 @@
  * 2. 엔터 또는 검색 버튼 클릭으로 검색 실행
  * 3. URL Query를 통한 검색 상태 관리
  * 4. 검색 중 로딩 상태 표시
+ * 5. 자동완성 목록 (입력 전: 최근 검색어, 입력 중: 관광지명/지역/분류 추천)
+ * 6. 키보드 탐색 (↑/↓ 이동, Enter 선택, Esc 닫기)
+ * 7. 관광지명과 정확히 일치하는 검색어는 상세페이지로 바로 이동
  *
  * @dependencies
  * - next/navigation: useRouter, useSearchParams
  * - lucide-react: 검색 아이콘
  * - components/ui/button: 검색 버튼
  * - components/ui/input: 검색 입력창
+ * - components/ui/highlighted-text.tsx: 추천 항목의 검색어 강조
+ * - app/api/search/suggest/route.ts: 검색어 추천 API
+ * - lib/utils/korean-search.ts: 검색어 정규화 (추천 결과의 검색어 비교)
  */
 
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useId } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
-import { Search, X } from "lucide-react";
+import { Clock, Map, MapPin, Search, Tag, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { HighlightedText } from "@/components/ui/highlighted-text";
 import { Input } from "@/components/ui/input";
+import type {
+  SearchSuggestion,
+  SearchSuggestResult,
+} from "@/lib/types/search";
 import { cn } from "@/lib/utils";
+import { normalizeSearchText } from "@/lib/utils/korean-search";
 
 interface TourSearchProps {
   className?: string;
 }
 
+/**
+ * 최근 검색어 저장 키 (localStorage)
+ */
+const RECENT_SEARCHES_KEY = "tour-recent-searches";
+
+/**
+ * 최근 검색어 최대 개수
+ */
+const MAX_RECENT_SEARCHES = 8;
+
+/**
+ * 추천 요청 전 대기 시간 (입력 중 요청 수 줄이기)
+ */
+const SUGGEST_DEBOUNCE_MS = 150;
+
+/**
+ * 추천 항목 종류별 아이콘, 이름
+ */
+const SUGGESTION_TYPES = {
+  place: { icon: MapPin, label: "관광지" },
+  region: { icon: Map, label: "지역" },
+  category: { icon: Tag, label: "분류" },
+} as const;
+
+/**
+ * 최근 검색어 불러오기 (저장소를 쓸 수 없으면 빈 목록)
+ */
+function loadRecentSearches(): string[] {
+  try {
+    const value = JSON.parse(localStorage.getItem(RECENT_SEARCHES_KEY) || "[]");
+    return Array.isArray(value)
+      ? value.filter((item) => typeof item === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 최근 검색어 저장 (맨 앞에 추가, 중복 제거)
+ */
+function saveRecentSearches(searches: string[]): void {
+  try {
+    localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(searches));
+  } catch {
+    // 저장소를 쓸 수 없으면 (시크릿 모드 등) 기록하지 않음
+  }
+}
+
 export function TourSearch({ className }: TourSearchProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
   const [keyword, setKeyword] = useState(searchParams.get("keyword") || "");
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  // 현재 추천 항목을 조회한 검색어 (입력 중에는 이전 검색어의 추천이 남아 있음)
+  const [suggestionQuery, setSuggestionQuery] = useState("");
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+  const listId = useId();
 
   // URL 파라미터가 변경되면 입력값도 업데이트
   useEffect(() => {
@@ -41,16 +109,102 @@ export function TourSearch({ className }: TourSearchProps) {
     setKeyword(urlKeyword);
   }, [searchParams]);
 
+  // 최근 검색어 불러오기 (localStorage는 브라우저에서만 사용 가능)
+  useEffect(() => {
+    setRecentSearches(loadRecentSearches());
+  }, []);
+
+  // 입력 중인 검색어로 추천 조회 (다음 입력이 오면 이전 요청 취소)
+  useEffect(() => {
+    const query = keyword.trim();
+    if (!isOpen || query === "") {
+      setSuggestions([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      fetch(`/api/search/suggest?q=${encodeURIComponent(query)}`, {
+        signal: controller.signal,
+      })
+        .then(async (response) => {
+          if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+          }
+          const result: SearchSuggestResult = await response.json();
+          setSuggestions(result.suggestions);
+          setSuggestionQuery(result.query);
+          setActiveIndex(-1);
+        })
+        .catch((error) => {
+          if (controller.signal.aborted) {
+            return;
+          }
+          console.error("[TourSearch] 검색어 추천 실패:", error);
+          setSuggestions([]);
+        });
+    }, SUGGEST_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [keyword, isOpen]);
+
+  /**
+   * 최근 검색어에 추가
+   */
+  const addRecentSearch = (value: string) => {
+    const next = [
+      value,
+      ...recentSearches.filter((search) => search !== value),
+    ].slice(0, MAX_RECENT_SEARCHES);
+    setRecentSearches(next);
+    saveRecentSearches(next);
+  };
+
+  /**
+   * 최근 검색어 모두 지우기
+   */
+  const clearRecentSearches = () => {
+    setRecentSearches([]);
+    saveRecentSearches([]);
+  };
+
   /**
    * 검색 실행
+   * @param value 검색어 (기본: 입력값)
    */
-  const handleSearch = () => {
+  const handleSearch = (value: string = keyword) => {
+    const trimmed = value.trim();
+    setIsOpen(false);
+    setActiveIndex(-1);
+
+    // 관광지명과 정확히 일치하면 상세페이지로 바로 이동
+    // (추천을 받기 전에 검색어를 바꿨으면 이전 검색어의 추천이므로 사용하지 않음)
+    const exactPlace =
+      normalizeSearchText(suggestionQuery) === normalizeSearchText(trimmed)
+        ? suggestions.find(
+            (suggestion) => suggestion.type === "place" && suggestion.exact,
+          )
+        : undefined;
+    if (trimmed !== "" && exactPlace) {
+      addRecentSearch(trimmed);
+      router.push(exactPlace.href);
+      return;
+    }
+
     const params = new URLSearchParams(searchParams.toString());
 
-    if (keyword.trim() === "") {
+    if (trimmed === "") {
       params.delete("keyword");
     } else {
-      params.set("keyword", keyword.trim());
+      params.set("keyword", trimmed);
+      addRecentSearch(trimmed);
+      // 키워드 검색은 내 주변 모드와 함께 사용할 수 없음
+      params.delete("lat");
+      params.delete("lng");
+      params.delete("radius");
     }
 
     // 페이지는 1로 리셋
@@ -59,28 +213,86 @@ export function TourSearch({ className }: TourSearchProps) {
     router.push(`/?${params.toString()}`);
   };
 
+  /**
+   * 추천 항목 선택 (관광지는 상세페이지, 지역/분류는 필터 목록으로 이동)
+   */
+  const handleSelectSuggestion = (suggestion: SearchSuggestion) => {
+    setIsOpen(false);
+    setActiveIndex(-1);
+    if (suggestion.type === "place") {
+      addRecentSearch(suggestion.label);
+    }
+    router.push(suggestion.href);
+  };
+
+  /**
+   * 최근 검색어 선택 (해당 검색어로 검색)
+   */
+  const handleSelectRecent = (value: string) => {
+    setKeyword(value);
+    handleSearch(value);
+  };
+
   /**
    * 검색 초기화
    */
   const handleClear = () => {
     setKeyword("");
+    setSuggestions([]);
     const params = new URLSearchParams(searchParams.toString());
     params.delete("keyword");
     params.delete("page");
     router.push(`/?${params.toString()}`);
   };
 
+  const hasKeyword = keyword.trim() !== "";
+  // 입력 전에는 최근 검색어, 입력 중에는 추천 항목
+  const optionCount = hasKeyword ? suggestions.length : recentSearches.length;
+  const showList = isOpen && optionCount > 0;
+  const getOptionId = (index: number) => `${listId}-option-${index}`;
+
   /**
-   * 엔터 키 처리
+   * 키보드 처리 (↑/↓ 이동, Enter 선택 또는 검색, Esc 닫기)
    */
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === "Enter") {
-      handleSearch();
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      if (!isOpen) {
+        setIsOpen(true);
+        return;
+      }
+      if (optionCount === 0) {
+        return;
+      }
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      // 처음/끝에서 넘어가면 입력창(-1)을 거쳐 반대쪽으로
+      setActiveIndex((index) => {
+        const next = index + step;
+        if (next >= optionCount) return -1;
+        if (next < -1) return optionCount - 1;
+        return next;
+      });
+    } else if (e.key === "Enter") {
+      if (e.nativeEvent.isComposing) {
+        // 한글 조합 중 Enter는 조합 완료로만 처리
+        return;
+      }
+      e.preventDefault();
+      if (showList && activeIndex >= 0) {
+        if (hasKeyword) {
+          handleSelectSuggestion(suggestions[activeIndex]);
+        } else {
+          handleSelectRecent(recentSearches[activeIndex]);
+        }
+      } else {
+        handleSearch();
+      }
+    } else if (e.key === "Escape") {
+      setIsOpen(false);
+      setActiveIndex(-1);
     }
   };
 
-  const hasKeyword = keyword.trim() !== "";
-
   return (
     <div className={cn("flex gap-2", className)}>
       <div className="relative flex-1">
@@ -89,8 +301,21 @@ export function TourSearch({ className }: TourSearchProps) {
           type="text"
           placeholder="관광지명, 주소, 설명으로 검색..."
           value={keyword}
-          onChange={(e) => setKeyword(e.target.value)}
+          onChange={(e) => {
+            setKeyword(e.target.value);
+            setIsOpen(true);
+            setActiveIndex(-1);
+          }}
           onKeyDown={handleKeyDown}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          role="combobox"
+          aria-autocomplete="list"
+          aria-expanded={showList}
+          aria-controls={listId}
+          aria-activedescendant={
+            showList && activeIndex >= 0 ? getOptionId(activeIndex) : undefined
+          }
           className="pl-9 pr-9"
         />
         {hasKeyword && (
@@ -102,8 +327,89 @@ export function TourSearch({ className }: TourSearchProps) {
             <X className="h-4 w-4" />
           </button>
         )}
+
+        {/* 자동완성 목록 (클릭 전 blur로 닫히지 않게 mousedown 막음) */}
+        {showList && (
+          <div
+            className="absolute left-0 right-0 top-full z-50 mt-1 overflow-hidden rounded-md border bg-popover text-popover-foreground shadow-md"
+            onMouseDown={(e) => e.preventDefault()}
+          >
+            {!hasKeyword && (
+              <div className="flex items-center justify-between px-3 pt-2 pb-1 text-xs text-muted-foreground">
+                <span>최근 검색어</span>
+                <button
+                  type="button"
+                  onClick={clearRecentSearches}
+                  className="hover:text-foreground"
+                >
+                  모두 지우기
+                </button>
+              </div>
+            )}
+            <ul
+              id={listId}
+              role="listbox"
+              className="max-h-80 overflow-y-auto py-1"
+            >
+              {hasKeyword
+                ? suggestions.map((suggestion, index) => {
+                    const type = SUGGESTION_TYPES[suggestion.type];
+                    const Icon = type.icon;
+                    return (
+                      <li
+                        key={`${suggestion.type}-${suggestion.href}`}
+                        id={getOptionId(index)}
+                        role="option"
+                        aria-selected={index === activeIndex}
+                        onClick={() => handleSelectSuggestion(suggestion)}
+                        onMouseEnter={() => setActiveIndex(index)}
+                        className={cn(
+                          "flex cursor-pointer items-center gap-2 px-3 py-2 text-sm",
+                          index === activeIndex && "bg-accent",
+                        )}
+                      >
+                        <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                        <div className="min-w-0 flex-1">
+                          <HighlightedText
+                            segments={suggestion.segments}
+                            className="block truncate"
+                          />
+                          {suggestion.description && (
+                            <span className="block truncate text-xs text-muted-foreground">
+                              {suggestion.description}
+                            </span>
+                          )}
+                        </div>
+                        <span className="shrink-0 text-xs text-muted-foreground">
+                          {suggestion.type === "place" && suggestion.exact
+                            ? "바로 이동"
+                            : type.label}
+                        </span>
+                      </li>
+                    );
+                  })
+                : recentSearches.map((search, index) => (
+                    <li
+                      key={search}
+                      id={getOptionId(index)}
+                      role="option"
+                      aria-selected={index === activeIndex}
+                      onClick={() => handleSelectRecent(search)}
+                      onMouseEnter={() => setActiveIndex(index)}
+                      className={cn(
+                        "flex cursor-pointer items-center gap-2 px-3 py-2 text-sm",
+                        index === activeIndex && "bg-accent",
+                      )}
+                    >
+                      <Clock className="h-4 w-4 shrink-0 text-muted-foreground" />
+                      <span className="truncate">{search}</span>
+                    </li>
+                  ))}
+            </ul>
+          </div>
+        )}
       </div>
-      <Button onClick={handleSearch} className="shrink-0">
+      <Button onClick={() => handleSearch()} className="shrink-0">
         <Search className="h-4 w-4" />
         검색
       </Button>
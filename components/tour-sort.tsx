@@ -5,7 +5,7 @@
  * 관광지 목록 정렬 옵션을 제공하는 컴포넌트입니다.
  *
  * 주요 기능:
- * 1. 정렬 옵션 선택 (최신순, 이름순)
+ * 1. 정렬 옵션 선택 (최신순, 이름순, 거리순 - 내 주변 모드에서만, 관련도순 - 키워드 검색에서만)
  * 2. URL Query를 통한 정렬 상태 관리
  *
  * @dependencies
@@ -16,11 +16,22 @@
 "use client";
 
 import { useRouter, useSearchParams } from "next/navigation";
-import { Calendar, ArrowUpAZ, ArrowDownAZ } from "lucide-react";
+import {
+  Calendar,
+  ArrowUpAZ,
+  ArrowDownAZ,
+  Navigation,
+  Sparkles,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 
-export type SortOption = "latest" | "name-asc" | "name-desc";
+export type SortOption =
+  | "latest"
+  | "name-asc"
+  | "name-desc"
+  | "distance"
+  | "relevance";
 
 interface TourSortProps {
   className?: string;
@@ -29,14 +40,29 @@ interface TourSortProps {
 export function TourSort({ className }: TourSortProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
-  const sortParam = searchParams.get("sort") || "latest";
+  // 내 주변 모드 (위도/경도 쿼리가 있으면 거리순이 기본값)
+  const isNearby = searchParams.has("lat") && searchParams.has("lng");
+  // 키워드 검색 (검색 결과 순서가 관련도순이 기본값)
+  const isSearch = !!searchParams.get("keyword");
+  const defaultSort: SortOption = isNearby
+    ? "distance"
+    : isSearch
+      ? "relevance"
+      : "latest";
+  const sortParam = searchParams.get("sort") || defaultSort;
   const currentSort = sortParam as SortOption;
 
   const handleSortChange = (sort: SortOption) => {
     const params = new URLSearchParams(searchParams.toString());
 
-    if (sort === "latest") {
+    if (sort === defaultSort) {
       params.delete("sort");
+    } else if (
+      sort === "latest" ||
+      sort === "distance" ||
+      sort === "relevance"
+    ) {
+      params.set("sort", sort);
     } else if (sort === "name-asc") {
       // 이름순 클릭 시 오름차순/내림차순 토글
       if (currentSort === "name-asc") {
@@ -76,6 +102,40 @@ export function TourSort({ className }: TourSortProps) {
     <div className={cn("flex items-center gap-2", className)}>
       <span className="text-sm text-muted-foreground">정렬:</span>
       <div className="flex gap-1 rounded-md border bg-background p-1">
+        {/* 거리순 버튼 (내 주변 모드) */}
+        {isNearby && (
+          <Button
+            variant={currentSort === "distance" ? "default" : "ghost"}
+            size="sm"
+            onClick={() => handleSortChange("distance")}
+            className={cn(
+              "h-8 gap-1.5 text-xs",
+              currentSort === "distance" &&
+                "bg-primary text-primary-foreground",
+            )}
+          >
+            <Navigation className="h-4 w-4" />
+            거리순
+          </Button>
+        )}
+
+        {/* 관련도순 버튼 (키워드 검색) */}
+        {isSearch && (
+          <Button
+            variant={currentSort === "relevance" ? "default" : "ghost"}
+            size="sm"
+            onClick={() => handleSortChange("relevance")}
+            className={cn(
+              "h-8 gap-1.5 text-xs",
+              currentSort === "relevance" &&
+                "bg-primary text-primary-foreground",
+            )}
+          >
+            <Sparkles className="h-4 w-4" />
+            관련도순
+          </Button>
+        )}
+
         {/* 최신순 버튼 */}
         <Button
           variant={currentSort === "latest" ? "default" : "ghost"}
@@ -7,8 +7,10 @@
  * @dependencies
  * - lucide-react: 에러 아이콘
  * - components/ui/button: 재시도 버튼
+ * - next/link: 재시도 링크 (Server Component에서 사용)
  */
 
+import Link from "next/link";
 import { AlertCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
@@ -17,6 +19,7 @@ interface ErrorProps {
   className?: string;
   message?: string;
   onRetry?: () => void;
+  retryHref?: string; // Server Component용 재시도 링크 (onRetry 대신 사용)
   retryText?: string;
 }
 
@@ -24,6 +27,7 @@ export function Error({
   className,
   message = "오류가 발생했습니다.",
   onRetry,
+  retryHref,
   retryText = "다시 시도",
 }: ErrorProps) {
   return (
@@ -45,6 +49,11 @@ export function Error({
           {retryText}
         </Button>
       )}
+      {!onRetry && retryHref && (
+        <Button variant="outline" asChild>
+          <Link href={retryHref}>{retryText}</Link>
+        </Button>
+      )}
     </div>
   );
 }
@@ -0,0 +1,36 @@
+/**
+ * @file highlighted-text.tsx
+ * @description 검색어 강조 텍스트 컴포넌트
+ *
+ * 검색어 일치 구간(lib/utils/korean-search.ts의 highlightSearchMatches 결과)을
+ * <mark>로 감싸 표시합니다.
+ *
+ * @dependencies
+ * - lib/types/place.ts: SearchHighlightSegment
+ */
+
+import type { SearchHighlightSegment } from "@/lib/types/place";
+
+interface HighlightedTextProps {
+  segments: SearchHighlightSegment[];
+  className?: string;
+}
+
+export function HighlightedText({ segments, className }: HighlightedTextProps) {
+  return (
+    <span className={className}>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <mark
+            key={index}
+            className="rounded-sm bg-primary/20 px-0.5 text-inherit dark:bg-primary/30"
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        ),
+      )}
+    </span>
+  );
+}
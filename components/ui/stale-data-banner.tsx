@@ -0,0 +1,34 @@
+/**
+ * @file stale-data-banner.tsx
+ * @description 최신 데이터 안내 배너 컴포넌트
+ *
+ * 한국관광공사 API 장애로 마지막 캐시 응답을 보여줄 때 페이지 상단에 표시합니다.
+ *
+ * @dependencies
+ * - lucide-react: 안내 아이콘
+ */
+
+import { AlertTriangle } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface StaleDataBannerProps {
+  className?: string;
+}
+
+export function StaleDataBanner({ className }: StaleDataBannerProps) {
+  return (
+    <div
+      role="status"
+      className={cn(
+        "flex items-center gap-2 border-b border-yellow-300 bg-yellow-50 px-4 py-2 text-sm text-yellow-900 dark:border-yellow-900 dark:bg-yellow-950 dark:text-yellow-100",
+        className,
+      )}
+    >
+      <AlertTriangle className="h-4 w-4 shrink-0" />
+      <p>
+        데이터가 최신이 아닐 수 있습니다. 한국관광공사 API 연결이 복구되면
+        자동으로 갱신됩니다.
+      </p>
+    </div>
+  );
+}
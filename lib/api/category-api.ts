@@ -0,0 +1,204 @@
+/**
+ * @file category-api.ts
+ * @description 서비스 분류(대/중/소분류) 트리 조회
+ *
+ * categoryCode2를 대분류 → 중분류 → 소분류 순서로 조회해 분류 트리를 만들고,
+ * cat1/cat2/cat3 코드를 사람이 읽을 수 있는 이름으로 바꾸는 함수들을 제공합니다.
+ *
+ * 주요 기능:
+ * 1. 분류 트리 조회 (언어별 프로세스 내 메모이제이션, 요청 캐시는 TourApiClient 캐시 사용)
+ * 2. 분류 코드 → 이름 매핑
+ * 3. 분류 경로 조회 (예: 인문(문화/예술/역사) > 역사관광지 > 고궁)
+ *
+ * @dependencies
+ * - lib/api/tour-api.ts: getCategoryCodes
+ * - lib/api/tour-api-client.ts: waitWithSignal (메모된 조회를 호출별로 취소)
+ * - lib/api/tour-api-errors.ts: TourApiAbortedError
+ * - lib/types/tour.ts: CategoryNode, CategoryFilter
+ * - lib/utils/logger.ts: 구조화 로거
+ */
+
+import type {
+  CategoryFilter,
+  CategoryNode,
+  TourLanguage,
+} from "@/lib/types/tour";
+import {
+  waitWithSignal,
+  type TourApiCallOptions,
+} from "./tour-api-client";
+import { TourApiAbortedError } from "./tour-api-errors";
+import { getCategoryCodes } from "./tour-api";
+import { createLogger } from "@/lib/utils/logger";
+
+const logger = createLogger("tour-api.category");
+
+/**
+ * 분류 트리 메모이제이션 시간 (분류 체계는 거의 바뀌지 않음)
+ */
+const CATEGORY_TREE_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 언어별 분류 트리 메모 (기본 클라이언트로 조회한 결과만 공유)
+ */
+const cachedTrees = new Map<
+  TourLanguage,
+  { promise: Promise<CategoryNode[]>; loadedAt: number }
+>();
+
+/**
+ * 분류 트리 조회 (categoryCode2)
+ *
+ * 대분류 → 중분류 → 소분류를 차례로 조회합니다. 하위 분류 조회에 실패한
+ * 노드는 children이 빈 배열로 남고, 대분류 조회에 실패하면 에러를 던집니다.
+ * 분류명은 options.lang 언어로 조회합니다.
+ * 메모된 조회는 여러 호출이 공유하므로 options.signal로 취소해도 조회는 계속되고
+ * 취소한 호출만 TourApiAbortedError로 끝납니다.
+ *
+ * @param options 호출 옵션 (클라이언트, 우선순위, 언어, 취소 신호)
+ * @returns 대분류 노드 목록
+ */
+export async function getCategoryTree(
+  options: TourApiCallOptions = {},
+): Promise<CategoryNode[]> {
+  // 별도 클라이언트를 지정한 경우(테스트, 스크립트)에는 메모를 사용하지 않음
+  if (options.client) {
+    return loadCategoryTree(options);
+  }
+
+  const lang = options.lang || "ko";
+  const cached = cachedTrees.get(lang);
+  if (cached && Date.now() - cached.loadedAt < CATEGORY_TREE_TTL_MS) {
+    return waitWithSignal(cached.promise, options.signal, "/categoryCode2");
+  }
+
+  const promise = loadCategoryTree({ ...options, signal: undefined });
+  cachedTrees.set(lang, { promise, loadedAt: Date.now() });
+
+  // 실패한 결과는 메모하지 않음 (다음 요청에서 다시 시도)
+  promise.catch(() => {
+    if (cachedTrees.get(lang)?.promise === promise) {
+      cachedTrees.delete(lang);
+    }
+  });
+
+  return waitWithSignal(promise, options.signal, "/categoryCode2");
+}
+
+/**
+ * 취소 에러면 다시 던짐 (하위 분류 조회 실패를 빈 목록으로 바꾸기 전에 확인)
+ */
+function rethrowIfAborted(error: unknown): void {
+  if (error instanceof TourApiAbortedError) {
+    throw error;
+  }
+}
+
+/**
+ * 분류 트리 실제 조회
+ */
+async function loadCategoryTree(
+  options: TourApiCallOptions,
+): Promise<CategoryNode[]> {
+  try {
+    const cat1Codes = await getCategoryCodes(
+      undefined,
+      undefined,
+      undefined,
+      options,
+    );
+
+    const tree = await Promise.all(
+      cat1Codes.map(async (cat1): Promise<CategoryNode> => {
+        const cat2Codes = await getCategoryCodes(
+          undefined,
+          cat1.code,
+          undefined,
+          options,
+        ).catch((error) => {
+          rethrowIfAborted(error);
+          logger.warn("중분류 조회 실패", { cat1: cat1.code, error });
+          return [];
+        });
+
+        const children = await Promise.all(
+          cat2Codes.map(async (cat2): Promise<CategoryNode> => {
+            const cat3Codes = await getCategoryCodes(
+              undefined,
+              cat1.code,
+              cat2.code,
+              options,
+            ).catch((error) => {
+              rethrowIfAborted(error);
+              logger.warn("소분류 조회 실패", {
+                cat1: cat1.code,
+                cat2: cat2.code,
+                error,
+              });
+              return [];
+            });
+
+            return {
+              code: cat2.code,
+              name: cat2.name,
+              children: cat3Codes.map((cat3) => ({
+                code: cat3.code,
+                name: cat3.name,
+                children: [],
+              })),
+            };
+          }),
+        );
+
+        return { code: cat1.code, name: cat1.name, children };
+      }),
+    );
+
+    logger.info("분류 트리 조회 완료", {
+      lang: options.lang || "ko",
+      cat1Count: tree.length,
+    });
+    return tree;
+  } catch (error) {
+    logger.error("분류 트리 조회 실패", { lang: options.lang || "ko", error });
+    throw error;
+  }
+}
+
+/**
+ * 분류 코드 → 이름 매핑 생성 (대/중/소분류 코드 모두 포함)
+ * @param tree 분류 트리
+ */
+export function buildCategoryNameMap(
+  tree: CategoryNode[],
+): Record<string, string> {
+  const names: Record<string, string> = {};
+  const visit = (nodes: CategoryNode[]) => {
+    for (const node of nodes) {
+      names[node.code] = node.name;
+      visit(node.children);
+    }
+  };
+  visit(tree);
+  return names;
+}
+
+/**
+ * 분류 경로 이름 조회 (이름을 알 수 없는 단계에서 멈춤)
+ * @param names 분류 코드 → 이름 매핑
+ * @param category 대/중/소분류 코드
+ * @returns 분류명 목록 (예: ["인문(문화/예술/역사)", "역사관광지", "고궁"])
+ */
+export function getCategoryPath(
+  names: Record<string, string>,
+  category: CategoryFilter,
+): string[] {
+  const path: string[] = [];
+  for (const code of [category.cat1, category.cat2, category.cat3]) {
+    if (!code || !names[code]) {
+      break;
+    }
+    path.push(names[code]);
+  }
+  return path;
+}
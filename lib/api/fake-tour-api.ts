@@ -0,0 +1,649 @@
+/**
+ * @file fake-tour-api.ts
+ * @description 한국관광공사 API (KorService2) 로컬 가짜 서버
+ *
+ * 실제 API 키 없이 개발/CI 환경에서 사용할 수 있도록 JSON 픽스처로
+ * KorService2 응답을 흉내 내는 서버입니다.
+ *
+ * 주요 기능:
+ * 1. FAKE_TOUR_API_ENDPOINTS의 목록/상세 엔드포인트 응답
+ *    (fixtures/tour-api/<endpoint>.json)
+ * 2. 페이지네이션 (pageNo, numOfRows, totalCount)
+ * 3. items.item 단일 객체/배열 응답 형식 재현 (1개면 객체, 0개면 빈 문자열)
+ * 4. 실패 주입 (HTTP 503 등, SERVICE_ERROR 등 resultCode, 게이트웨이 XML 에러, 타임아웃)
+ * 5. 언어별 서비스 (경로의 서비스 이름, 예: .../EngService2/areaBasedList2)
+ *
+ * 사용 방법:
+ * - 프로세스 내부: TOUR_API_FAKE=true (기본 클라이언트가 가짜 서버 transport 사용)
+ * - HTTP: TOUR_API_FAKE=true + TOUR_API_BASE_URL=http://localhost:3000/api/dev/tour-api
+ *   (기본 클라이언트가 transport 대신 fetch로 app/api/dev/tour-api 라우트 호출)
+ * - 요청별 실패 주입: ?fakeFailure=503 | SERVICE_ERROR | gateway:30 | timeout
+ *
+ * 픽스처 형식:
+ * ```json
+ * {
+ *   "endpoint": "areaBasedList2",
+ *   "records": [
+ *     { "params": {}, "items": [...] },
+ *     { "params": { "areaCode": "1" }, "totalCount": 120, "items": [...] }
+ *   ]
+ * }
+ * ```
+ * params가 정확히 일치하는 record가 있으면 그 items를 사용하고,
+ * 없으면 params가 빈 record(카탈로그)를 항목 필드 기준으로 필터링합니다.
+ * 국문 외 서비스의 픽스처는 fixtures/tour-api/<서비스>/<endpoint>.json에 둡니다.
+ *
+ * @dependencies
+ * - lib/api/tour-api-client.ts: TourApiTransport
+ * - lib/api/tour-api-language.ts: 서비스 이름 확인
+ * - lib/api/tour-api-errors.ts: 게이트웨이 에러 코드
+ * - lib/utils/logger.ts: 구조화 로거
+ */
+
+import { readFile, writeFile, mkdir } from "fs/promises";
+import path from "path";
+import type { TourApiTransport } from "./tour-api-client";
+import { TOUR_API_GATEWAY_AUTH_MESSAGES } from "./tour-api-errors";
+import { isTourApiServiceName } from "./tour-api-language";
+import { createLogger } from "@/lib/utils/logger";
+
+const logger = createLogger("tour-api.fake");
+
+/**
+ * 가짜 서버가 지원하는 엔드포인트
+ */
+export const FAKE_TOUR_API_ENDPOINTS = [
+  "areaCode2",
+  "categoryCode2",
+  "areaBasedList2",
+  "areaBasedSyncList2",
+  "searchKeyword2",
+  "locationBasedList2",
+  "searchFestival2",
+  "searchStay2",
+  "detailCommon2",
+  "detailIntro2",
+  "detailInfo2",
+  "detailImage2",
+  "detailPetTour2",
+] as const;
+
+/**
+ * 픽스처 record (요청 파라미터 → 응답 항목)
+ * items에는 녹화 중 비어 있는 페이지 위치를 나타내는 null이 포함될 수 있습니다.
+ */
+export interface FakeTourApiRecord {
+  params: Record<string, string>;
+  totalCount?: number;
+  items: Array<Record<string, unknown> | null>;
+}
+
+/**
+ * 엔드포인트별 픽스처 파일
+ */
+export interface FakeTourApiFixture {
+  endpoint: string;
+  records: FakeTourApiRecord[];
+}
+
+/**
+ * 주입할 실패 종류
+ * - endpoint를 지정하지 않으면 모든 엔드포인트에 적용
+ * - times 횟수만큼 적용 후 제거 (기본: 1, Infinity면 계속 적용)
+ */
+export type FakeTourApiFailure = {
+  endpoint?: string;
+  times?: number;
+} & (
+  | { type: "http"; status: number }
+  | { type: "result"; resultCode: string; resultMsg?: string }
+  | { type: "gateway"; returnReasonCode: string; returnAuthMsg?: string }
+  | { type: "timeout"; delayMs?: number }
+);
+
+/**
+ * 가짜 서버 생성 옵션
+ */
+export interface FakeTourApiServerOptions {
+  fixtures?: Record<string, FakeTourApiFixture>; // 메모리 픽스처 (지정 시 파일 대신 사용, 키: endpoint 또는 "<서비스>/<endpoint>")
+  fixturesDir?: string; // 픽스처 디렉터리 (기본: fixtures/tour-api)
+  failures?: FakeTourApiFailure[]; // 초기 실패 주입 목록
+}
+
+/**
+ * 응답/녹화 시 매칭에서 제외하는 파라미터 (인증, 공통, 페이지 파라미터)
+ */
+const IGNORED_PARAMS = new Set([
+  "serviceKey",
+  "MobileOS",
+  "MobileApp",
+  "_type",
+  "pageNo",
+  "numOfRows",
+  "fakeFailure",
+]);
+
+/**
+ * 카탈로그 필터링 시 요청 파라미터 → 항목 필드 매핑
+ */
+const PARAM_FIELD_MAP: Record<string, string> = {
+  areaCode: "areacode",
+  sigunguCode: "sigungucode",
+  contentTypeId: "contenttypeid",
+  contentId: "contentid",
+  cat1: "cat1",
+  cat2: "cat2",
+  cat3: "cat3",
+};
+
+/**
+ * 픽스처가 없을 때 카탈로그를 빌려 쓸 엔드포인트
+ */
+const CATALOG_FALLBACK: Record<string, string> = {
+  areaBasedSyncList2: "areaBasedList2",
+  searchKeyword2: "areaBasedList2",
+  locationBasedList2: "areaBasedList2",
+};
+
+/**
+ * 기본 픽스처 디렉터리
+ */
+export function getDefaultFixturesDir(): string {
+  return (
+    process.env.TOUR_API_FIXTURES_DIR ||
+    path.join(process.cwd(), "fixtures", "tour-api")
+  );
+}
+
+/**
+ * 기본 서비스 (경로에 서비스 이름이 없으면 국문 서비스로 처리)
+ */
+const DEFAULT_SERVICE = "KorService2";
+
+/**
+ * 요청 경로에서 서비스 이름과 엔드포인트 추출
+ * @param pathname 요청 URL 경로 (예: /B551011/EngService2/areaBasedList2)
+ */
+export function parseFakeTourApiPath(pathname: string): {
+  service: string;
+  endpoint: string;
+} {
+  const segments = pathname.split("/").filter(Boolean);
+  const endpoint = segments.pop() || "";
+  const service = segments.pop() || "";
+  return {
+    service: isTourApiServiceName(service) ? service : DEFAULT_SERVICE,
+    endpoint,
+  };
+}
+
+/**
+ * 서비스별 픽스처 디렉터리 (국문: 기본 디렉터리, 그 외: 하위 디렉터리)
+ * @param dir 기본 픽스처 디렉터리
+ * @param service 서비스 이름 (예: "EngService2")
+ */
+export function getServiceFixturesDir(dir: string, service: string): string {
+  return service === DEFAULT_SERVICE ? dir : path.join(dir, service);
+}
+
+/**
+ * 매칭용 파라미터 정규화 (공통/페이지 파라미터 제거, 키 정렬)
+ * @param searchParams 요청 URL의 쿼리 파라미터
+ */
+export function normalizeFixtureParams(
+  searchParams: URLSearchParams,
+): Record<string, string> {
+  const entries = Array.from(searchParams.entries())
+    .filter(([key, value]) => !IGNORED_PARAMS.has(key) && value !== "")
+    .sort(([a], [b]) => a.localeCompare(b));
+  return Object.fromEntries(entries);
+}
+
+/**
+ * 두 파라미터 객체가 같은지 비교
+ */
+export function isSameFixtureParams(
+  a: Record<string, string>,
+  b: Record<string, string>,
+): boolean {
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return (
+    aKeys.length === bKeys.length && aKeys.every((key) => a[key] === b[key])
+  );
+}
+
+/**
+ * 픽스처 파일 읽기 (없으면 빈 픽스처)
+ * @param dir 픽스처 디렉터리
+ * @param endpoint 엔드포인트 (예: "areaBasedList2")
+ */
+export async function readFixtureFile(
+  dir: string,
+  endpoint: string,
+): Promise<FakeTourApiFixture> {
+  try {
+    const content = await readFile(path.join(dir, `${endpoint}.json`), "utf8");
+    const fixture = JSON.parse(content) as FakeTourApiFixture;
+    return { endpoint, records: fixture.records || [] };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { endpoint, records: [] };
+    }
+    throw error;
+  }
+}
+
+/**
+ * 픽스처 파일 쓰기
+ * @param dir 픽스처 디렉터리
+ * @param fixture 저장할 픽스처
+ */
+export async function writeFixtureFile(
+  dir: string,
+  fixture: FakeTourApiFixture,
+): Promise<void> {
+  await mkdir(dir, { recursive: true });
+  await writeFile(
+    path.join(dir, `${fixture.endpoint}.json`),
+    `${JSON.stringify(fixture, null, 2)}\n`,
+    "utf8",
+  );
+}
+
+/**
+ * JSON 응답 생성
+ */
+function jsonResponse(body: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json;charset=UTF-8" },
+  });
+}
+
+/**
+ * 지연 함수 (AbortSignal 지원)
+ */
+function waitFor(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true },
+    );
+  });
+}
+
+/**
+ * 쿼리 파라미터(fakeFailure)로 요청별 실패 생성
+ */
+function parseFailureParam(value: string | null): FakeTourApiFailure | null {
+  if (!value) {
+    return null;
+  }
+  if (value === "timeout") {
+    return { type: "timeout" };
+  }
+  if (/^\d{3}$/.test(value)) {
+    return { type: "http", status: parseInt(value, 10) };
+  }
+  if (value.startsWith("gateway:")) {
+    return { type: "gateway", returnReasonCode: value.slice(8) };
+  }
+  return { type: "result", resultCode: value };
+}
+
+export class FakeTourApiServer {
+  private readonly fixturesDir: string;
+  private readonly memoryFixtures?: Record<string, FakeTourApiFixture>;
+  private readonly fixtureCache = new Map<string, FakeTourApiFixture>();
+  private failures: FakeTourApiFailure[];
+
+  constructor(options: FakeTourApiServerOptions = {}) {
+    this.fixturesDir = options.fixturesDir || getDefaultFixturesDir();
+    this.memoryFixtures = options.fixtures;
+    this.failures = [...(options.failures || [])];
+  }
+
+  /**
+   * TourApiClient에 주입할 수 있는 전송 함수
+   */
+  readonly transport: TourApiTransport = (url, init) =>
+    this.handle(new Request(url, { signal: init.signal }));
+
+  /**
+   * 실패 주입
+   * @param failure 주입할 실패
+   */
+  injectFailure(failure: FakeTourApiFailure): void {
+    this.failures.push(failure);
+  }
+
+  /**
+   * 주입된 실패 모두 제거
+   */
+  clearFailures(): void {
+    this.failures = [];
+  }
+
+  /**
+   * 읽어 둔 픽스처 캐시 제거 (파일을 수정한 뒤 다시 읽을 때 사용)
+   */
+  reloadFixtures(): void {
+    this.fixtureCache.clear();
+  }
+
+  /**
+   * 요청 처리
+   * @param request 요청 (URL 경로의 마지막 부분을 엔드포인트로 사용)
+   */
+  async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const { service, endpoint } = parseFakeTourApiPath(url.pathname);
+
+    logger.debug("가짜 서버 요청", {
+      service,
+      endpoint,
+      params: Object.fromEntries(url.searchParams),
+    });
+
+    if (!(FAKE_TOUR_API_ENDPOINTS as readonly string[]).includes(endpoint)) {
+      return jsonResponse({ error: `Unknown endpoint: ${endpoint}` }, 404);
+    }
+
+    const failure =
+      parseFailureParam(url.searchParams.get("fakeFailure")) ||
+      this.takeFailure(endpoint);
+    if (failure) {
+      logger.warn("실패 주입", { service, endpoint, failure });
+      return this.respondWithFailure(failure, request.signal);
+    }
+
+    const pageNo = Math.max(
+      parseInt(url.searchParams.get("pageNo") || "1", 10) || 1,
+      1,
+    );
+    const numOfRows = Math.max(
+      parseInt(url.searchParams.get("numOfRows") || "10", 10) || 10,
+      1,
+    );
+    const params = normalizeFixtureParams(url.searchParams);
+    const { items, totalCount } = await this.resolveItems(
+      service,
+      endpoint,
+      params,
+    );
+
+    const start = (pageNo - 1) * numOfRows;
+    const pageItems = items
+      .slice(start, start + numOfRows)
+      .filter((item): item is Record<string, unknown> => item !== null);
+
+    return jsonResponse({
+      response: {
+        header: { resultCode: "0000", resultMsg: "OK" },
+        body: {
+          // 실제 API와 동일하게: 0개면 빈 문자열, 1개면 단일 객체
+          items:
+            pageItems.length === 0
+              ? ""
+              : { item: pageItems.length === 1 ? pageItems[0] : pageItems },
+          numOfRows,
+          pageNo,
+          totalCount,
+        },
+      },
+    });
+  }
+
+  /**
+   * 엔드포인트에 적용할 실패 꺼내기 (times 차감)
+   */
+  private takeFailure(endpoint: string): FakeTourApiFailure | null {
+    const index = this.failures.findIndex(
+      (failure) => !failure.endpoint || failure.endpoint === endpoint,
+    );
+    if (index === -1) {
+      return null;
+    }
+
+    const failure = this.failures[index];
+    const remaining = (failure.times ?? 1) - 1;
+    if (remaining <= 0) {
+      this.failures.splice(index, 1);
+    } else {
+      this.failures[index] = { ...failure, times: remaining };
+    }
+    return failure;
+  }
+
+  /**
+   * 실패 응답 생성
+   */
+  private async respondWithFailure(
+    failure: FakeTourApiFailure,
+    signal?: AbortSignal | null,
+  ): Promise<Response> {
+    switch (failure.type) {
+      case "http":
+        return new Response("Service Unavailable", {
+          status: failure.status,
+          statusText: `Fake ${failure.status}`,
+        });
+      case "result":
+        return jsonResponse({
+          response: {
+            header: {
+              resultCode: failure.resultCode,
+              resultMsg: failure.resultMsg || failure.resultCode,
+            },
+          },
+        });
+      case "gateway":
+        // data.go.kr 게이트웨이는 _type=json이어도 XML로 응답
+        return new Response(
+          [
+            "<OpenAPI_ServiceResponse>",
+            "<cmmMsgHeader>",
+            "<errMsg>SERVICE ERROR</errMsg>",
+            `<returnAuthMsg>${
+              failure.returnAuthMsg ||
+              TOUR_API_GATEWAY_AUTH_MESSAGES[failure.returnReasonCode] ||
+              "UNKNOWN_ERROR"
+            }</returnAuthMsg>`,
+            `<returnReasonCode>${failure.returnReasonCode}</returnReasonCode>`,
+            "</cmmMsgHeader>",
+            "</OpenAPI_ServiceResponse>",
+          ].join(""),
+          { headers: { "Content-Type": "text/xml;charset=UTF-8" } },
+        );
+      case "timeout":
+        // 응답을 붙잡고 있다가 게이트웨이 타임아웃으로 응답
+        await waitFor(failure.delayMs ?? 10000, signal);
+        return new Response("Gateway Timeout", {
+          status: 504,
+          statusText: "Gateway Timeout",
+        });
+    }
+  }
+
+  /**
+   * 요청 파라미터에 맞는 항목 목록 조회
+   */
+  private async resolveItems(
+    service: string,
+    endpoint: string,
+    params: Record<string, string>,
+  ): Promise<{ items: FakeTourApiRecord["items"]; totalCount: number }> {
+    const fixture = await this.loadFixture(service, endpoint);
+
+    const exact = fixture.records.find((record) =>
+      isSameFixtureParams(record.params, params),
+    );
+    if (exact) {
+      return {
+        items: exact.items,
+        totalCount: exact.totalCount ?? exact.items.length,
+      };
+    }
+
+    // 정확히 일치하는 record가 없으면 카탈로그(params가 빈 record)를 필터링
+    let catalog = fixture.records.find(
+      (record) => Object.keys(record.params).length === 0,
+    );
+    if (!catalog && CATALOG_FALLBACK[endpoint]) {
+      const fallback = await this.loadFixture(
+        service,
+        CATALOG_FALLBACK[endpoint],
+      );
+      catalog = fallback.records.find(
+        (record) => Object.keys(record.params).length === 0,
+      );
+    }
+    if (!catalog) {
+      return { items: [], totalCount: 0 };
+    }
+
+    let items = catalog.items.filter(
+      (item): item is Record<string, unknown> =>
+        item !== null && matchesParams(item, params),
+    );
+
+    // 위치 기반 조회: 반경 안의 항목만 거리(dist)와 함께 거리순으로 반환
+    if (params.mapX && params.mapY) {
+      items = withDistance(
+        items,
+        Number(params.mapY),
+        Number(params.mapX),
+        Number(params.radius) || 20000,
+      );
+    }
+
+    return { items, totalCount: items.length };
+  }
+
+  /**
+   * 픽스처 로드 (메모리 → 파일, 결과 캐시)
+   */
+  private async loadFixture(
+    service: string,
+    endpoint: string,
+  ): Promise<FakeTourApiFixture> {
+    const key =
+      service === DEFAULT_SERVICE ? endpoint : `${service}/${endpoint}`;
+
+    if (this.memoryFixtures) {
+      return this.memoryFixtures[key] || { endpoint, records: [] };
+    }
+
+    const cached = this.fixtureCache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const fixture = await readFixtureFile(
+      getServiceFixturesDir(this.fixturesDir, service),
+      endpoint,
+    );
+    this.fixtureCache.set(key, fixture);
+    return fixture;
+  }
+}
+
+/**
+ * 카탈로그 항목이 요청 파라미터와 맞는지 확인
+ */
+function matchesParams(
+  item: Record<string, unknown>,
+  params: Record<string, string>,
+): boolean {
+  return Object.entries(params).every(([key, value]) => {
+    if (key === "keyword") {
+      return String(item.title ?? "").includes(value);
+    }
+    // 행사 기간이 요청 기간과 겹치는지 확인 (YYYYMMDD 문자열 비교)
+    if (key === "eventStartDate") {
+      return String(item.eventenddate ?? "") >= value;
+    }
+    if (key === "eventEndDate") {
+      return String(item.eventstartdate ?? "") <= value;
+    }
+    const field = PARAM_FIELD_MAP[key];
+    if (!field) {
+      // 알 수 없는 파라미터(arrange 등)는 필터링하지 않음
+      return true;
+    }
+    return String(item[field] ?? "") === value;
+  });
+}
+
+/**
+ * 두 좌표 사이의 거리 (m, 하버사인 공식)
+ */
+function getDistanceMeters(
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number,
+): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 6371000 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * 반경 안의 항목에 dist 필드를 붙여 거리순으로 정렬 (locationBasedList2 흉내)
+ */
+function withDistance(
+  items: Record<string, unknown>[],
+  lat: number,
+  lng: number,
+  radius: number,
+): Record<string, unknown>[] {
+  return items
+    .map((item) => ({
+      ...item,
+      dist: getDistanceMeters(
+        lat,
+        lng,
+        Number(item.mapy),
+        Number(item.mapx),
+      ).toFixed(8),
+    }))
+    .filter((item) => Number(item.dist) <= radius)
+    .sort((a, b) => Number(a.dist) - Number(b.dist));
+}
+
+/**
+ * 공유 가짜 서버 (지연 생성)
+ */
+let sharedServer: FakeTourApiServer | null = null;
+
+/**
+ * 공유 가짜 서버 조회 (기본 클라이언트와 /api/dev/tour-api 라우트가 함께 사용)
+ */
+export function getFakeTourApiServer(): FakeTourApiServer {
+  if (!sharedServer) {
+    sharedServer = new FakeTourApiServer();
+  }
+  return sharedServer;
+}
+
+/**
+ * 가짜 서버 사용 여부 (TOUR_API_FAKE=true)
+ */
+export function isFakeTourApiEnabled(): boolean {
+  return process.env.TOUR_API_FAKE === "true";
+}
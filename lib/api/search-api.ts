@@ -0,0 +1,96 @@
+/**
+ * @file search-api.ts
+ * @description 관광지 키워드 검색 (카탈로그 우선, API 대체)
+ *
+ * searchKeyword2는 관광지명 부분 일치만 지원해 "경복 궁", "gyeongbokgung", 오타는
+ * 찾지 못합니다. 관광지 카탈로그(TOUR_CATALOG=on)를 사용하면 카탈로그 검색
+ * (관광지명·주소·개요, 관련도순)으로 찾고, 카탈로그를 쓰지 않거나 조회에 실패하면
+ * searchKeyword2로 검색합니다.
+ *
+ * 카탈로그는 국문 서비스만 복제하므로 다른 언어는 항상 API로 검색합니다.
+ * 클라이언트를 지정한 호출(테스트, 가짜 서버)도 API로 검색합니다.
+ *
+ * @dependencies
+ * - lib/api/tour-api.ts: searchKeyword
+ * - lib/api/tour-api-client.ts: TourApiCallOptions
+ * - lib/api/tour-catalog.ts: searchTourCatalog, isTourCatalogEnabled
+ * - lib/types/tour.ts: TourItem, PagedResult, CategoryFilter
+ * - lib/utils/logger.ts: 구조화 로거
+ */
+
+import { searchKeyword } from "./tour-api";
+import type { TourApiCallOptions } from "./tour-api-client";
+import { isTourCatalogEnabled, searchTourCatalog } from "./tour-catalog";
+import type {
+  CategoryFilter,
+  ContentTypeId,
+  PagedResult,
+  TourItem,
+} from "@/lib/types/tour";
+import { createLogger } from "@/lib/utils/logger";
+
+const logger = createLogger("tour-api.search");
+
+/**
+ * 검색 결과 (검색에 사용한 방식 포함)
+ */
+export interface TourSearchResult extends PagedResult<TourItem> {
+  source: "catalog" | "api"; // catalog: 카탈로그 관련도순 검색, api: searchKeyword2
+}
+
+/**
+ * 관광지 키워드 검색 (searchKeyword와 같은 인자)
+ * @param keyword 검색 키워드
+ * @param areaCode 지역코드 (선택)
+ * @param contentTypeId 관광 타입 ID (선택)
+ * @param category 분류 필터 (cat1/cat2/cat3, 선택)
+ * @param pageNo 페이지 번호 (기본: 1)
+ * @param numOfRows 페이지당 항목 수 (기본: 20)
+ * @param options 호출 옵션 (클라이언트, 우선순위, 언어)
+ * @returns 검색 결과 (카탈로그 결과는 관련도순, 개요 포함)
+ */
+export async function searchTours(
+  keyword: string,
+  areaCode?: string,
+  contentTypeId?: ContentTypeId,
+  category: CategoryFilter = {},
+  pageNo: number = 1,
+  numOfRows: number = 20,
+  options: TourApiCallOptions = {},
+): Promise<TourSearchResult> {
+  const useCatalog =
+    !options.client &&
+    (options.lang || "ko") === "ko" &&
+    isTourCatalogEnabled();
+
+  if (useCatalog && keyword.trim() !== "") {
+    try {
+      const result = await searchTourCatalog({
+        keyword,
+        areaCode,
+        contentTypeId,
+        category,
+        pageNo,
+        numOfRows,
+      });
+      logger.debug("카탈로그 검색", {
+        keyword,
+        totalCount: result.totalCount,
+      });
+      return { ...result, source: "catalog" };
+    } catch (error) {
+      logger.warn("카탈로그 검색 실패, API로 검색", { keyword, error });
+    }
+  }
+
+  const result = await searchKeyword(
+    keyword,
+    areaCode,
+    contentTypeId,
+    category,
+    pageNo,
+    numOfRows,
+    options,
+  );
+  return { ...result, source: "api" };
+}
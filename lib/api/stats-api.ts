@@ -9,48 +9,135 @@
  * 2. 타입별 관광지 개수 집계
  * 3. 통계 요약 정보 생성
  *
+ * 관광지 카탈로그(TOUR_CATALOG=on)를 사용하면 API 대신 카탈로그 집계로 계산합니다.
+ *
  * @dependencies
- * - lib/api/tour-api.ts: getAreaCode, getAreaBasedList
+ * - lib/api/tour-api.ts: getAreaCode
+ * - lib/api/tour-api-client.ts: getTourApiClient (totalCount 조회)
+ * - lib/api/tour-api-errors.ts: TourApiAbortedError (취소는 0개로 집계하지 않음)
+ * - lib/api/tour-catalog.ts: getTourCatalogCounts (카탈로그 집계)
+ * - lib/api/tour-api-scheduler.ts: TourApiPriority (통계 요청은 low 우선순위)
  * - lib/types/stats.ts: RegionStats, TypeStats, StatsSummary
  * - lib/types/tour.ts: CONTENT_TYPE, CONTENT_TYPE_NAME
+ * - lib/utils/logger.ts: 구조화 로거
  */
 
 import { getAreaCode } from "./tour-api";
+import {
+  getTourApiClient,
+  toRequestOptions,
+  type TourApiCallOptions,
+  type TourApiClient,
+  type TourApiParams,
+  type TourApiRequestOptions,
+} from "./tour-api-client";
+import { TourApiAbortedError } from "./tour-api-errors";
+import type { TourApiPriority } from "./tour-api-scheduler";
+import {
+  getTourCatalogCounts,
+  isTourCatalogEnabled,
+  type TourCatalogCounts,
+} from "./tour-catalog";
 import type { RegionStats, TypeStats, StatsSummary } from "@/lib/types/stats";
 import {
   CONTENT_TYPE,
   CONTENT_TYPE_NAME,
   type ContentTypeId,
-  type ApiResponse,
   type TourItem,
 } from "@/lib/types/tour";
+import { createLogger } from "@/lib/utils/logger";
+
+const logger = createLogger("stats");
+
+/**
+ * 통계 요청의 기본 우선순위 (상세페이지 등 사용자 요청보다 나중에 실행)
+ */
+const STATS_PRIORITY: TourApiPriority = "low";
+
+/**
+ * areaBasedList2의 totalCount만 조회 (numOfRows=1)
+ * @param client 사용할 클라이언트
+ * @param params 필터 파라미터 (areaCode, contentTypeId 등)
+ * @param requestOptions 요청 옵션 (우선순위, 취소 신호, 타임아웃)
+ */
+async function getAreaBasedTotalCount(
+  client: TourApiClient,
+  params: TourApiParams,
+  requestOptions: TourApiRequestOptions,
+): Promise<number> {
+  const page = await client.requestPage<TourItem>(
+    "/areaBasedList2",
+    { ...params, pageNo: 1, numOfRows: 1 },
+    requestOptions,
+  );
+  return page.totalCount;
+}
+
+/**
+ * 카탈로그 집계 조회 (카탈로그를 쓰지 않거나 실패하면 null, API로 집계)
+ * 클라이언트를 지정한 호출은 해당 클라이언트로 API를 집계
+ * @param options 호출 옵션
+ */
+async function getCatalogCounts(
+  options: TourApiCallOptions,
+): Promise<TourCatalogCounts | null> {
+  if (options.client || !isTourCatalogEnabled()) {
+    return null;
+  }
+  try {
+    return await getTourCatalogCounts();
+  } catch (error) {
+    logger.warn("카탈로그 집계 실패, API로 집계", { error });
+    return null;
+  }
+}
 
 /**
  * 지역별 관광지 개수 집계
+ * @param options 호출 옵션 (클라이언트, 우선순위 - 기본: low)
  * @returns 지역별 통계 배열
  */
-export async function getRegionStats(): Promise<RegionStats[]> {
-  console.group("[Stats API] 지역별 통계 수집 시작");
+export async function getRegionStats(
+  options: TourApiCallOptions = {},
+): Promise<RegionStats[]> {
+  const client = options.client || getTourApiClient();
+  const requestOptions = {
+    ...toRequestOptions(options),
+    priority: options.priority || STATS_PRIORITY,
+  };
 
   try {
     // 시/도 단위 지역코드 조회
-    const areaCodes = await getAreaCode();
-    console.log(`[Stats API] 지역코드 ${areaCodes.length}개 조회 완료`);
+    const areaCodes = await getAreaCode(undefined, {
+      ...requestOptions,
+      client,
+    });
+
+    // 카탈로그 집계가 있으면 모든 지역을 한 번에 계산
+    const catalogCounts = await getCatalogCounts(options);
+    if (catalogCounts) {
+      const stats = areaCodes
+        .map((area) => ({
+          code: area.code,
+          name: area.name,
+          count: catalogCounts.areas[area.code] || 0,
+        }))
+        .sort((a, b) => b.count - a.count);
+      logger.info("지역별 통계 수집 완료 (카탈로그)", {
+        regionCount: stats.length,
+      });
+      return stats;
+    }
 
-    // 각 지역별로 관광지 개수 조회 (병렬 처리)
+    // 각 지역별로 관광지 개수 조회 (병렬 처리, 스케줄러가 동시 실행 수 제한)
     // 성능을 위해 제한적으로 처리 (상위 10개 지역만 상세 조회)
     const statsPromises = areaCodes.slice(0, 10).map(async (area) => {
       try {
-        // API 직접 호출하여 totalCount 가져오기
-        const response = await fetch(
-          `https://apis.data.go.kr/B551011/KorService2/areaBasedList2?serviceKey=${
-            process.env.NEXT_PUBLIC_TOUR_API_KEY || process.env.TOUR_API_KEY
-          }&MobileOS=ETC&MobileApp=MyTrip&_type=json&areaCode=${
-            area.code
-          }&pageNo=1&numOfRows=1`,
+        const totalCount = await getAreaBasedTotalCount(
+          client,
+          { areaCode: area.code },
+          requestOptions,
         );
-        const jsonData: ApiResponse<TourItem[]> = await response.json();
-        const totalCount = jsonData.response.body.totalCount || 0;
 
         return {
           code: area.code,
@@ -58,7 +145,10 @@ export async function getRegionStats(): Promise<RegionStats[]> {
           count: totalCount,
         };
       } catch (error) {
-        console.warn(`[Stats API] 지역 ${area.name} 통계 조회 실패:`, error);
+        if (error instanceof TourApiAbortedError) {
+          throw error;
+        }
+        logger.warn("지역 통계 조회 실패", { areaCode: area.code, error });
         return {
           code: area.code,
           name: area.name,
@@ -72,44 +162,50 @@ export async function getRegionStats(): Promise<RegionStats[]> {
     // 개수 기준 내림차순 정렬
     const sortedStats = stats.sort((a, b) => b.count - a.count);
 
-    console.log(
-      `[Stats API] 지역별 통계 수집 완료: ${sortedStats.length}개 지역`,
-    );
-    console.groupEnd();
+    logger.info("지역별 통계 수집 완료", { regionCount: sortedStats.length });
 
     return sortedStats;
   } catch (error) {
-    console.error("[Stats API] 지역별 통계 수집 실패:", error);
-    console.groupEnd();
+    logger.error("지역별 통계 수집 실패", { error });
     throw error;
   }
 }
 
 /**
  * 타입별 관광지 개수 집계
+ * @param options 호출 옵션 (클라이언트, 우선순위 - 기본: low)
  * @returns 타입별 통계 배열
  */
-export async function getTypeStats(): Promise<TypeStats[]> {
-  console.group("[Stats API] 타입별 통계 수집 시작");
+export async function getTypeStats(
+  options: TourApiCallOptions = {},
+): Promise<TypeStats[]> {
+  const client = options.client || getTourApiClient();
+  const requestOptions = {
+    ...toRequestOptions(options),
+    priority: options.priority || STATS_PRIORITY,
+  };
 
   try {
     // 모든 관광 타입에 대해 개수 조회 (병렬 처리)
     const typeIds = Object.values(CONTENT_TYPE) as ContentTypeId[];
-    const apiKey =
-      process.env.NEXT_PUBLIC_TOUR_API_KEY || process.env.TOUR_API_KEY;
-
-    if (!apiKey) {
-      throw new Error("API 키가 설정되지 않았습니다.");
-    }
+    const catalogCounts = await getCatalogCounts(options);
 
     const statsPromises = typeIds.map(async (typeId) => {
+      if (catalogCounts) {
+        return {
+          typeId,
+          typeName: CONTENT_TYPE_NAME[typeId],
+          count: catalogCounts.contentTypes[typeId] || 0,
+          percentage: 0, // 나중에 계산
+        };
+      }
+
       try {
-        // API 직접 호출하여 totalCount 가져오기
-        const response = await fetch(
-          `https://apis.data.go.kr/B551011/KorService2/areaBasedList2?serviceKey=${apiKey}&MobileOS=ETC&MobileApp=MyTrip&_type=json&contentTypeId=${typeId}&pageNo=1&numOfRows=1`,
+        const totalCount = await getAreaBasedTotalCount(
+          client,
+          { contentTypeId: typeId },
+          requestOptions,
         );
-        const jsonData: ApiResponse<TourItem[]> = await response.json();
-        const totalCount = jsonData.response.body.totalCount || 0;
 
         return {
           typeId,
@@ -118,10 +214,10 @@ export async function getTypeStats(): Promise<TypeStats[]> {
           percentage: 0, // 나중에 계산
         };
       } catch (error) {
-        console.warn(
-          `[Stats API] 타입 ${CONTENT_TYPE_NAME[typeId]} 통계 조회 실패:`,
-          error,
-        );
+        if (error instanceof TourApiAbortedError) {
+          throw error;
+        }
+        logger.warn("타입 통계 조회 실패", { contentTypeId: typeId, error });
         return {
           typeId,
           typeName: CONTENT_TYPE_NAME[typeId],
@@ -145,31 +241,28 @@ export async function getTypeStats(): Promise<TypeStats[]> {
     // 개수 기준 내림차순 정렬
     const sortedStats = statsWithPercentage.sort((a, b) => b.count - a.count);
 
-    console.log(
-      `[Stats API] 타입별 통계 수집 완료: ${sortedStats.length}개 타입`,
-    );
-    console.groupEnd();
+    logger.info("타입별 통계 수집 완료", { typeCount: sortedStats.length });
 
     return sortedStats;
   } catch (error) {
-    console.error("[Stats API] 타입별 통계 수집 실패:", error);
-    console.groupEnd();
+    logger.error("타입별 통계 수집 실패", { error });
     throw error;
   }
 }
 
 /**
  * 통계 요약 정보 생성
+ * @param options 호출 옵션 (클라이언트, 우선순위 - 기본: low)
  * @returns 통계 요약 정보
  */
-export async function getStatsSummary(): Promise<StatsSummary> {
-  console.group("[Stats API] 통계 요약 정보 생성 시작");
-
+export async function getStatsSummary(
+  options: TourApiCallOptions = {},
+): Promise<StatsSummary> {
   try {
     // 지역별 및 타입별 통계 병렬 조회
     const [regionStats, typeStats] = await Promise.all([
-      getRegionStats(),
-      getTypeStats(),
+      getRegionStats(options),
+      getTypeStats(options),
     ]);
 
     // 전체 관광지 수 계산 (지역별 합계 또는 타입별 합계 중 큰 값)
@@ -201,13 +294,11 @@ export async function getStatsSummary(): Promise<StatsSummary> {
       lastUpdated: new Date(),
     };
 
-    console.log("[Stats API] 통계 요약 정보 생성 완료");
-    console.groupEnd();
+    logger.info("통계 요약 정보 생성 완료", { totalCount });
 
     return summary;
   } catch (error) {
-    console.error("[Stats API] 통계 요약 정보 생성 실패:", error);
-    console.groupEnd();
+    logger.error("통계 요약 정보 생성 실패", { error });
     throw error;
   }
 }
@@ -0,0 +1,197 @@
+/**
+ * @file suggest-api.test.ts
+ * @description 검색어 추천 점수와 정렬, 정확히 일치 표시 검증 (가짜 서버 사용)
+ *
+ * 클라이언트를 지정해 카탈로그 검색과 추천 결과 재사용 없이 가짜 서버의
+ * 관광지 목록(searchKeyword2), areaCode2, categoryCode2 응답으로 추천 항목을 만듭니다.
+ */
+
+import { describe, expect, it } from "vitest";
+import { FakeTourApiServer } from "./fake-tour-api";
+import { getSearchSuggestions } from "./suggest-api";
+import { TourApiClient } from "./tour-api-client";
+import { TourApiAbortedError } from "./tour-api-errors";
+import { silentLogger } from "@/lib/utils/logger";
+
+/**
+ * 관광지 목록 픽스처 항목
+ */
+function createPlace(contentid: string, title: string) {
+  return {
+    contentid,
+    contenttypeid: "12",
+    title,
+    addr1: "대한민국",
+    mapx: "126.9780",
+    mapy: "37.5665",
+  };
+}
+
+/**
+ * 가짜 서버와 클라이언트 생성
+ */
+function setup() {
+  const server = new FakeTourApiServer({
+    fixtures: {
+      areaBasedList2: {
+        endpoint: "areaBasedList2",
+        records: [
+          {
+            params: {},
+            items: [
+              createPlace("126508", "경복궁"),
+              createPlace("126509", "경복궁 야간개장"),
+              createPlace("1", "서울숲"),
+              createPlace("2", "N서울타워"),
+              createPlace("3", "제주 올레길"),
+              createPlace("4", "자연휴양림"),
+            ],
+          },
+        ],
+      },
+      areaCode2: {
+        endpoint: "areaCode2",
+        records: [
+          {
+            params: {},
+            items: [
+              { code: "1", name: "서울" },
+              { code: "6", name: "부산" },
+              { code: "39", name: "제주도" },
+            ],
+          },
+        ],
+      },
+      categoryCode2: {
+        endpoint: "categoryCode2",
+        records: [
+          {
+            params: {},
+            items: [
+              { code: "A01", name: "자연" },
+              { code: "A02", name: "인문(문화/예술/역사)" },
+            ],
+          },
+        ],
+      },
+    },
+  });
+  const client = new TourApiClient({
+    serviceKey: "test-key",
+    transport: server.transport,
+    logger: silentLogger,
+    retries: 0,
+    cache: null,
+    scheduler: null,
+    circuitBreaker: null,
+  });
+  return { server, client };
+}
+
+describe("getSearchSuggestions", () => {
+  it("일치, 시작, 포함 순으로 점수를 매긴다", async () => {
+    const { client } = setup();
+
+    const { suggestions } = await getSearchSuggestions("서울", { client });
+
+    expect(
+      suggestions.map(({ type, label, exact }) => ({ type, label, exact })),
+    ).toEqual([
+      { type: "region", label: "서울", exact: true },
+      { type: "place", label: "서울숲", exact: false },
+      { type: "place", label: "N서울타워", exact: false },
+    ]);
+    expect(suggestions[0].href).toBe("/?areaCode=1");
+  });
+
+  it("같은 점수는 지역 → 관광지 → 분류 순으로 정렬한다", async () => {
+    const { client } = setup();
+
+    const { suggestions } = await getSearchSuggestions("제주", { client });
+
+    expect(suggestions.map(({ type, label }) => [type, label])).toEqual([
+      ["region", "제주도"],
+      ["place", "제주 올레길"],
+    ]);
+  });
+
+  it("점수가 높으면 종류 순서보다 앞에 온다", async () => {
+    const { client } = setup();
+
+    const { suggestions } = await getSearchSuggestions("자연", { client });
+
+    expect(suggestions.map(({ type, label }) => [type, label])).toEqual([
+      ["category", "자연"],
+      ["place", "자연휴양림"],
+    ]);
+    expect(suggestions[0]).toMatchObject({
+      description: "분류",
+      href: "/?cat1=A01",
+      exact: true,
+    });
+  });
+
+  it("관광지명이 검색어와 같으면 정확히 일치로 표시한다", async () => {
+    const { client } = setup();
+
+    const { suggestions } = await getSearchSuggestions("경복궁", { client });
+
+    expect(suggestions[0]).toMatchObject({
+      type: "place",
+      label: "경복궁",
+      contentId: "126508",
+      href: "/places/126508",
+      exact: true,
+    });
+    expect(suggestions[1]).toMatchObject({
+      label: "경복궁 야간개장",
+      exact: false,
+    });
+  });
+
+  it("로마자 검색어로 한글 이름을 찾는다", async () => {
+    const { client } = setup();
+
+    const { suggestions } = await getSearchSuggestions("Busan", { client });
+
+    expect(suggestions).toEqual([
+      expect.objectContaining({
+        type: "region",
+        label: "부산",
+        exact: true,
+        segments: [{ text: "부산", match: true }],
+      }),
+    ]);
+  });
+
+  it("실패한 종류는 빼고 나머지 추천을 반환한다", async () => {
+    const { server, client } = setup();
+    server.injectFailure({ type: "http", status: 404, endpoint: "areaCode2" });
+
+    const { suggestions } = await getSearchSuggestions("서울", { client });
+
+    expect(suggestions.map(({ label }) => label)).toEqual([
+      "서울숲",
+      "N서울타워",
+    ]);
+  });
+
+  it("검색어가 비어 있으면 요청하지 않고 빈 목록을 반환한다", async () => {
+    const { client } = setup();
+
+    await expect(getSearchSuggestions("  ", { client })).resolves.toEqual({
+      query: "",
+      suggestions: [],
+    });
+  });
+
+  it("취소되면 빈 추천이 아니라 TourApiAbortedError를 던진다", async () => {
+    const { client } = setup();
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      getSearchSuggestions("서울", { client, signal: controller.signal }),
+    ).rejects.toBeInstanceOf(TourApiAbortedError);
+  });
+});
@@ -0,0 +1,319 @@
+/**
+ * @file suggest-api.ts
+ * @description 검색어 추천 (자동완성)
+ *
+ * 검색창에 입력 중인 검색어로 관광지명, 지역(시/도), 분류 추천 항목을 만듭니다.
+ * 관광지명은 카탈로그 검색(TOUR_CATALOG=on, 국문)이나 searchKeyword2로,
+ * 지역과 분류는 지역코드 목록과 분류 트리에서 찾습니다 (둘 다 API 응답 캐시 사용).
+ *
+ * 점수: 이름이 검색어와 같으면 3, 검색어로 시작하면 2, 포함하면 1,
+ * 그 외(카탈로그의 띄어쓰기·오타·로마자 일치)는 0.5이고 같은 점수는 지역 → 관광지 → 분류 순입니다.
+ * 같은 언어·검색어의 추천 결과는 1분 동안 프로세스 내에서 재사용합니다.
+ *
+ * @dependencies
+ * - lib/api/tour-api.ts: getAreaCode, searchKeyword
+ * - lib/api/category-api.ts: getCategoryTree
+ * - lib/api/tour-api-client.ts: TourApiCallOptions
+ * - lib/api/tour-api-errors.ts: TourApiAbortedError (취소는 빈 추천으로 바꾸지 않음)
+ * - lib/api/tour-catalog.ts: searchTourCatalog, isTourCatalogEnabled
+ * - lib/types/search.ts: SearchSuggestion, SearchSuggestResult
+ * - lib/utils/korean-search.ts: 검색어 정규화, 로마자 변환, 일치 구간
+ * - lib/utils/logger.ts: 구조화 로거
+ */
+
+import { getCategoryTree } from "./category-api";
+import { getAreaCode, searchKeyword } from "./tour-api";
+import type { TourApiCallOptions } from "./tour-api-client";
+import { TourApiAbortedError } from "./tour-api-errors";
+import { isTourCatalogEnabled, searchTourCatalog } from "./tour-catalog";
+import type {
+  SearchSuggestion,
+  SearchSuggestionType,
+  SearchSuggestResult,
+} from "@/lib/types/search";
+import type { CategoryNode, TourItem } from "@/lib/types/tour";
+import {
+  highlightSearchMatches,
+  normalizeSearchText,
+  romanizeHangul,
+} from "@/lib/utils/korean-search";
+import { createLogger } from "@/lib/utils/logger";
+
+const logger = createLogger("tour-api.suggest");
+
+/**
+ * 추천 결과 재사용 시간 (입력 중 같은 검색어를 반복 요청)
+ */
+const SUGGEST_CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * 추천 결과를 보관하는 최대 검색어 수
+ */
+const SUGGEST_CACHE_MAX_ENTRIES = 500;
+
+/**
+ * 종류별 최대 추천 수와 전체 최대 추천 수
+ */
+const MAX_PLACE_SUGGESTIONS = 5;
+const MAX_GROUP_SUGGESTIONS = 3;
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * 같은 점수일 때 종류 순서
+ */
+const TYPE_ORDER: Record<SearchSuggestionType, number> = {
+  region: 0,
+  place: 1,
+  category: 2,
+};
+
+/**
+ * 언어·검색어별 추천 결과 (최근 사용 순)
+ */
+const cachedResults = new Map<
+  string,
+  { result: SearchSuggestResult; loadedAt: number }
+>();
+
+/**
+ * 점수를 붙인 추천 항목
+ */
+interface ScoredSuggestion {
+  suggestion: SearchSuggestion;
+  score: number;
+}
+
+/**
+ * 이름과 검색어의 일치 점수 (일치하지 않으면 0)
+ * 한글 이름은 로마자 표기로도 비교합니다 ("seoul" → 서울).
+ */
+function getMatchScore(name: string, query: string): number {
+  const normalizedQuery = normalizeSearchText(query);
+  if (!normalizedQuery) {
+    return 0;
+  }
+
+  for (const value of [normalizeSearchText(name), romanizeHangul(name)]) {
+    if (value === normalizedQuery) {
+      return 3;
+    }
+    if (value.startsWith(normalizedQuery)) {
+      return 2;
+    }
+    if (value.includes(normalizedQuery)) {
+      return 1;
+    }
+  }
+  return 0;
+}
+
+/**
+ * 관광지 목록 항목 → 관광지명 추천
+ */
+function toPlaceSuggestion(item: TourItem, query: string): ScoredSuggestion {
+  const score = getMatchScore(item.title, query);
+  return {
+    suggestion: {
+      type: "place",
+      label: item.title,
+      description: item.addr1 || undefined,
+      href: `/places/${item.contentid}`,
+      contentId: item.contentid,
+      exact: score === 3,
+      segments: highlightSearchMatches(item.title, query),
+    },
+    // 이름에 검색어가 없으면 카탈로그가 관련도로 찾은 항목 (띄어쓰기, 오타, 로마자)
+    score: score || 0.5,
+  };
+}
+
+/**
+ * 관광지명 추천 (카탈로그 검색, 카탈로그를 쓰지 않거나 실패하면 searchKeyword2)
+ */
+async function suggestPlaces(
+  query: string,
+  options: TourApiCallOptions,
+): Promise<ScoredSuggestion[]> {
+  const useCatalog =
+    !options.client &&
+    (options.lang || "ko") === "ko" &&
+    isTourCatalogEnabled();
+
+  if (useCatalog) {
+    try {
+      const result = await searchTourCatalog({
+        keyword: query,
+        numOfRows: MAX_PLACE_SUGGESTIONS,
+      });
+      return result.items.map((item) => toPlaceSuggestion(item, query));
+    } catch (error) {
+      logger.warn("카탈로그 검색 실패, API로 추천", { query, error });
+    }
+  }
+
+  const result = await searchKeyword(
+    query,
+    undefined,
+    undefined,
+    {},
+    1,
+    MAX_PLACE_SUGGESTIONS,
+    options,
+  );
+  return result.items.map((item) => toPlaceSuggestion(item, query));
+}
+
+/**
+ * 지역(시/도) 추천
+ */
+async function suggestRegions(
+  query: string,
+  options: TourApiCallOptions,
+): Promise<ScoredSuggestion[]> {
+  const areaCodes = await getAreaCode(undefined, options);
+
+  return areaCodes
+    .map((area) => ({ area, score: getMatchScore(area.name, query) }))
+    .filter(({ score }) => score > 0)
+    .map(({ area, score }) => ({
+      suggestion: {
+        type: "region" as const,
+        label: area.name,
+        description: "지역",
+        href: `/?areaCode=${encodeURIComponent(area.code)}`,
+        exact: score === 3,
+        segments: highlightSearchMatches(area.name, query),
+      },
+      score,
+    }));
+}
+
+/**
+ * 분류 추천 (대/중/소분류, 상위 분류 경로를 설명으로 표시)
+ */
+async function suggestCategories(
+  query: string,
+  options: TourApiCallOptions,
+): Promise<ScoredSuggestion[]> {
+  const tree = await getCategoryTree(options);
+  const suggestions: ScoredSuggestion[] = [];
+
+  const visit = (nodes: CategoryNode[], path: CategoryNode[]) => {
+    for (const node of nodes) {
+      const nodePath = [...path, node];
+      const score = getMatchScore(node.name, query);
+      if (score > 0) {
+        const params = new URLSearchParams();
+        nodePath.forEach((pathNode, index) =>
+          params.set(`cat${index + 1}`, pathNode.code),
+        );
+        suggestions.push({
+          suggestion: {
+            type: "category",
+            label: node.name,
+            description:
+              path.map((pathNode) => pathNode.name).join(" > ") || "분류",
+            href: `/?${params.toString()}`,
+            exact: score === 3,
+            segments: highlightSearchMatches(node.name, query),
+          },
+          score,
+        });
+      }
+      visit(node.children, nodePath);
+    }
+  };
+  visit(tree, []);
+
+  return suggestions;
+}
+
+/**
+ * 추천 항목 조회 (실패한 종류는 빼고 반환, 취소는 TourApiAbortedError)
+ */
+async function loadSuggestions(
+  query: string,
+  options: TourApiCallOptions,
+): Promise<SearchSuggestion[]> {
+  const groups = await Promise.all(
+    (
+      [
+        ["place", suggestPlaces],
+        ["region", suggestRegions],
+        ["category", suggestCategories],
+      ] as const
+    ).map(async ([type, suggest]) => {
+      try {
+        const suggestions = await suggest(query, options);
+        return suggestions
+          .sort((a, b) => b.score - a.score)
+          .slice(
+            0,
+            type === "place" ? MAX_PLACE_SUGGESTIONS : MAX_GROUP_SUGGESTIONS,
+          );
+      } catch (error) {
+        if (error instanceof TourApiAbortedError) {
+          throw error;
+        }
+        logger.warn("검색어 추천 실패", { type, query, error });
+        return [];
+      }
+    }),
+  );
+
+  return groups
+    .flat()
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        TYPE_ORDER[a.suggestion.type] - TYPE_ORDER[b.suggestion.type],
+    )
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ suggestion }) => suggestion);
+}
+
+/**
+ * 검색어 추천
+ * @param query 입력 중인 검색어
+ * @param options 호출 옵션 (언어, 취소 신호)
+ * @returns 점수순 추천 결과 (검색어가 비어 있으면 빈 목록)
+ */
+export async function getSearchSuggestions(
+  query: string,
+  options: TourApiCallOptions = {},
+): Promise<SearchSuggestResult> {
+  const trimmed = query.trim();
+  const normalized = normalizeSearchText(trimmed);
+  if (!normalized) {
+    return { query: trimmed, suggestions: [] };
+  }
+
+  // 별도 클라이언트를 지정한 경우(테스트, 스크립트)에는 재사용하지 않음
+  const cacheKey = options.client
+    ? null
+    : `${options.lang || "ko"}:${normalized}`;
+  const cached = cacheKey ? cachedResults.get(cacheKey) : undefined;
+  if (cached && Date.now() - cached.loadedAt < SUGGEST_CACHE_TTL_MS) {
+    return { ...cached.result, query: trimmed };
+  }
+
+  const result: SearchSuggestResult = {
+    query: trimmed,
+    suggestions: await loadSuggestions(trimmed, options),
+  };
+
+  if (cacheKey) {
+    // 최근 사용 항목을 맨 뒤로, 가장 오래된 항목부터 제거
+    cachedResults.delete(cacheKey);
+    cachedResults.set(cacheKey, { result, loadedAt: Date.now() });
+    while (cachedResults.size > SUGGEST_CACHE_MAX_ENTRIES) {
+      cachedResults.delete(cachedResults.keys().next().value as string);
+    }
+  }
+
+  logger.debug("검색어 추천", {
+    query: trimmed,
+    suggestionCount: result.suggestions.length,
+  });
+  return result;
+}
@@ -0,0 +1,207 @@
+/**
+ * @file tour-api-cache.test.ts
+ * @description TourApiCache 검증 (fresh/stale 응답, 마지막 정상 응답, 보관 기간)
+ *
+ * /areaBasedList2 기본 캐시 시간(ttl 1시간, staleTtl 6시간)을 기준으로 시각을 옮기고,
+ * 장애 시 대체 응답은 가짜 서버 transport로 확인합니다.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { FakeTourApiServer } from "./fake-tour-api";
+import {
+  createTourApiCacheKey,
+  MemoryTourApiCacheStore,
+  TOUR_API_CACHE_RETENTION,
+  TourApiCache,
+} from "./tour-api-cache";
+import { TourApiClient } from "./tour-api-client";
+import { TourApiHttpError } from "./tour-api-errors";
+import { silentLogger } from "@/lib/utils/logger";
+
+const HOUR_MS = 60 * 60 * 1000;
+const RETENTION_MS = TOUR_API_CACHE_RETENTION * 1000;
+const ENDPOINT = "/areaBasedList2";
+const KEY = createTourApiCacheKey("KorService2", ENDPOINT, { pageNo: "1" });
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+/**
+ * 백그라운드 작업(갱신, 정리)이 끝날 때까지 대기
+ */
+function flushBackground(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * 메모리 저장소 캐시와 호출할 때마다 새 값(v1, v2, ...)을 만드는 fetcher 생성
+ */
+function setup() {
+  const store = new MemoryTourApiCacheStore();
+  const cache = new TourApiCache({ stores: [store] });
+  let version = 0;
+  const fetcher = vi.fn(async () => `v${++version}`);
+  const get = () => cache.getOrFetch(KEY, ENDPOINT, { pageNo: "1" }, fetcher);
+  return { store, cache, fetcher, get };
+}
+
+describe("createTourApiCacheKey", () => {
+  it("파라미터 순서와 관계없이 같은 키를 만든다", () => {
+    expect(
+      createTourApiCacheKey("KorService2", ENDPOINT, { b: "2", a: "1" }),
+    ).toBe("KorService2/areaBasedList2?a=1&b=2");
+  });
+});
+
+describe("TourApiCache", () => {
+  it("ttl 안에서는 캐시 응답을 그대로 반환한다", async () => {
+    const { cache, fetcher, get } = setup();
+
+    await expect(get()).resolves.toBe("v1");
+    vi.advanceTimersByTime(HOUR_MS - 1);
+    await expect(get()).resolves.toBe("v1");
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1 });
+  });
+
+  it("ttl이 지나면 캐시 응답을 반환하고 백그라운드에서 갱신한다", async () => {
+    const { cache, fetcher, get } = setup();
+    await get();
+
+    vi.advanceTimersByTime(2 * HOUR_MS);
+    await expect(get()).resolves.toBe("v1");
+    await flushBackground();
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    await expect(get()).resolves.toBe("v2");
+    expect(cache.getStats()).toMatchObject({ staleHits: 1, hits: 1 });
+  });
+
+  it("staleTtl까지 지나면 새로 가져온다", async () => {
+    const { fetcher, get } = setup();
+    await get();
+
+    vi.advanceTimersByTime(7 * HOUR_MS);
+
+    await expect(get()).resolves.toBe("v2");
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it("마지막 정상 응답은 만료 후 보관 기간까지만 사용한다", async () => {
+    const { cache, get } = setup();
+    await get();
+
+    // 만료(7시간) 직후와 보관 기간 마지막 시점
+    vi.advanceTimersByTime(7 * HOUR_MS + RETENTION_MS - 1);
+    await expect(cache.getLastKnownGood(KEY)).resolves.toMatchObject({
+      value: "v1",
+    });
+
+    vi.advanceTimersByTime(1);
+    await expect(cache.getLastKnownGood(KEY)).resolves.toBeNull();
+    expect(cache.getStats().fallbackHits).toBe(1);
+  });
+
+  it("저장할 때 보관 기간이 지난 응답을 한 시간에 한 번 정리한다", async () => {
+    const { store, get } = setup();
+    const purgeExpired = vi.spyOn(store, "purgeExpired");
+    const other = () =>
+      new TourApiCache({ stores: [store] }).getOrFetch(
+        "other",
+        ENDPOINT,
+        {},
+        async () => "other",
+      );
+
+    await get();
+    expect(purgeExpired).toHaveBeenCalledTimes(1);
+
+    // 같은 캐시에서는 정리 간격(1시간)이 지나야 다시 정리
+    vi.advanceTimersByTime(7 * HOUR_MS);
+    await get();
+    await other();
+
+    expect(purgeExpired).toHaveBeenCalledTimes(3);
+    expect(purgeExpired).toHaveBeenLastCalledWith(Date.now() - RETENTION_MS);
+  });
+});
+
+describe("TourApiClient 마지막 정상 응답", () => {
+  function setupClient() {
+    const server = new FakeTourApiServer({
+      fixtures: {
+        areaBasedList2: {
+          endpoint: "areaBasedList2",
+          records: [
+            {
+              params: {},
+              items: [
+                {
+                  contentid: "1",
+                  title: "경복궁",
+                  mapx: "126.97",
+                  mapy: "37.57",
+                },
+              ],
+            },
+          ],
+        },
+      },
+    });
+    const cache = new TourApiCache({ stores: [new MemoryTourApiCacheStore()] });
+    const client = new TourApiClient({
+      serviceKey: "test-key",
+      transport: server.transport,
+      logger: silentLogger,
+      retries: 0,
+      cache,
+      scheduler: null,
+      circuitBreaker: null,
+    });
+    return { server, cache, client };
+  }
+
+  it("장애가 나면 만료된 캐시 응답으로 대신 응답한다", async () => {
+    const { server, cache, client } = setupClient();
+    await client.request(ENDPOINT, { pageNo: 1 });
+
+    vi.advanceTimersByTime(7 * HOUR_MS);
+    server.injectFailure({ type: "http", status: 503 });
+
+    await expect(client.request(ENDPOINT, { pageNo: 1 })).resolves.toEqual([
+      expect.objectContaining({ contentid: "1" }),
+    ]);
+    expect(cache.getStats().fallbackHits).toBe(1);
+  });
+
+  it("보관 기간이 지난 응답은 쓰지 않고 원래 에러를 던진다", async () => {
+    const { server, client } = setupClient();
+    await client.request(ENDPOINT, { pageNo: 1 });
+
+    vi.advanceTimersByTime(7 * HOUR_MS + RETENTION_MS);
+    server.injectFailure({ type: "http", status: 503 });
+
+    await expect(
+      client.request(ENDPOINT, { pageNo: 1 }),
+    ).rejects.toBeInstanceOf(TourApiHttpError);
+  });
+
+  it("장애가 아닌 에러는 캐시 응답으로 대신하지 않는다", async () => {
+    const { server, client } = setupClient();
+    await client.request(ENDPOINT, { pageNo: 1 });
+
+    vi.advanceTimersByTime(7 * HOUR_MS);
+    server.injectFailure({ type: "http", status: 404 });
+
+    await expect(
+      client.request(ENDPOINT, { pageNo: 1 }),
+    ).rejects.toBeInstanceOf(TourApiHttpError);
+  });
+});
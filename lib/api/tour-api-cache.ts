@@ -0,0 +1,517 @@
+/**
+ * @file tour-api-cache.ts
+ * @description 한국관광공사 API 응답 캐시 (메모리 LRU → Supabase)
+ *
+ * TourApiClient의 요청 아래에 위치하는 2단계 캐시입니다.
+ * data.go.kr 일일 호출 한도를 아끼기 위해 같은 요청의 응답을 재사용합니다.
+ *
+ * 주요 기능:
+ * 1. 1단계: 프로세스 내부 LRU (MemoryTourApiCacheStore)
+ * 2. 2단계: Supabase tour_api_cache 테이블 (SupabaseTourApiCacheStore)
+ * 3. 엔드포인트별 TTL (지역코드는 며칠, 상세 정보는 몇 시간)
+ * 4. stale-while-revalidate (TTL이 지난 응답을 먼저 반환하고 백그라운드에서 갱신)
+ * 5. 캐시 삭제 (엔드포인트별 또는 전체)
+ * 6. 마지막 정상 응답 조회 (API 장애로 회로가 열렸을 때, 만료 후 7일 이내 응답 포함)
+ * 7. 보관 기간(만료 후 7일)이 지난 응답 정리 (1시간마다 백그라운드)
+ *
+ * @dependencies
+ * - lib/supabase/service-role.ts: getServiceRoleClient
+ * - supabase/migrations/tour_api_cache.sql: 캐시 테이블
+ * - lib/utils/logger.ts: 구조화 로거
+ */
+
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { createLogger } from "@/lib/utils/logger";
+
+const logger = createLogger("tour-api.cache");
+
+/**
+ * 캐시 항목
+ */
+export interface TourApiCacheEntry<T = unknown> {
+  key: string;
+  endpoint: string;
+  params: Record<string, string>;
+  value: T;
+  storedAt: number; // 저장 시각 (ms)
+  expiresAt: number; // stale 기간까지 포함한 만료 시각 (ms)
+}
+
+/**
+ * 캐시 저장소 인터페이스
+ */
+export interface TourApiCacheStore {
+  readonly name: string;
+  get(
+    key: string,
+    options?: { includeExpired?: boolean }, // 만료 후 보관 기간 이내 항목 포함
+  ): Promise<TourApiCacheEntry | null>;
+  set(entry: TourApiCacheEntry): Promise<void>;
+  purge(endpoint?: string): Promise<void>;
+  purgeExpired(before: number): Promise<void>; // before(ms) 이전에 만료된 항목 삭제
+}
+
+/**
+ * 엔드포인트별 캐시 시간 (초)
+ * - ttl: 이 시간 동안은 캐시를 그대로 사용 (fresh)
+ * - staleTtl: ttl 이후 이 시간 동안은 캐시를 반환하면서 백그라운드 갱신 (stale)
+ */
+export interface TourApiCacheTtl {
+  ttl: number;
+  staleTtl: number;
+}
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+/**
+ * 만료된 응답을 마지막 정상 응답으로 사용할 수 있는 기간 (초, 만료 시각 기준)
+ * 이 기간이 지난 응답은 장애 중에도 사용하지 않고 정리할 때 삭제합니다.
+ */
+export const TOUR_API_CACHE_RETENTION = 7 * DAY;
+
+/**
+ * 보관 기간이 지난 응답을 정리하는 간격 (초, 프로세스별)
+ */
+const CLEANUP_INTERVAL = HOUR;
+
+/**
+ * 기본 엔드포인트별 캐시 시간
+ */
+export const DEFAULT_TOUR_API_CACHE_TTL: Record<string, TourApiCacheTtl> = {
+  "/areaCode2": { ttl: 7 * DAY, staleTtl: 7 * DAY },
+  "/categoryCode2": { ttl: 7 * DAY, staleTtl: 7 * DAY },
+  "/areaBasedList2": { ttl: HOUR, staleTtl: 6 * HOUR },
+  "/searchKeyword2": { ttl: HOUR, staleTtl: 6 * HOUR },
+  "/locationBasedList2": { ttl: HOUR, staleTtl: 6 * HOUR },
+  "/searchFestival2": { ttl: HOUR, staleTtl: 6 * HOUR },
+  "/searchStay2": { ttl: HOUR, staleTtl: 6 * HOUR },
+  "/detailCommon2": { ttl: 6 * HOUR, staleTtl: DAY },
+  "/detailIntro2": { ttl: 6 * HOUR, staleTtl: DAY },
+  "/detailImage2": { ttl: 6 * HOUR, staleTtl: DAY },
+  "/detailInfo2": { ttl: 6 * HOUR, staleTtl: DAY },
+  "/detailPetTour2": { ttl: 6 * HOUR, staleTtl: DAY },
+};
+
+/**
+ * 목록에 없는 엔드포인트의 캐시 시간
+ */
+const FALLBACK_TTL: TourApiCacheTtl = { ttl: HOUR, staleTtl: HOUR };
+
+/**
+ * 캐시 키 생성 (파라미터는 키 순서로 정렬)
+ * @param scope 서비스 구분 (예: "KorService2")
+ * @param endpoint API 엔드포인트
+ * @param params 요청 파라미터 (인증키 제외)
+ */
+export function createTourApiCacheKey(
+  scope: string,
+  endpoint: string,
+  params: Record<string, string>,
+): string {
+  const query = Object.keys(params)
+    .sort()
+    .map((key) => `${key}=${params[key]}`)
+    .join("&");
+  return `${scope}${endpoint}?${query}`;
+}
+
+/**
+ * 조회할 항목의 최소 만료 시각 (ms)
+ * @param includeExpired 만료 후 보관 기간 이내 항목 포함 여부
+ */
+function getMinExpiresAt(includeExpired?: boolean): number {
+  const now = Date.now();
+  return includeExpired ? now - TOUR_API_CACHE_RETENTION * 1000 : now;
+}
+
+/**
+ * 프로세스 내부 LRU 저장소
+ */
+export class MemoryTourApiCacheStore implements TourApiCacheStore {
+  readonly name = "memory";
+  private readonly entries = new Map<string, TourApiCacheEntry>();
+
+  constructor(private readonly maxEntries: number = 500) {}
+
+  async get(
+    key: string,
+    options: { includeExpired?: boolean } = {},
+  ): Promise<TourApiCacheEntry | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    // 만료된 항목도 장애 시 사용할 수 있도록 보관 기간 동안 유지
+    if (entry.expiresAt <= getMinExpiresAt(options.includeExpired)) {
+      return null;
+    }
+    // 최근 사용 항목을 맨 뒤로 이동
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(entry: TourApiCacheEntry): Promise<void> {
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+
+    // 가장 오래 사용하지 않은 항목부터 제거
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  async purge(endpoint?: string): Promise<void> {
+    if (!endpoint) {
+      this.entries.clear();
+      return;
+    }
+    for (const [key, entry] of this.entries) {
+      if (entry.endpoint === endpoint) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  async purgeExpired(before: number): Promise<void> {
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= before) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Supabase tour_api_cache 테이블 저장소
+ */
+export class SupabaseTourApiCacheStore implements TourApiCacheStore {
+  readonly name = "supabase";
+
+  constructor(private readonly table: string = "tour_api_cache") {}
+
+  async get(
+    key: string,
+    options: { includeExpired?: boolean } = {},
+  ): Promise<TourApiCacheEntry | null> {
+    const supabase = getServiceRoleClient();
+    const minExpiresAt = getMinExpiresAt(options.includeExpired);
+    const { data, error } = await supabase
+      .from(this.table)
+      .select("cache_key, endpoint, params, payload, stored_at, expires_at")
+      .eq("cache_key", key)
+      .gt("expires_at", new Date(minExpiresAt).toISOString())
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    if (!data) {
+      return null;
+    }
+
+    return {
+      key: data.cache_key,
+      endpoint: data.endpoint,
+      params: data.params || {},
+      value: data.payload,
+      storedAt: new Date(data.stored_at).getTime(),
+      expiresAt: new Date(data.expires_at).getTime(),
+    };
+  }
+
+  async set(entry: TourApiCacheEntry): Promise<void> {
+    const supabase = getServiceRoleClient();
+    const { error } = await supabase.from(this.table).upsert(
+      {
+        cache_key: entry.key,
+        endpoint: entry.endpoint,
+        params: entry.params,
+        payload: entry.value,
+        stored_at: new Date(entry.storedAt).toISOString(),
+        expires_at: new Date(entry.expiresAt).toISOString(),
+      },
+      { onConflict: "cache_key" },
+    );
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  async purge(endpoint?: string): Promise<void> {
+    const supabase = getServiceRoleClient();
+    const query = supabase.from(this.table).delete();
+    const { error } = endpoint
+      ? await query.eq("endpoint", endpoint)
+      : await query.neq("cache_key", "");
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  async purgeExpired(before: number): Promise<void> {
+    const supabase = getServiceRoleClient();
+    const { error } = await supabase
+      .from(this.table)
+      .delete()
+      .lte("expires_at", new Date(before).toISOString());
+
+    if (error) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * 캐시 생성 옵션
+ */
+export interface TourApiCacheOptions {
+  stores: TourApiCacheStore[]; // 조회 순서대로 (앞쪽이 빠른 저장소)
+  ttl?: Record<string, TourApiCacheTtl>; // 엔드포인트별 캐시 시간 (기본값 덮어쓰기)
+}
+
+/**
+ * 캐시 통계
+ */
+export interface TourApiCacheStats {
+  hits: number; // fresh 응답 반환
+  staleHits: number; // stale 응답 반환 (백그라운드 갱신)
+  misses: number; // 캐시 없음 → 원본 요청
+  fallbackHits: number; // API 장애로 마지막 정상 응답 반환
+}
+
+export class TourApiCache {
+  private readonly stores: TourApiCacheStore[];
+  private readonly ttl: Record<string, TourApiCacheTtl>;
+  private readonly refreshing = new Map<string, Promise<unknown>>();
+  private lastCleanupAt = 0;
+  private readonly stats: TourApiCacheStats = {
+    hits: 0,
+    staleHits: 0,
+    misses: 0,
+    fallbackHits: 0,
+  };
+
+  constructor(options: TourApiCacheOptions) {
+    this.stores = options.stores;
+    this.ttl = { ...DEFAULT_TOUR_API_CACHE_TTL, ...options.ttl };
+  }
+
+  /**
+   * 캐시 통계 조회
+   */
+  getStats(): TourApiCacheStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * 캐시에서 조회하고, 없으면 fetcher로 가져와 저장
+   * @param key 캐시 키 (createTourApiCacheKey)
+   * @param endpoint API 엔드포인트 (TTL 결정, 엔드포인트별 삭제용)
+   * @param params 요청 파라미터 (Supabase 저장용)
+   * @param fetcher 원본 요청 함수
+   */
+  async getOrFetch<T>(
+    key: string,
+    endpoint: string,
+    params: Record<string, string>,
+    fetcher: () => Promise<T>,
+  ): Promise<T> {
+    const entry = await this.lookup(key);
+
+    if (entry) {
+      const { ttl } = this.getTtl(endpoint);
+      const isFresh = entry.storedAt + ttl * 1000 > Date.now();
+
+      if (isFresh) {
+        this.stats.hits++;
+        logger.debug("캐시 적중", { endpoint, key });
+        return entry.value as T;
+      }
+
+      // stale: 캐시를 먼저 반환하고 백그라운드에서 갱신
+      this.stats.staleHits++;
+      logger.debug("만료된 캐시 반환, 백그라운드 갱신", { endpoint, key });
+      this.refreshInBackground(key, endpoint, params, fetcher);
+      return entry.value as T;
+    }
+
+    this.stats.misses++;
+    logger.debug("캐시 없음", { endpoint, key });
+    return this.fetchAndStore(key, endpoint, params, fetcher);
+  }
+
+  /**
+   * 마지막 정상 응답 조회 (만료 후 보관 기간 이내 응답 포함, API 장애 시 대체 응답용)
+   * @param key 캐시 키 (createTourApiCacheKey)
+   * @returns 저장된 응답이 없으면 null
+   */
+  async getLastKnownGood<T>(key: string): Promise<TourApiCacheEntry<T> | null> {
+    for (const store of this.stores) {
+      try {
+        const entry = await store.get(key, { includeExpired: true });
+        if (entry) {
+          this.stats.fallbackHits++;
+          return entry as TourApiCacheEntry<T>;
+        }
+      } catch (error) {
+        logger.warn("캐시 조회 실패", { store: store.name, key, error });
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 캐시 삭제
+   * @param endpoint 삭제할 엔드포인트 (없으면 전체)
+   */
+  async purge(endpoint?: string): Promise<void> {
+    await Promise.all(this.stores.map((store) => store.purge(endpoint)));
+  }
+
+  /**
+   * 엔드포인트별 캐시 시간
+   */
+  private getTtl(endpoint: string): TourApiCacheTtl {
+    return this.ttl[endpoint] || FALLBACK_TTL;
+  }
+
+  /**
+   * 저장소를 순서대로 조회 (뒤쪽 저장소에서 찾으면 앞쪽 저장소에 채움)
+   */
+  private async lookup(key: string): Promise<TourApiCacheEntry | null> {
+    for (let i = 0; i < this.stores.length; i++) {
+      const store = this.stores[i];
+      try {
+        const entry = await store.get(key);
+        if (entry) {
+          await Promise.all(
+            this.stores.slice(0, i).map((upper) => this.safeSet(upper, entry)),
+          );
+          return entry;
+        }
+      } catch (error) {
+        // 캐시 장애가 API 요청을 막지 않도록 경고만 남김
+        logger.warn("캐시 조회 실패", { store: store.name, key, error });
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 원본 요청 후 모든 저장소에 저장
+   */
+  private async fetchAndStore<T>(
+    key: string,
+    endpoint: string,
+    params: Record<string, string>,
+    fetcher: () => Promise<T>,
+  ): Promise<T> {
+    const value = await fetcher();
+    const { ttl, staleTtl } = this.getTtl(endpoint);
+    const now = Date.now();
+    const entry: TourApiCacheEntry = {
+      key,
+      endpoint,
+      params,
+      value,
+      storedAt: now,
+      expiresAt: now + (ttl + staleTtl) * 1000,
+    };
+
+    await Promise.all(this.stores.map((store) => this.safeSet(store, entry)));
+    this.cleanupInBackground();
+    return value;
+  }
+
+  /**
+   * 보관 기간이 지난 응답 삭제 (CLEANUP_INTERVAL마다 한 번, 완료를 기다리지 않음)
+   */
+  private cleanupInBackground(): void {
+    const now = Date.now();
+    if (now - this.lastCleanupAt < CLEANUP_INTERVAL * 1000) {
+      return;
+    }
+    this.lastCleanupAt = now;
+
+    const before = now - TOUR_API_CACHE_RETENTION * 1000;
+    for (const store of this.stores) {
+      store.purgeExpired(before).catch((error) => {
+        logger.warn("만료된 캐시 정리 실패", { store: store.name, error });
+      });
+    }
+  }
+
+  /**
+   * 백그라운드 갱신 (같은 키는 한 번만)
+   */
+  private refreshInBackground<T>(
+    key: string,
+    endpoint: string,
+    params: Record<string, string>,
+    fetcher: () => Promise<T>,
+  ): void {
+    if (this.refreshing.has(key)) {
+      return;
+    }
+
+    const refresh = this.fetchAndStore(key, endpoint, params, fetcher)
+      .catch((error) => {
+        logger.warn("백그라운드 갱신 실패", { endpoint, key, error });
+      })
+      .finally(() => {
+        this.refreshing.delete(key);
+      });
+    this.refreshing.set(key, refresh);
+  }
+
+  /**
+   * 저장 실패를 무시하고 저장
+   */
+  private async safeSet(
+    store: TourApiCacheStore,
+    entry: TourApiCacheEntry,
+  ): Promise<void> {
+    try {
+      await store.set(entry);
+    } catch (error) {
+      logger.warn("캐시 저장 실패", {
+        store: store.name,
+        key: entry.key,
+        error,
+      });
+    }
+  }
+}
+
+/**
+ * 환경변수 기반 캐시 생성
+ * - TOUR_API_CACHE=off: 캐시 사용 안 함
+ * - Supabase 환경변수가 있으면 Supabase 저장소도 사용
+ * @param options.persistent Supabase 저장소 사용 여부 (기본: 환경변수 존재 여부)
+ */
+export function createTourApiCacheFromEnv(
+  options: { persistent?: boolean } = {},
+): TourApiCache | null {
+  if (process.env.TOUR_API_CACHE === "off") {
+    return null;
+  }
+
+  const persistent =
+    options.persistent ??
+    !!(
+      process.env.NEXT_PUBLIC_SUPABASE_URL &&
+      process.env.SUPABASE_SERVICE_ROLE_KEY
+    );
+
+  const stores: TourApiCacheStore[] = [new MemoryTourApiCacheStore()];
+  if (persistent) {
+    stores.push(new SupabaseTourApiCacheStore());
+  }
+
+  return new TourApiCache({ stores });
+}
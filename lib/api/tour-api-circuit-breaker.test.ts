@@ -0,0 +1,180 @@
+/**
+ * @file tour-api-circuit-breaker.test.ts
+ * @description TourApiCircuitBreaker 상태 전이 검증 (closed → open → half-open)
+ *
+ * 시각은 가짜 Date로 옮기고, 클라이언트 동작은 가짜 서버 transport로 확인합니다.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { FakeTourApiServer } from "./fake-tour-api";
+import {
+  isTourApiOutageError,
+  TourApiCircuitBreaker,
+} from "./tour-api-circuit-breaker";
+import { TourApiClient } from "./tour-api-client";
+import {
+  TourApiCircuitOpenError,
+  TourApiHttpError,
+  TourApiResultError,
+  TourApiTimeoutError,
+} from "./tour-api-errors";
+import { silentLogger } from "@/lib/utils/logger";
+
+const outage = new TourApiHttpError(503, "Service Unavailable");
+
+/**
+ * 연속 장애 2번이면 열리고 1초 뒤 시험 요청을 보내는 회로 차단기
+ */
+function createBreaker() {
+  return new TourApiCircuitBreaker({ failureThreshold: 2, openDuration: 1000 });
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("isTourApiOutageError", () => {
+  it("5xx, 타임아웃, 회로 열림만 장애로 본다", () => {
+    expect(isTourApiOutageError(outage)).toBe(true);
+    expect(isTourApiOutageError(new TourApiTimeoutError())).toBe(true);
+    expect(isTourApiOutageError(new TourApiCircuitOpenError())).toBe(true);
+    expect(isTourApiOutageError(new TourApiHttpError(404, "Not Found"))).toBe(
+      false,
+    );
+    expect(isTourApiOutageError(new TourApiResultError("30", "KEY"))).toBe(
+      false,
+    );
+  });
+});
+
+describe("TourApiCircuitBreaker", () => {
+  it("연속 장애가 기준에 도달하면 회로를 연다", () => {
+    const breaker = createBreaker();
+
+    breaker.recordFailure(outage);
+    expect(breaker.state).toBe("closed");
+    breaker.recordFailure(outage);
+
+    expect(breaker.state).toBe("open");
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(breaker.getStats()).toMatchObject({
+      state: "open",
+      consecutiveFailures: 2,
+      rejectedRequests: 1,
+      nextProbeAt: "2025-01-01T00:00:01.000Z",
+    });
+  });
+
+  it("장애가 아닌 에러는 연속 장애 수를 초기화한다", () => {
+    const breaker = createBreaker();
+
+    breaker.recordFailure(outage);
+    breaker.recordFailure(new TourApiResultError("10", "INVALID_REQUEST"));
+    breaker.recordFailure(outage);
+
+    expect(breaker.state).toBe("closed");
+  });
+
+  it("openDuration이 지나면 half-open으로 시험 요청 하나만 보낸다", () => {
+    const breaker = createBreaker();
+    breaker.recordFailure(outage);
+    breaker.recordFailure(outage);
+
+    vi.advanceTimersByTime(1000);
+
+    expect(breaker.state).toBe("half-open");
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it("시험 요청이 성공하면 회로를 닫는다", () => {
+    const breaker = createBreaker();
+    breaker.recordFailure(outage);
+    breaker.recordFailure(outage);
+    vi.advanceTimersByTime(1000);
+
+    breaker.tryAcquire();
+    breaker.recordSuccess();
+
+    expect(breaker.getStats()).toMatchObject({
+      state: "closed",
+      consecutiveFailures: 0,
+      openedAt: null,
+    });
+  });
+
+  it("시험 요청이 실패하면 다시 열고 openDuration을 새로 센다", () => {
+    const breaker = createBreaker();
+    breaker.recordFailure(outage);
+    breaker.recordFailure(outage);
+    vi.advanceTimersByTime(1000);
+
+    breaker.tryAcquire();
+    breaker.recordFailure(outage);
+
+    expect(breaker.state).toBe("open");
+    expect(breaker.nextProbeAt()?.toISOString()).toBe(
+      "2025-01-01T00:00:02.000Z",
+    );
+  });
+
+  it("취소된 시험 요청은 자리만 반납한다", () => {
+    const breaker = createBreaker();
+    breaker.recordFailure(outage);
+    breaker.recordFailure(outage);
+    vi.advanceTimersByTime(1000);
+
+    breaker.tryAcquire();
+    breaker.release();
+
+    expect(breaker.state).toBe("half-open");
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+});
+
+describe("TourApiClient 회로 차단", () => {
+  it("회로가 열리면 요청을 보내지 않고 회로 열림 에러를 던진다", async () => {
+    const server = new FakeTourApiServer({
+      fixtures: {
+        areaCode2: {
+          endpoint: "areaCode2",
+          records: [{ params: {}, items: [{ code: "1", name: "서울" }] }],
+        },
+      },
+    });
+    let calls = 0;
+    const client = new TourApiClient({
+      serviceKey: "test-key",
+      transport: (url, init) => {
+        calls++;
+        return server.transport(url, init);
+      },
+      logger: silentLogger,
+      retries: 0,
+      cache: null,
+      scheduler: null,
+      circuitBreaker: createBreaker(),
+    });
+    server.injectFailure({ type: "http", status: 503, times: 2 });
+
+    for (let i = 0; i < 2; i++) {
+      await expect(client.request("/areaCode2", {})).rejects.toBeInstanceOf(
+        TourApiHttpError,
+      );
+    }
+    await expect(client.request("/areaCode2", {})).rejects.toBeInstanceOf(
+      TourApiCircuitOpenError,
+    );
+    expect(calls).toBe(2);
+
+    // 시험 요청이 성공하면 다시 정상 요청
+    vi.advanceTimersByTime(1000);
+    await expect(client.request("/areaCode2", {})).resolves.toHaveLength(1);
+    expect(client.circuitBreaker?.state).toBe("closed");
+  });
+});
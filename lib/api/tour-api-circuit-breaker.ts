@@ -0,0 +1,256 @@
+/**
+ * @file tour-api-circuit-breaker.ts
+ * @description 한국관광공사 API 회로 차단기 (장애 시 요청 즉시 중단)
+ *
+ * KorService2 장애 중에는 모든 페이지 요청이 재시도(1초+2초+4초)를 기다린 뒤 실패해
+ * 홈, 상세, 통계 페이지가 함께 멈춥니다.
+ * 5xx 응답이나 타임아웃이 연속으로 발생하면 회로를 열어(open) 요청을 보내지 않고
+ * 바로 실패시키며, 클라이언트는 마지막으로 받은 캐시 응답으로 대신 응답합니다.
+ * 일정 시간이 지나면 시험 요청(half-open)을 보내 성공하면 회로를 닫습니다(closed).
+ *
+ * 상태 전이:
+ * - closed → open: 장애 에러가 failureThreshold번 연속 발생
+ * - open → half-open: openDuration이 지난 뒤 첫 요청
+ * - half-open → closed: 시험 요청 성공 (장애가 아닌 에러 응답 포함)
+ * - half-open → open: 시험 요청 실패
+ *
+ * 환경변수 (기본 클라이언트):
+ * - TOUR_API_CIRCUIT_BREAKER=off: 회로 차단기 사용 안 함
+ * - TOUR_API_CIRCUIT_FAILURES: 회로를 여는 연속 실패 횟수 (기본: 5)
+ * - TOUR_API_CIRCUIT_OPEN_SECONDS: 시험 요청까지 기다리는 시간(초) (기본: 30)
+ *
+ * @dependencies
+ * - lib/api/tour-api-errors.ts: 에러 클래스
+ * - lib/utils/logger.ts: 구조화 로거
+ */
+
+import {
+  TourApiCircuitOpenError,
+  TourApiHttpError,
+  TourApiNetworkError,
+  TourApiTimeoutError,
+} from "./tour-api-errors";
+import { createLogger } from "@/lib/utils/logger";
+
+const logger = createLogger("tour-api.circuit");
+
+/**
+ * 회로 상태
+ * - closed: 정상 (요청 전송)
+ * - open: 장애 (요청을 보내지 않고 바로 실패)
+ * - half-open: 복구 확인 중 (시험 요청만 전송)
+ */
+export type TourApiCircuitState = "closed" | "open" | "half-open";
+
+/**
+ * 회로 차단기 생성 옵션
+ */
+export interface TourApiCircuitBreakerOptions {
+  failureThreshold?: number; // 회로를 여는 연속 실패 횟수 (기본: 5)
+  openDuration?: number; // 시험 요청까지 기다리는 시간(ms) (기본: 30000)
+  halfOpenMaxRequests?: number; // 동시에 보낼 수 있는 시험 요청 수 (기본: 1)
+}
+
+/**
+ * 회로 차단기 상태
+ */
+export interface TourApiCircuitBreakerStats {
+  state: TourApiCircuitState;
+  consecutiveFailures: number; // 연속 장애 에러 수
+  openedAt: string | null; // 회로가 열린 시각 (ISO)
+  nextProbeAt: string | null; // 시험 요청을 보낼 수 있는 시각 (ISO)
+  rejectedRequests: number; // 회로가 열려 보내지 않은 요청 수
+}
+
+/**
+ * 회로 차단기가 세는 장애 에러인지 확인 (5xx, 타임아웃, 네트워크 연결 실패)
+ * 인증키·파라미터 에러처럼 서버가 응답한 에러는 장애로 보지 않습니다.
+ */
+export function isTourApiOutageError(error: unknown): boolean {
+  return (
+    (error instanceof TourApiHttpError && error.isServerError) ||
+    error instanceof TourApiTimeoutError ||
+    error instanceof TourApiNetworkError ||
+    error instanceof TourApiCircuitOpenError
+  );
+}
+
+export class TourApiCircuitBreaker {
+  readonly failureThreshold: number;
+  readonly openDuration: number;
+  private readonly halfOpenMaxRequests: number;
+  private currentState: TourApiCircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private probesInFlight = 0;
+  private rejectedRequests = 0;
+
+  constructor(options: TourApiCircuitBreakerOptions = {}) {
+    this.failureThreshold = Math.max(1, options.failureThreshold ?? 5);
+    this.openDuration = Math.max(0, options.openDuration ?? 30000);
+    this.halfOpenMaxRequests = Math.max(1, options.halfOpenMaxRequests ?? 1);
+  }
+
+  /**
+   * 현재 상태 (열린 지 openDuration이 지났으면 half-open)
+   */
+  get state(): TourApiCircuitState {
+    if (
+      this.currentState === "open" &&
+      this.openedAt !== null &&
+      Date.now() - this.openedAt >= this.openDuration
+    ) {
+      this.transition("half-open");
+    }
+    return this.currentState;
+  }
+
+  /**
+   * 요청을 보내도 되는지 확인하고, 시험 요청이면 자리를 차지합니다.
+   * true를 받은 요청은 반드시 recordSuccess, recordFailure, release 중 하나를 호출해야 합니다.
+   */
+  tryAcquire(): boolean {
+    const state = this.state;
+
+    if (state === "closed") {
+      return true;
+    }
+    if (
+      state === "half-open" &&
+      this.probesInFlight < this.halfOpenMaxRequests
+    ) {
+      this.probesInFlight++;
+      return true;
+    }
+
+    this.rejectedRequests++;
+    return false;
+  }
+
+  /**
+   * 요청 성공 기록 (시험 요청이면 회로를 닫음)
+   */
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    if (this.currentState === "half-open") {
+      this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+      this.transition("closed");
+    }
+  }
+
+  /**
+   * 요청 실패 기록 (장애 에러가 아니면 서버가 응답한 것이므로 성공으로 처리)
+   * @param error 요청 에러
+   */
+  recordFailure(error: unknown): void {
+    if (!isTourApiOutageError(error)) {
+      this.recordSuccess();
+      return;
+    }
+
+    this.consecutiveFailures++;
+    if (this.currentState === "half-open") {
+      this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+      this.transition("open");
+    } else if (
+      this.currentState === "closed" &&
+      this.consecutiveFailures >= this.failureThreshold
+    ) {
+      this.transition("open");
+    }
+  }
+
+  /**
+   * 결과를 알 수 없이 끝난 요청 기록 (취소된 요청, 시험 요청 자리만 반납)
+   */
+  release(): void {
+    if (this.currentState === "half-open") {
+      this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+    }
+  }
+
+  /**
+   * 시험 요청을 보낼 수 있는 시각 (회로가 열려 있지 않으면 null)
+   */
+  nextProbeAt(): Date | null {
+    return this.currentState === "open" && this.openedAt !== null
+      ? new Date(this.openedAt + this.openDuration)
+      : null;
+  }
+
+  /**
+   * 상태 조회
+   */
+  getStats(): TourApiCircuitBreakerStats {
+    const state = this.state;
+    return {
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt:
+        state !== "closed" && this.openedAt !== null
+          ? new Date(this.openedAt).toISOString()
+          : null,
+      nextProbeAt: this.nextProbeAt()?.toISOString() || null,
+      rejectedRequests: this.rejectedRequests,
+    };
+  }
+
+  /**
+   * 상태 변경
+   */
+  private transition(next: TourApiCircuitState): void {
+    const previous = this.currentState;
+    if (previous === next) {
+      return;
+    }
+
+    this.currentState = next;
+    if (next === "open") {
+      this.openedAt = Date.now();
+    } else if (next === "closed") {
+      this.openedAt = null;
+      this.consecutiveFailures = 0;
+    }
+    if (next !== "half-open") {
+      this.probesInFlight = 0;
+    }
+
+    const fields = {
+      from: previous,
+      to: next,
+      consecutiveFailures: this.consecutiveFailures,
+    };
+    if (next === "open") {
+      logger.error("Tour API 회로 열림, 캐시 응답으로 전환", {
+        ...fields,
+        openDurationMs: this.openDuration,
+      });
+    } else if (next === "closed") {
+      logger.info("Tour API 회로 닫힘, 정상 요청 재개", fields);
+    } else {
+      logger.info("Tour API 회로 시험 요청 시작", fields);
+    }
+  }
+}
+
+/**
+ * 환경변수 기반 회로 차단기 생성
+ * - TOUR_API_CIRCUIT_BREAKER=off: 사용 안 함 (null)
+ * - TOUR_API_CIRCUIT_FAILURES, TOUR_API_CIRCUIT_OPEN_SECONDS: 차단 기준
+ */
+export function createTourApiCircuitBreakerFromEnv(): TourApiCircuitBreaker | null {
+  if (process.env.TOUR_API_CIRCUIT_BREAKER === "off") {
+    return null;
+  }
+
+  const openSeconds = parseInt(
+    process.env.TOUR_API_CIRCUIT_OPEN_SECONDS || "",
+    10,
+  );
+
+  return new TourApiCircuitBreaker({
+    failureThreshold:
+      parseInt(process.env.TOUR_API_CIRCUIT_FAILURES || "", 10) || undefined,
+    openDuration: openSeconds >= 0 ? openSeconds * 1000 : undefined,
+  });
+}
@@ -0,0 +1,177 @@
+/**
+ * @file tour-api-client.test.ts
+ * @description TourApiClient 중복 요청 병합, 취소, 마지막 정상 응답 검증 (가짜 서버 사용)
+ *
+ * 가짜 서버 transport 앞에 지연을 두어 요청이 진행 중인 동안 같은 요청을 다시 보냅니다.
+ */
+
+import { describe, expect, it } from "vitest";
+import { FakeTourApiServer } from "./fake-tour-api";
+import { MemoryTourApiCacheStore, TourApiCache } from "./tour-api-cache";
+import {
+  TourApiClient,
+  type TourApiClientOptions,
+  type TourApiTransport,
+} from "./tour-api-client";
+import { TourApiAbortedError } from "./tour-api-errors";
+import { TourApiScheduler } from "./tour-api-scheduler";
+import { silentLogger } from "@/lib/utils/logger";
+import {
+  runWithRequestContext,
+  type RequestContext,
+} from "@/lib/utils/request-context";
+
+/**
+ * 픽스처 항목 (contentid: "1" ~ "3")
+ */
+const ITEMS = ["1", "2", "3"].map((contentid) => ({
+  contentid,
+  contenttypeid: "12",
+  title: `관광지 ${contentid}`,
+  addr1: "서울특별시",
+  areacode: "1",
+  mapx: "126.9780",
+  mapy: "37.5665",
+}));
+
+/**
+ * 가짜 서버와 클라이언트 생성 (transport는 delayMs 뒤에 응답, 취소되면 바로 실패)
+ */
+function setup(options: TourApiClientOptions = {}, delayMs = 20) {
+  const server = new FakeTourApiServer({
+    fixtures: {
+      areaBasedList2: {
+        endpoint: "areaBasedList2",
+        records: [{ params: {}, items: ITEMS }],
+      },
+    },
+  });
+  const calls: string[] = [];
+  const transport: TourApiTransport = async (url, init) => {
+    calls.push(url);
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, delayMs);
+      init.signal?.addEventListener("abort", () => {
+        clearTimeout(timer);
+        reject(init.signal?.reason);
+      });
+    });
+    return server.transport(url, init);
+  };
+  const client = new TourApiClient({
+    serviceKey: "test-key",
+    transport,
+    logger: silentLogger,
+    retries: 0,
+    cache: null,
+    scheduler: null,
+    circuitBreaker: null,
+    ...options,
+  });
+  return { server, client, calls };
+}
+
+describe("TourApiClient 요청 병합", () => {
+  it("진행 중인 같은 요청은 한 번만 보낸다", async () => {
+    const { client, calls } = setup();
+
+    const [first, second] = await Promise.all([
+      client.requestPage("/areaBasedList2", { pageNo: 1 }),
+      client.requestPage("/areaBasedList2", { pageNo: 1 }),
+    ]);
+
+    expect(calls).toHaveLength(1);
+    expect(first.items).toHaveLength(3);
+    expect(second).toBe(first);
+    expect(client.getStats().coalescedRequests).toBe(1);
+  });
+
+  it("한 호출이 취소되어도 나머지 호출은 결과를 받는다", async () => {
+    const { client, calls } = setup();
+    const controller = new AbortController();
+
+    const aborted = client.requestPage(
+      "/areaBasedList2",
+      { pageNo: 1 },
+      { signal: controller.signal },
+    );
+    const other = client.requestPage("/areaBasedList2", { pageNo: 1 });
+    controller.abort();
+
+    await expect(aborted).rejects.toBeInstanceOf(TourApiAbortedError);
+    await expect(other).resolves.toMatchObject({ totalCount: 3 });
+    expect(calls).toHaveLength(1);
+  });
+
+  it("모든 호출이 취소된 요청에는 새 호출을 병합하지 않는다", async () => {
+    const { client, calls } = setup();
+    const controller = new AbortController();
+
+    const aborted = client.requestPage(
+      "/areaBasedList2",
+      { pageNo: 1 },
+      { signal: controller.signal },
+    );
+    controller.abort();
+    const next = client.requestPage("/areaBasedList2", { pageNo: 1 });
+
+    await expect(aborted).rejects.toBeInstanceOf(TourApiAbortedError);
+    await expect(next).resolves.toMatchObject({ totalCount: 3 });
+    expect(calls).toHaveLength(2);
+  });
+
+  it("우선순위가 다른 호출은 병합하지 않는다", async () => {
+    const scheduler = new TourApiScheduler({
+      maxConcurrency: 1,
+      requestsPerSecond: 0,
+    });
+    const { client, calls } = setup({ scheduler });
+    const order: string[] = [];
+
+    // 첫 요청이 실행 중인 동안 low → high 순으로 대기열에 추가
+    const running = client.requestPage("/areaBasedList2", { pageNo: 2 });
+    const low = client
+      .requestPage("/areaBasedList2", { pageNo: 1 }, { priority: "low" })
+      .then(() => order.push("low"));
+    const high = client
+      .requestPage("/areaBasedList2", { pageNo: 1 }, { priority: "high" })
+      .then(() => order.push("high"));
+    await Promise.all([running, low, high]);
+
+    expect(calls).toHaveLength(3);
+    expect(order).toEqual(["high", "low"]);
+    expect(client.getStats().coalescedRequests).toBe(0);
+  });
+});
+
+describe("TourApiClient 마지막 정상 응답", () => {
+  it("병합된 호출도 각자의 요청 컨텍스트에 stale을 표시한다", async () => {
+    // 저장 즉시 만료되는 캐시 (장애 시 마지막 정상 응답으로만 사용)
+    const cache = new TourApiCache({
+      stores: [new MemoryTourApiCacheStore()],
+      ttl: { "/areaBasedList2": { ttl: 0, staleTtl: 0 } },
+    });
+    const { server, client } = setup({ cache });
+    await client.requestPage("/areaBasedList2", { pageNo: 1 });
+    server.injectFailure({ type: "http", status: 503 });
+
+    const contexts: RequestContext[] = [
+      { requestId: "first" },
+      { requestId: "second" },
+    ];
+    const pages = await Promise.all(
+      contexts.map((context) =>
+        runWithRequestContext(context, () =>
+          client.requestPage("/areaBasedList2", { pageNo: 1 }),
+        ),
+      ),
+    );
+
+    expect(pages.map((page) => page.totalCount)).toEqual([3, 3]);
+    expect(client.getStats().coalescedRequests).toBe(1);
+    expect(contexts.map((context) => context.staleData)).toEqual([
+      true,
+      true,
+    ]);
+  });
+});
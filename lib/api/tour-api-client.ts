@@ -0,0 +1,945 @@
+/**
+ * @file tour-api-client.ts
+ * @description 한국관광공사 공공 API (KorService2) 클라이언트 클래스
+ *
+ * 인증키, Base URL, MobileApp 이름, 전송 함수(transport), 로거를 주입받아
+ * API 요청을 수행하는 클라이언트입니다.
+ * lib/api/tour-api.ts와 lib/api/stats-api.ts의 모든 요청은 이 클라이언트를 거칩니다.
+ *
+ * 주요 기능:
+ * 1. 요청 URL 생성 (공통 파라미터 + 인증키)
+ * 2. 재시도 로직 (exponential backoff, 재시도 가능한 에러만)
+ * 3. 응답 파싱 (items.item 단일 객체/배열 처리, totalCount 등 페이지 정보)
+ * 3-1. 응답 항목 검증 (zod 스키마, 잘못된 항목 제외, lib/api/tour-api-schemas.ts)
+ * 3-2. 게이트웨이 XML 에러 응답 처리 (인증키·호출 한도 에러, TourApiGatewayError)
+ * 4. 응답 캐시 (메모리 LRU → Supabase, lib/api/tour-api-cache.ts)
+ * 5. 중복 요청 병합 (같은 엔드포인트 + 파라미터의 동시 요청은 한 번만 전송)
+ * 6. 요청 스케줄링 (동시 실행/초당 요청 수 제한, 우선순위, lib/api/tour-api-scheduler.ts)
+ * 7. 기본 클라이언트 관리 (환경변수 기반, 교체 가능)
+ * 8. 언어별 서비스 요청 (lang 옵션, EngService2 등, lib/api/tour-api-language.ts)
+ * 9. 구조화 로그 (엔드포인트, 파라미터(인증키 마스킹), 시도 횟수, 지연 시간, 항목 수)
+ * 10. 인증키 교체 (한도 초과·미등록 키 응답 시 다음 키로, lib/api/tour-api-quota.ts)
+ * 11. 키별 일일 호출 수 집계 (Supabase tour_api_key_usage)
+ * 12. 회로 차단기 (장애 시 요청 중단, 마지막 캐시 응답으로 대신 응답,
+ *     lib/api/tour-api-circuit-breaker.ts)
+ * 13. 요청 타임아웃 (시도마다, 기본 10초) 및 AbortSignal 취소
+ *     (취소는 재시도하지 않고 TourApiAbortedError로 실패)
+ *
+ * 환경변수 (기본 클라이언트):
+ * - TOUR_API_KEYS: 인증키 목록 (쉼표로 구분, 앞쪽 키부터 사용)
+ * - NEXT_PUBLIC_TOUR_API_KEY / TOUR_API_KEY: 인증키 (TOUR_API_KEYS 뒤에 사용)
+ * - TOUR_API_BASE_URL: Base URL (로컬 가짜 서버 등으로 교체할 때 사용)
+ * - TOUR_API_MOBILE_APP: MobileApp 파라미터 (기본: MyTrip)
+ * - TOUR_API_FAKE=true: 로컬 가짜 서버 사용 (lib/api/fake-tour-api.ts)
+ * - TOUR_API_RECORD=true: 실제 응답을 픽스처로 녹화 (lib/api/tour-api-recorder.ts)
+ * - TOUR_API_CACHE=off: 응답 캐시 사용 안 함
+ * - TOUR_API_MAX_CONCURRENCY, TOUR_API_RPS: 공유 스케줄러 설정
+ * - TOUR_API_DAILY_QUOTA: 키별 일일 호출 한도 (사용률 표시용)
+ * - TOUR_API_CIRCUIT_BREAKER=off, TOUR_API_CIRCUIT_FAILURES,
+ *   TOUR_API_CIRCUIT_OPEN_SECONDS: 회로 차단기 설정
+ * - TOUR_API_TIMEOUT_MS: 요청 타임아웃(ms) (기본: 10000)
+ *
+ * @example
+ * ```ts
+ * const client = new TourApiClient({
+ *   serviceKey: "test-key",
+ *   baseUrl: "http://localhost:4010/B551011/KorService2",
+ * });
+ * const items = await client.request<TourItem>("/areaBasedList2", { areaCode: "1" });
+ * ```
+ *
+ * @dependencies
+ * - lib/types/tour.ts: ApiResponse, ApiError, PagedResult
+ * - lib/api/tour-api-errors.ts: 에러 클래스
+ * - lib/api/fake-tour-api.ts: 가짜 서버 transport
+ * - lib/api/tour-api-recorder.ts: 녹화 transport
+ * - lib/api/tour-api-cache.ts: 응답 캐시
+ * - lib/api/tour-api-scheduler.ts: 요청 스케줄러
+ * - lib/api/tour-api-language.ts: 언어별 서비스 URL, 관광 타입 ID 변환
+ * - lib/api/tour-api-schemas.ts: 응답 항목 검증
+ * - lib/api/tour-api-quota.ts: 인증키 목록, 호출 수 집계
+ * - lib/api/tour-api-circuit-breaker.ts: 회로 차단기
+ * - lib/utils/request-context.ts: 마지막 캐시 응답 사용 표시 (안내 배너)
+ * - lib/utils/logger.ts: 구조화 로거
+ */
+
+import type {
+  ApiResponse,
+  ApiError,
+  PagedResult,
+  TourLanguage,
+} from "@/lib/types/tour";
+import {
+  TourApiAbortedError,
+  TourApiCircuitOpenError,
+  TourApiError,
+  TourApiHttpError,
+  TourApiQuotaExceededError,
+  TourApiResultError,
+  TourApiTimeoutError,
+  parseTourApiGatewayError,
+  toTourApiError,
+} from "./tour-api-errors";
+import { getFakeTourApiServer, isFakeTourApiEnabled } from "./fake-tour-api";
+import {
+  createRecordingTransport,
+  isTourApiRecordEnabled,
+} from "./tour-api-recorder";
+import {
+  createTourApiCacheFromEnv,
+  createTourApiCacheKey,
+  type TourApiCache,
+} from "./tour-api-cache";
+import {
+  getTourApiScheduler,
+  type TourApiPriority,
+  type TourApiScheduler,
+} from "./tour-api-scheduler";
+import {
+  fromServiceContentTypeId,
+  getServiceBaseUrl,
+  toServiceContentTypeId,
+} from "./tour-api-language";
+import { validateTourApiItems } from "./tour-api-schemas";
+import {
+  TourApiKeyPool,
+  createTourApiKeys,
+  createTourApiQuotaTrackerFromEnv,
+  getQuotaDate,
+  type TourApiKeyStatus,
+  type TourApiQuotaTracker,
+} from "./tour-api-quota";
+import {
+  TourApiCircuitBreaker,
+  createTourApiCircuitBreakerFromEnv,
+  isTourApiOutageError,
+} from "./tour-api-circuit-breaker";
+import { createLogger, type Logger } from "@/lib/utils/logger";
+import { getRequestContext } from "@/lib/utils/request-context";
+
+/**
+ * 기본 API Base URL
+ */
+export const DEFAULT_TOUR_API_BASE_URL =
+  "https://apis.data.go.kr/B551011/KorService2";
+
+/**
+ * 요청 파라미터 타입 (undefined, 빈 문자열은 전송하지 않음)
+ */
+export type TourApiParams = Record<string, string | number | undefined>;
+
+/**
+ * HTTP 전송 함수 (기본: 전역 fetch)
+ */
+export type TourApiTransport = (
+  url: string,
+  init: RequestInit,
+) => Promise<Response>;
+
+/**
+ * 클라이언트 생성 옵션
+ */
+export interface TourApiClientOptions {
+  serviceKey?: string; // 인증키 (없으면 요청 시 환경변수에서 조회)
+  serviceKeys?: string[]; // 인증키 목록 (앞쪽 키부터 사용, serviceKey보다 우선)
+  baseUrl?: string; // API Base URL
+  mobileApp?: string; // MobileApp 파라미터
+  mobileOS?: string; // MobileOS 파라미터
+  transport?: TourApiTransport; // HTTP 전송 함수
+  logger?: Logger; // 로거 (기본: tour-api 모듈 로거)
+  retries?: number; // 재시도 횟수 (기본: 3)
+  retryDelay?: number; // 재시도 지연 시간(ms) (기본: 1000)
+  timeout?: number; // 요청 타임아웃(ms), 시도마다 적용 (기본: 10000)
+  revalidate?: number; // Next.js fetch 캐시 시간(초) (기본: 3600)
+  cache?: TourApiCache | null; // 응답 캐시 (없으면 캐시 사용 안 함)
+  scheduler?: TourApiScheduler | null; // 요청 스케줄러 (기본: 공유 스케줄러, null이면 사용 안 함)
+  quota?: TourApiQuotaTracker | null; // 키별 호출 수 집계 (없으면 집계 안 함)
+  circuitBreaker?: TourApiCircuitBreaker | null; // 회로 차단기 (기본: 클라이언트별 차단기, null이면 사용 안 함)
+}
+
+/**
+ * 요청 단위 옵션 (request, requestPage의 마지막 인자)
+ */
+export interface TourApiRequestOptions {
+  priority?: TourApiPriority; // 스케줄러 우선순위 (기본: normal)
+  lang?: TourLanguage; // 콘텐츠 언어 (기본: ko, KorService2)
+  signal?: AbortSignal; // 취소 신호 (취소되면 TourApiAbortedError)
+  timeout?: number; // 요청 타임아웃(ms) (기본: 클라이언트 설정)
+}
+
+/**
+ * 클라이언트 요청 통계
+ */
+export interface TourApiClientStats {
+  upstreamRequests: number; // 실제 API로 보낸 요청 수 (재시도 제외)
+  coalescedRequests: number; // 진행 중인 요청과 병합되어 생략된 요청 수
+}
+
+/**
+ * 인증키별 오늘 사용량 (관리자 페이지)
+ */
+export interface TourApiKeyUsageReport {
+  date: string; // KST 날짜 (YYYY-MM-DD)
+  dailyQuota: number | null; // 키별 일일 호출 한도 (집계하지 않으면 null)
+  keys: (TourApiKeyStatus & {
+    calls: number; // 오늘 호출 수 (모든 인스턴스 합계)
+    quotaErrors: number; // 오늘 한도 초과 응답 수
+  })[];
+}
+
+/**
+ * API 함수 호출 옵션 (tour-api.ts, stats-api.ts의 마지막 인자)
+ */
+export interface TourApiCallOptions {
+  client?: TourApiClient; // 사용할 클라이언트 (기본: getTourApiClient())
+  priority?: TourApiPriority; // 요청 우선순위 (기본: normal, 통계는 low)
+  lang?: TourLanguage; // 콘텐츠 언어 (기본: ko)
+  signal?: AbortSignal; // 취소 신호 (취소되면 TourApiAbortedError)
+  timeout?: number; // 요청 타임아웃(ms) (기본: 클라이언트 설정)
+}
+
+/**
+ * API 함수 호출 옵션에서 요청 단위 옵션 추출 (클라이언트 제외)
+ */
+export function toRequestOptions(
+  options: TourApiCallOptions,
+): TourApiRequestOptions {
+  return {
+    priority: options.priority,
+    lang: options.lang,
+    signal: options.signal,
+    timeout: options.timeout,
+  };
+}
+
+/**
+ * 병합 요청 결과 (호출마다 자신의 요청 컨텍스트에 stale 여부를 표시)
+ */
+interface InFlightResult {
+  page: PagedResult<unknown>;
+  stale: boolean; // API 장애로 마지막 캐시 응답을 대신 사용했는지
+}
+
+/**
+ * 진행 중인 요청 (중복 요청 병합)
+ */
+interface InFlightRequest {
+  promise: Promise<InFlightResult>;
+  controller: AbortController; // 실제 요청 취소용 (모든 호출이 취소되면 abort)
+  waiting: number; // 취소되지 않은 호출 수
+}
+
+/**
+ * 지연 함수 (재시도용, 취소되면 signal.reason으로 실패)
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * 취소 신호와 함께 결과 기다리기
+ * 신호가 취소되면 작업과 관계없이 바로 TourApiAbortedError로 실패합니다.
+ * 공유하는 작업(병합된 요청, 캐시된 Promise)을 한 호출만 취소할 때 사용합니다.
+ * @param promise 기다릴 작업
+ * @param signal 취소 신호 (없으면 promise를 그대로 반환)
+ * @param endpoint 에러에 기록할 엔드포인트
+ * @param onAbort 취소 시 실행할 함수
+ */
+export function waitWithSignal<T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined,
+  endpoint?: string,
+  onAbort?: () => void,
+): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(
+      new TourApiAbortedError({ endpoint, cause: signal.reason }),
+    );
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const abort = () => {
+      onAbort?.();
+      reject(new TourApiAbortedError({ endpoint, cause: signal.reason }));
+    };
+    signal.addEventListener("abort", abort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener("abort", abort);
+    });
+  });
+}
+
+export class TourApiClient {
+  readonly baseUrl: string;
+  readonly mobileApp: string;
+  readonly mobileOS: string;
+  readonly cache: TourApiCache | null;
+  readonly scheduler: TourApiScheduler | null;
+  readonly quota: TourApiQuotaTracker | null;
+  readonly circuitBreaker: TourApiCircuitBreaker | null;
+  private readonly serviceKey?: string;
+  private readonly serviceKeys?: string[];
+  private keyPool: TourApiKeyPool | null = null;
+  private readonly transport: TourApiTransport;
+  private readonly logger: Logger;
+  private readonly retries: number;
+  private readonly retryDelay: number;
+  private readonly timeout: number;
+  private readonly revalidate: number;
+  private readonly inFlight = new Map<string, InFlightRequest>();
+  private readonly stats: TourApiClientStats = {
+    upstreamRequests: 0,
+    coalescedRequests: 0,
+  };
+
+  constructor(options: TourApiClientOptions = {}) {
+    this.serviceKey = options.serviceKey;
+    this.serviceKeys = options.serviceKeys;
+    this.baseUrl = (options.baseUrl || DEFAULT_TOUR_API_BASE_URL).replace(
+      /\/+$/,
+      "",
+    );
+    this.mobileApp = options.mobileApp || "MyTrip";
+    this.mobileOS = options.mobileOS || "ETC";
+    this.transport = options.transport || ((url, init) => fetch(url, init));
+    this.logger = options.logger || createLogger("tour-api");
+    this.retries = options.retries ?? 3;
+    this.retryDelay = options.retryDelay ?? 1000;
+    this.timeout = options.timeout ?? 10000;
+    this.revalidate = options.revalidate ?? 3600;
+    this.cache = options.cache || null;
+    this.scheduler =
+      options.scheduler === undefined
+        ? getTourApiScheduler()
+        : options.scheduler;
+    this.quota = options.quota || null;
+    this.circuitBreaker =
+      options.circuitBreaker === undefined
+        ? new TourApiCircuitBreaker()
+        : options.circuitBreaker;
+  }
+
+  /**
+   * 인증키 목록 가져오기 (옵션 → 환경변수 순, 첫 요청 시 생성)
+   */
+  private getKeyPool(): TourApiKeyPool {
+    if (this.keyPool) {
+      return this.keyPool;
+    }
+
+    const keys = createTourApiKeys(
+      this.serviceKeys?.length
+        ? this.serviceKeys
+        : this.serviceKey
+          ? [this.serviceKey]
+          : getServiceKeysFromEnv(),
+    );
+
+    if (keys.length === 0) {
+      throw new Error(
+        "한국관광공사 API 키가 설정되지 않았습니다. TOUR_API_KEYS, NEXT_PUBLIC_TOUR_API_KEY 또는 TOUR_API_KEY 환경변수를 설정해주세요.",
+      );
+    }
+
+    this.keyPool = new TourApiKeyPool(keys);
+    return this.keyPool;
+  }
+
+  /**
+   * 요청 URL 생성
+   * 국문 외 언어는 해당 언어 서비스로 요청하며, contentTypeId를 서비스의 ID로 변환합니다.
+   * @param endpoint API 엔드포인트 (예: "/areaBasedList2")
+   * @param params 요청 파라미터
+   * @param lang 콘텐츠 언어 (기본: ko)
+   * @param serviceKey 사용할 인증키 (기본: 첫 번째 인증키)
+   */
+  buildUrl(
+    endpoint: string,
+    params: TourApiParams,
+    lang: TourLanguage = "ko",
+    serviceKey: string = this.getKeyPool().keys[0].value,
+  ): string {
+    const requestParams: TourApiParams = params.contentTypeId
+      ? {
+          ...params,
+          contentTypeId: toServiceContentTypeId(
+            String(params.contentTypeId),
+            lang,
+          ),
+        }
+      : params;
+
+    const searchParams = new URLSearchParams({
+      serviceKey,
+      MobileOS: this.mobileOS,
+      MobileApp: this.mobileApp,
+      _type: "json",
+      ...Object.fromEntries(
+        Object.entries(requestParams)
+          .filter(
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            ([_, value]) =>
+              value !== undefined && value !== null && value !== "",
+          )
+          .map(([key, value]) => [key, String(value)]),
+      ),
+    });
+
+    const baseUrl = getServiceBaseUrl(this.baseUrl, lang);
+    return `${baseUrl}${endpoint}?${searchParams.toString()}`;
+  }
+
+  /**
+   * 목록 요청 (items만 반환)
+   * @param endpoint API 엔드포인트
+   * @param params 요청 파라미터
+   * @param options 요청 옵션 (우선순위, 언어, 취소 신호, 타임아웃)
+   */
+  async request<T>(
+    endpoint: string,
+    params: TourApiParams,
+    options: TourApiRequestOptions = {},
+  ): Promise<T[]> {
+    const page = await this.requestPage<T>(endpoint, params, options);
+    return page.items;
+  }
+
+  /**
+   * 목록 요청 (중복 요청 병합, 캐시, 재시도 로직 포함, 페이지 정보와 함께 반환)
+   * 실패 시 TourApiError 하위 클래스를 던집니다 (lib/api/tour-api-errors.ts).
+   * 병합된 요청은 한 호출이 취소되어도 계속 진행하고, 모든 호출이 취소되면 실제 요청을 취소합니다.
+   * 같은 우선순위의 호출끼리만 병합하며, 타임아웃은 요청을 처음 시작한 호출의 설정을 따릅니다.
+   * @param endpoint API 엔드포인트
+   * @param params 요청 파라미터
+   * @param options 요청 옵션 (우선순위, 언어, 취소 신호, 타임아웃)
+   */
+  async requestPage<T>(
+    endpoint: string,
+    params: TourApiParams,
+    options: TourApiRequestOptions = {},
+  ): Promise<PagedResult<T>> {
+    // 요청 키는 인증키와 공통 파라미터를 제외한 요청 파라미터로 생성
+    const keyParams = Object.fromEntries(
+      Object.entries(params)
+        .filter(
+          // eslint-disable-next-line @typescript-eslint/no-unused-vars
+          ([_, value]) => value !== undefined && value !== null && value !== "",
+        )
+        .map(([key, value]) => [key, String(value)]),
+    );
+    // 캐시 키는 서비스(언어)별로 구분
+    const scope =
+      getServiceBaseUrl(this.baseUrl, options.lang || "ko")
+        .split("/")
+        .pop() || "";
+    const key = createTourApiCacheKey(scope, endpoint, keyParams);
+    // 병합은 같은 우선순위끼리만 (낮은 우선순위 요청 뒤에서 높은 우선순위 호출이 기다리지 않도록)
+    const flightKey = `${options.priority || "normal"}:${key}`;
+
+    if (options.signal?.aborted) {
+      throw new TourApiAbortedError({ endpoint, cause: options.signal.reason });
+    }
+
+    // 같은 요청이 진행 중이면 그 결과를 함께 사용 (모든 호출이 취소된 요청은 제외)
+    let request = this.inFlight.get(flightKey);
+    if (request && !request.controller.signal.aborted) {
+      this.stats.coalescedRequests++;
+      this.logger.debug("진행 중인 요청과 병합", { endpoint, key });
+    } else {
+      // 실제 요청은 호출별 신호가 아닌 병합 요청의 신호로 취소
+      // (캐시 백그라운드 갱신은 호출이 끝난 뒤에도 계속 진행)
+      const controller = new AbortController();
+      const upstreamOptions = { ...options, signal: controller.signal };
+      const promise = (
+        this.cache
+          ? this.cache.getOrFetch(key, endpoint, keyParams, () =>
+              this.requestPageWithRetry<T>(endpoint, params, upstreamOptions),
+            )
+          : this.requestPageWithRetry<T>(endpoint, params, upstreamOptions)
+      )
+        .then(
+          (page): InFlightResult => ({ page, stale: false }),
+          async (error): Promise<InFlightResult> => ({
+            page: await this.fallbackToLastKnownGood<T>(key, endpoint, error),
+            stale: true,
+          }),
+        )
+        .finally(() => {
+          // 취소된 뒤 같은 키로 시작한 새 요청은 지우지 않음
+          if (this.inFlight.get(flightKey)?.controller === controller) {
+            this.inFlight.delete(flightKey);
+          }
+        });
+      request = { promise, controller, waiting: 0 };
+      this.inFlight.set(flightKey, request);
+    }
+
+    const current = request;
+    current.waiting++;
+    const { page, stale } = await waitWithSignal(
+      current.promise,
+      options.signal,
+      endpoint,
+      () => {
+        current.waiting--;
+        if (current.waiting === 0) {
+          this.logger.debug("모든 호출이 취소되어 요청 취소", {
+            endpoint,
+            key,
+          });
+          // 취소된 요청에 새 호출이 병합되지 않도록 바로 제거
+          if (this.inFlight.get(flightKey) === current) {
+            this.inFlight.delete(flightKey);
+          }
+          current.controller.abort(options.signal?.reason);
+        }
+      },
+    );
+
+    // 요청을 시작한 호출뿐 아니라 병합된 호출도 각자의 요청 컨텍스트에 표시
+    const context = getRequestContext();
+    if (stale && context) {
+      context.staleData = true;
+    }
+    return page as PagedResult<T>;
+  }
+
+  /**
+   * API 장애 시 마지막 정상 응답으로 대신 응답 (캐시에 없으면 원래 에러를 던짐)
+   * 호출한 쪽(requestPage)이 요청 컨텍스트에 표시해 페이지가 안내 배너를 보여줄 수 있도록 합니다.
+   */
+  private async fallbackToLastKnownGood<T>(
+    key: string,
+    endpoint: string,
+    error: unknown,
+  ): Promise<PagedResult<T>> {
+    if (!this.cache || !isTourApiOutageError(error)) {
+      throw error;
+    }
+
+    const entry = await this.cache.getLastKnownGood<PagedResult<T>>(key);
+    if (!entry) {
+      throw error;
+    }
+
+    this.logger.warn("API 장애, 마지막 캐시 응답 반환", {
+      endpoint,
+      key,
+      storedAt: new Date(entry.storedAt),
+      error,
+    });
+
+    return entry.value;
+  }
+
+  /**
+   * 요청 통계 조회
+   */
+  getStats(): TourApiClientStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * 인증키별 오늘 사용량 조회 (키 상태 + 집계된 호출 수)
+   * 다른 인스턴스에서 집계한 키(이 클라이언트에 없는 키)도 함께 반환합니다.
+   */
+  async getKeyUsage(): Promise<TourApiKeyUsageReport> {
+    const date = getQuotaDate();
+    const usage = this.quota ? await this.quota.getUsage(date) : [];
+    const usageById = new Map(usage.map((row) => [row.keyId, row]));
+    const statuses = this.getKeyPool().getStatus();
+    const knownIds = new Set(statuses.map((status) => status.id));
+
+    return {
+      date,
+      dailyQuota: this.quota ? this.quota.dailyQuota : null,
+      keys: [
+        ...statuses.map((status) => ({
+          ...status,
+          calls: usageById.get(status.id)?.calls || 0,
+          quotaErrors: usageById.get(status.id)?.quotaErrors || 0,
+        })),
+        ...usage
+          .filter((row) => !knownIds.has(row.keyId))
+          .map((row) => ({
+            id: row.keyId,
+            label: `${row.keyId} (설정에 없는 키)`,
+            available: false,
+            calls: row.calls,
+            quotaErrors: row.quotaErrors,
+          })),
+      ],
+    };
+  }
+
+  /**
+   * 목록 요청 (재시도 로직 포함, 캐시 없음)
+   * 한도 초과·미등록 키 응답을 받으면 재시도 횟수를 쓰지 않고 바로 다음 인증키로 보냅니다.
+   * 시도마다 타임아웃을 적용하며, options.signal이 취소되면 재시도하지 않고
+   * TourApiAbortedError를 던집니다.
+   */
+  private async requestPageWithRetry<T>(
+    endpoint: string,
+    params: TourApiParams,
+    options: TourApiRequestOptions,
+  ): Promise<PagedResult<T>> {
+    const lang = options.lang || "ko";
+    const pool = this.getKeyPool();
+    const retries = this.retries;
+    const timeout = options.timeout ?? this.timeout;
+    const signal = options.signal;
+    // 모든 레코드에 엔드포인트와 전송 파라미터(serviceKey는 로거가 마스킹) 기록
+    const logger = this.logger.child({
+      endpoint,
+      lang,
+      params: Object.fromEntries(
+        new URL(this.buildUrl(endpoint, params, lang)).searchParams,
+      ),
+    });
+
+    this.stats.upstreamRequests++;
+
+    let attempt = 0;
+    let delayMs = 0;
+    for (;;) {
+      if (delayMs > 0) {
+        // 재시도 전 지연 (exponential backoff, 취소되면 바로 중단)
+        await delay(delayMs, signal).catch(() => undefined);
+      }
+      if (signal?.aborted) {
+        logger.info("Tour API 요청 취소", { attempt: attempt + 1 });
+        throw new TourApiAbortedError({ endpoint, cause: signal.reason });
+      }
+
+      const key = pool.current();
+      if (!key) {
+        throw new TourApiQuotaExceededError({
+          endpoint,
+          availableAt: pool.nextAvailableAt() || undefined,
+          cause: pool.getLastError() || undefined,
+        });
+      }
+      // 회로가 열려 있으면 재시도 없이 바로 실패 (마지막 캐시 응답으로 대신 응답)
+      if (this.circuitBreaker && !this.circuitBreaker.tryAcquire()) {
+        throw new TourApiCircuitOpenError({
+          endpoint,
+          retryAt: this.circuitBreaker.nextProbeAt() || undefined,
+        });
+      }
+      const url = this.buildUrl(endpoint, params, lang, key.value);
+
+      // 지연 시간은 스케줄러 대기를 제외하고 전송 시점부터 측정
+      let sentAt = Date.now();
+      const send = () => {
+        sentAt = Date.now();
+        this.quota?.record(key.id);
+        // 타임아웃은 스케줄러 대기를 제외하고 전송 시점부터 적용
+        const timeoutSignal = AbortSignal.timeout(timeout);
+        return this.fetchPage<T>(
+          url,
+          endpoint,
+          params,
+          lang,
+          signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal,
+        );
+      };
+
+      try {
+        // 재시도를 포함한 모든 요청은 스케줄러 차례를 기다린 뒤 전송
+        const page = this.scheduler
+          ? await this.scheduler.schedule(send, options.priority, signal)
+          : await send();
+
+        this.circuitBreaker?.recordSuccess();
+        logger.info("Tour API 요청 성공", {
+          attempt: attempt + 1,
+          keyId: key.id,
+          latencyMs: Date.now() - sentAt,
+          itemCount: page.items.length,
+          totalCount: page.totalCount,
+        });
+
+        return page;
+      } catch (error) {
+        // 취소: 장애 여부를 알 수 없으므로 회로 차단기에 기록하지 않고 재시도 없이 실패
+        if (signal?.aborted) {
+          this.circuitBreaker?.release();
+          logger.info("Tour API 요청 취소", {
+            attempt: attempt + 1,
+            keyId: key.id,
+          });
+          throw new TourApiAbortedError({ endpoint, cause: signal.reason });
+        }
+
+        const apiError = toTourApiError(error, endpoint);
+        this.circuitBreaker?.recordFailure(apiError);
+        const fields = {
+          attempt: attempt + 1,
+          keyId: key.id,
+          latencyMs: Date.now() - sentAt,
+          retryable: apiError.retryable,
+          error: apiError,
+        };
+
+        // 한도 초과·미등록 키: 키를 제외하고 다음 키로 바로 다시 요청
+        if (
+          apiError instanceof TourApiResultError &&
+          (apiError.isQuotaExceeded || apiError.isKeyRejected)
+        ) {
+          const reason = apiError.isQuotaExceeded ? "quota" : "rejected";
+          if (reason === "quota") {
+            this.quota?.record(key.id, { quotaErrors: 1 });
+          }
+          pool.markUnavailable(key, reason, apiError);
+
+          const nextKey = pool.current();
+          logger.warn("인증키 사용 불가, 다음 키로 교체", {
+            ...fields,
+            reason,
+            nextKeyId: nextKey?.id,
+          });
+          if (!nextKey) {
+            throw new TourApiQuotaExceededError({
+              endpoint,
+              availableAt: pool.nextAvailableAt() || undefined,
+              cause: apiError,
+            });
+          }
+          delayMs = 0;
+          continue;
+        }
+
+        // 재시도 가능한 에러 (429/5xx, 네트워크, 타임아웃, SERVICE_ERROR 등)
+        // 이번 실패로 회로가 열렸으면 재시도하지 않음
+        const circuitOpen = this.circuitBreaker?.state === "open";
+        if (apiError.retryable && attempt < retries && !circuitOpen) {
+          delayMs = this.retryDelay * Math.pow(2, attempt);
+          logger.warn("Tour API 요청 실패, 재시도 예정", {
+            ...fields,
+            retryInMs: delayMs,
+          });
+          attempt++;
+          continue;
+        }
+
+        logger.error(
+          circuitOpen
+            ? "Tour API 요청 실패, 회로 열림"
+            : apiError.retryable
+              ? "Tour API 요청 실패, 최대 재시도 횟수 초과"
+              : "Tour API 요청 실패",
+          fields,
+        );
+        throw apiError;
+      }
+    }
+  }
+
+  /**
+   * 단일 요청 수행 및 응답 파싱 (재시도 없음)
+   * @param signal 취소 신호 (호출 취소 + 타임아웃)
+   */
+  private async fetchPage<T>(
+    url: string,
+    endpoint: string,
+    params: TourApiParams,
+    lang: TourLanguage,
+    signal: AbortSignal,
+  ): Promise<PagedResult<T>> {
+    const response = await this.transport(url, {
+      method: "GET",
+      headers: {
+        Accept: "application/json",
+      },
+      signal,
+      // Next.js에서 캐싱 제어 (선택 사항)
+      next: { revalidate: this.revalidate },
+    });
+
+    // 게이트웨이 에러는 _type=json이어도 XML(OpenAPI_ServiceResponse)로 응답
+    const isXml = (response.headers.get("content-type") || "").includes("xml");
+
+    if (!response.ok) {
+      const gatewayError = isXml
+        ? parseTourApiGatewayError(await response.text(), endpoint)
+        : null;
+      if (gatewayError) {
+        throw gatewayError;
+      }
+      if (response.status === 408 || response.status === 504) {
+        throw new TourApiTimeoutError({ endpoint, status: response.status });
+      }
+      throw new TourApiHttpError(response.status, response.statusText, {
+        endpoint,
+      });
+    }
+
+    const text = await response.text();
+    if (isXml || text.trimStart().startsWith("<")) {
+      throw (
+        parseTourApiGatewayError(text, endpoint) ||
+        new TourApiError(
+          "UNKNOWN",
+          "한국관광공사 API가 JSON이 아닌 응답을 반환했습니다.",
+          { endpoint },
+        )
+      );
+    }
+
+    let data: ApiResponse<T> | ApiError;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      throw new TourApiError(
+        "UNKNOWN",
+        "한국관광공사 API 응답을 해석할 수 없습니다.",
+        { endpoint, cause: error },
+      );
+    }
+
+    // 에러 응답 체크
+    if ("response" in data && data.response.header.resultCode !== "0000") {
+      throw new TourApiResultError(
+        data.response.header.resultCode,
+        data.response.header.resultMsg,
+        { endpoint },
+      );
+    }
+
+    // 성공 응답
+    const body = (data as ApiResponse<T>).response.body;
+    const items = body?.items?.item;
+    const rawItems = Array.isArray(items) ? items : items ? [items] : [];
+    // 국문 관광 타입 ID로 변환한 뒤 검증 (소개 정보는 국문 타입 ID로 구분)
+    const koreanItems =
+      lang === "ko" ? rawItems : toKoreanContentTypes(rawItems, lang);
+    // 잘못된 항목은 캐시에 저장하기 전에 제외
+    const result = validateTourApiItems(endpoint, koreanItems, this.logger);
+
+    return {
+      items: result,
+      totalCount: Number(body?.totalCount) || 0,
+      pageNo: Number(body?.pageNo) || Number(params.pageNo) || 1,
+      numOfRows:
+        Number(body?.numOfRows) || Number(params.numOfRows) || result.length,
+    };
+  }
+}
+
+/**
+ * 다국어 서비스 응답 항목의 관광 타입 ID를 국문 ID로 변환
+ */
+function toKoreanContentTypes<T>(items: T[], lang: TourLanguage): T[] {
+  return items.map((item) => {
+    const contentTypeId = (item as { contenttypeid?: unknown }).contenttypeid;
+    return typeof contentTypeId === "string" ||
+      typeof contentTypeId === "number"
+      ? {
+          ...item,
+          contenttypeid: fromServiceContentTypeId(String(contentTypeId), lang),
+        }
+      : item;
+  });
+}
+
+/**
+ * 환경변수의 인증키 목록 (TOUR_API_KEYS → NEXT_PUBLIC_TOUR_API_KEY → TOUR_API_KEY)
+ */
+function getServiceKeysFromEnv(): string[] {
+  return [
+    ...(process.env.TOUR_API_KEYS || "").split(","),
+    process.env.NEXT_PUBLIC_TOUR_API_KEY || "",
+    process.env.TOUR_API_KEY || "",
+  ].filter((key) => key.trim());
+}
+
+/**
+ * 환경변수 기반 클라이언트 생성
+ * @param overrides 환경변수 대신 사용할 옵션
+ */
+export function createTourApiClientFromEnv(
+  overrides: TourApiClientOptions = {},
+): TourApiClient {
+  const options: TourApiClientOptions = {
+    baseUrl: process.env.TOUR_API_BASE_URL || undefined,
+    mobileApp: process.env.TOUR_API_MOBILE_APP || undefined,
+    timeout: parseInt(process.env.TOUR_API_TIMEOUT_MS || "", 10) || undefined,
+  };
+
+  if (isFakeTourApiEnabled()) {
+    // TOUR_API_BASE_URL을 지정하면 HTTP로 가짜 서버 라우트(/api/dev/tour-api)를 호출하고,
+    // 지정하지 않으면 프로세스 내부에서 바로 응답
+    if (!options.baseUrl) {
+      options.transport = getFakeTourApiServer().transport;
+    }
+    // 가짜 서버는 인증키를 검사하지 않으므로 키가 없어도 동작하도록 기본값 사용
+    if (getServiceKeysFromEnv().length === 0) {
+      options.serviceKey = "fake-service-key";
+    }
+    // 재시도 분기를 빠르게 확인할 수 있도록 지연 시간 단축
+    options.retryDelay = 10;
+    // 픽스처 응답과 호출 수는 Supabase에 저장하지 않음
+    options.cache = createTourApiCacheFromEnv({ persistent: false });
+    options.quota = createTourApiQuotaTrackerFromEnv({ persistent: false });
+  } else if (isTourApiRecordEnabled()) {
+    options.transport = createRecordingTransport((url, init) =>
+      fetch(url, init),
+    );
+    // 녹화 중에는 모든 요청이 실제 API에 도달해야 하므로 캐시 사용 안 함
+    options.cache = null;
+    options.quota = createTourApiQuotaTrackerFromEnv();
+  } else {
+    options.cache = createTourApiCacheFromEnv();
+    options.quota = createTourApiQuotaTrackerFromEnv();
+  }
+
+  options.circuitBreaker = createTourApiCircuitBreakerFromEnv();
+
+  return new TourApiClient({ ...options, ...overrides });
+}
+
+/**
+ * 기본 클라이언트 (지연 생성)
+ */
+let defaultClient: TourApiClient | null = null;
+
+/**
+ * 기본 클라이언트 조회
+ * tour-api.ts의 함수들은 별도 클라이언트를 전달받지 않으면 이 클라이언트를 사용합니다.
+ */
+export function getTourApiClient(): TourApiClient {
+  if (!defaultClient) {
+    defaultClient = createTourApiClientFromEnv();
+  }
+  return defaultClient;
+}
+
+/**
+ * 최신이 아닐 수 있는 데이터를 보여주는 중인지 확인 (안내 배너 표시용)
+ * 현재 요청에서 마지막 캐시 응답을 사용했거나 기본 클라이언트의 회로가 닫혀 있지 않으면 true
+ */
+export function isServingStaleTourData(): boolean {
+  const state = getTourApiClient().circuitBreaker?.state || "closed";
+  return !!getRequestContext()?.staleData || state !== "closed";
+}
+
+/**
+ * 기본 클라이언트 교체 (null이면 환경변수 기반으로 다시 생성)
+ * @param client 새 기본 클라이언트
+ */
+export function setTourApiClient(client: TourApiClient | null): void {
+  defaultClient = client;
+}
@@ -0,0 +1,146 @@
+/**
+ * @file tour-api-errors.test.ts
+ * @description 게이트웨이 XML 에러 파싱과 에러 변환 검증
+ *
+ * 클라이언트 동작은 가짜 서버가 만드는 게이트웨이 XML 응답으로 확인합니다.
+ */
+
+import { describe, expect, it } from "vitest";
+import { FakeTourApiServer } from "./fake-tour-api";
+import { TourApiClient } from "./tour-api-client";
+import {
+  parseTourApiGatewayError,
+  toTourApiError,
+  TourApiAbortedError,
+  TourApiError,
+  TourApiGatewayError,
+  TourApiNetworkError,
+  TourApiQuotaExceededError,
+  TourApiTimeoutError,
+} from "./tour-api-errors";
+import { silentLogger } from "@/lib/utils/logger";
+
+/**
+ * 게이트웨이 XML 에러 응답 본문
+ */
+function gatewayXml(reasonCode: string, authMsg = ""): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    "<OpenAPI_ServiceResponse>",
+    "  <cmmMsgHeader>",
+    "    <errMsg>SERVICE ERROR</errMsg>",
+    `    <returnAuthMsg>${authMsg}</returnAuthMsg>`,
+    `    <returnReasonCode>${reasonCode}</returnReasonCode>`,
+    "  </cmmMsgHeader>",
+    "</OpenAPI_ServiceResponse>",
+  ].join("\n");
+}
+
+describe("parseTourApiGatewayError", () => {
+  it("returnReasonCode와 returnAuthMsg를 읽는다", () => {
+    const error = parseTourApiGatewayError(
+      gatewayXml("30", "SERVICE_KEY_IS_NOT_REGISTERED_ERROR"),
+      "/areaCode2",
+    );
+
+    expect(error).toBeInstanceOf(TourApiGatewayError);
+    expect(error).toMatchObject({
+      resultCode: "30",
+      resultMsg: "SERVICE_KEY_IS_NOT_REGISTERED_ERROR",
+      errMsg: "SERVICE ERROR",
+      endpoint: "/areaCode2",
+      isKeyRejected: true,
+      retryable: false,
+    });
+    expect(error?.message).toContain("인증키가 등록되지 않았습니다");
+  });
+
+  it("returnAuthMsg가 없으면 코드로 메시지를 찾는다", () => {
+    const error = parseTourApiGatewayError(gatewayXml("22"));
+
+    expect(error?.resultMsg).toBe(
+      "LIMITED_NUMBER_OF_SERVICE_REQUESTS_EXCEEDS_ERROR",
+    );
+    expect(error?.isQuotaExceeded).toBe(true);
+  });
+
+  it("초당 한도 초과와 일시적인 게이트웨이 에러만 재시도한다", () => {
+    expect(parseTourApiGatewayError(gatewayXml("23"))?.retryable).toBe(true);
+    expect(parseTourApiGatewayError(gatewayXml("1"))?.retryable).toBe(true);
+    expect(parseTourApiGatewayError(gatewayXml("12"))?.retryable).toBe(false);
+  });
+
+  it("게이트웨이 응답이 아니면 null을 반환한다", () => {
+    expect(parseTourApiGatewayError("<html>Bad Gateway</html>")).toBeNull();
+    expect(parseTourApiGatewayError('{"response":{}}')).toBeNull();
+  });
+});
+
+describe("toTourApiError", () => {
+  it("요청 단계 에러를 종류별 TourApiError로 바꾼다", () => {
+    const timeout = new DOMException("timed out", "TimeoutError");
+    const abort = new DOMException("aborted", "AbortError");
+
+    expect(toTourApiError(timeout)).toBeInstanceOf(TourApiTimeoutError);
+    expect(toTourApiError(abort)).toBeInstanceOf(TourApiAbortedError);
+    expect(toTourApiError(new TypeError("fetch failed"))).toBeInstanceOf(
+      TourApiNetworkError,
+    );
+    expect(toTourApiError(new Error("boom"), "/areaCode2")).toMatchObject({
+      code: "UNKNOWN",
+      message: "boom",
+      endpoint: "/areaCode2",
+    });
+  });
+
+  it("TourApiError는 그대로 반환한다", () => {
+    const error = new TourApiError("UNKNOWN", "원본");
+
+    expect(toTourApiError(error)).toBe(error);
+  });
+});
+
+describe("TourApiClient 게이트웨이 에러", () => {
+  /**
+   * 가짜 서버와 한 번 재시도하는 클라이언트 생성
+   */
+  function setup() {
+    const server = new FakeTourApiServer({
+      fixtures: {
+        areaCode2: {
+          endpoint: "areaCode2",
+          records: [{ params: {}, items: [{ code: "1", name: "서울" }] }],
+        },
+      },
+    });
+    const client = new TourApiClient({
+      serviceKey: "test-key",
+      transport: server.transport,
+      logger: silentLogger,
+      retries: 1,
+      retryDelay: 0,
+      cache: null,
+      scheduler: null,
+      circuitBreaker: null,
+    });
+    return { server, client };
+  }
+
+  it("일시적인 게이트웨이 에러는 재시도한다", async () => {
+    const { server, client } = setup();
+    server.injectFailure({ type: "gateway", returnReasonCode: "4" });
+
+    await expect(client.request("/areaCode2", {})).resolves.toHaveLength(1);
+  });
+
+  it("미등록 키 응답은 키를 제외하고 원인과 함께 실패한다", async () => {
+    const { server, client } = setup();
+    server.injectFailure({ type: "gateway", returnReasonCode: "30" });
+
+    const error = await client.request("/areaCode2", {}).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TourApiQuotaExceededError);
+    expect(error.cause).toBeInstanceOf(TourApiGatewayError);
+    expect(error.cause.resultCode).toBe("30");
+  });
+});
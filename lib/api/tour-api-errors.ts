@@ -0,0 +1,443 @@
+/**
+ * @file tour-api-errors.ts
+ * @description 한국관광공사 API 에러 클래스
+ *
+ * TourApiClient가 던지는 에러 타입들입니다.
+ * 서버/클라이언트 양쪽에서 import할 수 있도록 외부 의존성이 없습니다.
+ *
+ * 에러 종류 (code):
+ * - TourApiHttpError (HTTP_ERROR): HTTP 상태 코드 에러 (429, 5xx 등)
+ * - TourApiResultError (RESULT_ERROR): 응답 header.resultCode가 "0000"이 아닌 경우
+ *   - TourApiGatewayError: data.go.kr 게이트웨이의 XML 에러 응답 (OpenAPI_ServiceResponse)
+ * - TourApiNetworkError (NETWORK_ERROR): 네트워크 연결 실패
+ * - TourApiTimeoutError (TIMEOUT): 응답 시간 초과 (408, 504 포함)
+ * - TourApiNotFoundError (NOT_FOUND): 요청한 콘텐츠가 없는 경우
+ * - TourApiQuotaExceededError (QUOTA_EXCEEDED): 모든 인증키가 한도 초과·미등록 상태
+ * - TourApiCircuitOpenError (CIRCUIT_OPEN): 장애로 회로가 열려 요청을 보내지 않은 경우
+ * - TourApiAbortedError (ABORTED): 호출한 쪽에서 AbortSignal로 요청을 취소한 경우
+ * - TourApiError (UNKNOWN): 그 밖의 요청 실패 (응답 파싱 실패 등)
+ */
+
+/**
+ * 에러 코드
+ */
+export type TourApiErrorCode =
+  | "HTTP_ERROR"
+  | "RESULT_ERROR"
+  | "NETWORK_ERROR"
+  | "TIMEOUT"
+  | "NOT_FOUND"
+  | "QUOTA_EXCEEDED"
+  | "CIRCUIT_OPEN"
+  | "ABORTED"
+  | "UNKNOWN";
+
+/**
+ * 재시도 가능한 HTTP 상태 코드
+ */
+const RETRYABLE_HTTP_STATUS = [429, 500, 502, 503];
+
+/**
+ * 재시도 가능한 resultCode
+ */
+const RETRYABLE_RESULT_CODES = ["SERVICE_ERROR", "TIMEOUT"];
+
+/**
+ * 일일 호출 한도 초과 resultCode (LIMITED_NUMBER_OF_SERVICE_REQUESTS_EXCEEDS_ERROR)
+ */
+const QUOTA_EXCEEDED_RESULT_CODES = ["22"];
+
+/**
+ * 초당 호출 한도 초과 resultCode
+ * (LIMITED_NUMBER_OF_SERVICE_REQUESTS_PER_SECOND_EXCEEDS_ERROR)
+ */
+const RATE_LIMITED_RESULT_CODES = ["23"];
+
+/**
+ * 사용할 수 없는 인증키 resultCode
+ * (SERVICE_ACCESS_DENIED_ERROR, SERVICE_KEY_IS_NOT_REGISTERED_ERROR,
+ * DEADLINE_HAS_EXPIRED_ERROR, UNREGISTERED_IP_ERROR)
+ */
+const REJECTED_KEY_RESULT_CODES = ["20", "30", "31", "32"];
+
+/**
+ * 일시적인 게이트웨이 에러 returnReasonCode
+ * (APPLICATION_ERROR, HTTP_ERROR, UNKNOWN_ERROR)
+ */
+const TRANSIENT_GATEWAY_REASON_CODES = ["1", "4", "99"];
+
+/**
+ * data.go.kr 게이트웨이 에러 코드 (returnReasonCode → returnAuthMsg)
+ */
+export const TOUR_API_GATEWAY_AUTH_MESSAGES: Record<string, string> = {
+  "1": "APPLICATION_ERROR",
+  "4": "HTTP_ERROR",
+  "12": "NO_OPENAPI_SERVICE_ERROR",
+  "20": "SERVICE_ACCESS_DENIED_ERROR",
+  "22": "LIMITED_NUMBER_OF_SERVICE_REQUESTS_EXCEEDS_ERROR",
+  "23": "LIMITED_NUMBER_OF_SERVICE_REQUESTS_PER_SECOND_EXCEEDS_ERROR",
+  "30": "SERVICE_KEY_IS_NOT_REGISTERED_ERROR",
+  "31": "DEADLINE_HAS_EXPIRED_ERROR",
+  "32": "UNREGISTERED_IP_ERROR",
+  "99": "UNKNOWN_ERROR",
+};
+
+/**
+ * 게이트웨이 에러별 안내 메시지 (조치 방법 포함)
+ */
+const GATEWAY_ERROR_MESSAGES: Record<string, string> = {
+  "12":
+    "요청한 한국관광공사 API 서비스가 없거나 폐기되었습니다. TOUR_API_BASE_URL을 확인해주세요.",
+  "20":
+    "인증키에 한국관광공사 API 활용 승인이 없습니다. data.go.kr에서 활용신청 상태를 확인해주세요.",
+  "22":
+    "한국관광공사 API 인증키의 일일 호출 한도를 초과했습니다. 내일 다시 시도하거나 TOUR_API_KEYS에 인증키를 추가해주세요.",
+  "23": "한국관광공사 API 요청이 너무 많습니다. 잠시 후 다시 시도해주세요.",
+  "30":
+    "한국관광공사 API 인증키가 등록되지 않았습니다. data.go.kr에서 발급받은 일반 인증키(Decoding)를 설정했는지 확인해주세요.",
+  "31":
+    "한국관광공사 API 인증키의 활용 기간이 만료되었습니다. data.go.kr에서 활용 기간을 연장해주세요.",
+  "32":
+    "등록되지 않은 서버 IP에서 요청했습니다. data.go.kr에서 인증키의 허용 IP를 확인해주세요.",
+};
+
+/**
+ * 에러 공통 옵션
+ */
+interface TourApiErrorOptions {
+  endpoint?: string; // 요청 엔드포인트 (예: "/areaBasedList2")
+  cause?: unknown; // 원인 에러
+}
+
+/**
+ * 한국관광공사 API 에러 기본 클래스
+ */
+export class TourApiError extends Error {
+  readonly code: TourApiErrorCode;
+  readonly endpoint?: string;
+  readonly cause?: unknown;
+
+  constructor(
+    code: TourApiErrorCode,
+    message: string,
+    options: TourApiErrorOptions = {},
+  ) {
+    super(message);
+    this.name = "TourApiError";
+    this.code = code;
+    this.endpoint = options.endpoint;
+    this.cause = options.cause;
+  }
+
+  /**
+   * 같은 요청을 다시 보내면 성공할 수 있는 에러인지 여부
+   */
+  get retryable(): boolean {
+    return false;
+  }
+}
+
+/**
+ * HTTP 상태 코드 에러
+ */
+export class TourApiHttpError extends TourApiError {
+  readonly status: number;
+  readonly statusText: string;
+
+  constructor(
+    status: number,
+    statusText: string = "",
+    options: TourApiErrorOptions = {},
+  ) {
+    super(
+      "HTTP_ERROR",
+      status >= 500
+        ? "한국관광공사 API 서버가 일시적으로 사용할 수 없습니다. 잠시 후 다시 시도해주세요."
+        : `API 요청 실패: ${status} ${statusText || "알 수 없는 오류"}`,
+      options,
+    );
+    this.name = "TourApiHttpError";
+    this.status = status;
+    this.statusText = statusText;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_HTTP_STATUS.includes(this.status);
+  }
+
+  /**
+   * 서버 에러 (5xx) 여부
+   */
+  get isServerError(): boolean {
+    return this.status >= 500 && this.status < 600;
+  }
+}
+
+/**
+ * API 결과 코드 에러 (header.resultCode !== "0000")
+ */
+export class TourApiResultError extends TourApiError {
+  readonly resultCode: string;
+  readonly resultMsg: string;
+
+  constructor(
+    resultCode: string,
+    resultMsg: string,
+    options: TourApiErrorOptions = {},
+  ) {
+    super("RESULT_ERROR", `API 에러: ${resultMsg}`, options);
+    this.name = "TourApiResultError";
+    this.resultCode = resultCode;
+    this.resultMsg = resultMsg;
+  }
+
+  get retryable(): boolean {
+    return (
+      RETRYABLE_RESULT_CODES.includes(this.resultCode) ||
+      this.resultMsg.includes("일시적") ||
+      this.isRateLimited
+    );
+  }
+
+  /**
+   * 일일 호출 한도 초과 여부 (다른 인증키로 교체)
+   */
+  get isQuotaExceeded(): boolean {
+    return (
+      QUOTA_EXCEEDED_RESULT_CODES.includes(this.resultCode) ||
+      this.resultMsg.includes("LIMITED_NUMBER_OF_SERVICE_REQUESTS_EXCEEDS")
+    );
+  }
+
+  /**
+   * 초당 호출 한도 초과 여부 (지연 후 재시도)
+   */
+  get isRateLimited(): boolean {
+    return (
+      RATE_LIMITED_RESULT_CODES.includes(this.resultCode) ||
+      this.resultMsg.includes("PER_SECOND_EXCEEDS")
+    );
+  }
+
+  /**
+   * 사용할 수 없는 인증키 여부 (미등록, 만료, 미승인, 미등록 IP, 다른 인증키로 교체)
+   */
+  get isKeyRejected(): boolean {
+    return (
+      REJECTED_KEY_RESULT_CODES.includes(this.resultCode) ||
+      this.resultMsg.includes("SERVICE_ACCESS_DENIED") ||
+      this.resultMsg.includes("SERVICE_KEY_IS_NOT_REGISTERED") ||
+      this.resultMsg.includes("DEADLINE_HAS_EXPIRED") ||
+      this.resultMsg.includes("UNREGISTERED_IP")
+    );
+  }
+}
+
+/**
+ * data.go.kr 게이트웨이 에러 (XML OpenAPI_ServiceResponse)
+ * 인증키가 잘못되었거나 호출 한도를 넘으면 _type=json이어도 XML로 응답합니다.
+ * resultCode는 returnReasonCode, resultMsg는 returnAuthMsg입니다.
+ */
+export class TourApiGatewayError extends TourApiResultError {
+  readonly errMsg?: string; // 게이트웨이 errMsg (예: "SERVICE ERROR")
+
+  constructor(
+    reasonCode: string,
+    authMsg: string,
+    options: TourApiErrorOptions & { errMsg?: string } = {},
+  ) {
+    super(reasonCode, authMsg, options);
+    this.name = "TourApiGatewayError";
+    this.errMsg = options.errMsg;
+    this.message =
+      GATEWAY_ERROR_MESSAGES[reasonCode] ||
+      (this.retryable
+        ? "한국관광공사 API 서버가 일시적으로 사용할 수 없습니다. 잠시 후 다시 시도해주세요."
+        : `한국관광공사 API 게이트웨이 에러: ${authMsg}`);
+  }
+
+  /**
+   * 초당 한도 초과, 일시적인 게이트웨이 에러만 재시도 (인증키 에러는 재시도하지 않음)
+   */
+  get retryable(): boolean {
+    return (
+      this.isRateLimited ||
+      TRANSIENT_GATEWAY_REASON_CODES.includes(this.resultCode)
+    );
+  }
+}
+
+/**
+ * 네트워크 연결 에러
+ */
+export class TourApiNetworkError extends TourApiError {
+  constructor(options: TourApiErrorOptions = {}) {
+    super(
+      "NETWORK_ERROR",
+      "네트워크 연결을 확인해주세요. 인터넷 연결이 끊어졌을 수 있습니다.",
+      options,
+    );
+    this.name = "TourApiNetworkError";
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+/**
+ * 응답 시간 초과 에러
+ */
+export class TourApiTimeoutError extends TourApiError {
+  readonly status?: number;
+
+  constructor(options: TourApiErrorOptions & { status?: number } = {}) {
+    super(
+      "TIMEOUT",
+      "한국관광공사 API 응답 시간이 초과되었습니다. 잠시 후 다시 시도해주세요.",
+      options,
+    );
+    this.name = "TourApiTimeoutError";
+    this.status = options.status;
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+/**
+ * 콘텐츠 없음 에러 (상세 조회 결과가 비어 있는 경우)
+ */
+export class TourApiNotFoundError extends TourApiError {
+  readonly contentId?: string;
+
+  constructor(
+    message: string,
+    options: TourApiErrorOptions & { contentId?: string } = {},
+  ) {
+    super("NOT_FOUND", message, options);
+    this.name = "TourApiNotFoundError";
+    this.contentId = options.contentId;
+  }
+}
+
+/**
+ * 호출 한도 초과 에러 (사용할 수 있는 인증키가 없는 경우)
+ */
+export class TourApiQuotaExceededError extends TourApiError {
+  readonly availableAt?: Date; // 인증키를 다시 사용할 수 있는 시각
+
+  constructor(options: TourApiErrorOptions & { availableAt?: Date } = {}) {
+    super(
+      "QUOTA_EXCEEDED",
+      "한국관광공사 API 호출 한도를 초과했습니다. 잠시 후 다시 시도해주세요.",
+      options,
+    );
+    this.name = "TourApiQuotaExceededError";
+    this.availableAt = options.availableAt;
+  }
+}
+
+/**
+ * 회로 차단 에러 (API 장애로 회로가 열려 요청을 보내지 않은 경우)
+ */
+export class TourApiCircuitOpenError extends TourApiError {
+  readonly retryAt?: Date; // 시험 요청을 보낼 수 있는 시각
+
+  constructor(options: TourApiErrorOptions & { retryAt?: Date } = {}) {
+    super(
+      "CIRCUIT_OPEN",
+      "한국관광공사 API가 일시적으로 응답하지 않습니다. 잠시 후 다시 시도해주세요.",
+      options,
+    );
+    this.name = "TourApiCircuitOpenError";
+    this.retryAt = options.retryAt;
+  }
+
+  /**
+   * 페이지 재시도 버튼 표시용 (클라이언트는 회로가 열려 있는 동안 재시도하지 않음)
+   */
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+/**
+ * 요청 취소 에러 (호출한 쪽의 AbortSignal, 재시도하지 않음)
+ */
+export class TourApiAbortedError extends TourApiError {
+  constructor(options: TourApiErrorOptions = {}) {
+    super("ABORTED", "요청이 취소되었습니다.", options);
+    this.name = "TourApiAbortedError";
+  }
+}
+
+/**
+ * XML 태그 값 읽기 (게이트웨이 에러 응답용, 단순한 단일 태그만 지원)
+ */
+function readXmlTag(xml: string, tag: string): string {
+  const match = xml.match(new RegExp(`<${tag}>\\s*([^<]*?)\\s*</${tag}>`));
+  return match?.[1] || "";
+}
+
+/**
+ * 게이트웨이 XML 에러 응답을 TourApiGatewayError로 변환
+ * @param body 응답 본문
+ * @param endpoint 요청 엔드포인트
+ * @returns OpenAPI_ServiceResponse가 아니면 null
+ */
+export function parseTourApiGatewayError(
+  body: string,
+  endpoint?: string,
+): TourApiGatewayError | null {
+  if (!/<OpenAPI_ServiceResponse[\s>]/.test(body)) {
+    return null;
+  }
+
+  const errMsg = readXmlTag(body, "errMsg");
+  const reasonCode = readXmlTag(body, "returnReasonCode") || "99";
+  const authMsg =
+    readXmlTag(body, "returnAuthMsg") ||
+    TOUR_API_GATEWAY_AUTH_MESSAGES[reasonCode] ||
+    errMsg ||
+    "UNKNOWN_ERROR";
+
+  return new TourApiGatewayError(reasonCode, authMsg, {
+    endpoint,
+    errMsg: errMsg || undefined,
+  });
+}
+
+/**
+ * 임의의 에러를 TourApiError로 변환 (요청 단계에서 발생한 에러용)
+ * @param error 원본 에러
+ * @param endpoint 요청 엔드포인트
+ */
+export function toTourApiError(
+  error: unknown,
+  endpoint?: string,
+): TourApiError {
+  if (error instanceof TourApiError) {
+    return error;
+  }
+
+  // AbortSignal.timeout()은 TimeoutError, AbortController.abort()는 AbortError
+  if (error instanceof Error && error.name === "TimeoutError") {
+    return new TourApiTimeoutError({ endpoint, cause: error });
+  }
+  if (error instanceof Error && error.name === "AbortError") {
+    return new TourApiAbortedError({ endpoint, cause: error });
+  }
+
+  // fetch가 던지는 TypeError는 네트워크 에러 (DNS 실패, 연결 거부 등)
+  if (error instanceof TypeError) {
+    return new TourApiNetworkError({ endpoint, cause: error });
+  }
+
+  return new TourApiError(
+    "UNKNOWN",
+    error instanceof Error ? error.message : "알 수 없는 오류가 발생했습니다.",
+    { endpoint, cause: error },
+  );
+}
@@ -0,0 +1,124 @@
+/**
+ * @file tour-api-language.ts
+ * @description 한국관광공사 언어별 서비스 (KorService2, EngService2 등) 매핑
+ *
+ * 언어별 서비스는 엔드포인트와 응답 구조가 같지만 Base URL의 서비스 이름과
+ * 관광 타입 ID 체계가 다릅니다 (예: 관광지 국문 12, 다국어 76).
+ * 앱은 국문 관광 타입 ID(CONTENT_TYPE)만 사용하고, TourApiClient가 요청/응답에서
+ * 이 파일의 함수로 서비스별 ID와 변환합니다.
+ *
+ * 주요 기능:
+ * 1. 언어 → 서비스 이름 매핑
+ * 2. 언어별 서비스 Base URL 생성
+ * 3. 관광 타입 ID 변환 (국문 ↔ 다국어)
+ *
+ * @dependencies
+ * - lib/types/tour.ts: TourLanguage, CONTENT_TYPE
+ */
+
+import {
+  CONTENT_TYPE,
+  TOUR_LANGUAGE,
+  type ContentTypeId,
+  type TourLanguage,
+} from "@/lib/types/tour";
+
+/**
+ * 언어별 서비스 이름
+ */
+export const TOUR_API_SERVICE: Record<TourLanguage, string> = {
+  [TOUR_LANGUAGE.KO]: "KorService2",
+  [TOUR_LANGUAGE.EN]: "EngService2",
+  [TOUR_LANGUAGE.JA]: "JpnService2",
+  [TOUR_LANGUAGE.ZH_CN]: "ChsService2",
+  [TOUR_LANGUAGE.ZH_TW]: "ChtService2",
+  [TOUR_LANGUAGE.DE]: "GerService2",
+  [TOUR_LANGUAGE.FR]: "FreService2",
+  [TOUR_LANGUAGE.ES]: "SpnService2",
+  [TOUR_LANGUAGE.RU]: "RusService2",
+};
+
+/**
+ * 서비스 이름 형식 (Base URL의 마지막 경로가 서비스 이름인지 확인)
+ */
+const SERVICE_NAME_PATTERN = /^[A-Z][a-z]{2}Service2$/;
+
+/**
+ * 국문 관광 타입 ID → 다국어 서비스 관광 타입 ID
+ * (여행코스(25)는 다국어 서비스에 없어 그대로 전송하며, 결과는 비어 있습니다)
+ */
+const FOREIGN_CONTENT_TYPE: Partial<Record<ContentTypeId, string>> = {
+  [CONTENT_TYPE.TOURIST_SPOT]: "76",
+  [CONTENT_TYPE.CULTURAL_FACILITY]: "78",
+  [CONTENT_TYPE.FESTIVAL]: "85",
+  [CONTENT_TYPE.LEISURE_SPORTS]: "75",
+  [CONTENT_TYPE.ACCOMMODATION]: "80",
+  [CONTENT_TYPE.SHOPPING]: "79",
+  [CONTENT_TYPE.RESTAURANT]: "82",
+};
+
+/**
+ * 다국어 서비스 관광 타입 ID → 국문 관광 타입 ID
+ */
+const KOREAN_CONTENT_TYPE: Record<string, string> = Object.fromEntries(
+  Object.entries(FOREIGN_CONTENT_TYPE).map(([korean, foreign]) => [
+    foreign,
+    korean,
+  ]),
+);
+
+/**
+ * 서비스 이름이 유효한지 확인 (예: "EngService2")
+ */
+export function isTourApiServiceName(value: string): boolean {
+  return SERVICE_NAME_PATTERN.test(value);
+}
+
+/**
+ * 언어별 서비스 Base URL 생성
+ * Base URL이 서비스 이름으로 끝나면 해당 부분을 바꾸고,
+ * 아니면(로컬 가짜 서버 등) 국문 외 언어의 서비스 이름을 덧붙입니다.
+ * @param baseUrl 클라이언트 Base URL (예: https://apis.data.go.kr/B551011/KorService2)
+ * @param lang 콘텐츠 언어
+ */
+export function getServiceBaseUrl(baseUrl: string, lang: TourLanguage): string {
+  const service = TOUR_API_SERVICE[lang];
+  const index = baseUrl.lastIndexOf("/");
+  const last = baseUrl.slice(index + 1);
+
+  if (isTourApiServiceName(last)) {
+    return `${baseUrl.slice(0, index)}/${service}`;
+  }
+  return lang === TOUR_LANGUAGE.KO ? baseUrl : `${baseUrl}/${service}`;
+}
+
+/**
+ * 국문 관광 타입 ID → 서비스 관광 타입 ID (요청 파라미터용)
+ * @param contentTypeId 국문 관광 타입 ID
+ * @param lang 콘텐츠 언어
+ */
+export function toServiceContentTypeId(
+  contentTypeId: string,
+  lang: TourLanguage,
+): string {
+  if (lang === TOUR_LANGUAGE.KO) {
+    return contentTypeId;
+  }
+  return FOREIGN_CONTENT_TYPE[contentTypeId as ContentTypeId] || contentTypeId;
+}
+
+/**
+ * 서비스 관광 타입 ID → 국문 관광 타입 ID (응답 항목용)
+ * 국문 서비스에 대응하는 타입이 없으면(교통 77 등) 그대로 반환합니다.
+ * @param contentTypeId 서비스 관광 타입 ID
+ * @param lang 콘텐츠 언어
+ */
+export function fromServiceContentTypeId(
+  contentTypeId: string,
+  lang: TourLanguage,
+): string {
+  if (lang === TOUR_LANGUAGE.KO) {
+    return contentTypeId;
+  }
+  return KOREAN_CONTENT_TYPE[contentTypeId] || contentTypeId;
+}
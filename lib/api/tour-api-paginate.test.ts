@@ -0,0 +1,178 @@
+/**
+ * @file tour-api-paginate.test.ts
+ * @description paginate, collectAll 동작 검증 (가짜 서버 사용)
+ *
+ * 메모리 픽스처(25개 항목)를 응답하는 가짜 서버로 페이지 순회 규칙을 확인합니다.
+ * 재시도, 캐시, 스케줄러, 회로 차단기는 사용하지 않아 요청 하나가 페이지 하나입니다.
+ */
+
+import { describe, expect, it } from "vitest";
+import { FakeTourApiServer } from "./fake-tour-api";
+import { TourApiClient } from "./tour-api-client";
+import { TourApiAbortedError, TourApiHttpError } from "./tour-api-errors";
+import {
+  collectAll,
+  paginate,
+  type PaginateOptions,
+} from "./tour-api-paginate";
+import type { PagedResult, TourItem } from "@/lib/types/tour";
+import { silentLogger } from "@/lib/utils/logger";
+
+/**
+ * 픽스처 항목 (contentid: "1" ~ "25")
+ */
+function createItems(count: number): Record<string, unknown>[] {
+  return Array.from({ length: count }, (_, index) => ({
+    contentid: String(index + 1),
+    contenttypeid: "12",
+    title: `관광지 ${index + 1}`,
+    addr1: "서울특별시",
+    areacode: "1",
+    mapx: "126.9780",
+    mapy: "37.5665",
+    modifiedtime: "20250101000000",
+  }));
+}
+
+/**
+ * 가짜 서버와 클라이언트 생성
+ */
+function setup(items: Record<string, unknown>[] = createItems(25)) {
+  const server = new FakeTourApiServer({
+    fixtures: {
+      areaBasedList2: {
+        endpoint: "areaBasedList2",
+        records: [{ params: {}, items }],
+      },
+    },
+  });
+  const client = new TourApiClient({
+    serviceKey: "test-key",
+    transport: server.transport,
+    logger: silentLogger,
+    retries: 0,
+    cache: null,
+    scheduler: null,
+    circuitBreaker: null,
+  });
+  return { server, client };
+}
+
+/**
+ * 순회한 페이지 목록
+ */
+async function collectPages(
+  options: PaginateOptions,
+): Promise<PagedResult<TourItem>[]> {
+  const pages: PagedResult<TourItem>[] = [];
+  for await (const page of paginate<TourItem>("/areaBasedList2", {}, options)) {
+    pages.push(page);
+  }
+  return pages;
+}
+
+describe("paginate", () => {
+  it("totalCount에 도달할 때까지 모든 페이지를 순회한다", async () => {
+    const { client } = setup();
+    const pages = await collectPages({ client, numOfRows: 10 });
+
+    expect(pages.map((page) => page.pageNo)).toEqual([1, 2, 3]);
+    expect(pages.map((page) => page.items.length)).toEqual([10, 10, 5]);
+    expect(pages[0].totalCount).toBe(25);
+  });
+
+  it("startPage부터 이어서 순회한다", async () => {
+    const { client } = setup();
+    const pages = await collectPages({ client, numOfRows: 10, startPage: 2 });
+
+    expect(pages.map((page) => page.pageNo)).toEqual([2, 3]);
+    expect(pages[0].items[0].contentid).toBe("11");
+  });
+
+  it("maxItems에 도달하면 마지막 페이지를 잘라서 끝낸다", async () => {
+    const { client } = setup();
+    const pages = await collectPages({ client, numOfRows: 10, maxItems: 15 });
+
+    expect(pages.map((page) => page.items.length)).toEqual([10, 5]);
+  });
+
+  it("검증에서 제외된 항목이 있어도 다음 페이지를 계속 조회한다", async () => {
+    const items = createItems(25);
+    items[3] = { ...items[3], mapx: "" };
+    const { client } = setup(items);
+
+    const pages = await collectPages({ client, numOfRows: 10 });
+
+    expect(pages.map((page) => page.items.length)).toEqual([9, 10, 5]);
+  });
+
+  it("onPageError: continue이면 실패한 페이지를 건너뛴다", async () => {
+    const { server, client } = setup();
+    const pages: number[] = [];
+
+    for await (const page of paginate<TourItem>(
+      "/areaBasedList2",
+      {},
+      { client, numOfRows: 10, onPageError: "continue" },
+    )) {
+      pages.push(page.pageNo);
+      if (page.pageNo === 1) {
+        server.injectFailure({ type: "http", status: 503 });
+      }
+    }
+
+    expect(pages).toEqual([1, 3]);
+  });
+
+  it("onPageError: stop이면 실패한 페이지에서 순회를 끝낸다", async () => {
+    const { server, client } = setup();
+    const pages: number[] = [];
+
+    for await (const page of paginate<TourItem>(
+      "/areaBasedList2",
+      {},
+      { client, numOfRows: 10 },
+    )) {
+      pages.push(page.pageNo);
+      server.injectFailure({ type: "http", status: 503 });
+    }
+
+    expect(pages).toEqual([1]);
+  });
+
+  it("첫 페이지가 실패하면 에러를 던진다", async () => {
+    const { server, client } = setup();
+    server.injectFailure({ type: "http", status: 503 });
+
+    await expect(
+      collectPages({ client, numOfRows: 10, onPageError: "continue" }),
+    ).rejects.toBeInstanceOf(TourApiHttpError);
+  });
+
+  it("취소되면 TourApiAbortedError를 던진다", async () => {
+    const { client } = setup();
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      collectPages({ client, numOfRows: 10, signal: controller.signal }),
+    ).rejects.toBeInstanceOf(TourApiAbortedError);
+  });
+});
+
+describe("collectAll", () => {
+  it("모든 페이지의 항목을 순서대로 모은다", async () => {
+    const { client } = setup();
+    const items = await collectAll<TourItem>(
+      "/areaBasedList2",
+      {},
+      { client, numOfRows: 10 },
+    );
+
+    expect(items).toHaveLength(25);
+    expect(items.map((item) => item.contentid).slice(-2)).toEqual([
+      "24",
+      "25",
+    ]);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * @file tour-api-paginate.ts
+ * @description 한국관광공사 API 목록 엔드포인트 페이지 순회
+ *
+ * areaBasedList2, searchKeyword2, areaCode2 등 페이지 단위로 응답하는
+ * 목록 엔드포인트의 모든 페이지를 순서대로 가져오는 async iterator입니다.
+ * 지역코드 전체 조회, 통계 수집, 사이트맵 생성, 카탈로그 동기화 등에서
+ * 같은 페이지 루프를 재사용합니다.
+ *
+ * 주요 기능:
+ * 1. totalCount 기준으로 마지막 페이지까지 순회
+ * 2. 최대 항목 수 제한 (maxItems)
+ * 3. 특정 페이지부터 이어서 조회 (startPage)
+ * 4. 페이지 조회 실패 시 중단(stop) 또는 건너뛰고 계속(continue)
+ *
+ * @example
+ * ```ts
+ * for await (const page of paginate<TourItem>("/areaBasedList2", { areaCode: "1" })) {
+ *   console.log(page.pageNo, page.items.length);
+ * }
+ * ```
+ *
+ * @dependencies
+ * - lib/api/tour-api-client.ts: getTourApiClient, TourApiCallOptions
+ * - lib/api/tour-api-errors.ts: TourApiAbortedError
+ * - lib/types/tour.ts: PagedResult
+ * - lib/utils/logger.ts: 구조화 로거
+ */
+
+import type { PagedResult } from "@/lib/types/tour";
+import {
+  getTourApiClient,
+  toRequestOptions,
+  type TourApiCallOptions,
+  type TourApiParams,
+} from "./tour-api-client";
+import { TourApiAbortedError } from "./tour-api-errors";
+import { createLogger } from "@/lib/utils/logger";
+
+const logger = createLogger("tour-api.paginate");
+
+/**
+ * 페이지 순회 옵션
+ */
+export interface PaginateOptions extends TourApiCallOptions {
+  numOfRows?: number; // 페이지당 항목 수 (기본: 100)
+  startPage?: number; // 시작 페이지 (기본: 1, 중단된 순회를 이어서 할 때 사용)
+  maxItems?: number; // 최대 항목 수 (도달하면 순회 종료)
+  onPageError?: "stop" | "continue"; // 페이지 조회 실패 시 동작 (기본: stop)
+}
+
+/**
+ * 목록 엔드포인트의 페이지를 순서대로 반환
+ *
+ * - 첫 번째로 요청한 페이지가 실패하면 에러를 던집니다 (전체 개수를 알 수 없음).
+ * - 이후 페이지가 실패하면 onPageError에 따라 순회를 끝내거나 다음 페이지로 넘어갑니다.
+ * - 취소(options.signal)되면 TourApiAbortedError를 던집니다.
+ *
+ * @param endpoint API 엔드포인트 (예: "/areaBasedList2")
+ * @param params 필터 파라미터 (pageNo, numOfRows 제외)
+ * @param options 순회 옵션 (클라이언트, 우선순위, 취소 신호 포함)
+ */
+export async function* paginate<T>(
+  endpoint: string,
+  params: TourApiParams = {},
+  options: PaginateOptions = {},
+): AsyncGenerator<PagedResult<T>, void, undefined> {
+  const client = options.client || getTourApiClient();
+  const numOfRows = options.numOfRows || 100;
+  const startPage = Math.max(1, options.startPage || 1);
+  const maxItems = options.maxItems ?? Infinity;
+  const onPageError = options.onPageError || "stop";
+
+  let pageNo = startPage;
+  let totalCount: number | null = null;
+  let yielded = 0;
+
+  while (yielded < maxItems) {
+    let page: PagedResult<T>;
+
+    try {
+      page = await client.requestPage<T>(
+        endpoint,
+        { ...params, pageNo, numOfRows },
+        toRequestOptions(options),
+      );
+    } catch (error) {
+      // 취소는 onPageError와 관계없이 순회를 끝냄
+      if (totalCount === null || error instanceof TourApiAbortedError) {
+        throw error;
+      }
+
+      logger.warn("페이지 조회 실패", { endpoint, pageNo, onPageError, error });
+      if (onPageError === "stop") {
+        return;
+      }
+
+      pageNo++;
+      if ((pageNo - 1) * numOfRows >= totalCount) {
+        return;
+      }
+      continue;
+    }
+
+    totalCount = page.totalCount;
+
+    const remaining = maxItems - yielded;
+    const items =
+      page.items.length > remaining ? page.items.slice(0, remaining) : page.items;
+    yielded += items.length;
+
+    yield { ...page, items };
+
+    // 마지막 페이지 확인 (totalCount 기준)
+    // 검증에 실패한 항목은 클라이언트가 제외하므로 항목 수로는 판단하지 않음
+    if (pageNo * numOfRows >= totalCount) {
+      return;
+    }
+    pageNo++;
+  }
+}
+
+/**
+ * 모든 페이지의 항목을 하나의 배열로 수집
+ * @param endpoint API 엔드포인트
+ * @param params 필터 파라미터
+ * @param options 순회 옵션
+ */
+export async function collectAll<T>(
+  endpoint: string,
+  params: TourApiParams = {},
+  options: PaginateOptions = {},
+): Promise<T[]> {
+  const results: T[] = [];
+  for await (const page of paginate<T>(endpoint, params, options)) {
+    results.push(...page.items);
+  }
+  return results;
+}
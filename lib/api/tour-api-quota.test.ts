@@ -0,0 +1,170 @@
+/**
+ * @file tour-api-quota.test.ts
+ * @description 인증키 교체와 호출 한도 초기화(KST 0시) 검증
+ *
+ * 클라이언트 동작은 가짜 서버 transport로 확인하고, 시각은 가짜 Date로 옮깁니다.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { FakeTourApiServer } from "./fake-tour-api";
+import { TourApiClient } from "./tour-api-client";
+import {
+  TourApiGatewayError,
+  TourApiQuotaExceededError,
+} from "./tour-api-errors";
+import {
+  createTourApiKeys,
+  getQuotaDate,
+  MemoryTourApiQuotaStore,
+  TourApiKeyPool,
+  TourApiQuotaTracker,
+} from "./tour-api-quota";
+import { silentLogger } from "@/lib/utils/logger";
+
+/**
+ * 2025-01-01 KST 오후 3시 (다음 초기화: 2025-01-02 KST 0시 = 2025-01-01T15:00Z)
+ */
+const NOW = new Date("2025-01-01T06:00:00Z");
+const NEXT_RESET = "2025-01-01T15:00:00.000Z";
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+/**
+ * 가짜 서버와 인증키 두 개를 쓰는 클라이언트 생성 (요청에 쓴 키를 기록)
+ */
+function setup() {
+  const server = new FakeTourApiServer({
+    fixtures: {
+      areaCode2: {
+        endpoint: "areaCode2",
+        records: [{ params: {}, items: [{ code: "1", name: "서울" }] }],
+      },
+    },
+  });
+  const usedKeys: string[] = [];
+  const client = new TourApiClient({
+    serviceKeys: ["key-a", "key-b"],
+    transport: (url, init) => {
+      usedKeys.push(new URL(url).searchParams.get("serviceKey") || "");
+      return server.transport(url, init);
+    },
+    logger: silentLogger,
+    retries: 0,
+    cache: null,
+    scheduler: null,
+    circuitBreaker: null,
+    quota: new TourApiQuotaTracker({ store: new MemoryTourApiQuotaStore() }),
+  });
+  return { server, client, usedKeys };
+}
+
+describe("getQuotaDate", () => {
+  it("KST 날짜를 반환한다", () => {
+    expect(getQuotaDate(Date.parse("2025-01-01T14:59:59Z"))).toBe(
+      "2025-01-01",
+    );
+    expect(getQuotaDate(Date.parse("2025-01-01T15:00:00Z"))).toBe(
+      "2025-01-02",
+    );
+  });
+});
+
+describe("createTourApiKeys", () => {
+  it("빈 값과 중복을 제거하고 원문이 아닌 ID와 라벨을 만든다", () => {
+    const keys = createTourApiKeys([" key-a ", "", "key-a", "key-b"]);
+
+    expect(keys.map((key) => key.value)).toEqual(["key-a", "key-b"]);
+    expect(keys[0].id).toMatch(/^[0-9a-f]{12}$/);
+    expect(keys[0].label).toBe("key-1 (…ey-a)");
+  });
+});
+
+describe("TourApiKeyPool", () => {
+  it("한도 초과 키는 다음 KST 0시까지 건너뛴다", () => {
+    const pool = new TourApiKeyPool(createTourApiKeys(["key-a", "key-b"]));
+    const [keyA, keyB] = pool.keys;
+
+    pool.markUnavailable(keyA, "quota");
+
+    expect(pool.current()).toBe(keyB);
+    expect(pool.nextAvailableAt()?.toISOString()).toBe(NEXT_RESET);
+    expect(pool.getStatus()[0]).toMatchObject({
+      available: false,
+      reason: "quota",
+    });
+
+    vi.setSystemTime(new Date(NEXT_RESET));
+
+    expect(pool.current()).toBe(keyA);
+    expect(pool.getStatus()[0].available).toBe(true);
+  });
+
+  it("미등록 키는 KST 0시가 아니라 잠시 뒤 다시 사용한다", () => {
+    const pool = new TourApiKeyPool(createTourApiKeys(["key-a"]));
+
+    pool.markUnavailable(pool.keys[0], "rejected");
+
+    expect(pool.current()).toBeNull();
+    expect(pool.nextAvailableAt()!.getTime()).toBeLessThan(
+      Date.parse(NEXT_RESET),
+    );
+  });
+});
+
+describe("TourApiClient 인증키 교체", () => {
+  it("한도 초과 응답을 받으면 다음 키로 바로 다시 요청한다", async () => {
+    const { server, client, usedKeys } = setup();
+    server.injectFailure({ type: "result", resultCode: "22" });
+
+    await expect(client.request("/areaCode2", {})).resolves.toHaveLength(1);
+    await client.request("/areaCode2", { numOfRows: 10 });
+
+    expect(usedKeys).toEqual(["key-a", "key-b", "key-b"]);
+  });
+
+  it("KST 0시가 지나면 한도 초과였던 키를 다시 사용한다", async () => {
+    const { server, client, usedKeys } = setup();
+    server.injectFailure({ type: "result", resultCode: "22" });
+    await client.request("/areaCode2", {});
+
+    vi.setSystemTime(new Date(NEXT_RESET));
+    await client.request("/areaCode2", { numOfRows: 10 });
+
+    expect(usedKeys).toEqual(["key-a", "key-b", "key-a"]);
+  });
+
+  it("모든 키를 쓸 수 없으면 한도 초과 에러를 던진다", async () => {
+    const { server, client } = setup();
+    server.injectFailure({ type: "result", resultCode: "22" });
+    server.injectFailure({ type: "gateway", returnReasonCode: "22" });
+
+    const error = await client.request("/areaCode2", {}).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TourApiQuotaExceededError);
+    expect(error.availableAt.toISOString()).toBe(NEXT_RESET);
+    expect(error.cause).toBeInstanceOf(TourApiGatewayError);
+  });
+
+  it("키별 호출 수와 한도 초과 수를 집계한다", async () => {
+    const { server, client } = setup();
+    server.injectFailure({ type: "result", resultCode: "22" });
+    await client.request("/areaCode2", {});
+
+    const report = await client.getKeyUsage();
+
+    expect(report.date).toBe("2025-01-01");
+    expect(
+      report.keys.map(({ calls, quotaErrors }) => ({ calls, quotaErrors })),
+    ).toEqual([
+      { calls: 1, quotaErrors: 1 },
+      { calls: 1, quotaErrors: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,422 @@
+/**
+ * @file tour-api-quota.ts
+ * @description 한국관광공사 API 인증키 관리 (일일 호출 수 집계, 키 교체)
+ *
+ * data.go.kr 인증키는 하루 호출 한도가 있어, 통계 수집이나 반려동물 필터처럼
+ * 요청이 많은 날에는 키 하나가 한도에 도달해 사이트 전체가 멈출 수 있습니다.
+ * TourApiClient는 여러 인증키(TOUR_API_KEYS)를 순서대로 사용하고, 한도 초과·미등록 키
+ * 응답을 받으면 다음 키로 교체합니다 (TourApiKeyPool).
+ * 키별 일일 호출 수는 Supabase tour_api_key_usage 테이블에 집계합니다 (TourApiQuotaTracker).
+ *
+ * 주요 기능:
+ * 1. 인증키 목록 관리 (키 지문 ID, 표시용 이름, 사용 불가 기간)
+ * 2. 키 교체 (한도 초과: 다음 날 0시(KST)까지, 미등록/만료 키: 10분간 제외)
+ * 3. 키별·날짜별 호출 수 집계 (메모리에서 모아 주기적으로 저장)
+ * 4. 오늘 사용량 조회 (관리자 페이지)
+ *
+ * 인증키 원문은 저장하거나 로그에 남기지 않고, SHA-256 지문 앞 12자리(keyId)로 구분합니다.
+ * 서버리스 환경에서는 저장 주기(기본 5초) 안에 종료된 인스턴스의 집계가 누락될 수 있습니다.
+ *
+ * 환경변수:
+ * - TOUR_API_DAILY_QUOTA: 키별 일일 호출 한도 (기본: 1000, 사용률 표시용)
+ *
+ * @dependencies
+ * - lib/supabase/service-role.ts: getServiceRoleClient
+ * - lib/utils/logger.ts: 구조화 로거
+ * - supabase/migrations/tour_api_key_usage.sql: 사용량 테이블, 증가 함수
+ */
+
+import { createHash } from "node:crypto";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { createLogger } from "@/lib/utils/logger";
+
+const logger = createLogger("tour-api.quota");
+
+/**
+ * 기본 키별 일일 호출 한도 (data.go.kr 개발계정 기준)
+ */
+export const DEFAULT_TOUR_API_DAILY_QUOTA = 1000;
+
+/**
+ * 미등록/만료 키 재시도 대기 시간 (ms, 키 등록 직후 반영 지연 대비)
+ */
+const REJECTED_KEY_COOLDOWN = 10 * 60 * 1000;
+
+/**
+ * KST 오프셋 (ms, data.go.kr 호출 한도는 KST 0시에 초기화)
+ */
+const KST_OFFSET = 9 * 60 * 60 * 1000;
+
+/**
+ * 키를 사용할 수 없는 이유
+ * - quota: 일일 호출 한도 초과 (resultCode 22)
+ * - rejected: 미등록·만료된 키 (resultCode 30, 31)
+ */
+export type TourApiKeyUnavailableReason = "quota" | "rejected";
+
+/**
+ * 인증키 (원문과 식별 정보)
+ */
+export interface TourApiKey {
+  id: string; // SHA-256 지문 앞 12자리 (로그, 사용량 저장용)
+  label: string; // 표시용 이름 (예: "key-1 (…abcd)")
+  value: string; // 인증키 원문 (요청 URL에만 사용)
+}
+
+/**
+ * 인증키 상태
+ */
+export interface TourApiKeyStatus {
+  id: string;
+  label: string;
+  available: boolean; // 현재 사용 가능 여부
+  reason?: TourApiKeyUnavailableReason; // 사용할 수 없는 이유
+  unavailableUntil?: Date; // 다시 사용할 수 있는 시각
+}
+
+/**
+ * 호출 수 증가분
+ */
+export interface TourApiUsageDelta {
+  calls?: number; // 호출 수
+  quotaErrors?: number; // 한도 초과 응답 수
+}
+
+/**
+ * 키별 일일 사용량
+ */
+export interface TourApiKeyUsage {
+  keyId: string;
+  date: string; // KST 날짜 (YYYY-MM-DD)
+  calls: number;
+  quotaErrors: number;
+}
+
+/**
+ * 사용량 저장소 인터페이스
+ */
+export interface TourApiQuotaStore {
+  readonly name: string;
+  increment(
+    date: string,
+    keyId: string,
+    delta: Required<TourApiUsageDelta>,
+  ): Promise<void>;
+  list(date: string): Promise<TourApiKeyUsage[]>;
+}
+
+/**
+ * KST 기준 날짜 (YYYY-MM-DD)
+ * @param time 기준 시각 (ms, 기본: 현재)
+ */
+export function getQuotaDate(time: number = Date.now()): string {
+  return new Date(time + KST_OFFSET).toISOString().slice(0, 10);
+}
+
+/**
+ * 다음 호출 한도 초기화 시각 (다음 날 KST 0시)
+ */
+function getNextQuotaReset(time: number = Date.now()): Date {
+  const kstDate = getQuotaDate(time);
+  const kstMidnight = Date.parse(`${kstDate}T00:00:00+09:00`);
+  return new Date(kstMidnight + 24 * 60 * 60 * 1000);
+}
+
+/**
+ * 인증키 목록 생성 (빈 값, 중복 제거)
+ * @param values 인증키 원문 목록 (사용 순서)
+ */
+export function createTourApiKeys(values: string[]): TourApiKey[] {
+  const unique = [...new Set(values.map((value) => value.trim()))].filter(
+    Boolean,
+  );
+
+  return unique.map((value, index) => ({
+    id: createHash("sha256").update(value).digest("hex").slice(0, 12),
+    label: `key-${index + 1} (…${value.slice(-4)})`,
+    value,
+  }));
+}
+
+/**
+ * 인증키 목록 (앞쪽 키부터 사용, 사용할 수 없는 키는 기간 동안 건너뜀)
+ */
+export class TourApiKeyPool {
+  readonly keys: TourApiKey[];
+  private readonly unavailable = new Map<
+    string,
+    { reason: TourApiKeyUnavailableReason; until: number }
+  >();
+  private lastError: unknown = null;
+
+  constructor(keys: TourApiKey[]) {
+    this.keys = keys;
+  }
+
+  /**
+   * 사용할 키 (모든 키를 사용할 수 없으면 null)
+   */
+  current(): TourApiKey | null {
+    const now = Date.now();
+    return (
+      this.keys.find((key) => {
+        const state = this.unavailable.get(key.id);
+        if (state && state.until <= now) {
+          this.unavailable.delete(key.id);
+        }
+        return !this.unavailable.has(key.id);
+      }) || null
+    );
+  }
+
+  /**
+   * 키를 사용 불가로 표시
+   * @param key 한도 초과·미등록 응답을 받은 키
+   * @param reason 사용할 수 없는 이유
+   * @param error 키를 제외하게 만든 응답 에러 (모든 키를 사용할 수 없을 때 원인으로 사용)
+   */
+  markUnavailable(
+    key: TourApiKey,
+    reason: TourApiKeyUnavailableReason,
+    error?: unknown,
+  ): void {
+    const until =
+      reason === "quota"
+        ? getNextQuotaReset().getTime()
+        : Date.now() + REJECTED_KEY_COOLDOWN;
+    this.unavailable.set(key.id, { reason, until });
+    this.lastError = error ?? null;
+  }
+
+  /**
+   * 마지막으로 키를 제외하게 만든 응답 에러
+   */
+  getLastError(): unknown {
+    return this.lastError;
+  }
+
+  /**
+   * 가장 먼저 다시 사용할 수 있는 시각 (사용 불가 키가 없으면 null)
+   */
+  nextAvailableAt(): Date | null {
+    const times = [...this.unavailable.values()].map((state) => state.until);
+    return times.length > 0 ? new Date(Math.min(...times)) : null;
+  }
+
+  /**
+   * 키별 상태 조회
+   */
+  getStatus(): TourApiKeyStatus[] {
+    const now = Date.now();
+    return this.keys.map((key) => {
+      const state = this.unavailable.get(key.id);
+      if (!state || state.until <= now) {
+        return { id: key.id, label: key.label, available: true };
+      }
+      return {
+        id: key.id,
+        label: key.label,
+        available: false,
+        reason: state.reason,
+        unavailableUntil: new Date(state.until),
+      };
+    });
+  }
+}
+
+/**
+ * 프로세스 내부 사용량 저장소 (Supabase 없이 실행할 때)
+ */
+export class MemoryTourApiQuotaStore implements TourApiQuotaStore {
+  readonly name = "memory";
+  private readonly usage = new Map<string, TourApiKeyUsage>();
+
+  async increment(
+    date: string,
+    keyId: string,
+    delta: Required<TourApiUsageDelta>,
+  ): Promise<void> {
+    const id = `${date}/${keyId}`;
+    const usage = this.usage.get(id) || {
+      keyId,
+      date,
+      calls: 0,
+      quotaErrors: 0,
+    };
+    usage.calls += delta.calls;
+    usage.quotaErrors += delta.quotaErrors;
+    this.usage.set(id, usage);
+  }
+
+  async list(date: string): Promise<TourApiKeyUsage[]> {
+    return [...this.usage.values()]
+      .filter((usage) => usage.date === date)
+      .map((usage) => ({ ...usage }));
+  }
+}
+
+/**
+ * Supabase tour_api_key_usage 테이블 저장소
+ * 여러 인스턴스가 동시에 집계하므로 increment_tour_api_key_usage 함수로 원자적으로 더합니다.
+ */
+export class SupabaseTourApiQuotaStore implements TourApiQuotaStore {
+  readonly name = "supabase";
+
+  constructor(private readonly table: string = "tour_api_key_usage") {}
+
+  async increment(
+    date: string,
+    keyId: string,
+    delta: Required<TourApiUsageDelta>,
+  ): Promise<void> {
+    const supabase = getServiceRoleClient();
+    const { error } = await supabase.rpc("increment_tour_api_key_usage", {
+      p_key_id: keyId,
+      p_usage_date: date,
+      p_calls: delta.calls,
+      p_quota_errors: delta.quotaErrors,
+    });
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  async list(date: string): Promise<TourApiKeyUsage[]> {
+    const supabase = getServiceRoleClient();
+    const { data, error } = await supabase
+      .from(this.table)
+      .select("key_id, usage_date, calls, quota_errors")
+      .eq("usage_date", date);
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || []).map((row) => ({
+      keyId: row.key_id,
+      date: row.usage_date,
+      calls: row.calls,
+      quotaErrors: row.quota_errors,
+    }));
+  }
+}
+
+/**
+ * 사용량 집계 옵션
+ */
+export interface TourApiQuotaTrackerOptions {
+  store: TourApiQuotaStore; // 사용량 저장소
+  dailyQuota?: number; // 키별 일일 호출 한도 (기본: 1000)
+  flushInterval?: number; // 저장 주기 (ms, 기본: 5000)
+}
+
+/**
+ * 키별 일일 호출 수 집계
+ * 요청마다 저장소에 쓰지 않도록 메모리에 모아 flushInterval마다 저장합니다.
+ */
+export class TourApiQuotaTracker {
+  readonly dailyQuota: number;
+  private readonly store: TourApiQuotaStore;
+  private readonly flushInterval: number;
+  private pending = new Map<string, TourApiKeyUsage>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+
+  constructor(options: TourApiQuotaTrackerOptions) {
+    this.store = options.store;
+    this.dailyQuota = options.dailyQuota ?? DEFAULT_TOUR_API_DAILY_QUOTA;
+    this.flushInterval = options.flushInterval ?? 5000;
+  }
+
+  /**
+   * 호출 기록 (오늘 날짜로 집계)
+   * @param keyId 인증키 ID
+   * @param delta 증가분 (기본: 호출 1회)
+   */
+  record(keyId: string, delta: TourApiUsageDelta = { calls: 1 }): void {
+    const date = getQuotaDate();
+    const id = `${date}/${keyId}`;
+    const usage = this.pending.get(id) || {
+      keyId,
+      date,
+      calls: 0,
+      quotaErrors: 0,
+    };
+    usage.calls += delta.calls || 0;
+    usage.quotaErrors += delta.quotaErrors || 0;
+    this.pending.set(id, usage);
+
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        void this.flush();
+      }, this.flushInterval);
+      // 스크립트 실행이 집계 저장 때문에 끝나지 않는 일이 없도록
+      this.flushTimer.unref?.();
+    }
+  }
+
+  /**
+   * 모아 둔 집계를 저장소에 저장 (실패한 집계는 버리고 경고만 남김)
+   */
+  flush(): Promise<void> {
+    const batch = [...this.pending.values()];
+    this.pending = new Map();
+
+    this.flushing = this.flushing.then(async () => {
+      for (const usage of batch) {
+        try {
+          await this.store.increment(usage.date, usage.keyId, {
+            calls: usage.calls,
+            quotaErrors: usage.quotaErrors,
+          });
+        } catch (error) {
+          logger.warn("사용량 저장 실패", {
+            store: this.store.name,
+            keyId: usage.keyId,
+            calls: usage.calls,
+            error,
+          });
+        }
+      }
+    });
+
+    return this.flushing;
+  }
+
+  /**
+   * 날짜별 키 사용량 조회 (모아 둔 집계를 먼저 저장)
+   * @param date KST 날짜 (기본: 오늘)
+   */
+  async getUsage(date: string = getQuotaDate()): Promise<TourApiKeyUsage[]> {
+    await this.flush();
+    return this.store.list(date);
+  }
+}
+
+/**
+ * 환경변수 기반 사용량 집계 생성
+ * - Supabase 환경변수가 있으면 Supabase 저장소, 없으면 메모리 저장소 사용
+ * - TOUR_API_DAILY_QUOTA: 키별 일일 호출 한도
+ * @param options.persistent Supabase 저장소 사용 여부 (기본: 환경변수 존재 여부)
+ */
+export function createTourApiQuotaTrackerFromEnv(
+  options: { persistent?: boolean } = {},
+): TourApiQuotaTracker {
+  const persistent =
+    options.persistent ??
+    !!(
+      process.env.NEXT_PUBLIC_SUPABASE_URL &&
+      process.env.SUPABASE_SERVICE_ROLE_KEY
+    );
+
+  return new TourApiQuotaTracker({
+    store: persistent
+      ? new SupabaseTourApiQuotaStore()
+      : new MemoryTourApiQuotaStore(),
+    dailyQuota:
+      parseInt(process.env.TOUR_API_DAILY_QUOTA || "", 10) ||
+      DEFAULT_TOUR_API_DAILY_QUOTA,
+  });
+}
@@ -0,0 +1,130 @@
+/**
+ * @file tour-api-recorder.ts
+ * @description 한국관광공사 API 응답 녹화 (record 모드)
+ *
+ * 실제 API 응답을 가짜 서버(lib/api/fake-tour-api.ts)의 픽스처 파일로 저장합니다.
+ * TOUR_API_RECORD=true로 실행하면 기본 클라이언트의 모든 성공 응답이
+ * fixtures/tour-api/<endpoint>.json에 기록됩니다.
+ * (국문 외 서비스는 fixtures/tour-api/<서비스>/<endpoint>.json)
+ *
+ * - 같은 파라미터의 record가 있으면 해당 페이지 위치의 항목을 덮어씁니다.
+ * - 아직 녹화하지 않은 페이지 위치는 null로 채워집니다.
+ * - 에러 응답(HTTP 에러, resultCode != "0000")은 기록하지 않습니다.
+ *
+ * @dependencies
+ * - lib/api/fake-tour-api.ts: 픽스처 읽기/쓰기, 파라미터 정규화
+ * - lib/api/tour-api-client.ts: TourApiTransport
+ * - lib/utils/logger.ts: 구조화 로거
+ */
+
+import {
+  getDefaultFixturesDir,
+  getServiceFixturesDir,
+  isSameFixtureParams,
+  normalizeFixtureParams,
+  parseFakeTourApiPath,
+  readFixtureFile,
+  writeFixtureFile,
+} from "./fake-tour-api";
+import type { TourApiTransport } from "./tour-api-client";
+import type { ApiResponse } from "@/lib/types/tour";
+import { createLogger } from "@/lib/utils/logger";
+
+const logger = createLogger("tour-api.recorder");
+
+/**
+ * 녹화 옵션
+ */
+export interface RecordingTransportOptions {
+  fixturesDir?: string; // 저장할 픽스처 디렉터리 (기본: fixtures/tour-api)
+}
+
+/**
+ * 응답을 픽스처로 녹화하는 전송 함수 생성
+ * @param inner 실제 요청을 보낼 전송 함수
+ * @param options 녹화 옵션
+ */
+export function createRecordingTransport(
+  inner: TourApiTransport,
+  options: RecordingTransportOptions = {},
+): TourApiTransport {
+  const fixturesDir = options.fixturesDir || getDefaultFixturesDir();
+  // 같은 파일을 동시에 쓰지 않도록 기록 작업을 순서대로 실행
+  let queue: Promise<void> = Promise.resolve();
+
+  return async (url, init) => {
+    const response = await inner(url, init);
+
+    // 게이트웨이 XML 에러 응답은 녹화하지 않음
+    const contentType = response.headers.get("content-type") || "";
+    if (response.ok && !contentType.includes("xml")) {
+      const copy = response.clone();
+      queue = queue
+        .then(() => recordResponse(fixturesDir, url, copy))
+        .catch((error) => {
+          logger.warn("응답 녹화 실패", { error });
+        });
+    }
+
+    return response;
+  };
+}
+
+/**
+ * 응답 1건을 픽스처 파일에 기록
+ */
+async function recordResponse(
+  fixturesDir: string,
+  url: string,
+  response: Response,
+): Promise<void> {
+  const data = (await response.json()) as Partial<ApiResponse<unknown>>;
+  const header = data.response?.header;
+  if (!header || header.resultCode !== "0000") {
+    return;
+  }
+
+  const requestUrl = new URL(url);
+  const { service, endpoint } = parseFakeTourApiPath(requestUrl.pathname);
+  const serviceDir = getServiceFixturesDir(fixturesDir, service);
+  const params = normalizeFixtureParams(requestUrl.searchParams);
+  const body = data.response.body;
+  const rawItems = body?.items?.item;
+  const items = (
+    Array.isArray(rawItems) ? rawItems : rawItems ? [rawItems] : []
+  ) as Record<string, unknown>[];
+
+  const pageNo = Number(body?.pageNo) || 1;
+  const numOfRows = Number(body?.numOfRows) || items.length || 1;
+  const offset = (pageNo - 1) * numOfRows;
+
+  const fixture = await readFixtureFile(serviceDir, endpoint);
+  let record = fixture.records.find((r) =>
+    isSameFixtureParams(r.params, params),
+  );
+  if (!record) {
+    record = { params, items: [] };
+    fixture.records.push(record);
+  }
+
+  for (let i = record.items.length; i < offset; i++) {
+    record.items.push(null);
+  }
+  record.items.splice(offset, items.length, ...items);
+  record.totalCount = Number(body?.totalCount) || record.items.length;
+
+  await writeFixtureFile(serviceDir, fixture);
+  logger.info("응답 녹화 완료", {
+    service,
+    endpoint,
+    pageNo,
+    itemCount: items.length,
+  });
+}
+
+/**
+ * 녹화 모드 사용 여부 (TOUR_API_RECORD=true)
+ */
+export function isTourApiRecordEnabled(): boolean {
+  return process.env.TOUR_API_RECORD === "true";
+}
@@ -0,0 +1,115 @@
+/**
+ * @file tour-api-scheduler.test.ts
+ * @description TourApiScheduler 검증 (우선순위, 토큰 버킷, 대기 중 취소, 동시 실행 제한)
+ */
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { TourApiScheduler, type TourApiPriority } from "./tour-api-scheduler";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+/**
+ * 직접 끝낼 수 있는 작업 (실행 중 자리를 차지하는 용도)
+ */
+function createBlocker() {
+  let release: () => void = () => {};
+  const done = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  return { task: () => done, release };
+}
+
+describe("TourApiScheduler", () => {
+  it("high → normal → low, 같은 우선순위는 온 순서로 실행한다", async () => {
+    const scheduler = new TourApiScheduler({
+      maxConcurrency: 1,
+      requestsPerSecond: 0,
+    });
+    const blocker = createBlocker();
+    const order: string[] = [];
+    const enqueue = (name: string, priority: TourApiPriority) =>
+      scheduler.schedule(async () => {
+        order.push(name);
+      }, priority);
+
+    const running = scheduler.schedule(blocker.task);
+    const queued = [
+      enqueue("low", "low"),
+      enqueue("normal-1", "normal"),
+      enqueue("high", "high"),
+      enqueue("normal-2", "normal"),
+    ];
+    expect(scheduler.getStats()).toMatchObject({ running: 1, queued: 4 });
+
+    blocker.release();
+    await Promise.all([running, ...queued]);
+
+    expect(order).toEqual(["high", "normal-1", "normal-2", "low"]);
+  });
+
+  it("토큰이 없으면 초당 요청 수에 맞춰 다음 작업을 미룬다", async () => {
+    vi.useFakeTimers();
+    const scheduler = new TourApiScheduler({
+      maxConcurrency: 10,
+      requestsPerSecond: 2,
+    });
+    const started: number[] = [];
+    const tasks = [1, 2, 3].map((id) =>
+      scheduler.schedule(async () => {
+        started.push(id);
+      }),
+    );
+
+    // burst(2)만큼 바로 실행하고 세 번째는 토큰 1개가 채워지는 0.5초 뒤
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([1, 2]);
+    await vi.advanceTimersByTimeAsync(499);
+    expect(started).toEqual([1, 2]);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(started).toEqual([1, 2, 3]);
+
+    await Promise.all(tasks);
+  });
+
+  it("대기 중에 취소되면 대기열에서 빼고 실패한다", async () => {
+    const scheduler = new TourApiScheduler({
+      maxConcurrency: 1,
+      requestsPerSecond: 0,
+    });
+    const blocker = createBlocker();
+    const controller = new AbortController();
+    const task = vi.fn(async () => "done");
+
+    const running = scheduler.schedule(blocker.task);
+    const aborted = scheduler.schedule(task, "normal", controller.signal);
+    controller.abort(new Error("cancelled"));
+
+    await expect(aborted).rejects.toThrow("cancelled");
+    expect(scheduler.getStats().queued).toBe(0);
+
+    blocker.release();
+    await running;
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  it("작업이 동기적으로 던져도 다음 작업을 실행한다", async () => {
+    const scheduler = new TourApiScheduler({
+      maxConcurrency: 1,
+      requestsPerSecond: 0,
+    });
+    const failing = scheduler.schedule<string>(() => {
+      throw new Error("sync failure");
+    });
+    const next = scheduler.schedule(async () => "next");
+
+    await expect(failing).rejects.toThrow("sync failure");
+    await expect(next).resolves.toBe("next");
+    expect(scheduler.getStats()).toEqual({
+      running: 0,
+      queued: 0,
+      completed: 2,
+    });
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * @file tour-api-scheduler.ts
+ * @description 한국관광공사 API 요청 스케줄러 (동시 실행 제한 + 초당 요청 수 제한)
+ *
+ * 반려동물 필터(항목마다 detailPetTour2/detailIntro2)나 통계(지역/타입별 totalCount)처럼
+ * 한 번에 수십 개의 요청을 보내는 경우 upstream에서 429가 발생하지 않도록
+ * 모든 요청을 하나의 대기열로 모아 순서대로 실행합니다.
+ *
+ * 주요 기능:
+ * 1. 최대 동시 실행 수 제한 (maxConcurrency)
+ * 2. 토큰 버킷 기반 초당 요청 수 제한 (requestsPerSecond, burst)
+ * 3. 우선순위 (high → normal → low 순으로 실행, 같은 우선순위는 먼저 온 순서)
+ * 4. 대기 중 취소 (AbortSignal)
+ *
+ * 환경변수 (기본 스케줄러):
+ * - TOUR_API_MAX_CONCURRENCY: 최대 동시 실행 수 (기본: 4)
+ * - TOUR_API_RPS: 초당 요청 수 (기본: 10, 0이면 제한 없음)
+ *
+ * @example
+ * ```ts
+ * const scheduler = new TourApiScheduler({ maxConcurrency: 2, requestsPerSecond: 5 });
+ * const result = await scheduler.schedule(() => fetch(url), "high");
+ * ```
+ */
+
+/**
+ * 요청 우선순위
+ * - high: 사용자가 기다리는 요청 (상세페이지 등)
+ * - normal: 기본값 (목록, 필터)
+ * - low: 백그라운드 작업 (통계 집계 등)
+ */
+export type TourApiPriority = "high" | "normal" | "low";
+
+/**
+ * 우선순위 실행 순서
+ */
+const PRIORITY_ORDER: TourApiPriority[] = ["high", "normal", "low"];
+
+/**
+ * 스케줄러 생성 옵션
+ */
+export interface TourApiSchedulerOptions {
+  maxConcurrency?: number; // 최대 동시 실행 수 (기본: 4)
+  requestsPerSecond?: number; // 초당 요청 수 (기본: 10, 0이면 제한 없음)
+  burst?: number; // 한 번에 몰아서 보낼 수 있는 요청 수 (기본: requestsPerSecond)
+}
+
+/**
+ * 스케줄러 상태
+ */
+export interface TourApiSchedulerStats {
+  running: number; // 실행 중인 작업 수
+  queued: number; // 대기 중인 작업 수
+  completed: number; // 완료된 작업 수 (실패 포함)
+}
+
+/**
+ * 대기 중인 작업
+ */
+interface QueuedTask {
+  run: () => void;
+}
+
+export class TourApiScheduler {
+  readonly maxConcurrency: number;
+  readonly requestsPerSecond: number;
+  private readonly burst: number;
+  private readonly queues: Record<TourApiPriority, QueuedTask[]> = {
+    high: [],
+    normal: [],
+    low: [],
+  };
+  private running = 0;
+  private completed = 0;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: TourApiSchedulerOptions = {}) {
+    this.maxConcurrency = Math.max(1, options.maxConcurrency ?? 4);
+    this.requestsPerSecond = Math.max(0, options.requestsPerSecond ?? 10);
+    this.burst = Math.max(1, options.burst ?? this.requestsPerSecond);
+    this.tokens = this.burst;
+  }
+
+  /**
+   * 작업 예약 (차례가 되면 실행)
+   * @param task 실행할 작업
+   * @param priority 우선순위 (기본: normal)
+   * @param signal 취소 신호 (대기 중에 취소되면 대기열에서 빼고 signal.reason으로 실패)
+   */
+  schedule<T>(
+    task: () => Promise<T>,
+    priority: TourApiPriority = "normal",
+    signal?: AbortSignal,
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const queued: QueuedTask = {
+        run: () => {
+          signal?.removeEventListener("abort", onAbort);
+          this.running++;
+          // task가 동기적으로 던져도 finally에서 실행 수를 되돌리도록 감쌈
+          Promise.resolve()
+            .then(task)
+            .then(resolve, reject)
+            .finally(() => {
+              this.running--;
+              this.completed++;
+              this.drain();
+            });
+        },
+      };
+      const onAbort = () => {
+        const queue = this.queues[priority];
+        const index = queue.indexOf(queued);
+        if (index !== -1) {
+          queue.splice(index, 1);
+          reject(signal?.reason);
+        }
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.queues[priority].push(queued);
+      this.drain();
+    });
+  }
+
+  /**
+   * 스케줄러 상태 조회
+   */
+  getStats(): TourApiSchedulerStats {
+    return {
+      running: this.running,
+      queued: PRIORITY_ORDER.reduce(
+        (sum, priority) => sum + this.queues[priority].length,
+        0,
+      ),
+      completed: this.completed,
+    };
+  }
+
+  /**
+   * 실행 가능한 만큼 대기열에서 작업 꺼내기
+   */
+  private drain(): void {
+    while (this.running < this.maxConcurrency) {
+      const next = this.dequeue();
+      if (!next) {
+        return;
+      }
+
+      if (!this.takeToken()) {
+        // 토큰이 없으면 다시 맨 앞에 넣고 토큰이 채워질 때까지 대기
+        this.requeue(next);
+        this.waitForToken();
+        return;
+      }
+
+      next.task.run();
+    }
+  }
+
+  /**
+   * 우선순위가 가장 높은 작업 꺼내기
+   */
+  private dequeue(): { priority: TourApiPriority; task: QueuedTask } | null {
+    for (const priority of PRIORITY_ORDER) {
+      const task = this.queues[priority].shift();
+      if (task) {
+        return { priority, task };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 꺼낸 작업을 대기열 맨 앞에 되돌리기
+   */
+  private requeue(entry: { priority: TourApiPriority; task: QueuedTask }) {
+    this.queues[entry.priority].unshift(entry.task);
+  }
+
+  /**
+   * 토큰 1개 사용 (초당 요청 수 제한이 없으면 항상 성공)
+   */
+  private takeToken(): boolean {
+    if (this.requestsPerSecond === 0) {
+      return true;
+    }
+
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(
+      this.burst,
+      this.tokens + elapsed * this.requestsPerSecond,
+    );
+    this.lastRefill = now;
+
+    if (this.tokens < 1) {
+      return false;
+    }
+    this.tokens--;
+    return true;
+  }
+
+  /**
+   * 다음 토큰이 채워질 때 drain 다시 실행
+   */
+  private waitForToken(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const waitMs = Math.ceil(
+      ((1 - this.tokens) / this.requestsPerSecond) * 1000,
+    );
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, waitMs);
+  }
+}
+
+/**
+ * 숫자 환경변수 읽기 (없거나 숫자가 아니면 기본값)
+ */
+function readNumberEnv(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (!value) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+/**
+ * 환경변수 기반 스케줄러 생성
+ * @param overrides 환경변수 대신 사용할 옵션
+ */
+export function createTourApiSchedulerFromEnv(
+  overrides: TourApiSchedulerOptions = {},
+): TourApiScheduler {
+  return new TourApiScheduler({
+    maxConcurrency: readNumberEnv("TOUR_API_MAX_CONCURRENCY", 4),
+    requestsPerSecond: readNumberEnv("TOUR_API_RPS", 10),
+    ...overrides,
+  });
+}
+
+/**
+ * 공유 스케줄러 (지연 생성)
+ */
+let sharedScheduler: TourApiScheduler | null = null;
+
+/**
+ * 공유 스케줄러 조회
+ * 별도 스케줄러를 지정하지 않은 모든 TourApiClient가 이 스케줄러를 함께 사용합니다.
+ */
+export function getTourApiScheduler(): TourApiScheduler {
+  if (!sharedScheduler) {
+    sharedScheduler = createTourApiSchedulerFromEnv();
+  }
+  return sharedScheduler;
+}
@@ -0,0 +1,123 @@
+/**
+ * @file tour-api-schemas.test.ts
+ * @description 응답 항목 검증과 정규화 검증 (zod)
+ *
+ * 클라이언트가 검증에서 제외한 항목은 가짜 서버 응답으로 확인합니다.
+ */
+
+import { describe, expect, it, vi } from "vitest";
+import { FakeTourApiServer } from "./fake-tour-api";
+import { TourApiClient } from "./tour-api-client";
+import { validateTourApiItems } from "./tour-api-schemas";
+import type { TourItem } from "@/lib/types/tour";
+import { silentLogger } from "@/lib/utils/logger";
+
+/**
+ * 목록 항목 (필수 값을 모두 갖춘 항목)
+ */
+function createItem(overrides: Record<string, unknown> = {}) {
+  return {
+    contentid: "126508",
+    contenttypeid: "12",
+    title: "경복궁",
+    addr1: "서울특별시 종로구 사직로 161",
+    areacode: "1",
+    mapx: "126.9769930325",
+    mapy: "37.5788222356",
+    ...overrides,
+  };
+}
+
+describe("validateTourApiItems", () => {
+  it("숫자 값은 문자열로, null은 없는 값으로 정규화한다", () => {
+    const [item] = validateTourApiItems("/areaBasedList2", [
+      createItem({ contentid: 126508, areacode: 1, addr2: null }),
+    ]);
+
+    expect(item).toMatchObject({
+      contentid: "126508",
+      areacode: "1",
+      addr2: undefined,
+    });
+  });
+
+  it("필수 값이 없는 항목은 contentid와 함께 로그를 남기고 제외한다", () => {
+    const logger = { warn: vi.fn() };
+
+    const items = validateTourApiItems(
+      "/areaBasedList2",
+      [
+        createItem(),
+        createItem({ contentid: "2", mapx: "" }),
+        createItem({ contentid: "3", title: "" }),
+      ],
+      logger,
+    );
+
+    expect(items).toHaveLength(1);
+    expect(logger.warn).toHaveBeenCalledTimes(2);
+    expect(logger.warn.mock.calls[0][1]).toMatchObject({
+      endpoint: "/areaBasedList2",
+      contentId: "2",
+      issues: ["mapx: 좌표가 올바르지 않습니다"],
+    });
+  });
+
+  it("동기화 목록과 행사 목록은 좌표가 없어도 유지한다", () => {
+    const withoutCoordinates = createItem({ mapx: "", mapy: null });
+
+    for (const endpoint of ["/areaBasedSyncList2", "/searchFestival2"]) {
+      const [item] = validateTourApiItems(endpoint, [withoutCoordinates]);
+      expect(item).toMatchObject({ mapx: "", mapy: "" });
+    }
+  });
+
+  it("전화번호의 HTML을 제거하고 정의하지 않은 필드는 유지한다", () => {
+    const [item] = validateTourApiItems("/areaBasedList2", [
+      createItem({ tel: "<b>02-3700-3900</b>", eventstartdate: "20250101" }),
+    ]);
+
+    expect(item).toMatchObject({
+      tel: "02-3700-3900",
+      eventstartdate: "20250101",
+    });
+  });
+
+  it("스키마가 없는 엔드포인트는 그대로 반환한다", () => {
+    const items = [{ anything: true }];
+
+    expect(validateTourApiItems("/unknown", items)).toBe(items);
+  });
+});
+
+describe("TourApiClient 응답 검증", () => {
+  it("검증에 실패한 항목을 빼고 반환한다", async () => {
+    const server = new FakeTourApiServer({
+      fixtures: {
+        areaBasedList2: {
+          endpoint: "areaBasedList2",
+          records: [
+            {
+              params: {},
+              items: [createItem(), createItem({ contentid: "2", mapy: "" })],
+            },
+          ],
+        },
+      },
+    });
+    const client = new TourApiClient({
+      serviceKey: "test-key",
+      transport: server.transport,
+      logger: silentLogger,
+      retries: 0,
+      cache: null,
+      scheduler: null,
+      circuitBreaker: null,
+    });
+
+    const page = await client.requestPage<TourItem>("/areaBasedList2", {});
+
+    expect(page.items.map((item) => item.contentid)).toEqual(["126508"]);
+    expect(page.totalCount).toBe(2);
+  });
+});
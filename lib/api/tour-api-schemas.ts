@@ -0,0 +1,289 @@
+/**
+ * @file tour-api-schemas.ts
+ * @description 한국관광공사 API 응답 항목 런타임 검증 (zod)
+ *
+ * API 응답 항목은 문서와 달리 숫자로 오는 ID, 빈 좌표, HTML이 섞인 전화번호 등이
+ * 섞여 있어 컴포넌트(TourCard, NaverMap 등)에서 렌더링 오류를 일으킬 수 있습니다.
+ * TourApiClient가 응답을 캐시에 저장하기 전에 엔드포인트별 스키마로 항목을 검증해
+ * 값을 정규화하고, 검증에 실패한 항목은 contentid와 함께 로그를 남기고 제외합니다.
+ *
+ * 주요 기능:
+ * 1. 문자열 정규화 (숫자 → 문자열, null → 없는 값)
+ * 2. 필수 값 검증 (contentid, title, 목록 항목의 좌표, 소개 정보의 관광 타입)
+ *    - 동기화 목록(비표출 콘텐츠)과 행사 목록(장소 미정 행사)은 좌표가 없어도 유지
+ * 3. 전화번호 HTML 제거
+ * 4. 엔드포인트별 스키마 매핑 및 항목 목록 검증
+ *
+ * 스키마에 정의하지 않은 필드(타입별 소개 정보, dist, 행사 기간 등)는 그대로 유지합니다.
+ * 검증 결과는 lib/types/tour.ts의 각 타입(TourItem 등) 구조를 따릅니다.
+ *
+ * @dependencies
+ * - zod: 스키마 정의
+ * - lib/types/tour.ts: CONTENT_TYPE (소개 정보 관광 타입 검증)
+ * - lib/utils/text.ts: sanitizeText (HTML 제거)
+ * - lib/utils/logger.ts: 검증 실패 로그
+ */
+
+import { z } from "zod";
+import { CONTENT_TYPE, type ContentTypeId } from "@/lib/types/tour";
+import { sanitizeText } from "@/lib/utils/text";
+import { createLogger, type Logger } from "@/lib/utils/logger";
+
+/**
+ * 응답 원본 값 (문서상 문자열이지만 숫자로 오는 경우가 있음)
+ */
+const apiValueSchema = z.union([z.string(), z.number()], {
+  errorMap: () => ({ message: "값이 없거나 형식이 올바르지 않습니다" }),
+});
+
+/**
+ * 필수 식별자 (contentid, code 등, 숫자는 문자열로 변환, 빈 문자열 불가)
+ */
+const idSchema = apiValueSchema
+  .transform((value) => String(value).trim())
+  .pipe(z.string().min(1, "값이 비어 있습니다"));
+
+/**
+ * 문자열 (숫자는 문자열로 변환, 없으면 빈 문자열)
+ */
+const textSchema = apiValueSchema
+  .nullish()
+  .transform((value) =>
+    value === null || value === undefined ? "" : String(value),
+  );
+
+/**
+ * 선택 문자열 (숫자는 문자열로 변환, null은 없는 값으로 처리)
+ */
+const optionalTextSchema = apiValueSchema
+  .nullish()
+  .transform((value) =>
+    value === null || value === undefined ? undefined : String(value),
+  );
+
+/**
+ * HTML을 제거한 선택 문자열 (전화번호 등)
+ */
+const plainTextSchema = optionalTextSchema.transform((value) =>
+  value === undefined ? undefined : sanitizeText(value),
+);
+
+/**
+ * 좌표 (WGS84 숫자 문자열, 목록 항목에서는 필수)
+ */
+const coordinateSchema = apiValueSchema
+  .transform((value) => String(value).trim())
+  .refine(
+    (value) => value !== "" && Number.isFinite(Number(value)),
+    "좌표가 올바르지 않습니다",
+  );
+
+/**
+ * 선택 좌표 (올바르지 않으면 빈 문자열, 상세페이지·행사 카드는 지도만 숨김)
+ */
+const optionalCoordinateSchema = coordinateSchema.catch("");
+
+/**
+ * 관광지 목록 항목 (TourItem: areaBasedList2, searchKeyword2, locationBasedList2 등)
+ */
+export const tourItemSchema = z
+  .object({
+    contentid: idSchema,
+    contenttypeid: textSchema,
+    title: idSchema,
+    addr1: textSchema,
+    addr2: optionalTextSchema,
+    areacode: textSchema,
+    mapx: coordinateSchema,
+    mapy: coordinateSchema,
+    firstimage: optionalTextSchema,
+    firstimage2: optionalTextSchema,
+    tel: plainTextSchema,
+    cat1: optionalTextSchema,
+    cat2: optionalTextSchema,
+    cat3: optionalTextSchema,
+    modifiedtime: textSchema,
+    dist: optionalTextSchema,
+  })
+  .passthrough();
+
+/**
+ * 동기화 목록 항목 (TourSyncItem: areaBasedSyncList2)
+ * 비표출(showflag=0) 콘텐츠는 좌표가 비어 있는 경우가 많아 좌표가 없어도 유지합니다.
+ * 제외하면 카탈로그에서 삭제할 수 없습니다.
+ */
+export const tourSyncItemSchema = tourItemSchema.extend({
+  mapx: optionalCoordinateSchema,
+  mapy: optionalCoordinateSchema,
+  showflag: optionalTextSchema,
+});
+
+/**
+ * 행사 목록 항목 (FestivalItem: searchFestival2, 장소가 정해지지 않은 행사는 좌표 없음)
+ */
+export const festivalItemSchema = tourItemSchema.extend({
+  mapx: optionalCoordinateSchema,
+  mapy: optionalCoordinateSchema,
+});
+
+/**
+ * 관광지 상세 정보 (TourDetail: detailCommon2)
+ */
+export const tourDetailSchema = z
+  .object({
+    contentid: idSchema,
+    contenttypeid: textSchema,
+    title: idSchema,
+    addr1: textSchema,
+    addr2: optionalTextSchema,
+    zipcode: optionalTextSchema,
+    tel: plainTextSchema,
+    homepage: optionalTextSchema,
+    overview: optionalTextSchema,
+    firstimage: optionalTextSchema,
+    firstimage2: optionalTextSchema,
+    mapx: optionalCoordinateSchema,
+    mapy: optionalCoordinateSchema,
+    cat1: optionalTextSchema,
+    cat2: optionalTextSchema,
+    cat3: optionalTextSchema,
+    createdtime: optionalTextSchema,
+    modifiedtime: optionalTextSchema,
+  })
+  .passthrough();
+
+/**
+ * 관광 타입 ID (CONTENT_TYPE 값만 허용, 숫자는 문자열로 변환)
+ */
+const contentTypeIdSchema = idSchema.pipe(
+  z.enum(
+    Object.values(CONTENT_TYPE) as [ContentTypeId, ...ContentTypeId[]],
+    { errorMap: () => ({ message: "지원하지 않는 관광 타입입니다" }) },
+  ),
+);
+
+/**
+ * 관광지 소개 정보 (TourIntro: detailIntro2)
+ * contenttypeid로 타입별 소개 정보(TouristSpotIntro 등)를 구분하므로,
+ * 지원하지 않는 관광 타입(다국어 서비스의 교통 77 등)은 제외합니다.
+ * 타입별 필드는 문자열로 정규화하지 않고 그대로 유지합니다.
+ */
+export const tourIntroSchema = z
+  .object({
+    contentid: idSchema,
+    contenttypeid: contentTypeIdSchema,
+  })
+  .passthrough();
+
+/**
+ * 관광지 이미지 (TourImage: detailImage2, 이미지 URL이 하나도 없으면 제외)
+ */
+export const tourImageSchema = z
+  .object({
+    contentid: idSchema,
+    imagename: optionalTextSchema,
+    originimgurl: optionalTextSchema,
+    smallimageurl: optionalTextSchema,
+    serialnum: optionalTextSchema,
+  })
+  .passthrough()
+  .refine(
+    (image) => !!(image.originimgurl || image.smallimageurl),
+    "이미지 URL이 없습니다",
+  );
+
+/**
+ * 반려동물 동반 여행 정보 (PetTourInfo: detailPetTour2)
+ */
+export const petTourInfoSchema = z
+  .object({
+    contentid: idSchema,
+    contenttypeid: textSchema,
+    chkpetleash: optionalTextSchema,
+    chkpetsize: optionalTextSchema,
+    chkpetplace: optionalTextSchema,
+    chkpetfee: optionalTextSchema,
+    petinfo: optionalTextSchema,
+    parking: optionalTextSchema,
+  })
+  .passthrough();
+
+/**
+ * 코드 정보 (AreaCode, CategoryCode: areaCode2, categoryCode2)
+ */
+export const areaCodeSchema = z
+  .object({
+    code: idSchema,
+    name: idSchema,
+    rnum: optionalTextSchema,
+  })
+  .passthrough();
+
+/**
+ * 엔드포인트별 항목 스키마 (목록에 없는 엔드포인트는 검증하지 않음)
+ */
+export const TOUR_API_ITEM_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  "/areaCode2": areaCodeSchema,
+  "/categoryCode2": areaCodeSchema,
+  "/areaBasedList2": tourItemSchema,
+  "/areaBasedSyncList2": tourSyncItemSchema,
+  "/searchKeyword2": tourItemSchema,
+  "/locationBasedList2": tourItemSchema,
+  "/searchFestival2": festivalItemSchema,
+  "/searchStay2": tourItemSchema,
+  "/detailCommon2": tourDetailSchema,
+  "/detailIntro2": tourIntroSchema,
+  "/detailImage2": tourImageSchema,
+  "/detailPetTour2": petTourInfoSchema,
+};
+
+/**
+ * 검증 실패 항목 식별자 (로그 필드: contentid 또는 code)
+ */
+function describeItem(item: unknown): Record<string, string | null> {
+  if (item && typeof item === "object") {
+    const { contentid, code } = item as { contentid?: unknown; code?: unknown };
+    if (contentid !== undefined && contentid !== null) {
+      return { contentId: String(contentid) };
+    }
+    if (code !== undefined && code !== null) {
+      return { code: String(code) };
+    }
+  }
+  return { contentId: null };
+}
+
+/**
+ * 응답 항목 목록 검증
+ * 검증에 성공한 항목은 정규화된 값으로 바꾸고, 실패한 항목은 로그를 남기고 제외합니다.
+ * @param endpoint API 엔드포인트 (예: "/areaBasedList2")
+ * @param items 응답 항목 목록
+ * @param logger 검증 실패 로그를 남길 로거
+ * @returns 검증된 항목 목록 (스키마가 없는 엔드포인트는 그대로 반환)
+ */
+export function validateTourApiItems<T>(
+  endpoint: string,
+  items: T[],
+  logger: Pick<Logger, "warn"> = createLogger("tour-api"),
+): T[] {
+  const schema = TOUR_API_ITEM_SCHEMAS[endpoint];
+  if (!schema) {
+    return items;
+  }
+
+  return items.flatMap((item) => {
+    const result = schema.safeParse(item);
+    if (result.success) {
+      return [result.data as T];
+    }
+
+    logger.warn("응답 항목 검증 실패, 제외", {
+      endpoint,
+      ...describeItem(item),
+      issues: result.error.issues.map(
+        (issue) => `${issue.path.join(".") || "(항목)"}: ${issue.message}`,
+      ),
+    });
+    return [];
+  });
+}
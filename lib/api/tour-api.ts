@@ -6,391 +6,153 @@
  *
  * 주요 기능:
  * 1. 지역코드 조회 (areaCode2)
+ * 1-1. 서비스 분류 코드 조회 (categoryCode2)
  * 2. 지역 기반 관광정보 조회 (areaBasedList2)
  * 3. 키워드 검색 (searchKeyword2)
+ * 3-1. 위치 기반 관광정보 조회 (locationBasedList2)
+ * 3-2. 축제/행사 기간 검색 (searchFestival2)
+ * 3-3. 숙박 검색 (searchStay2)
  * 4. 관광지 상세 정보 조회 (detailCommon2, detailIntro2, detailImage2)
+ * 4-1. 반복 정보 조회 (detailInfo2: 여행코스 경유지, 숙박 객실, 이용 안내)
  *
- * API Base URL: https://apis.data.go.kr/B551011/KorService2
- *
- * 환경변수:
- * - NEXT_PUBLIC_TOUR_API_KEY: 한국관광공사 API 인증키
- * - TOUR_API_KEY: 서버 사이드용 (NEXT_PUBLIC_ 없을 때 대체)
+ * 모든 함수는 마지막 인자(options.client)로 받은 TourApiClient를 통해 요청하며,
+ * 지정하지 않으면 기본 클라이언트(getTourApiClient)를 사용합니다.
+ * options.priority로 스케줄러 우선순위를 지정할 수 있습니다 (상세페이지: high).
+ * options.lang으로 콘텐츠 언어를 지정하면 해당 언어 서비스(EngService2 등)를 호출합니다.
+ * options.signal로 요청을 취소하거나 options.timeout으로 타임아웃(ms)을 바꿀 수 있습니다.
+ * 취소된 요청은 재시도하지 않고 TourApiAbortedError로 실패합니다.
+ * (API 키, Base URL 등 환경변수는 lib/api/tour-api-client.ts 참고)
  *
  * @dependencies
+ * - lib/api/tour-api-client.ts: TourApiClient, getTourApiClient
+ * - lib/api/tour-api-errors.ts: TourApiNotFoundError, TourApiAbortedError
+ * - lib/api/tour-api-paginate.ts: paginate, collectAll (코드 전체 조회)
  * - lib/types/tour.ts: 타입 정의
+ * - lib/utils/logger.ts: 구조화 로거
  *
  * @see {@link https://www.data.go.kr/data/15101578/openapi.do} - 한국관광공사 API 문서
  */
 
-import type {
-  ApiResponse,
-  ApiError,
-  TourItem,
-  TourDetail,
-  TourIntro,
-  TourImage,
-  PetTourInfo,
-  AreaCode,
-  ContentTypeId,
+import {
+  CONTENT_TYPE,
+  TOUR_LANGUAGE,
+  type TourItem,
+  type TourDetail,
+  type TourIntro,
+  type TourImage,
+  type TourRoomInfo,
+  type TourRepeatInfo,
+  type TourCourseItem,
+  type TourRepeatInfoItem,
+  type PetTourInfo,
+  type FestivalItem,
+  type AreaCode,
+  type CategoryCode,
+  type CategoryFilter,
+  type ContentTypeId,
+  type PagedResult,
 } from "@/lib/types/tour";
-
-/**
- * API Base URL
- */
-const BASE_URL = "https://apis.data.go.kr/B551011/KorService2";
-
-/**
- * 공통 파라미터
- */
-const COMMON_PARAMS = {
-  MobileOS: "ETC",
-  MobileApp: "MyTrip",
-  _type: "json",
-};
-
-/**
- * API 키 가져오기 (환경변수에서)
- * 클라이언트/서버 모두에서 사용 가능하도록 처리
- */
-function getApiKey(): string {
-  const key = process.env.NEXT_PUBLIC_TOUR_API_KEY || process.env.TOUR_API_KEY;
-
-  if (!key) {
-    throw new Error(
-      "한국관광공사 API 키가 설정되지 않았습니다. NEXT_PUBLIC_TOUR_API_KEY 또는 TOUR_API_KEY 환경변수를 설정해주세요.",
-    );
-  }
-
-  return key;
-}
-
-/**
- * 지연 함수 (재시도용)
- */
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-/**
- * API 요청 헬퍼 함수 (재시도 로직 포함)
- * @param endpoint API 엔드포인트
- * @param params 요청 파라미터
- * @param retries 재시도 횟수 (기본: 3)
- * @param retryDelay 재시도 지연 시간(ms) (기본: 1000)
- */
-async function fetchTourApi<T>(
-  endpoint: string,
-  params: Record<string, string | number | undefined>,
-  retries: number = 3,
-  retryDelay: number = 1000,
-): Promise<T> {
-  const apiKey = getApiKey();
-  const searchParams = new URLSearchParams({
-    serviceKey: apiKey,
-    ...COMMON_PARAMS,
-    ...Object.fromEntries(
-      Object.entries(params).filter(
-        // eslint-disable-next-line @typescript-eslint/no-unused-vars
-        ([_, value]) => value !== undefined && value !== null && value !== "",
-      ) as [string, string | number][],
-    ),
-  } as Record<string, string>);
-
-  const url = `${BASE_URL}${endpoint}?${searchParams.toString()}`;
-
-  console.group(`[Tour API] ${endpoint}`);
-  console.log("Request URL:", url.replace(apiKey, "***"));
-
-  let lastError: Error | null = null;
-
-  for (let attempt = 0; attempt <= retries; attempt++) {
-    try {
-      if (attempt > 0) {
-        // 재시도 전 지연 (exponential backoff)
-        const delayMs = retryDelay * Math.pow(2, attempt - 1);
-        console.log(
-          `[Tour API] 재시도 ${attempt}/${retries} (${delayMs}ms 후)`,
-        );
-        await delay(delayMs);
-      }
-
-      const response = await fetch(url, {
-        method: "GET",
-        headers: {
-          Accept: "application/json",
-        },
-        // Next.js에서 캐싱 제어 (선택 사항)
-        next: { revalidate: 3600 }, // 1시간 캐시
-      });
-
-      // 503, 502, 500 등 서버 에러는 재시도
-      if (!response.ok) {
-        const status = response.status;
-        const statusText = response.statusText || "알 수 없는 오류";
-
-        // 재시도 가능한 에러 (503, 502, 500, 429)
-        if (
-          (status === 503 ||
-            status === 502 ||
-            status === 500 ||
-            status === 429) &&
-          attempt < retries
-        ) {
-          console.warn(
-            `[Tour API] 서버 에러 ${status} 발생, 재시도 예정... (${
-              attempt + 1
-            }/${retries})`,
-          );
-          lastError = new Error(
-            `API 요청 실패: ${status} ${statusText}`,
-          ) as Error & { status: number };
-          (lastError as Error & { status: number }).status = status;
-          continue; // 재시도
-        }
-
-        // 재시도 불가능한 에러 또는 재시도 횟수 초과
-        const error = new Error(
-          `API 요청 실패: ${status} ${statusText}`,
-        ) as Error & { status: number };
-        error.status = status;
-        throw error;
-      }
-
-      const data: ApiResponse<T> | ApiError = await response.json();
-
-      // 에러 응답 체크
-      if ("response" in data && data.response.header.resultCode !== "0000") {
-        const errorMsg = data.response.header.resultMsg;
-        const apiCode = data.response.header.resultCode;
-
-        // 일부 API 에러는 재시도 가능
-        if (
-          (apiCode === "SERVICE_ERROR" ||
-            apiCode === "TIMEOUT" ||
-            errorMsg.includes("일시적")) &&
-          attempt < retries
-        ) {
-          console.warn(
-            `[Tour API] API 에러 ${apiCode} 발생, 재시도 예정... (${
-              attempt + 1
-            }/${retries})`,
-          );
-          lastError = new Error(`API 에러: ${errorMsg}`) as Error & {
-            apiCode: string;
-          };
-          (lastError as Error & { apiCode: string }).apiCode = apiCode;
-          continue; // 재시도
-        }
-
-        console.error("API Error:", errorMsg);
-        const error = new Error(`API 에러: ${errorMsg}`) as Error & {
-          apiCode: string;
-        };
-        error.apiCode = apiCode;
-        throw error;
-      }
-
-      // 성공 응답
-      const items = (data as ApiResponse<T>).response.body.items.item;
-      const result = Array.isArray(items) ? items : items ? [items] : [];
-
-      if (attempt > 0) {
-        console.log(`Success after ${attempt} retries: ${result.length} items`);
-      } else {
-        console.log(`Success: ${result.length} items`);
-      }
-      console.groupEnd();
-
-      return result as T;
-    } catch (error) {
-      lastError = error as Error;
-
-      // 네트워크 에러는 재시도 가능
-      if (
-        error instanceof TypeError &&
-        error.message.includes("fetch") &&
-        attempt < retries
-      ) {
-        console.warn(
-          `[Tour API] 네트워크 에러 발생, 재시도 예정... (${
-            attempt + 1
-          }/${retries})`,
-        );
-        continue; // 재시도
-      }
-
-      // 재시도 불가능한 에러 또는 재시도 횟수 초과
-      if (attempt === retries) {
-        console.error(
-          `[Tour API] 최대 재시도 횟수(${retries}) 초과, 에러 발생:`,
-          error,
-        );
-        console.groupEnd();
-
-        // 네트워크 에러 처리
-        if (error instanceof TypeError && error.message.includes("fetch")) {
-          const networkError = new Error(
-            "네트워크 연결을 확인해주세요. 인터넷 연결이 끊어졌을 수 있습니다.",
-          );
-          (networkError as Error & { isNetworkError: boolean }).isNetworkError =
-            true;
-          throw networkError;
-        }
-
-        // 서버 에러 처리
-        if (
-          error &&
-          typeof error === "object" &&
-          "status" in error &&
-          typeof error.status === "number"
-        ) {
-          const status = error.status;
-          if (status === 503 || status === 502 || status === 500) {
-            const serverError = new Error(
-              "한국관광공사 API 서버가 일시적으로 사용할 수 없습니다. 잠시 후 다시 시도해주세요.",
-            ) as Error & { status: number; isServerError: boolean };
-            serverError.status = status;
-            (serverError as Error & { isServerError: boolean }).isServerError =
-              true;
-            throw serverError;
-          }
-        }
-
-        throw error;
-      }
-    }
-  }
-
-  // 이 코드는 실행되지 않아야 하지만 타입 안전성을 위해 추가
-  console.groupEnd();
-  throw lastError || new Error("알 수 없는 오류가 발생했습니다.");
-}
+import {
+  getTourApiClient,
+  toRequestOptions,
+  type TourApiCallOptions,
+  type TourApiParams,
+} from "./tour-api-client";
+import { TourApiAbortedError, TourApiNotFoundError } from "./tour-api-errors";
+import { collectAll, paginate } from "./tour-api-paginate";
+import { createLogger } from "@/lib/utils/logger";
+
+const logger = createLogger("tour-api");
 
 /**
  * 지역코드 조회 (areaCode2) - 전체 데이터 가져오기
  * @param areaCode 상위 지역코드 (없으면 최상위 지역 목록)
+ * @param options 호출 옵션 (클라이언트, 우선순위)
  * @returns 지역코드 목록 (전체)
  */
-export async function getAreaCode(areaCode?: string): Promise<AreaCode[]> {
-  console.group(`[getAreaCode] 지역코드 조회 시작`);
-  console.log("Area Code:", areaCode || "전체");
-
-  const apiKey = getApiKey();
+export async function getAreaCode(
+  areaCode?: string,
+  options: TourApiCallOptions = {},
+): Promise<AreaCode[]> {
   const allResults: AreaCode[] = [];
-  let pageNo = 1;
-  const numOfRows = 1000; // 한 번에 최대 1000개 가져오기
   let totalCount = 0;
-  let hasMore = true;
-
-  while (hasMore) {
-    const params: Record<string, string | number | undefined> = {
-      pageNo,
-      numOfRows,
-    };
-    if (areaCode) {
-      params.areaCode = areaCode;
-    }
-
-    try {
-      const searchParams = new URLSearchParams({
-        serviceKey: apiKey,
-        ...COMMON_PARAMS,
-        ...Object.fromEntries(
-          Object.entries(params).filter(
-            // eslint-disable-next-line @typescript-eslint/no-unused-vars
-            ([_, value]) =>
-              value !== undefined && value !== null && value !== "",
-          ) as [string, string | number][],
-        ),
-      } as Record<string, string>);
-
-      const url = `${BASE_URL}/areaCode2?${searchParams.toString()}`;
-      console.log(`[getAreaCode] 페이지 ${pageNo} 요청 중...`);
-
-      const response = await fetch(url, {
-        method: "GET",
-        headers: {
-          Accept: "application/json",
-        },
-        next: { revalidate: 3600 }, // 1시간 캐시
-      });
-
-      if (!response.ok) {
-        throw new Error(
-          `API 요청 실패: ${response.status} ${response.statusText}`,
-        );
-      }
-
-      const data: ApiResponse<AreaCode> | ApiError = await response.json();
-
-      // 에러 응답 체크
-      if ("response" in data && data.response.header.resultCode !== "0000") {
-        const errorMsg = data.response.header.resultMsg;
-        throw new Error(`API 에러: ${errorMsg}`);
-      }
-
-      // 성공 응답 처리
-      const responseData = data as ApiResponse<AreaCode>;
-      const items = responseData.response.body.items.item;
-      const pageResults = Array.isArray(items) ? items : items ? [items] : [];
-
-      totalCount = responseData.response.body.totalCount || 0;
-      allResults.push(...pageResults);
-
-      console.log(
-        `[getAreaCode] 페이지 ${pageNo}: ${pageResults.length}개 항목 (전체: ${totalCount}개, 누적: ${allResults.length}개)`,
-      );
 
-      // 더 가져올 데이터가 있는지 확인
-      const currentPageTotal = pageNo * numOfRows;
-      hasMore =
-        currentPageTotal < totalCount && pageResults.length === numOfRows;
-
-      if (hasMore) {
-        pageNo++;
-      } else {
-        hasMore = false;
-      }
-    } catch (error) {
-      console.error(`[getAreaCode] 페이지 ${pageNo} 조회 실패:`, error);
-      // 첫 페이지 실패 시 에러 throw, 이후 페이지 실패 시 현재까지 수집한 데이터 반환
-      if (pageNo === 1) {
-        console.groupEnd();
-        throw error;
-      } else {
-        console.warn(
-          `[getAreaCode] 일부 페이지 조회 실패, 현재까지 수집한 ${allResults.length}개 항목 반환`,
-        );
-        hasMore = false;
-      }
+  try {
+    // 첫 페이지 실패 시 에러 throw, 이후 페이지 실패 시 현재까지 수집한 데이터 반환
+    for await (const page of paginate<AreaCode>(
+      "/areaCode2",
+      { areaCode },
+      { ...options, numOfRows: 1000, onPageError: "stop" }, // 한 번에 최대 1000개
+    )) {
+      totalCount = page.totalCount;
+      allResults.push(...page.items);
+    }
+  } catch (error) {
+    // 취소는 사용자가 선택을 바꾼 정상 흐름이므로 에러로 기록하지 않음
+    if (!(error instanceof TourApiAbortedError)) {
+      logger.error("지역코드 조회 실패", { areaCode, error });
     }
+    throw error;
   }
 
-  console.log(
-    `[getAreaCode] 조회 완료: 총 ${allResults.length}개 항목 (전체: ${totalCount}개)`,
-  );
-  console.groupEnd();
+  logger.debug("지역코드 조회 완료", {
+    areaCode,
+    itemCount: allResults.length,
+    totalCount,
+  });
 
   return allResults;
 }
 
+/**
+ * 서비스 분류 코드 조회 (categoryCode2) - 전체 데이터 가져오기
+ * cat1, cat2를 지정하지 않으면 대분류, cat1만 지정하면 중분류,
+ * 둘 다 지정하면 소분류 목록을 반환합니다.
+ * @param contentTypeId 관광 타입 ID (선택, 해당 타입의 분류만 조회)
+ * @param cat1 대분류 코드 (선택)
+ * @param cat2 중분류 코드 (선택, cat1 필요)
+ * @param options 호출 옵션 (클라이언트, 우선순위)
+ * @returns 분류 코드 목록
+ */
+export async function getCategoryCodes(
+  contentTypeId?: ContentTypeId,
+  cat1?: string,
+  cat2?: string,
+  options: TourApiCallOptions = {},
+): Promise<CategoryCode[]> {
+  if (cat2 && !cat1) {
+    throw new Error("중분류를 조회하려면 대분류 코드가 필요합니다.");
+  }
+
+  return collectAll<CategoryCode>(
+    "/categoryCode2",
+    { contentTypeId, cat1, cat2 },
+    { ...options, numOfRows: 1000 },
+  );
+}
+
 /**
  * 지역 기반 관광정보 조회 (areaBasedList2)
  * @param areaCode 지역코드 (시/도 코드)
  * @param sigunguCode 시/군/구 코드 (선택)
  * @param contentTypeId 관광 타입 ID (선택)
+ * @param category 분류 필터 (cat1/cat2/cat3, 선택)
  * @param pageNo 페이지 번호 (기본: 1)
  * @param numOfRows 페이지당 항목 수 (기본: 20)
- * @returns 관광지 목록
+ * @param options 호출 옵션 (클라이언트, 우선순위)
+ * @returns 관광지 목록 (전체 개수, 페이지 정보 포함)
  */
 export async function getAreaBasedList(
   areaCode?: string,
   sigunguCode?: string,
   contentTypeId?: ContentTypeId,
+  category: CategoryFilter = {},
   pageNo: number = 1,
   numOfRows: number = 20,
-): Promise<TourItem[]> {
-  const params: Record<string, string | number | undefined> = {
+  options: TourApiCallOptions = {},
+): Promise<PagedResult<TourItem>> {
+  const client = options.client || getTourApiClient();
+  const params: TourApiParams = {
     pageNo,
     numOfRows,
   };
@@ -407,7 +169,33 @@ export async function getAreaBasedList(
     params.contentTypeId = contentTypeId;
   }
 
-  return fetchTourApi<TourItem[]>("/areaBasedList2", params);
+  applyCategoryFilter(params, category);
+
+  return client.requestPage<TourItem>(
+    "/areaBasedList2",
+    params,
+    toRequestOptions(options),
+  );
+}
+
+/**
+ * 분류 필터를 요청 파라미터에 추가 (상위 분류 없이 하위 분류만 보내지 않음)
+ */
+function applyCategoryFilter(
+  params: TourApiParams,
+  category: CategoryFilter,
+): void {
+  if (!category.cat1) {
+    return;
+  }
+  params.cat1 = category.cat1;
+
+  if (category.cat2) {
+    params.cat2 = category.cat2;
+    if (category.cat3) {
+      params.cat3 = category.cat3;
+    }
+  }
 }
 
 /**
@@ -415,22 +203,27 @@ export async function getAreaBasedList(
  * @param keyword 검색 키워드
  * @param areaCode 지역코드 (선택)
  * @param contentTypeId 관광 타입 ID (선택)
+ * @param category 분류 필터 (cat1/cat2/cat3, 선택)
  * @param pageNo 페이지 번호 (기본: 1)
  * @param numOfRows 페이지당 항목 수 (기본: 20)
- * @returns 검색 결과 목록
+ * @param options 호출 옵션 (클라이언트, 우선순위)
+ * @returns 검색 결과 목록 (전체 개수, 페이지 정보 포함)
  */
 export async function searchKeyword(
   keyword: string,
   areaCode?: string,
   contentTypeId?: ContentTypeId,
+  category: CategoryFilter = {},
   pageNo: number = 1,
   numOfRows: number = 20,
-): Promise<TourItem[]> {
+  options: TourApiCallOptions = {},
+): Promise<PagedResult<TourItem>> {
   if (!keyword || keyword.trim() === "") {
     throw new Error("검색 키워드를 입력해주세요.");
   }
 
-  const params: Record<string, string | number | undefined> = {
+  const client = options.client || getTourApiClient();
+  const params: TourApiParams = {
     keyword: keyword.trim(),
     pageNo,
     numOfRows,
@@ -444,26 +237,179 @@ export async function searchKeyword(
     params.contentTypeId = contentTypeId;
   }
 
-  return fetchTourApi<TourItem[]>("/searchKeyword2", params);
+  applyCategoryFilter(params, category);
+
+  return client.requestPage<TourItem>(
+    "/searchKeyword2",
+    params,
+    toRequestOptions(options),
+  );
+}
+
+/**
+ * 위치 기반 검색 최대 반경 (m, API 제한)
+ */
+export const MAX_LOCATION_RADIUS = 20000;
+
+/**
+ * 위치 기반 관광정보 조회 (locationBasedList2)
+ * 결과는 거리순으로 정렬되며, 각 항목에 기준 좌표로부터의 거리(dist, m)가 포함됩니다.
+ * @param lat 위도 (WGS84)
+ * @param lng 경도 (WGS84)
+ * @param radiusMeters 검색 반경 (m, 최대 20000)
+ * @param contentTypeId 관광 타입 ID (선택)
+ * @param pageNo 페이지 번호 (기본: 1)
+ * @param numOfRows 페이지당 항목 수 (기본: 20)
+ * @param options 호출 옵션 (클라이언트, 우선순위)
+ * @returns 주변 관광지 목록 (전체 개수, 페이지 정보 포함)
+ */
+export async function getLocationBasedList(
+  lat: number,
+  lng: number,
+  radiusMeters: number,
+  contentTypeId?: ContentTypeId,
+  pageNo: number = 1,
+  numOfRows: number = 20,
+  options: TourApiCallOptions = {},
+): Promise<PagedResult<TourItem>> {
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) {
+    throw new Error("유효한 위도/경도가 필요합니다.");
+  }
+
+  const client = options.client || getTourApiClient();
+  const params: TourApiParams = {
+    mapX: lng,
+    mapY: lat,
+    radius: Math.min(
+      Math.max(Math.round(radiusMeters), 1),
+      MAX_LOCATION_RADIUS,
+    ),
+    arrange: "E", // 거리순
+    pageNo,
+    numOfRows,
+  };
+
+  if (contentTypeId) {
+    params.contentTypeId = contentTypeId;
+  }
+
+  return client.requestPage<TourItem>(
+    "/locationBasedList2",
+    params,
+    toRequestOptions(options),
+  );
+}
+
+/**
+ * 축제/행사 기간 검색 (searchFestival2)
+ * 요청 기간과 행사 기간이 겹치는 축제/행사를 조회합니다.
+ * @param eventStartDate 조회 시작일 (YYYYMMDD)
+ * @param eventEndDate 조회 종료일 (YYYYMMDD, 선택)
+ * @param areaCode 지역코드 (선택)
+ * @param pageNo 페이지 번호 (기본: 1)
+ * @param numOfRows 페이지당 항목 수 (기본: 20)
+ * @param options 호출 옵션 (클라이언트, 우선순위)
+ * @returns 축제/행사 목록 (전체 개수, 페이지 정보 포함)
+ */
+export async function searchFestival(
+  eventStartDate: string,
+  eventEndDate?: string,
+  areaCode?: string,
+  pageNo: number = 1,
+  numOfRows: number = 20,
+  options: TourApiCallOptions = {},
+): Promise<PagedResult<FestivalItem>> {
+  if (!/^\d{8}$/.test(eventStartDate)) {
+    throw new Error("행사 시작일은 YYYYMMDD 형식이어야 합니다.");
+  }
+  if (eventEndDate && !/^\d{8}$/.test(eventEndDate)) {
+    throw new Error("행사 종료일은 YYYYMMDD 형식이어야 합니다.");
+  }
+
+  const client = options.client || getTourApiClient();
+  const params: TourApiParams = {
+    eventStartDate,
+    pageNo,
+    numOfRows,
+  };
+
+  if (eventEndDate) {
+    params.eventEndDate = eventEndDate;
+  }
+
+  if (areaCode) {
+    params.areaCode = areaCode;
+  }
+
+  return client.requestPage<FestivalItem>(
+    "/searchFestival2",
+    params,
+    toRequestOptions(options),
+  );
+}
+
+/**
+ * 숙박 검색 (searchStay2)
+ * @param areaCode 지역코드 (선택)
+ * @param sigunguCode 시/군/구 코드 (선택)
+ * @param pageNo 페이지 번호 (기본: 1)
+ * @param numOfRows 페이지당 항목 수 (기본: 20)
+ * @param options 호출 옵션 (클라이언트, 우선순위)
+ * @returns 숙박 목록 (전체 개수, 페이지 정보 포함)
+ */
+export async function searchStay(
+  areaCode?: string,
+  sigunguCode?: string,
+  pageNo: number = 1,
+  numOfRows: number = 20,
+  options: TourApiCallOptions = {},
+): Promise<PagedResult<TourItem>> {
+  const client = options.client || getTourApiClient();
+  const params: TourApiParams = {
+    pageNo,
+    numOfRows,
+  };
+
+  if (areaCode) {
+    params.areaCode = areaCode;
+  }
+
+  if (sigunguCode) {
+    params.sigunguCode = sigunguCode;
+  }
+
+  return client.requestPage<TourItem>(
+    "/searchStay2",
+    params,
+    toRequestOptions(options),
+  );
 }
 
 /**
  * 관광지 상세 정보 조회 (detailCommon2)
  * @param contentId 콘텐츠 ID
+ * @param options 호출 옵션 (클라이언트, 우선순위)
  * @returns 관광지 상세 정보
  */
-export async function getTourDetail(contentId: string): Promise<TourDetail> {
+export async function getTourDetail(
+  contentId: string,
+  options: TourApiCallOptions = {},
+): Promise<TourDetail> {
   if (!contentId) {
     throw new Error("콘텐츠 ID가 필요합니다.");
   }
 
-  const results = await fetchTourApi<TourDetail[]>("/detailCommon2", {
-    contentId,
-  });
+  const client = options.client || getTourApiClient();
+  const results = await client.request<TourDetail>(
+    "/detailCommon2",
+    { contentId },
+    toRequestOptions(options),
+  );
 
   if (results.length === 0) {
-    throw new Error(
+    throw new TourApiNotFoundError(
       `관광지 정보를 찾을 수 없습니다. (contentId: ${contentId})`,
+      { endpoint: "/detailCommon2", contentId },
     );
   }
 
@@ -474,24 +420,29 @@ export async function getTourDetail(contentId: string): Promise<TourDetail> {
  * 관광지 소개 정보 조회 (detailIntro2)
  * @param contentId 콘텐츠 ID
  * @param contentTypeId 콘텐츠 타입 ID
+ * @param options 호출 옵션 (클라이언트, 우선순위)
  * @returns 관광지 소개 정보
  */
 export async function getTourIntro(
   contentId: string,
   contentTypeId: string,
+  options: TourApiCallOptions = {},
 ): Promise<TourIntro> {
   if (!contentId || !contentTypeId) {
     throw new Error("콘텐츠 ID와 타입 ID가 필요합니다.");
   }
 
-  const results = await fetchTourApi<TourIntro[]>("/detailIntro2", {
-    contentId,
-    contentTypeId,
-  });
+  const client = options.client || getTourApiClient();
+  const results = await client.request<TourIntro>(
+    "/detailIntro2",
+    { contentId, contentTypeId },
+    toRequestOptions(options),
+  );
 
   if (results.length === 0) {
-    throw new Error(
+    throw new TourApiNotFoundError(
       `관광지 소개 정보를 찾을 수 없습니다. (contentId: ${contentId})`,
+      { endpoint: "/detailIntro2", contentId },
     );
   }
 
@@ -501,66 +452,156 @@ export async function getTourIntro(
 /**
  * 관광지 이미지 목록 조회 (detailImage2)
  * @param contentId 콘텐츠 ID
+ * @param options 호출 옵션 (클라이언트, 우선순위)
  * @returns 관광지 이미지 목록
  */
-export async function getTourImages(contentId: string): Promise<TourImage[]> {
+export async function getTourImages(
+  contentId: string,
+  options: TourApiCallOptions = {},
+): Promise<TourImage[]> {
   if (!contentId) {
     throw new Error("콘텐츠 ID가 필요합니다.");
   }
 
-  return fetchTourApi<TourImage[]>("/detailImage2", {
+  const client = options.client || getTourApiClient();
+  return client.request<TourImage>(
+    "/detailImage2",
+    { contentId },
+    toRequestOptions(options),
+  );
+}
+
+/**
+ * 반복 정보 조회 (detailInfo2)
+ * 타입별로 응답 항목 구조가 달라 kind로 구분해 반환합니다.
+ * - 여행코스(25): 경유지 목록 (subnum 순서로 정렬)
+ * - 숙박(32): 객실 목록
+ * - 그 외: 입장료, 시설 등 이용 안내 (serialnum 순서로 정렬)
+ * @param contentId 콘텐츠 ID
+ * @param contentTypeId 콘텐츠 타입 ID
+ * @param options 호출 옵션 (클라이언트, 우선순위)
+ * @returns 타입별 반복 정보 (정보가 없으면 빈 items)
+ */
+export async function getTourRepeatInfo(
+  contentId: string,
+  contentTypeId: string,
+  options: TourApiCallOptions = {},
+): Promise<TourRepeatInfo> {
+  if (!contentId || !contentTypeId) {
+    throw new Error("콘텐츠 ID와 타입 ID가 필요합니다.");
+  }
+
+  const client = options.client || getTourApiClient();
+  const request = <T>() =>
+    client.request<T>(
+      "/detailInfo2",
+      { contentId, contentTypeId },
+      toRequestOptions(options),
+    );
+
+  switch (contentTypeId) {
+    case CONTENT_TYPE.TOUR_COURSE: {
+      // 캐시된 응답을 변경하지 않도록 복사 후 정렬
+      const items = [...(await request<TourCourseItem>())];
+      items.sort((a, b) => toSortOrder(a.subnum) - toSortOrder(b.subnum));
+      return { kind: "course", items };
+    }
+    case CONTENT_TYPE.ACCOMMODATION:
+      return { kind: "room", items: await request<TourRoomInfo>() };
+    default: {
+      const items = [...(await request<TourRepeatInfoItem>())];
+      items.sort(
+        (a, b) => toSortOrder(a.serialnum) - toSortOrder(b.serialnum),
+      );
+      return { kind: "info", items };
+    }
+  }
+}
+
+/**
+ * 순서 필드(subnum, serialnum) 정렬값 (숫자가 아니면 0)
+ */
+function toSortOrder(value: string | undefined): number {
+  return parseInt(value || "", 10) || 0;
+}
+
+/**
+ * 숙박 객실 정보 조회 (detailInfo2)
+ * @param contentId 콘텐츠 ID (숙박 타입)
+ * @param options 호출 옵션 (클라이언트, 우선순위)
+ * @returns 객실 목록 (객실 정보가 없으면 빈 배열)
+ */
+export async function getRoomInfo(
+  contentId: string,
+  options: TourApiCallOptions = {},
+): Promise<TourRoomInfo[]> {
+  const repeatInfo = await getTourRepeatInfo(
     contentId,
-  });
+    CONTENT_TYPE.ACCOMMODATION,
+    options,
+  );
+  return repeatInfo.kind === "room" ? repeatInfo.items : [];
 }
 
 /**
- * 반려동물 동반 여행 정보 조회 (detailPetTour2)
+ * 반려동물 동반 여행 정보 조회 (detailPetTour2, 조회 실패는 그대로 던짐)
+ * 국문 서비스 전용이므로 다른 언어(options.lang)를 지정하면 null을 반환합니다.
+ * 카탈로그 동기화처럼 일시적인 실패(한도 초과, 장애)를 구분해야 하는 곳에서 사용합니다.
  * @param contentId 콘텐츠 ID
- * @returns 반려동물 동반 여행 정보
+ * @param options 호출 옵션 (클라이언트, 우선순위)
+ * @returns 반려동물 동반 여행 정보 (정보가 없으면 null)
  */
-export async function getPetTourInfo(
+export async function fetchPetTourInfo(
   contentId: string,
+  options: TourApiCallOptions = {},
 ): Promise<PetTourInfo | null> {
   if (!contentId) {
     throw new Error("콘텐츠 ID가 필요합니다.");
   }
 
-  console.group(`[getPetTourInfo] 반려동물 동반 정보 조회 시작`);
-  console.log("Content ID:", contentId);
+  // 반려동물 동반 여행 정보는 국문 서비스에만 제공
+  if (options.lang && options.lang !== TOUR_LANGUAGE.KO) {
+    return null;
+  }
 
-  try {
-    const results = await fetchTourApi<PetTourInfo[]>("/detailPetTour2", {
-      contentId,
-    });
+  const client = options.client || getTourApiClient();
+  const results = await client.request<PetTourInfo>(
+    "/detailPetTour2",
+    { contentId },
+    toRequestOptions(options),
+  );
+
+  if (results.length === 0) {
+    logger.debug("반려동물 정보 없음", { contentId });
+    return null;
+  }
 
-    console.log(`[getPetTourInfo] API 응답 받음: ${results.length}개 결과`);
+  return results[0];
+}
 
-    if (results.length === 0) {
-      console.log("[getPetTourInfo] 반려동물 정보 없음 (빈 결과)");
-      console.groupEnd();
-      return null;
-    }
+/**
+ * 반려동물 동반 여행 정보 조회 (detailPetTour2)
+ * 국문 서비스 전용이므로 다른 언어(options.lang)를 지정하면 null을 반환합니다.
+ * @param contentId 콘텐츠 ID
+ * @param options 호출 옵션 (클라이언트, 우선순위)
+ * @returns 반려동물 동반 여행 정보
+ */
+export async function getPetTourInfo(
+  contentId: string,
+  options: TourApiCallOptions = {},
+): Promise<PetTourInfo | null> {
+  if (!contentId) {
+    throw new Error("콘텐츠 ID가 필요합니다.");
+  }
 
-    const petInfo = results[0];
-    console.log("[getPetTourInfo] 반려동물 정보:", {
-      contentid: petInfo.contentid,
-      chkpetleash: petInfo.chkpetleash,
-      chkpetsize: petInfo.chkpetsize,
-      chkpetplace: petInfo.chkpetplace,
-      chkpetfee: petInfo.chkpetfee,
-      hasPetInfo: !!petInfo.petinfo,
-      hasParking: !!petInfo.parking,
-    });
-    console.groupEnd();
-
-    return petInfo;
+  try {
+    return await fetchPetTourInfo(contentId, options);
   } catch (error) {
+    if (error instanceof TourApiAbortedError) {
+      throw error;
+    }
     // 반려동물 정보가 없는 경우 null 반환 (에러가 아닌 정상 케이스)
-    console.warn(
-      `[getPetTourInfo] 반려동물 정보 조회 실패 (contentId: ${contentId}):`,
-      error,
-    );
-    console.groupEnd();
+    logger.warn("반려동물 정보 조회 실패", { contentId, error });
     return null;
   }
 }
@@ -0,0 +1,165 @@
+/**
+ * @file tour-catalog-sync.test.ts
+ * @description TourCatalogSync 상세 정보 수집 중단 규칙 검증 (가짜 서버 사용)
+ *
+ * 체크포인트(tour_catalog_sync)는 메모리 저장소로, 카탈로그 저장 함수는 vi.fn으로 대신하고
+ * API 응답은 가짜 서버 픽스처로 만듭니다.
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { FakeTourApiServer } from "./fake-tour-api";
+import { TourApiClient } from "./tour-api-client";
+import {
+  getTourCatalogPendingDetails,
+  saveTourCatalogDetails,
+} from "./tour-catalog";
+import { TourCatalogSync } from "./tour-catalog-sync";
+import { silentLogger } from "@/lib/utils/logger";
+
+// tour_catalog_sync 메모리 저장소 (job → 행)
+const syncRows = vi.hoisted(() => new Map<string, Record<string, unknown>>());
+
+vi.mock("@/lib/supabase/service-role", () => ({
+  getServiceRoleClient: () => ({
+    from: () => ({
+      select: async () => ({ data: [...syncRows.values()], error: null }),
+      upsert: async (row: Record<string, unknown>) => {
+        syncRows.set(row.job as string, row);
+        return { error: null };
+      },
+    }),
+  }),
+}));
+
+vi.mock("./tour-catalog", () => ({
+  upsertTourCatalogItems: vi.fn(async (items: unknown[]) => items.length),
+  deleteTourCatalogItems: vi.fn(async (ids: unknown[]) => ids.length),
+  getTourCatalogPendingDetails: vi.fn(),
+  saveTourCatalogDetails: vi.fn(),
+}));
+
+const CONTENT_IDS = ["1", "2", "3"];
+
+/**
+ * 가짜 서버와 동기화 작업 생성 (가져오기는 끝난 상태, 증분 변경분 없음)
+ */
+function setup() {
+  const server = new FakeTourApiServer({
+    fixtures: {
+      areaBasedSyncList2: {
+        endpoint: "areaBasedSyncList2",
+        records: [{ params: {}, items: [] }],
+      },
+      detailCommon2: {
+        endpoint: "detailCommon2",
+        records: [
+          {
+            params: {},
+            items: CONTENT_IDS.map((contentid) => ({
+              contentid,
+              contenttypeid: "12",
+              title: `관광지 ${contentid}`,
+            })),
+          },
+        ],
+      },
+      detailIntro2: { endpoint: "detailIntro2", records: [] },
+      detailPetTour2: { endpoint: "detailPetTour2", records: [] },
+      detailImage2: { endpoint: "detailImage2", records: [] },
+    },
+  });
+  const client = new TourApiClient({
+    serviceKey: "test-key",
+    transport: server.transport,
+    logger: silentLogger,
+    retries: 0,
+    cache: null,
+    scheduler: null,
+    circuitBreaker: null,
+  });
+
+  syncRows.set("import", {
+    job: "import",
+    status: "completed",
+    watermark: "20250101000000",
+  });
+  vi.mocked(getTourCatalogPendingDetails).mockResolvedValue(
+    CONTENT_IDS.map((contentId) => ({ contentId, contentTypeId: "12" })),
+  );
+
+  return {
+    server,
+    sync: new TourCatalogSync({ client, detailLimit: CONTENT_IDS.length }),
+  };
+}
+
+describe("TourCatalogSync details", () => {
+  beforeEach(() => {
+    syncRows.clear();
+    vi.clearAllMocks();
+  });
+
+  it("대기 중인 모든 항목의 상세 정보를 저장하고 완료한다", async () => {
+    const { sync } = setup();
+
+    const result = await sync.run();
+
+    expect(result.details).toBe(3);
+    expect(saveTourCatalogDetails).toHaveBeenCalledTimes(3);
+    expect(syncRows.get("details")?.status).toBe("completed");
+  });
+
+  it(
+    "한도 초과 에러가 나면 실패로 기록하지 않고 남은 항목을 다음 실행으로 미룬다",
+    async () => {
+      const { server, sync } = setup();
+      // 첫 항목을 저장한 뒤 인증키 한도 초과 (키가 하나뿐이라 TourApiQuotaExceededError)
+      vi.mocked(saveTourCatalogDetails).mockImplementationOnce(async () => {
+        server.injectFailure({
+          type: "result",
+          resultCode: "22",
+          endpoint: "detailCommon2",
+        });
+      });
+
+      const result = await sync.run();
+
+      expect(result.details).toBe(1);
+      expect(saveTourCatalogDetails).toHaveBeenCalledTimes(1);
+      expect(syncRows.get("details")).toMatchObject({
+        status: "idle",
+        last_error: null,
+        processed_count: 1,
+      });
+    },
+  );
+
+  it(
+    "반려동물 정보가 장애로 실패하면 null로 저장하지 않고 다음 실행으로 미룬다",
+    async () => {
+      const { server, sync } = setup();
+      server.injectFailure({
+        type: "http",
+        status: 503,
+        endpoint: "detailPetTour2",
+      });
+
+      const result = await sync.run();
+
+      expect(result.details).toBe(0);
+      expect(saveTourCatalogDetails).not.toHaveBeenCalled();
+      expect(syncRows.get("details")?.status).toBe("idle");
+    },
+  );
+
+  it("반려동물 정보가 없으면 null로 저장한다", async () => {
+    const { sync } = setup();
+
+    await sync.run();
+
+    expect(saveTourCatalogDetails).toHaveBeenCalledWith(
+      "1",
+      expect.objectContaining({ petInfo: null }),
+    );
+  });
+});
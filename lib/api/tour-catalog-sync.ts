@@ -0,0 +1,661 @@
+/**
+ * @file tour-catalog-sync.ts
+ * @description 관광지 카탈로그 동기화 (KorService2 → Supabase tour_items)
+ *
+ * 한 번 실행할 때 정해진 페이지 수만큼만 처리하고 체크포인트(tour_catalog_sync)를 남겨,
+ * 서버리스 함수 시간 제한과 인증키 일일 호출 한도 안에서 여러 번에 나눠 진행합니다.
+ *
+ * 작업 순서:
+ * 1. import: areaBasedList2 전체 가져오기 (완료될 때까지 실행마다 이어서 진행)
+ * 2. incremental: areaBasedSyncList2를 수정일 최신순으로 읽어 기준 시각(watermark) 이후
+ *    변경분만 반영 (showflag=0인 콘텐츠는 삭제)
+ * 3. details: 새로 추가되거나 수정된 항목의 공통/소개/반려동물/이미지 정보 수집
+ *    (반려동물·주차 필터 컬럼, 개요와 검색 컬럼 계산)
+ *
+ * watermark는 작업을 시작한 시각(KST)에서 여유 시간(1시간)을 뺀 값으로,
+ * 가져오는 동안 수정된 항목은 다음 증분 동기화에서 다시 반영됩니다.
+ * 같은 작업이 실행 중(running)이면 10분 동안은 새 실행을 건너뛰고,
+ * 페이지 수 제한이나 페이지 조회 실패로 멈춘 작업은 idle 상태로 다음 페이지부터 이어서 진행합니다.
+ * 목록 작업의 완료 여부는 totalCount로만 판단합니다 (검증에서 제외된 항목이 있으면 페이지가 덜 참).
+ *
+ * @example
+ * ```ts
+ * const result = await new TourCatalogSync({ maxPages: 20 }).run();
+ * ```
+ *
+ * @dependencies
+ * - lib/api/tour-api.ts: 상세 정보 조회 함수 (반려동물 정보는 실패를 그대로 던지는 fetchPetTourInfo)
+ * - lib/api/tour-api-client.ts: createTourApiClientFromEnv (캐시 없는 클라이언트)
+ * - lib/api/tour-api-paginate.ts: paginate (체크포인트 페이지부터 목록 순회)
+ * - lib/api/tour-api-circuit-breaker.ts: isTourApiOutageError (상세 정보 수집 중단 판단)
+ * - lib/api/tour-api-errors.ts: TourApiQuotaExceededError (상세 정보 수집 중단 판단)
+ * - lib/api/tour-catalog.ts: 카탈로그 저장 함수
+ * - lib/supabase/service-role.ts: getServiceRoleClient (체크포인트)
+ * - lib/utils/tour-intro.ts: 반려동물/주차 가능 여부 판단
+ * - lib/utils/logger.ts: 구조화 로거
+ */
+
+import {
+  fetchPetTourInfo,
+  getTourDetail,
+  getTourImages,
+  getTourIntro,
+} from "./tour-api";
+import {
+  createTourApiClientFromEnv,
+  type TourApiCallOptions,
+  type TourApiClient,
+} from "./tour-api-client";
+import { isTourApiOutageError } from "./tour-api-circuit-breaker";
+import {
+  TourApiAbortedError,
+  TourApiError,
+  TourApiNotFoundError,
+  TourApiQuotaExceededError,
+} from "./tour-api-errors";
+import { paginate } from "./tour-api-paginate";
+import {
+  deleteTourCatalogItems,
+  getTourCatalogPendingDetails,
+  saveTourCatalogDetails,
+  upsertTourCatalogItems,
+} from "./tour-catalog";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import type {
+  PetTourInfo,
+  TourIntro,
+  TourItem,
+  TourSyncItem,
+} from "@/lib/types/tour";
+import { createLogger } from "@/lib/utils/logger";
+import {
+  getTourIntroSummary,
+  isChkpetAllowed,
+  isParkingAvailable,
+  isPetLeashAllowed,
+} from "@/lib/utils/tour-intro";
+
+const logger = createLogger("tour-catalog.sync");
+
+/**
+ * 동기화 작업
+ */
+export type TourCatalogSyncJob = "import" | "incremental" | "details";
+
+/**
+ * 작업 상태
+ */
+export type TourCatalogSyncStatus = "idle" | "running" | "completed" | "failed";
+
+/**
+ * 작업별 체크포인트 (tour_catalog_sync 행)
+ */
+export interface TourCatalogSyncState {
+  job: TourCatalogSyncJob;
+  status: TourCatalogSyncStatus;
+  nextPage: number; // 다음에 가져올 페이지
+  totalCount: number | null; // 마지막으로 확인한 전체 항목 수
+  processedCount: number; // 이번 실행에서 저장한 항목 수
+  deletedCount: number; // 이번 실행에서 삭제한 항목 수
+  watermark: string | null; // 반영을 마친 수정일 기준 (YYYYMMDDHHmmss, KST)
+  lastError: string | null;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+  updatedAt: Date | null;
+}
+
+/**
+ * 동기화 실행 옵션
+ */
+export interface TourCatalogSyncOptions {
+  client?: TourApiClient; // 사용할 클라이언트 (기본: 응답 캐시를 쓰지 않는 환경변수 기반 클라이언트)
+  job?: "import" | "incremental"; // 실행할 목록 작업 (기본: 가져오기가 끝났으면 incremental), import는 처음부터 다시 가져옴
+  maxPages?: number; // 한 번 실행에서 가져올 최대 페이지 수 (기본: 20)
+  numOfRows?: number; // 페이지당 항목 수 (기본: 100)
+  detailLimit?: number; // 한 번 실행에서 상세 정보를 수집할 최대 항목 수 (기본: 50, 0이면 건너뜀)
+  signal?: AbortSignal; // 취소 신호 (취소되면 체크포인트까지 저장하고 중단)
+}
+
+/**
+ * 동기화 실행 결과
+ */
+export interface TourCatalogSyncResult {
+  job: "import" | "incremental";
+  skipped: boolean; // 같은 작업이 이미 실행 중이라 건너뜀
+  pages: number; // 가져온 페이지 수
+  upserted: number; // 새로 추가되거나 수정된 항목 수
+  deleted: number; // 삭제한 항목 수
+  completed: boolean; // 목록 작업을 끝까지 마쳤는지 (false면 다음 실행에서 이어서 진행)
+  details: number; // 상세 정보를 수집한 항목 수
+}
+
+/**
+ * running 상태가 이 시간 넘게 갱신되지 않으면 중단된 실행으로 보고 이어서 진행
+ */
+const RUNNING_LEASE_MS = 10 * 60 * 1000;
+
+/**
+ * watermark 여유 시간 (서버 시계 차이, 가져오는 동안 수정된 항목 대비)
+ */
+const WATERMARK_MARGIN_MS = 60 * 60 * 1000;
+
+/**
+ * 작업 상태 초기값 (체크포인트가 없을 때)
+ */
+function createInitialState(job: TourCatalogSyncJob): TourCatalogSyncState {
+  return {
+    job,
+    status: "idle",
+    nextPage: 1,
+    totalCount: null,
+    processedCount: 0,
+    deletedCount: 0,
+    watermark: null,
+    lastError: null,
+    startedAt: null,
+    finishedAt: null,
+    updatedAt: null,
+  };
+}
+
+/**
+ * tour_catalog_sync 행 → 작업 상태
+ */
+function fromStateRow(row: Record<string, unknown>): TourCatalogSyncState {
+  const toDate = (value: unknown) =>
+    typeof value === "string" ? new Date(value) : null;
+  return {
+    job: row.job as TourCatalogSyncJob,
+    status: row.status as TourCatalogSyncStatus,
+    nextPage: Number(row.next_page) || 1,
+    totalCount: row.total_count === null ? null : Number(row.total_count),
+    processedCount: Number(row.processed_count) || 0,
+    deletedCount: Number(row.deleted_count) || 0,
+    watermark: (row.watermark as string | null) || null,
+    lastError: (row.last_error as string | null) || null,
+    startedAt: toDate(row.started_at),
+    finishedAt: toDate(row.finished_at),
+    updatedAt: toDate(row.updated_at),
+  };
+}
+
+/**
+ * 작업 상태 저장
+ */
+async function saveState(state: TourCatalogSyncState): Promise<void> {
+  const supabase = getServiceRoleClient();
+  const { error } = await supabase.from("tour_catalog_sync").upsert({
+    job: state.job,
+    status: state.status,
+    next_page: state.nextPage,
+    total_count: state.totalCount,
+    processed_count: state.processedCount,
+    deleted_count: state.deletedCount,
+    watermark: state.watermark,
+    last_error: state.lastError,
+    started_at: state.startedAt?.toISOString() || null,
+    finished_at: state.finishedAt?.toISOString() || null,
+    updated_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * 모든 작업의 체크포인트 조회 (상태 페이지, 체크포인트가 없는 작업은 초기값)
+ */
+export async function getTourCatalogSyncStates(): Promise<
+  TourCatalogSyncState[]
+> {
+  const supabase = getServiceRoleClient();
+  const { data, error } = await supabase.from("tour_catalog_sync").select("*");
+
+  if (error) {
+    throw error;
+  }
+
+  const states = new Map(
+    (data || []).map((row) => [row.job, fromStateRow(row)]),
+  );
+  return (["import", "incremental", "details"] as const).map(
+    (job) => states.get(job) || createInitialState(job),
+  );
+}
+
+/**
+ * 시각 → API 수정일 형식 (KST, YYYYMMDDHHmmss)
+ */
+function toModifiedTime(date: Date): string {
+  const kst = new Date(date.getTime() + 9 * 60 * 60 * 1000);
+  return kst.toISOString().replace(/\D/g, "").slice(0, 14);
+}
+
+/**
+ * 실행 중인 작업인지 확인 (lease 시간 안에 갱신된 running 상태)
+ */
+function isRunning(state: TourCatalogSyncState): boolean {
+  return (
+    state.status === "running" &&
+    !!state.updatedAt &&
+    Date.now() - state.updatedAt.getTime() < RUNNING_LEASE_MS
+  );
+}
+
+/**
+ * 상세 정보 수집을 다음 실행으로 미룰 에러인지 확인
+ * 한도 초과와 회로 열림은 retryable이 아니어도 시간이 지나면 다시 요청할 수 있습니다.
+ */
+function isDeferrableError(error: unknown): boolean {
+  return (
+    error instanceof TourApiQuotaExceededError ||
+    isTourApiOutageError(error) ||
+    (error instanceof TourApiError && error.retryable)
+  );
+}
+
+/**
+ * 상세 정보로 반려동물 동반 가능 여부 판단 (홈 반려동물 필터와 같은 기준)
+ * detailPetTour2 → detailIntro2 chkpet 순으로 확인하고, 둘 다 없으면 null
+ */
+function getPetAllowed(
+  petInfo: PetTourInfo | null,
+  intro: TourIntro | null,
+): boolean | null {
+  if (petInfo?.chkpetleash) {
+    return isPetLeashAllowed(petInfo.chkpetleash);
+  }
+  const chkpet = intro ? getTourIntroSummary(intro).chkpet : "";
+  return chkpet ? isChkpetAllowed(chkpet) : null;
+}
+
+export class TourCatalogSync {
+  private readonly client: TourApiClient;
+  private readonly job?: "import" | "incremental";
+  private readonly maxPages: number;
+  private readonly numOfRows: number;
+  private readonly detailLimit: number;
+  private readonly signal?: AbortSignal;
+
+  constructor(options: TourCatalogSyncOptions = {}) {
+    // 동기화는 항상 최신 응답이 필요하므로 응답 캐시를 사용하지 않음
+    this.client = options.client || createTourApiClientFromEnv({ cache: null });
+    this.job = options.job;
+    this.maxPages = Math.max(1, options.maxPages ?? 20);
+    this.numOfRows = Math.max(1, options.numOfRows ?? 100);
+    this.detailLimit = Math.max(0, options.detailLimit ?? 50);
+    this.signal = options.signal;
+  }
+
+  /**
+   * API 호출 옵션 (사용자 요청보다 나중에 실행)
+   */
+  private get callOptions(): TourApiCallOptions {
+    return { client: this.client, priority: "low", signal: this.signal };
+  }
+
+  /**
+   * 동기화 실행 (목록 작업 → 상세 정보 수집)
+   */
+  async run(): Promise<TourCatalogSyncResult> {
+    const states = new Map(
+      (await getTourCatalogSyncStates()).map((state) => [state.job, state]),
+    );
+    const importState = states.get("import") || createInitialState("import");
+    const job =
+      this.job ||
+      (importState.status === "completed" ? "incremental" : "import");
+    const state = states.get(job) || createInitialState(job);
+
+    if (isRunning(state)) {
+      logger.info("동기화 작업이 이미 실행 중, 건너뜀", {
+        job,
+        updatedAt: state.updatedAt,
+      });
+      return {
+        job,
+        skipped: true,
+        pages: 0,
+        upserted: 0,
+        deleted: 0,
+        completed: false,
+        details: 0,
+      };
+    }
+
+    // 명시적으로 가져오기를 요청하면 처음부터 다시 시작
+    const restart = this.job === "import";
+    const result =
+      job === "import"
+        ? await this.runImport(state, restart)
+        : await this.runIncremental(
+            state,
+            states.get("import")?.watermark || null,
+          );
+
+    const details =
+      this.detailLimit > 0
+        ? await this.runDetails(
+            states.get("details") || createInitialState("details"),
+          )
+        : 0;
+
+    return { ...result, details };
+  }
+
+  /**
+   * 전체 가져오기 (areaBasedList2, 체크포인트에서 이어서 진행)
+   */
+  private async runImport(
+    previous: TourCatalogSyncState,
+    restart: boolean,
+  ): Promise<Omit<TourCatalogSyncResult, "details">> {
+    // 진행 중인 체크포인트(다음 페이지 > 1)가 있으면 이어서, 없으면 처음부터
+    const resume = !restart && previous.nextPage > 1;
+    const now = new Date();
+    const state: TourCatalogSyncState = resume
+      ? { ...previous, status: "running", lastError: null }
+      : {
+          ...createInitialState("import"),
+          status: "running",
+          startedAt: now,
+          watermark: toModifiedTime(
+            new Date(now.getTime() - WATERMARK_MARGIN_MS),
+          ),
+        };
+    await saveState(state);
+    logger.info("카탈로그 가져오기 시작", {
+      resume,
+      nextPage: state.nextPage,
+    });
+
+    let pages = 0;
+    let upserted = 0;
+    let completed = false;
+
+    try {
+      for await (const page of paginate<TourItem>(
+        "/areaBasedList2",
+        {},
+        {
+          ...this.callOptions,
+          numOfRows: this.numOfRows,
+          startPage: state.nextPage,
+        },
+      )) {
+        upserted += await upsertTourCatalogItems(page.items);
+        pages++;
+
+        state.totalCount = page.totalCount;
+        state.processedCount += page.items.length;
+        completed = page.pageNo * this.numOfRows >= page.totalCount;
+        state.nextPage = completed ? 1 : page.pageNo + 1;
+        if (completed) {
+          state.status = "completed";
+          state.finishedAt = new Date();
+        }
+        await saveState(state);
+
+        if (completed || pages >= this.maxPages) {
+          break;
+        }
+      }
+
+      // 페이지 수 제한이나 페이지 조회 실패로 멈추면 다음 실행에서 이어서 진행
+      if (!completed) {
+        state.status = "idle";
+        await saveState(state);
+      }
+    } catch (error) {
+      await this.fail(state, error);
+      throw error;
+    }
+
+    logger.info(
+      completed ? "카탈로그 가져오기 완료" : "카탈로그 가져오기 진행 중",
+      {
+        pages,
+        upserted,
+        processedCount: state.processedCount,
+        totalCount: state.totalCount,
+        nextPage: state.nextPage,
+      },
+    );
+
+    return {
+      job: "import",
+      skipped: false,
+      pages,
+      upserted,
+      deleted: 0,
+      completed,
+    };
+  }
+
+  /**
+   * 증분 동기화 (areaBasedSyncList2, 수정일 최신순으로 watermark까지)
+   * @param previous 증분 동기화 체크포인트
+   * @param importWatermark 가져오기를 시작한 시각 (첫 증분 동기화의 기준)
+   */
+  private async runIncremental(
+    previous: TourCatalogSyncState,
+    importWatermark: string | null,
+  ): Promise<Omit<TourCatalogSyncResult, "details">> {
+    const resume = previous.nextPage > 1;
+    const now = new Date();
+    const watermark = previous.watermark || importWatermark || "";
+    const state: TourCatalogSyncState = resume
+      ? { ...previous, status: "running", lastError: null }
+      : {
+          ...previous,
+          status: "running",
+          nextPage: 1,
+          processedCount: 0,
+          deletedCount: 0,
+          lastError: null,
+          startedAt: now,
+          finishedAt: null,
+        };
+    // 이번 실행을 마치면 적용할 기준 (실행 중에는 이전 기준으로 비교)
+    const nextWatermark = toModifiedTime(
+      new Date((state.startedAt || now).getTime() - WATERMARK_MARGIN_MS),
+    );
+    await saveState(state);
+    logger.info("카탈로그 증분 동기화 시작", {
+      resume,
+      watermark,
+      nextPage: state.nextPage,
+    });
+
+    let pages = 0;
+    let upserted = 0;
+    let deleted = 0;
+    let completed = false;
+
+    try {
+      for await (const page of paginate<TourSyncItem>(
+        "/areaBasedSyncList2",
+        { arrange: "C" }, // C: 수정일순
+        {
+          ...this.callOptions,
+          numOfRows: this.numOfRows,
+          startPage: state.nextPage,
+        },
+      )) {
+        const changed = page.items.filter(
+          (item) => item.modifiedtime > watermark,
+        );
+        const hidden = changed.filter((item) => item.showflag === "0");
+        const visible = changed.filter((item) => item.showflag !== "0");
+
+        upserted += await upsertTourCatalogItems(visible);
+        deleted += await deleteTourCatalogItems(
+          hidden.map((item) => item.contentid),
+        );
+        pages++;
+
+        state.totalCount = page.totalCount;
+        state.processedCount += visible.length;
+        state.deletedCount += hidden.length;
+        // 기준 이전 항목이 나오면 그 뒤는 이미 반영된 변경분
+        completed =
+          changed.length < page.items.length ||
+          page.pageNo * this.numOfRows >= page.totalCount;
+        state.nextPage = completed ? 1 : page.pageNo + 1;
+        if (completed) {
+          state.status = "completed";
+          state.watermark = nextWatermark;
+          state.finishedAt = new Date();
+        }
+        await saveState(state);
+
+        if (completed || pages >= this.maxPages) {
+          break;
+        }
+      }
+
+      // 페이지 수 제한이나 페이지 조회 실패로 멈추면 다음 실행에서 이어서 진행
+      if (!completed) {
+        state.status = "idle";
+        await saveState(state);
+      }
+    } catch (error) {
+      await this.fail(state, error);
+      throw error;
+    }
+
+    logger.info(
+      completed
+        ? "카탈로그 증분 동기화 완료"
+        : "카탈로그 증분 동기화 진행 중",
+      {
+        pages,
+        upserted,
+        deleted,
+        watermark: state.watermark,
+        nextPage: state.nextPage,
+      },
+    );
+
+    return {
+      job: "incremental",
+      skipped: false,
+      pages,
+      upserted,
+      deleted,
+      completed,
+    };
+  }
+
+  /**
+   * 상세 정보 수집 (새로 추가되거나 수정된 항목, 최근 수정된 항목부터)
+   * 재시도할 수 있는 에러(한도 초과, 장애)가 나면 남은 항목은 다음 실행으로 미룹니다.
+   * @returns 상세 정보를 저장한 항목 수
+   */
+  private async runDetails(previous: TourCatalogSyncState): Promise<number> {
+    const pending = await getTourCatalogPendingDetails(this.detailLimit);
+    if (pending.length === 0) {
+      return 0;
+    }
+
+    const state: TourCatalogSyncState = {
+      ...previous,
+      status: "running",
+      processedCount: 0,
+      lastError: null,
+      startedAt: new Date(),
+      finishedAt: null,
+    };
+    await saveState(state);
+
+    try {
+      for (const { contentId, contentTypeId } of pending) {
+        // 공통/소개 정보가 없는 콘텐츠는 정상 (null로 저장)
+        const orNull = (error: unknown) => {
+          if (error instanceof TourApiNotFoundError) {
+            return null;
+          }
+          throw error;
+        };
+        // 반려동물 정보 조회 실패는 null로 저장하되, 일시적인 실패면 다음 실행에서 다시 조회
+        const orPetNull = (error: unknown) => {
+          if (
+            isDeferrableError(error) ||
+            error instanceof TourApiAbortedError
+          ) {
+            throw error;
+          }
+          return null;
+        };
+        const [detail, intro, petInfo, images] = await Promise.all([
+          getTourDetail(contentId, this.callOptions).catch(orNull),
+          getTourIntro(contentId, contentTypeId, this.callOptions).catch(
+            orNull,
+          ),
+          fetchPetTourInfo(contentId, this.callOptions).catch(orPetNull),
+          getTourImages(contentId, this.callOptions),
+        ]);
+        const parking = intro ? getTourIntroSummary(intro).parking : "";
+
+        await saveTourCatalogDetails(contentId, {
+          detail,
+          intro,
+          petInfo,
+          images,
+          petAllowed: getPetAllowed(petInfo, intro),
+          parkingAvailable: parking ? isParkingAvailable(parking) : null,
+        });
+        state.processedCount++;
+      }
+    } catch (error) {
+      // 재시도할 수 없는 에러만 실패로 기록 (한도 초과·장애는 다음 실행에서 계속)
+      if (isDeferrableError(error)) {
+        logger.warn("상세 정보 수집 중단, 다음 실행에서 계속", {
+          processedCount: state.processedCount,
+          error,
+        });
+        state.status = "idle";
+        await saveState(state);
+        return state.processedCount;
+      }
+      await this.fail(state, error);
+      throw error;
+    }
+
+    state.status = "completed";
+    state.finishedAt = new Date();
+    await saveState(state);
+    logger.info("상세 정보 수집 완료", {
+      processedCount: state.processedCount,
+    });
+
+    return state.processedCount;
+  }
+
+  /**
+   * 실패 기록 (다음 실행에서 체크포인트부터 이어서 진행)
+   */
+  private async fail(
+    state: TourCatalogSyncState,
+    error: unknown,
+  ): Promise<void> {
+    logger.error("카탈로그 동기화 실패", {
+      job: state.job,
+      nextPage: state.nextPage,
+      error,
+    });
+    try {
+      await saveState({
+        ...state,
+        status: "failed",
+        lastError: error instanceof Error ? error.message : String(error),
+      });
+    } catch (saveError) {
+      logger.error("동기화 체크포인트 저장 실패", {
+        job: state.job,
+        error: saveError,
+      });
+    }
+  }
+}
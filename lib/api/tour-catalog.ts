@@ -0,0 +1,574 @@
+/**
+ * @file tour-catalog.ts
+ * @description 관광지 카탈로그 (Supabase tour_items 사본) 조회 및 저장
+ *
+ * 목록, 필터, 통계 요청이 매번 KorService2를 호출하지 않도록 관광지 목록을
+ * Supabase에 복제해 두고 SQL로 필터링/페이지네이션합니다.
+ * 반려동물·주차 필터는 상세 정보(detailPetTour2, detailIntro2)를 동기화할 때 계산한
+ * pet_allowed, parking_available 컬럼으로 전체 목록에 적용됩니다.
+ * 데이터는 lib/api/tour-catalog-sync.ts의 동기화 작업이 채웁니다.
+ *
+ * 주요 기능:
+ * 1. 카탈로그 사용 여부 확인 (TOUR_CATALOG=on + Supabase 환경변수)
+ * 2. 목록 조회 (지역, 시/군/구, 타입, 분류, 반려동물, 주차 필터 + 정렬 + 페이지네이션)
+ * 3. 관련도순 검색 (띄어쓰기·오타·로마자 허용, search_tour_catalog 함수)
+ * 4. 지역별/타입별 관광지 수 (통계)
+ * 5. 동기화용 저장 함수 (목록 저장, 삭제, 상세 정보 저장, 상세 정보 수집 대기열)
+ *
+ * 환경변수:
+ * - TOUR_CATALOG=on: 홈 목록, 반려동물/주차 필터, 키워드 검색, 통계를 카탈로그에서 조회
+ *
+ * @dependencies
+ * - lib/supabase/service-role.ts: getServiceRoleClient
+ * - lib/types/tour.ts: TourItem, TourDetail, TourIntro, TourImage, PetTourInfo, PagedResult
+ * - lib/utils/korean-search.ts: 검색 컬럼, 검색어 정규화/n-gram/로마자 변환
+ * - lib/utils/text.ts: sanitizeText (개요 HTML 제거)
+ * - supabase/migrations/tour_catalog.sql: 카탈로그 테이블, 집계 함수
+ * - supabase/migrations/tour_catalog_search.sql: 검색 컬럼, 검색 함수
+ */
+
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import type {
+  CategoryFilter,
+  ContentTypeId,
+  PagedResult,
+  PetTourInfo,
+  TourDetail,
+  TourImage,
+  TourIntro,
+  TourItem,
+} from "@/lib/types/tour";
+import {
+  normalizeSearchText,
+  romanizeHangul,
+  toSearchNgrams,
+} from "@/lib/utils/korean-search";
+import { sanitizeText } from "@/lib/utils/text";
+
+/**
+ * 목록 조회 컬럼 (상세 정보 JSON 제외)
+ */
+const ITEM_COLUMNS =
+  "content_id, content_type_id, title, addr1, addr2, area_code, sigungu_code, cat1, cat2, cat3, map_x, map_y, first_image, first_image2, tel, created_time, modified_time";
+
+/**
+ * 한 번에 저장/삭제하는 최대 행 수 (PostgREST 요청 크기 제한)
+ */
+const WRITE_BATCH_SIZE = 500;
+
+/**
+ * tour_items 행
+ */
+interface TourItemRow {
+  content_id: string;
+  content_type_id: string;
+  title: string;
+  addr1: string;
+  addr2: string | null;
+  area_code: string | null;
+  sigungu_code: string | null;
+  cat1: string | null;
+  cat2: string | null;
+  cat3: string | null;
+  map_x: number | null;
+  map_y: number | null;
+  first_image: string | null;
+  first_image2: string | null;
+  tel: string | null;
+  created_time: string | null;
+  modified_time: string;
+}
+
+/**
+ * 카탈로그 목록 조회 조건
+ */
+export interface TourCatalogQuery {
+  areaCode?: string; // 지역코드 (시/도)
+  sigunguCode?: string; // 시/군/구 코드
+  contentTypeId?: ContentTypeId; // 관광 타입 ID
+  category?: CategoryFilter; // 분류 필터 (cat1/cat2/cat3)
+  petFriendly?: boolean; // 반려동물 동반 가능만
+  parkingAvailable?: boolean; // 주차 가능만
+  sort?: "latest" | "name-asc" | "name-desc"; // 정렬 (기본: latest, 수정일 최신순)
+  pageNo?: number; // 페이지 번호 (기본: 1)
+  numOfRows?: number; // 페이지당 항목 수 (기본: 20)
+}
+
+/**
+ * 카탈로그 검색 조건
+ */
+export interface TourCatalogSearchQuery {
+  keyword: string; // 검색어
+  areaCode?: string; // 지역코드 (시/도)
+  sigunguCode?: string; // 시/군/구 코드
+  contentTypeId?: ContentTypeId; // 관광 타입 ID
+  category?: CategoryFilter; // 분류 필터 (cat1/cat2/cat3)
+  pageNo?: number; // 페이지 번호 (기본: 1)
+  numOfRows?: number; // 페이지당 항목 수 (기본: 20)
+}
+
+/**
+ * 지역별/타입별 관광지 수
+ */
+export interface TourCatalogCounts {
+  areas: Record<string, number>; // 지역코드 → 관광지 수
+  contentTypes: Record<string, number>; // 관광 타입 ID → 관광지 수
+}
+
+/**
+ * 동기화할 상세 정보 (없는 정보는 null)
+ */
+export interface TourCatalogDetails {
+  detail: TourDetail | null; // 공통 정보 (개요, 검색 컬럼)
+  intro: TourIntro | null;
+  petInfo: PetTourInfo | null;
+  images: TourImage[];
+  petAllowed: boolean | null; // 반려동물 동반 가능 (판단할 정보가 없으면 null)
+  parkingAvailable: boolean | null; // 주차 가능 (판단할 정보가 없으면 null)
+}
+
+/**
+ * 카탈로그 사용 여부 (TOUR_CATALOG=on이고 Supabase 서비스 키가 있을 때)
+ */
+export function isTourCatalogEnabled(): boolean {
+  return (
+    process.env.TOUR_CATALOG === "on" &&
+    !!process.env.NEXT_PUBLIC_SUPABASE_URL &&
+    !!process.env.SUPABASE_SERVICE_ROLE_KEY
+  );
+}
+
+/**
+ * API 목록 항목 → tour_items 행
+ */
+function toRow(item: TourItem): TourItemRow {
+  const mapX = parseFloat(item.mapx);
+  const mapY = parseFloat(item.mapy);
+  return {
+    content_id: item.contentid,
+    content_type_id: item.contenttypeid,
+    title: item.title,
+    addr1: item.addr1 || "",
+    addr2: item.addr2 || null,
+    area_code: item.areacode || null,
+    sigungu_code: item.sigungucode || null,
+    cat1: item.cat1 || null,
+    cat2: item.cat2 || null,
+    cat3: item.cat3 || null,
+    map_x: Number.isFinite(mapX) ? mapX : null,
+    map_y: Number.isFinite(mapY) ? mapY : null,
+    first_image: item.firstimage || null,
+    first_image2: item.firstimage2 || null,
+    tel: item.tel || null,
+    created_time: item.createdtime || null,
+    modified_time: item.modifiedtime,
+  };
+}
+
+/**
+ * tour_items 행 → API 목록 항목 형식 (기존 목록 컴포넌트, toPlace에서 그대로 사용)
+ */
+function fromRow(row: TourItemRow): TourItem {
+  return {
+    contentid: row.content_id,
+    contenttypeid: row.content_type_id,
+    title: row.title,
+    addr1: row.addr1,
+    addr2: row.addr2 || undefined,
+    areacode: row.area_code || "",
+    sigungucode: row.sigungu_code || undefined,
+    cat1: row.cat1 || undefined,
+    cat2: row.cat2 || undefined,
+    cat3: row.cat3 || undefined,
+    mapx: row.map_x === null ? "" : String(row.map_x),
+    mapy: row.map_y === null ? "" : String(row.map_y),
+    firstimage: row.first_image || undefined,
+    firstimage2: row.first_image2 || undefined,
+    tel: row.tel || undefined,
+    createdtime: row.created_time || undefined,
+    modifiedtime: row.modified_time,
+  };
+}
+
+/**
+ * 검색 컬럼 계산 (관광지명 + 주소 + 개요)
+ * @param item 관광지명, 주소
+ * @param overview 개요 (HTML 제거된 텍스트, 상세 정보 수집 전이면 없음)
+ */
+function toSearchColumns(
+  item: Pick<TourItem, "title" | "addr1" | "addr2">,
+  overview?: string | null,
+): Record<string, unknown> {
+  return {
+    search_title: normalizeSearchText(item.title),
+    search_romanized: romanizeHangul(item.title),
+    search_title_ngrams: toSearchNgrams(item.title),
+    search_ngrams: toSearchNgrams(
+      [item.title, item.addr1, item.addr2, overview].filter(Boolean).join(" "),
+    ),
+  };
+}
+
+/**
+ * 배열을 size 단위로 나누기
+ */
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * 카탈로그 목록 조회 (SQL 필터링, 전체 개수 포함)
+ * @param query 조회 조건
+ * @returns 관광지 목록 (areaBasedList2와 같은 PagedResult 형식)
+ */
+export async function queryTourCatalog(
+  query: TourCatalogQuery = {},
+): Promise<PagedResult<TourItem>> {
+  const pageNo = Math.max(1, query.pageNo || 1);
+  const numOfRows = query.numOfRows || 20;
+  const category = query.category || {};
+  const supabase = getServiceRoleClient();
+
+  let request = supabase
+    .from("tour_items")
+    .select(ITEM_COLUMNS, { count: "exact" });
+
+  if (query.areaCode) {
+    request = request.eq("area_code", query.areaCode);
+  }
+  if (query.sigunguCode) {
+    request = request.eq("sigungu_code", query.sigunguCode);
+  }
+  if (query.contentTypeId) {
+    request = request.eq("content_type_id", query.contentTypeId);
+  }
+  // 상위 분류 없이 하위 분류만 적용하지 않음 (areaBasedList2와 동일)
+  if (category.cat1) {
+    request = request.eq("cat1", category.cat1);
+    if (category.cat2) {
+      request = request.eq("cat2", category.cat2);
+      if (category.cat3) {
+        request = request.eq("cat3", category.cat3);
+      }
+    }
+  }
+  if (query.petFriendly) {
+    request = request.eq("pet_allowed", true);
+  }
+  if (query.parkingAvailable) {
+    request = request.eq("parking_available", true);
+  }
+
+  if (query.sort === "name-asc" || query.sort === "name-desc") {
+    request = request.order("title", { ascending: query.sort === "name-asc" });
+  } else {
+    request = request.order("modified_time", { ascending: false });
+  }
+
+  const from = (pageNo - 1) * numOfRows;
+  const { data, error, count } = await request
+    .order("content_id")
+    .range(from, from + numOfRows - 1);
+
+  if (error) {
+    throw error;
+  }
+
+  return {
+    items: ((data || []) as TourItemRow[]).map(fromRow),
+    totalCount: count || 0,
+    pageNo,
+    numOfRows,
+  };
+}
+
+/**
+ * 카탈로그 검색 (관련도순, search_tour_catalog 함수)
+ * 띄어쓰기("경복 궁"), 오타, 로마자 표기("gyeongbokgung")도 찾습니다.
+ * @param query 검색 조건
+ * @returns 검색 결과 (개요 포함, searchKeyword2와 같은 PagedResult 형식)
+ */
+export async function searchTourCatalog(
+  query: TourCatalogSearchQuery,
+): Promise<PagedResult<TourItem>> {
+  const pageNo = Math.max(1, query.pageNo || 1);
+  const numOfRows = query.numOfRows || 20;
+  const category = query.category || {};
+  const supabase = getServiceRoleClient();
+
+  // 분류는 상위 분류가 있을 때만 하위 분류 적용 (queryTourCatalog와 동일)
+  const { data, error } = await supabase.rpc("search_tour_catalog", {
+    p_query: normalizeSearchText(query.keyword),
+    p_ngrams: toSearchNgrams(query.keyword),
+    p_romanized: romanizeHangul(query.keyword),
+    p_area_code: query.areaCode || null,
+    p_sigungu_code: query.sigunguCode || null,
+    p_content_type_id: query.contentTypeId || null,
+    p_cat1: category.cat1 || null,
+    p_cat2: (category.cat1 && category.cat2) || null,
+    p_cat3: (category.cat1 && category.cat2 && category.cat3) || null,
+    p_limit: numOfRows,
+    p_offset: (pageNo - 1) * numOfRows,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const rows = (data || []) as Array<
+    TourItemRow & { overview: string | null; total_count: number }
+  >;
+  return {
+    items: rows.map((row) => ({
+      ...fromRow(row),
+      overview: row.overview || undefined,
+    })),
+    // 페이지를 넘어가면 행이 없으므로 전체 개수도 알 수 없음 (0)
+    totalCount: rows.length > 0 ? Number(rows[0].total_count) : 0,
+    pageNo,
+    numOfRows,
+  };
+}
+
+/**
+ * 지역별/타입별 관광지 수 (tour_catalog_counts 함수)
+ */
+export async function getTourCatalogCounts(): Promise<TourCatalogCounts> {
+  const supabase = getServiceRoleClient();
+  const { data, error } = await supabase.rpc("tour_catalog_counts");
+
+  if (error) {
+    throw error;
+  }
+
+  const counts: TourCatalogCounts = { areas: {}, contentTypes: {} };
+  for (const row of (data || []) as Array<{
+    dimension: string;
+    code: string;
+    item_count: number;
+  }>) {
+    const target =
+      row.dimension === "area" ? counts.areas : counts.contentTypes;
+    target[row.code] = Number(row.item_count);
+  }
+  return counts;
+}
+
+/**
+ * 카탈로그 전체 관광지 수와 상세 정보 수집 대기 수 (상태 페이지)
+ */
+export async function getTourCatalogSize(): Promise<{
+  items: number;
+  pendingDetails: number;
+}> {
+  const supabase = getServiceRoleClient();
+  const [all, pending] = await Promise.all([
+    supabase.from("tour_items").select("content_id", {
+      count: "exact",
+      head: true,
+    }),
+    supabase
+      .from("tour_items")
+      .select("content_id", { count: "exact", head: true })
+      .is("details_synced_at", null),
+  ]);
+
+  if (all.error || pending.error) {
+    throw all.error || pending.error;
+  }
+  return { items: all.count || 0, pendingDetails: pending.count || 0 };
+}
+
+/**
+ * 목록 항목 저장 (동기화)
+ * 수정일이 바뀐 항목과 새 항목은 상세 정보를 다시 수집하도록 details_synced_at을 비웁니다.
+ * @param items 저장할 목록 항목
+ * @returns 새로 추가되거나 수정일이 바뀐 항목 수
+ */
+export async function upsertTourCatalogItems(
+  items: TourItem[],
+): Promise<number> {
+  if (items.length === 0) {
+    return 0;
+  }
+
+  const supabase = getServiceRoleClient();
+  const { data: existing, error: selectError } = await supabase
+    .from("tour_items")
+    .select("content_id, modified_time")
+    .in(
+      "content_id",
+      items.map((item) => item.contentid),
+    );
+
+  if (selectError) {
+    throw selectError;
+  }
+
+  const knownModifiedTimes = new Map(
+    (existing || []).map((row) => [row.content_id, row.modified_time]),
+  );
+  const syncedAt = new Date().toISOString();
+  const changed: Array<Record<string, unknown>> = [];
+  const unchanged: Array<Record<string, unknown>> = [];
+
+  for (const item of items) {
+    const row = { ...toRow(item), synced_at: syncedAt };
+    if (knownModifiedTimes.get(item.contentid) === item.modifiedtime) {
+      unchanged.push(row);
+    } else {
+      // 개요는 상세 정보 수집 때 검색 컬럼과 함께 다시 계산
+      changed.push({
+        ...row,
+        ...toSearchColumns(item),
+        details_synced_at: null,
+      });
+    }
+  }
+
+  // 컬럼 구성이 다른 행은 나눠서 저장 (수정일이 같은 항목의 상세 정보 유지)
+  for (const rows of [changed, unchanged]) {
+    for (const batch of chunk(rows, WRITE_BATCH_SIZE)) {
+      const { error } = await supabase
+        .from("tour_items")
+        .upsert(batch, { onConflict: "content_id" });
+      if (error) {
+        throw error;
+      }
+    }
+  }
+
+  return changed.length;
+}
+
+/**
+ * 목록 항목 삭제 (비표출 처리된 콘텐츠, 상세 정보도 함께 삭제)
+ * @param contentIds 삭제할 콘텐츠 ID
+ * @returns 삭제한 항목 수
+ */
+export async function deleteTourCatalogItems(
+  contentIds: string[],
+): Promise<number> {
+  const supabase = getServiceRoleClient();
+  let deleted = 0;
+
+  for (const batch of chunk(contentIds, WRITE_BATCH_SIZE)) {
+    const { error, count } = await supabase
+      .from("tour_items")
+      .delete({ count: "exact" })
+      .in("content_id", batch);
+    if (error) {
+      throw error;
+    }
+    deleted += count || 0;
+  }
+
+  return deleted;
+}
+
+/**
+ * 상세 정보 수집 대기 항목 (최근 수정된 항목부터)
+ * @param limit 최대 항목 수
+ */
+export async function getTourCatalogPendingDetails(
+  limit: number,
+): Promise<Array<{ contentId: string; contentTypeId: string }>> {
+  const supabase = getServiceRoleClient();
+  const { data, error } = await supabase
+    .from("tour_items")
+    .select("content_id, content_type_id")
+    .is("details_synced_at", null)
+    .order("modified_time", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).map((row) => ({
+    contentId: row.content_id,
+    contentTypeId: row.content_type_id,
+  }));
+}
+
+/**
+ * 상세 정보 저장 (소개, 반려동물, 이미지 + 필터 컬럼, 개요 + 검색 컬럼)
+ * @param contentId 콘텐츠 ID
+ * @param details 수집한 상세 정보
+ */
+export async function saveTourCatalogDetails(
+  contentId: string,
+  details: TourCatalogDetails,
+): Promise<void> {
+  const supabase = getServiceRoleClient();
+  const syncedAt = new Date().toISOString();
+
+  const results = await Promise.all([
+    details.intro
+      ? supabase.from("tour_item_intros").upsert({
+          content_id: contentId,
+          content_type_id: details.intro.contenttypeid,
+          intro: details.intro,
+          synced_at: syncedAt,
+        })
+      : supabase.from("tour_item_intros").delete().eq("content_id", contentId),
+    details.petInfo
+      ? supabase.from("tour_item_pet_info").upsert({
+          content_id: contentId,
+          pet_info: details.petInfo,
+          synced_at: syncedAt,
+        })
+      : supabase
+          .from("tour_item_pet_info")
+          .delete()
+          .eq("content_id", contentId),
+    // 이미지는 목록 전체를 교체 (삭제된 이미지 반영)
+    supabase.from("tour_item_images").delete().eq("content_id", contentId),
+  ]);
+
+  const failed = results.find((result) => result.error);
+  if (failed) {
+    throw failed.error;
+  }
+
+  if (details.images.length > 0) {
+    const { error } = await supabase.from("tour_item_images").upsert(
+      details.images.map((image, index) => ({
+        content_id: contentId,
+        serial_num: image.serialnum || String(index + 1),
+        image_name: image.imagename || null,
+        origin_img_url: image.originimgurl || null,
+        small_image_url: image.smallimageurl || null,
+        synced_at: syncedAt,
+      })),
+    );
+    if (error) {
+      throw error;
+    }
+  }
+
+  // 공통 정보가 있으면 개요와 검색 컬럼도 갱신
+  const overview = details.detail
+    ? sanitizeText(details.detail.overview) || null
+    : undefined;
+  const { error } = await supabase
+    .from("tour_items")
+    .update({
+      pet_allowed: details.petAllowed,
+      parking_available: details.parkingAvailable,
+      details_synced_at: syncedAt,
+      ...(details.detail && {
+        overview,
+        ...toSearchColumns(details.detail, overview),
+      }),
+    })
+    .eq("content_id", contentId);
+
+  if (error) {
+    throw error;
+  }
+}
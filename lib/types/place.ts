@@ -0,0 +1,76 @@
+/**
+ * @file place.ts
+ * @description 관광지 도메인 모델 타입 정의
+ *
+ * 한국관광공사 API 응답(TourItem, TourDetail 등)은 모든 값이 문자열이고
+ * 날짜·좌표·전화번호·홈페이지 형식이 항목마다 다릅니다.
+ * 컴포넌트는 API 응답 대신 lib/utils/place.ts가 변환한 Place만 사용합니다.
+ *
+ * 주요 타입:
+ * - Place: 관광지 (목록 항목, 상세 정보 공통)
+ * - PlacePeriod: 행사 기간 (축제/행사)
+ * - PlaceSearchHighlight: 검색어 일치 구간 (검색 결과)
+ *
+ * @dependencies
+ * - lib/types/tour.ts: PetTourInfo
+ */
+
+import type { PetTourInfo } from "./tour";
+
+/**
+ * 행사 기간 (시작일·종료일 0시, KST)
+ */
+export interface PlacePeriod {
+  start: Date; // 행사 시작일
+  end: Date; // 행사 종료일 (종료일이 없으면 시작일)
+}
+
+/**
+ * 검색어 강조 구간 (원문을 순서대로 나눈 조각)
+ */
+export interface SearchHighlightSegment {
+  text: string;
+  match: boolean; // 검색어와 일치하는 구간
+}
+
+/**
+ * 검색 결과의 검색어 일치 구간
+ */
+export interface PlaceSearchHighlight {
+  title: SearchHighlightSegment[]; // 관광지명
+  address: SearchHighlightSegment[]; // 주소 + 상세주소
+  snippet: SearchHighlightSegment[] | null; // 개요에서 검색어 주변 발췌 (일치하지 않으면 null)
+}
+
+/**
+ * 관광지 도메인 모델
+ * 값이 없거나 형식이 올바르지 않은 필드는 undefined(좌표, 날짜는 null)입니다.
+ */
+export interface Place {
+  id: string; // 콘텐츠 ID (contentid)
+  contentTypeId: string; // 관광 타입 ID (국문 기준, CONTENT_TYPE)
+  typeName: string; // 관광 타입명 (예: 관광지, 음식점)
+  categoryPath: string[]; // 분류명 경로 (대분류 → 중분류 → 소분류, 이름을 모르면 빈 배열)
+  categoryName?: string; // 가장 구체적인 분류명
+  title: string; // 관광지명
+  address: string; // 주소 (addr1)
+  addressDetail?: string; // 상세주소 (addr2)
+  fullAddress: string; // 주소 + 상세주소
+  region?: string; // 시/도 (주소의 첫 부분)
+  zipcode?: string; // 우편번호
+  areaCode?: string; // 지역코드
+  lat: number | null; // 위도 (WGS84)
+  lng: number | null; // 경도 (WGS84)
+  imageUrl?: string; // 대표 이미지 (정규화된 URL)
+  phoneNumbers: string[]; // 전화번호 목록 (HTML 제거, 여러 번호 분리)
+  homepageUrl?: string; // 홈페이지 URL (프로토콜 포함)
+  homepageLabel?: string; // 홈페이지 표시 텍스트
+  overviewText?: string; // 개요 (HTML 제거, 줄바꿈 유지)
+  overviewHtml?: string; // 개요 원문 (HTML)
+  createdAt: Date | null; // 등록일
+  modifiedAt: Date | null; // 수정일
+  distanceMeters: number | null; // 기준 좌표로부터 거리 (m, 내 주변 검색 결과에만 있음)
+  eventPeriod: PlacePeriod | null; // 행사 기간 (축제/행사 목록 항목에만 있음)
+  petInfo?: PetTourInfo; // 반려동물 정보 (반려동물 필터 결과에만 있음)
+  searchHighlight?: PlaceSearchHighlight; // 검색어 일치 구간 (키워드 검색 결과에만 있음)
+}
@@ -0,0 +1,38 @@
+/**
+ * @file search.ts
+ * @description 검색 자동완성 관련 TypeScript 타입 정의
+ *
+ * 검색어 추천 API(/api/search/suggest)와 검색창(TourSearch)이 주고받는 데이터 구조를 정의합니다.
+ *
+ * 주요 타입:
+ * - SearchSuggestion: 추천 항목 (관광지명, 지역, 분류)
+ * - SearchSuggestResult: 추천 결과
+ */
+
+import type { SearchHighlightSegment } from "./place";
+
+/**
+ * 추천 항목 종류
+ */
+export type SearchSuggestionType = "place" | "region" | "category";
+
+/**
+ * 추천 항목
+ */
+export interface SearchSuggestion {
+  type: SearchSuggestionType;
+  label: string; // 표시 이름 (관광지명, 지역명, 분류명)
+  description?: string; // 보조 설명 (관광지 주소, 상위 분류 경로)
+  href: string; // 선택하면 이동할 주소 (관광지 상세페이지, 지역/분류 필터 목록)
+  contentId?: string; // 관광지 콘텐츠 ID (place만)
+  exact: boolean; // 이름이 검색어와 정확히 일치 (띄어쓰기, 대소문자 무시)
+  segments: SearchHighlightSegment[]; // 이름의 검색어 일치 구간
+}
+
+/**
+ * 추천 결과 (점수순 정렬)
+ */
+export interface SearchSuggestResult {
+  query: string;
+  suggestions: SearchSuggestion[];
+}
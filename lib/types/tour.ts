@@ -3,12 +3,19 @@
  * @description 한국관광공사 API 관련 TypeScript 타입 정의
  *
  * 이 파일은 한국관광공사 공공 API (KorService2)의 응답 데이터 구조를 정의합니다.
+ * 다국어 서비스(EngService2 등)도 같은 응답 구조를 사용합니다.
  *
  * 주요 타입:
+ * - TourLanguage: 콘텐츠 언어 (언어별 서비스 선택)
  * - TourItem: 관광지 목록 항목
+ * - FestivalItem: 축제/행사 목록 항목 (행사 기간 포함)
  * - TourDetail: 관광지 상세 정보 (공통)
- * - TourIntro: 관광지 소개 정보 (타입별 상세)
+ * - TourIntro: 관광지 소개 정보 (contenttypeid별 구분 유니온, TouristSpotIntro 등)
  * - TourImage: 관광지 이미지 정보
+ * - TourRoomInfo: 숙박 객실 정보
+ * - TourRepeatInfo: 반복 정보 (여행코스 경로, 숙박 객실, 이용 안내)
+ * - CategoryCode, CategoryNode: 서비스 분류 (대/중/소분류)
+ * - PagedResult: 목록 조회 결과 (페이지 정보 포함)
  * - API 응답 래퍼 타입들
  *
  * @see {@link https://www.data.go.kr/data/15101578/openapi.do} - 한국관광공사 API 문서
@@ -53,12 +60,45 @@ export const CONTENT_TYPE_NAME: Record<ContentTypeId, string> = {
 };
 
 /**
- * 관광지 목록 항목 (areaBasedList2, searchKeyword2 응답)
+ * 콘텐츠 언어 (한국관광공사 언어별 서비스)
+ */
+export const TOUR_LANGUAGE = {
+  KO: "ko", // 국문 (KorService2)
+  EN: "en", // 영문 (EngService2)
+  JA: "ja", // 일문 (JpnService2)
+  ZH_CN: "zh-CN", // 중문 간체 (ChsService2)
+  ZH_TW: "zh-TW", // 중문 번체 (ChtService2)
+  DE: "de", // 독일어 (GerService2)
+  FR: "fr", // 프랑스어 (FreService2)
+  ES: "es", // 스페인어 (SpnService2)
+  RU: "ru", // 러시아어 (RusService2)
+} as const;
+
+export type TourLanguage = (typeof TOUR_LANGUAGE)[keyof typeof TOUR_LANGUAGE];
+
+/**
+ * 콘텐츠 언어 이름 매핑 (각 언어로 표기)
+ */
+export const TOUR_LANGUAGE_NAME: Record<TourLanguage, string> = {
+  [TOUR_LANGUAGE.KO]: "한국어",
+  [TOUR_LANGUAGE.EN]: "English",
+  [TOUR_LANGUAGE.JA]: "日本語",
+  [TOUR_LANGUAGE.ZH_CN]: "简体中文",
+  [TOUR_LANGUAGE.ZH_TW]: "繁體中文",
+  [TOUR_LANGUAGE.DE]: "Deutsch",
+  [TOUR_LANGUAGE.FR]: "Français",
+  [TOUR_LANGUAGE.ES]: "Español",
+  [TOUR_LANGUAGE.RU]: "Русский",
+};
+
+/**
+ * 관광지 목록 항목 (areaBasedList2, searchKeyword2, locationBasedList2 응답)
  */
 export interface TourItem {
   addr1: string; // 주소
   addr2?: string; // 상세주소
   areacode: string; // 지역코드
+  sigungucode?: string; // 시군구코드
   contentid: string; // 콘텐츠ID
   contenttypeid: string; // 콘텐츠타입ID
   title: string; // 제목
@@ -70,10 +110,28 @@ export interface TourItem {
   cat1?: string; // 대분류
   cat2?: string; // 중분류
   cat3?: string; // 소분류
-  modifiedtime: string; // 수정일
+  modifiedtime: string; // 수정일 (YYYYMMDDHHmmss)
+  createdtime?: string; // 등록일 (YYYYMMDDHHmmss)
+  dist?: string; // 기준 좌표로부터 거리 (m, locationBasedList2 응답에만 포함)
+  overview?: string; // 개요 (HTML 제거, 카탈로그 검색 결과에만 포함)
   petInfo?: PetTourInfo; // 반려동물 정보 (선택 사항)
 }
 
+/**
+ * 변경 목록 항목 (areaBasedSyncList2 응답)
+ */
+export interface TourSyncItem extends TourItem {
+  showflag?: string; // 표출 여부 (1: 표출, 0: 비표출 - 삭제되거나 숨겨진 콘텐츠)
+}
+
+/**
+ * 축제/행사 목록 항목 (searchFestival2 응답)
+ */
+export interface FestivalItem extends TourItem {
+  eventstartdate: string; // 행사 시작일 (YYYYMMDD)
+  eventenddate: string; // 행사 종료일 (YYYYMMDD)
+}
+
 /**
  * 관광지 상세 정보 (detailCommon2 응답)
  */
@@ -99,36 +157,208 @@ export interface TourDetail {
 }
 
 /**
- * 관광지 소개 정보 (detailIntro2 응답)
- * 타입별로 필드가 다르므로 공통 필드만 정의
+ * 관광지 소개 정보 공통 필드 (detailIntro2 응답)
  */
-export interface TourIntro {
+interface TourIntroBase {
   contentid: string;
-  contenttypeid: string;
-  // 공통 필드
-  infocenter?: string; // 문의처
-  restdate?: string; // 휴무일
-  usetime?: string; // 이용시간/개장시간
-  parking?: string; // 주차 가능
-  chkpet?: string; // 반려동물 동반 가능 여부
-  // 관광지(12), 문화시설(14) 공통
-  expguide?: string; // 체험 안내
-  // 관광지(12) 전용
+}
+
+/**
+ * 관광지(12) 소개 정보
+ * heritage1~3은 유네스코 유산 여부 ("1": 해당)
+ */
+export interface TouristSpotIntro extends TourIntroBase {
+  contenttypeid: typeof CONTENT_TYPE.TOURIST_SPOT;
+  accomcount?: string; // 수용인원
+  chkbabycarriage?: string; // 유모차 대여 정보
+  chkcreditcard?: string; // 신용카드 가능 정보
+  chkpet?: string; // 애완동물 동반 가능 정보
   expagerange?: string; // 체험 가능 연령
-  // 축제/행사(15) 전용
-  eventstartdate?: string; // 행사 시작일
+  expguide?: string; // 체험 안내
+  heritage1?: string; // 세계문화유산 유무
+  heritage2?: string; // 세계자연유산 유무
+  heritage3?: string; // 세계기록유산 유무
+  infocenter?: string; // 문의 및 안내
+  opendate?: string; // 개장일
+  parking?: string; // 주차시설
+  restdate?: string; // 쉬는날
+  useseason?: string; // 이용시기
+  usetime?: string; // 이용시간
+}
+
+/**
+ * 문화시설(14) 소개 정보
+ */
+export interface CulturalFacilityIntro extends TourIntroBase {
+  contenttypeid: typeof CONTENT_TYPE.CULTURAL_FACILITY;
+  accomcountculture?: string; // 수용인원
+  chkbabycarriageculture?: string; // 유모차 대여 정보
+  chkcreditcardculture?: string; // 신용카드 가능 정보
+  chkpetculture?: string; // 애완동물 동반 가능 정보
+  discountinfo?: string; // 할인정보
+  infocenterculture?: string; // 문의 및 안내
+  parkingculture?: string; // 주차시설
+  parkingfee?: string; // 주차요금
+  restdateculture?: string; // 쉬는날
+  usefee?: string; // 이용요금
+  usetimeculture?: string; // 이용시간
+  scale?: string; // 규모
+  spendtime?: string; // 관람 소요시간
+}
+
+/**
+ * 축제/행사(15) 소개 정보
+ * eventstartdate, eventenddate는 YYYYMMDD 형식
+ */
+export interface FestivalIntro extends TourIntroBase {
+  contenttypeid: typeof CONTENT_TYPE.FESTIVAL;
+  agelimit?: string; // 관람 가능 연령
+  bookingplace?: string; // 예매처
+  discountinfofestival?: string; // 할인정보
   eventenddate?: string; // 행사 종료일
+  eventhomepage?: string; // 행사 홈페이지
   eventplace?: string; // 행사 장소
-  // 레포츠(28) 전용
-  openperiod?: string; // 운영 기간
-  // 숙박(32) 전용
-  checkintime?: string; // 체크인 시간
-  checkouttime?: string; // 체크아웃 시간
-  // 음식점(39) 전용
+  eventstartdate?: string; // 행사 시작일
+  festivalgrade?: string; // 축제 등급
+  placeinfo?: string; // 행사장 위치 안내
+  playtime?: string; // 공연시간
+  program?: string; // 행사 프로그램
+  spendtimefestival?: string; // 관람 소요시간
+  sponsor1?: string; // 주최자 정보
+  sponsor1tel?: string; // 주최자 연락처
+  sponsor2?: string; // 주관사 정보
+  sponsor2tel?: string; // 주관사 연락처
+  subevent?: string; // 부대행사
+  usetimefestival?: string; // 이용요금
+}
+
+/**
+ * 여행코스(25) 소개 정보
+ */
+export interface TourCourseIntro extends TourIntroBase {
+  contenttypeid: typeof CONTENT_TYPE.TOUR_COURSE;
+  distance?: string; // 코스 총 거리
+  infocentertourcourse?: string; // 문의 및 안내
+  schedule?: string; // 코스 일정
+  taketime?: string; // 코스 총 소요시간
+  theme?: string; // 코스 테마
+}
+
+/**
+ * 레포츠(28) 소개 정보
+ */
+export interface LeisureSportsIntro extends TourIntroBase {
+  contenttypeid: typeof CONTENT_TYPE.LEISURE_SPORTS;
+  accomcountleports?: string; // 수용인원
+  chkbabycarriageleports?: string; // 유모차 대여 정보
+  chkcreditcardleports?: string; // 신용카드 가능 정보
+  chkpetleports?: string; // 애완동물 동반 가능 정보
+  expagerangeleports?: string; // 체험 가능 연령
+  infocenterleports?: string; // 문의 및 안내
+  openperiod?: string; // 개장기간
+  parkingfeeleports?: string; // 주차요금
+  parkingleports?: string; // 주차시설
+  reservation?: string; // 예약안내
+  restdateleports?: string; // 쉬는날
+  scaleleports?: string; // 규모
+  usefeeleports?: string; // 입장료
+  usetimeleports?: string; // 이용시간
+}
+
+/**
+ * 숙박(32) 소개 정보
+ * barbecue ~ sports 부대시설 여부는 "1": 있음, "0": 없음
+ */
+export interface AccommodationIntro extends TourIntroBase {
+  contenttypeid: typeof CONTENT_TYPE.ACCOMMODATION;
+  accomcountlodging?: string; // 수용 가능인원
+  checkintime?: string; // 입실 시간
+  checkouttime?: string; // 퇴실 시간
+  chkcooking?: string; // 객실 내 취사 여부
+  foodplace?: string; // 식음료장
+  infocenterlodging?: string; // 문의 및 안내
+  parkinglodging?: string; // 주차시설
+  pickup?: string; // 픽업 서비스
+  roomcount?: string; // 객실수
+  reservationlodging?: string; // 예약안내
+  reservationurl?: string; // 예약안내 홈페이지
+  roomtype?: string; // 객실유형
+  scalelodging?: string; // 규모
+  subfacility?: string; // 부대시설 (기타)
+  barbecue?: string; // 바비큐장
+  beauty?: string; // 뷰티시설
+  beverage?: string; // 식음료장
+  bicycle?: string; // 자전거 대여
+  campfire?: string; // 캠프파이어
+  fitness?: string; // 휘트니스센터
+  karaoke?: string; // 노래방
+  publicbath?: string; // 공용 샤워실
+  publicpc?: string; // 공용 PC실
+  sauna?: string; // 사우나실
+  seminar?: string; // 세미나실
+  sports?: string; // 스포츠시설
+  refundregulation?: string; // 환불규정
+}
+
+/**
+ * 쇼핑(38) 소개 정보
+ */
+export interface ShoppingIntro extends TourIntroBase {
+  contenttypeid: typeof CONTENT_TYPE.SHOPPING;
+  chkbabycarriageshopping?: string; // 유모차 대여 정보
+  chkcreditcardshopping?: string; // 신용카드 가능 정보
+  chkpetshopping?: string; // 애완동물 동반 가능 정보
+  culturecenter?: string; // 문화센터 바로가기
+  fairday?: string; // 장서는 날
+  infocentershopping?: string; // 문의 및 안내
+  opendateshopping?: string; // 개장일
+  opentime?: string; // 영업시간
+  parkingshopping?: string; // 주차시설
+  restdateshopping?: string; // 쉬는날
+  restroom?: string; // 화장실 설명
+  saleitem?: string; // 판매 품목
+  saleitemcost?: string; // 판매 품목별 가격
+  scaleshopping?: string; // 규모
+  shopguide?: string; // 매장안내
+}
+
+/**
+ * 음식점(39) 소개 정보
+ */
+export interface RestaurantIntro extends TourIntroBase {
+  contenttypeid: typeof CONTENT_TYPE.RESTAURANT;
+  chkcreditcardfood?: string; // 신용카드 가능 정보
+  discountinfofood?: string; // 할인정보
+  firstmenu?: string; // 대표 메뉴
+  infocenterfood?: string; // 문의 및 안내
+  kidsfacility?: string; // 어린이 놀이방 여부
+  lcnsno?: string; // 인허가번호
+  opendatefood?: string; // 개업일
   opentimefood?: string; // 영업시간
+  packing?: string; // 포장 가능
+  parkingfood?: string; // 주차시설
   reservationfood?: string; // 예약안내
+  restdatefood?: string; // 쉬는날
+  scalefood?: string; // 규모
+  seat?: string; // 좌석수
+  smoking?: string; // 금연/흡연 여부
+  treatmenu?: string; // 취급 메뉴
 }
 
+/**
+ * 관광지 소개 정보 (detailIntro2 응답)
+ * 관광 타입(contenttypeid)마다 필드 구성이 달라 타입별로 구분합니다.
+ */
+export type TourIntro =
+  | TouristSpotIntro
+  | CulturalFacilityIntro
+  | FestivalIntro
+  | TourCourseIntro
+  | LeisureSportsIntro
+  | AccommodationIntro
+  | ShoppingIntro
+  | RestaurantIntro;
+
 /**
  * 관광지 이미지 정보 (detailImage2 응답)
  */
@@ -140,6 +370,88 @@ export interface TourImage {
   serialnum?: string; // 일련번호
 }
 
+/**
+ * 숙박 객실 정보 (detailInfo2 응답, 숙박(32) 타입)
+ * 요금은 원 단위 숫자 문자열, 편의시설 여부는 "Y" / "N" 입니다.
+ */
+export interface TourRoomInfo {
+  contentid: string;
+  contenttypeid: string;
+  roomcode?: string; // 객실 코드
+  roomtitle: string; // 객실명
+  roomsize1?: string; // 객실 크기 (평)
+  roomsize2?: string; // 객실 크기 (㎡)
+  roomcount?: string; // 객실 수
+  roombasecount?: string; // 기준 인원
+  roommaxcount?: string; // 최대 인원
+  roomoffseasonminfee1?: string; // 비수기 주중 최소 요금
+  roomoffseasonminfee2?: string; // 비수기 주말 최소 요금
+  roompeakseasonminfee1?: string; // 성수기 주중 최소 요금
+  roompeakseasonminfee2?: string; // 성수기 주말 최소 요금
+  roomintro?: string; // 객실 소개
+  // 편의시설 여부 (Y/N)
+  roombathfacility?: string; // 목욕시설
+  roombath?: string; // 욕조
+  roomhometheater?: string; // 홈시어터
+  roomaircondition?: string; // 에어컨
+  roomtv?: string; // TV
+  roompc?: string; // PC
+  roomcable?: string; // 케이블 설치
+  roominternet?: string; // 인터넷
+  roomrefrigerator?: string; // 냉장고
+  roomtoiletries?: string; // 세면도구
+  roomsofa?: string; // 소파
+  roomcook?: string; // 취사용품
+  roomtable?: string; // 테이블
+  roomhairdryer?: string; // 드라이기
+  // 객실 이미지 (최대 5장)
+  roomimg1?: string;
+  roomimg1alt?: string;
+  roomimg2?: string;
+  roomimg2alt?: string;
+  roomimg3?: string;
+  roomimg3alt?: string;
+  roomimg4?: string;
+  roomimg4alt?: string;
+  roomimg5?: string;
+  roomimg5alt?: string;
+}
+
+/**
+ * 여행코스 경유지 (detailInfo2 응답, 여행코스(25) 타입)
+ */
+export interface TourCourseItem {
+  contentid: string;
+  contenttypeid: string;
+  subnum: string; // 코스 순서 (0부터)
+  subcontentid: string; // 경유지 콘텐츠 ID
+  subname: string; // 경유지명
+  subdetailoverview?: string; // 경유지 개요
+  subdetailimg?: string; // 경유지 이미지
+  subdetailalt?: string; // 경유지 이미지 설명
+}
+
+/**
+ * 반복 정보 항목 (detailInfo2 응답, 여행코스/숙박 외 타입)
+ * 입장료, 시설, 이용 안내 등 이름/내용 쌍으로 제공됩니다.
+ */
+export interface TourRepeatInfoItem {
+  contentid: string;
+  contenttypeid: string;
+  fldgubun?: string; // 일련번호 구분
+  infoname: string; // 제목 (예: 입장료)
+  infotext: string; // 내용
+  serialnum?: string; // 반복 일련번호
+}
+
+/**
+ * 반복 정보 조회 결과 (detailInfo2, 타입별로 항목 구조가 다름)
+ */
+export type TourRepeatInfo =
+  | { kind: "course"; items: TourCourseItem[] } // 여행코스(25): 순서대로 정렬된 경유지
+  | { kind: "room"; items: TourRoomInfo[] } // 숙박(32): 객실 목록
+  | { kind: "info"; items: TourRepeatInfoItem[] }; // 그 외: 이용 안내
+
 /**
  * 지역코드 정보 (areaCode2 응답)
  */
@@ -149,6 +461,43 @@ export interface AreaCode {
   rnum?: string; // 순번
 }
 
+/**
+ * 서비스 분류 코드 (categoryCode2 응답)
+ */
+export interface CategoryCode {
+  code: string; // 분류 코드 (대분류 A01, 중분류 A0101, 소분류 A01010100)
+  name: string; // 분류명
+  rnum?: string; // 순번
+}
+
+/**
+ * 서비스 분류 트리 노드 (대분류 → 중분류 → 소분류)
+ */
+export interface CategoryNode {
+  code: string;
+  name: string;
+  children: CategoryNode[]; // 하위 분류 (소분류는 빈 배열)
+}
+
+/**
+ * 분류 필터 (areaBasedList2, searchKeyword2의 cat1/cat2/cat3 파라미터)
+ */
+export interface CategoryFilter {
+  cat1?: string; // 대분류
+  cat2?: string; // 중분류
+  cat3?: string; // 소분류
+}
+
+/**
+ * 목록 조회 결과 (한 페이지의 항목 + 페이지 정보)
+ */
+export interface PagedResult<T> {
+  items: T[]; // 현재 페이지 항목
+  totalCount: number; // 전체 항목 수 (response.body.totalCount)
+  pageNo: number; // 현재 페이지 번호 (1부터)
+  numOfRows: number; // 페이지당 항목 수
+}
+
 /**
  * API 응답 래퍼 (공공 API 표준 응답 형식)
  */
@@ -203,24 +552,3 @@ export interface PetTourInfo {
   petinfo?: string; // 기타 반려동물 정보
   parking?: string; // 주차장 정보
 }
-
-/**
- * 좌표 변환 함수
- * 한국관광공사 API는 WGS84 좌표계를 사용하며, 이미 올바른 경도/위도 값을 제공합니다.
- * @param mapx WGS84 경도 (문자열 또는 숫자)
- * @param mapy WGS84 위도 (문자열 또는 숫자)
- * @returns WGS84 좌표계 좌표
- */
-export function convertCoordinates(
-  mapx: string | number,
-  mapy: string | number,
-): Coordinates {
-  const x = typeof mapx === "string" ? parseFloat(mapx) : mapx;
-  const y = typeof mapy === "string" ? parseFloat(mapy) : mapy;
-
-  // 한국관광공사 API는 이미 WGS84 좌표계를 사용하므로 변환 불필요
-  return {
-    lng: x,
-    lat: y,
-  };
-}
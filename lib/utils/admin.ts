@@ -0,0 +1,33 @@
+/**
+ * @file admin.ts
+ * @description 관리자 권한 확인 유틸리티
+ *
+ * ADMIN_CLERK_USER_IDS 환경변수(쉼표 구분)에 포함된 Clerk 사용자를 관리자로 판단합니다.
+ * 서버 사이드(Route Handler, Server Action)에서만 사용합니다.
+ *
+ * @dependencies
+ * - @clerk/nextjs/server: auth
+ */
+
+import { auth } from "@clerk/nextjs/server";
+
+/**
+ * 관리자 Clerk 사용자 ID 목록
+ */
+function getAdminUserIds(): string[] {
+  return (process.env.ADMIN_CLERK_USER_IDS || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+}
+
+/**
+ * 현재 로그인한 사용자가 관리자인지 확인
+ */
+export async function isAdminUser(): Promise<boolean> {
+  const { userId } = await auth();
+  if (!userId) {
+    return false;
+  }
+  return getAdminUserIds().includes(userId);
+}
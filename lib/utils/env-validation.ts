@@ -20,7 +20,7 @@ const REQUIRED_ENV_VARS = {
   SUPABASE_SERVICE_ROLE_KEY: "Supabase Service Role Key",
 
   // 한국관광공사 API (최소 하나는 필수)
-  // NEXT_PUBLIC_TOUR_API_KEY 또는 TOUR_API_KEY
+  // TOUR_API_KEYS, NEXT_PUBLIC_TOUR_API_KEY 또는 TOUR_API_KEY
 } as const;
 
 /**
@@ -32,6 +32,30 @@ const OPTIONAL_ENV_VARS = {
   NEXT_PUBLIC_SITE_URL: "Site URL",
   NEXT_PUBLIC_TOUR_API_KEY: "Tour API Key (Public)",
   TOUR_API_KEY: "Tour API Key (Server)",
+  TOUR_API_KEYS: "Tour API Key 목록 (쉼표 구분, 한도 초과 시 다음 키 사용)",
+  TOUR_API_DAILY_QUOTA: "Tour API 키별 일일 호출 한도 (기본: 1000)",
+  TOUR_API_BASE_URL: "Tour API Base URL (기본: apis.data.go.kr KorService2)",
+  TOUR_API_MOBILE_APP: "Tour API MobileApp 이름 (기본: MyTrip)",
+  TOUR_API_FAKE: "로컬 가짜 Tour API 서버 사용 (true/false)",
+  TOUR_API_RECORD: "Tour API 응답을 픽스처로 녹화 (true/false)",
+  TOUR_API_FIXTURES_DIR: "Tour API 픽스처 디렉터리 (기본: fixtures/tour-api)",
+  TOUR_API_CACHE: "Tour API 응답 캐시 사용 여부 (off로 설정 시 비활성화)",
+  TOUR_API_MAX_CONCURRENCY: "Tour API 최대 동시 요청 수 (기본: 4)",
+  TOUR_API_RPS: "Tour API 초당 요청 수 (기본: 10, 0이면 제한 없음)",
+  TOUR_API_TIMEOUT_MS: "Tour API 요청 타임아웃(ms) (기본: 10000)",
+  TOUR_API_CIRCUIT_BREAKER:
+    "Tour API 회로 차단기 사용 여부 (off로 설정 시 비활성화)",
+  TOUR_API_CIRCUIT_FAILURES: "Tour API 회로를 여는 연속 실패 횟수 (기본: 5)",
+  TOUR_API_CIRCUIT_OPEN_SECONDS:
+    "Tour API 회로가 열린 뒤 시험 요청까지 기다리는 시간(초) (기본: 30)",
+  LOG_LEVEL:
+    "로그 레벨 (기본: 프로덕션 info, 개발 debug, 모듈별: info,tour-api=debug)",
+  LOG_FORMAT: "로그 형식 (json/pretty, 기본: 프로덕션 json, 개발 pretty)",
+  ADMIN_CLERK_USER_IDS: "관리자 Clerk 사용자 ID 목록 (쉼표 구분)",
+  TOUR_CATALOG:
+    "관광지 카탈로그(Supabase 사본)로 목록/필터/검색/통계 조회 (on으로 설정 시 사용)",
+  TOUR_CATALOG_SYNC_SECRET:
+    "카탈로그 동기화 API 호출용 비밀값 (Authorization: Bearer, 예약 작업용)",
 } as const;
 
 interface ValidationResult {
@@ -61,18 +85,21 @@ export function validateEnvVars(strictMode = false): ValidationResult {
     }
   }
 
-  // 한국관광공사 API 키는 둘 중 하나는 필수
+  // 한국관광공사 API 키는 셋 중 하나는 필수
+  const hasKeyList = !!process.env.TOUR_API_KEYS?.trim();
   const hasPublicKey = !!process.env.NEXT_PUBLIC_TOUR_API_KEY;
   const hasServerKey = !!process.env.TOUR_API_KEY;
-  if (!hasPublicKey && !hasServerKey) {
-    missingVars.push("NEXT_PUBLIC_TOUR_API_KEY 또는 TOUR_API_KEY");
+  if (!hasKeyList && !hasPublicKey && !hasServerKey) {
+    missingVars.push(
+      "TOUR_API_KEYS, NEXT_PUBLIC_TOUR_API_KEY 또는 TOUR_API_KEY",
+    );
     if (strictMode && process.env.NODE_ENV === "production") {
       console.error(
-        "❌ 한국관광공사 API 키가 누락되었습니다. NEXT_PUBLIC_TOUR_API_KEY 또는 TOUR_API_KEY 중 하나는 필수입니다.",
+        "❌ 한국관광공사 API 키가 누락되었습니다. TOUR_API_KEYS, NEXT_PUBLIC_TOUR_API_KEY 또는 TOUR_API_KEY 중 하나는 필수입니다.",
       );
     } else {
       warnings.push(
-        "⚠️  한국관광공사 API 키가 누락되었습니다. NEXT_PUBLIC_TOUR_API_KEY 또는 TOUR_API_KEY 중 하나를 설정하세요.",
+        "⚠️  한국관광공사 API 키가 누락되었습니다. TOUR_API_KEYS, NEXT_PUBLIC_TOUR_API_KEY 또는 TOUR_API_KEY 중 하나를 설정하세요.",
       );
     }
   }
@@ -3,8 +3,23 @@
  * @description 전역 에러 처리 유틸리티 함수들
  *
  * API 에러, 네트워크 에러 등을 일관되게 처리하는 헬퍼 함수들입니다.
+ * 한국관광공사 API 에러는 lib/api/tour-api-errors.ts의 클래스로 구분합니다.
+ *
+ * @dependencies
+ * - lib/api/tour-api-errors.ts: TourApiError 클래스들
  */
 
+import {
+  TourApiError,
+  TourApiGatewayError,
+  TourApiHttpError,
+  TourApiNetworkError,
+  TourApiNotFoundError,
+  TourApiQuotaExceededError,
+  TourApiResultError,
+  TourApiTimeoutError,
+} from "@/lib/api/tour-api-errors";
+
 /**
  * 에러 객체에서 메시지를 안전하게 추출합니다.
  */
@@ -48,38 +63,19 @@ export function isApiError(error: unknown): error is {
 }
 
 /**
- * 네트워크 에러인지 확인합니다.
+ * 네트워크 에러인지 확인합니다 (연결 실패, 응답 시간 초과).
  */
 export function isNetworkError(error: unknown): boolean {
-  if (error instanceof TypeError) {
-    return (
-      error.message.includes("fetch") ||
-      error.message.includes("network") ||
-      error.message.includes("Failed to fetch")
-    );
-  }
-
-  if (error instanceof Error) {
-    return (
-      error.message.includes("network") ||
-      error.message.includes("ECONNREFUSED") ||
-      error.message.includes("timeout")
-    );
-  }
-
-  return false;
+  return (
+    error instanceof TourApiNetworkError || error instanceof TourApiTimeoutError
+  );
 }
 
 /**
  * 서버 에러인지 확인합니다 (500, 502, 503 등).
  */
 export function isServerError(error: unknown): boolean {
-  if (
-    error &&
-    typeof error === "object" &&
-    "isServerError" in error &&
-    typeof error.isServerError === "boolean"
-  ) {
+  if (error instanceof TourApiHttpError) {
     return error.isServerError;
   }
 
@@ -90,6 +86,33 @@ export function isServerError(error: unknown): boolean {
   return false;
 }
 
+/**
+ * 다시 시도하면 성공할 수 있는 에러인지 확인합니다 (재시도 버튼 표시용).
+ */
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof TourApiError && error.retryable;
+}
+
+/**
+ * 콘텐츠를 찾을 수 없는 에러인지 확인합니다.
+ */
+export function isNotFoundError(error: unknown): boolean {
+  return error instanceof TourApiNotFoundError;
+}
+
+/**
+ * 시각을 KST 기준 "M월 D일 HH:mm" 형식으로 변환합니다.
+ */
+function formatKstTime(date: Date): string {
+  return new Intl.DateTimeFormat("ko-KR", {
+    timeZone: "Asia/Seoul",
+    month: "long",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(date);
+}
+
 /**
  * API 에러를 사용자 친화적인 메시지로 변환합니다.
  */
@@ -97,21 +120,55 @@ export function formatApiError(error: unknown): string {
   const message = getErrorMessage(error);
 
   // 네트워크 에러
-  if (isNetworkError(error)) {
+  if (error instanceof TourApiNetworkError) {
     return "네트워크 연결을 확인해주세요. 인터넷 연결이 끊어졌을 수 있습니다.";
   }
 
-  // 서버 에러 (우선 처리)
-  if (isServerError(error)) {
-    return (
-      message ||
-      "한국관광공사 API 서버가 일시적으로 사용할 수 없습니다. 잠시 후 다시 시도해주세요."
-    );
+  // 응답 시간 초과
+  if (error instanceof TourApiTimeoutError) {
+    return "한국관광공사 API 응답 시간이 초과되었습니다. 잠시 후 다시 시도해주세요.";
   }
 
-  // API 에러
-  if (isApiError(error)) {
-    switch (error.status) {
+  // 콘텐츠 없음
+  if (error instanceof TourApiNotFoundError) {
+    return "요청한 관광지 정보를 찾을 수 없습니다.";
+  }
+
+  // 사용할 수 있는 인증키 없음: 원인이 인증키 에러면 조치 방법 안내
+  if (error instanceof TourApiQuotaExceededError) {
+    if (
+      error.cause instanceof TourApiResultError &&
+      error.cause.isKeyRejected
+    ) {
+      return formatApiError(error.cause);
+    }
+    return error.availableAt
+      ? `한국관광공사 API 호출 한도를 초과했습니다. ${formatKstTime(error.availableAt)} 이후 다시 시도해주세요.`
+      : message;
+  }
+
+  // 게이트웨이 에러 (인증키, 호출 한도): 조치 방법이 담긴 에러 메시지 사용
+  if (error instanceof TourApiGatewayError) {
+    return message;
+  }
+
+  // API 결과 코드 에러
+  if (error instanceof TourApiResultError) {
+    return error.retryable
+      ? "한국관광공사 API 서버가 일시적으로 사용할 수 없습니다. 잠시 후 다시 시도해주세요."
+      : message;
+  }
+
+  // HTTP 에러
+  const status =
+    error instanceof TourApiHttpError
+      ? error.status
+      : isApiError(error)
+        ? error.status
+        : null;
+
+  if (status !== null) {
+    switch (status) {
       case 400:
         return "잘못된 요청입니다. 입력한 정보를 확인해주세요.";
       case 401:
@@ -122,11 +179,10 @@ export function formatApiError(error: unknown): string {
         return "요청한 리소스를 찾을 수 없습니다.";
       case 429:
         return "요청이 너무 많습니다. 잠시 후 다시 시도해주세요.";
-      case 500:
-      case 502:
-      case 503:
-        return "한국관광공사 API 서버가 일시적으로 사용할 수 없습니다. 잠시 후 다시 시도해주세요.";
       default:
+        if (status >= 500 && status < 600) {
+          return "한국관광공사 API 서버가 일시적으로 사용할 수 없습니다. 잠시 후 다시 시도해주세요.";
+        }
         return message || "API 요청 중 오류가 발생했습니다.";
     }
   }
@@ -0,0 +1,133 @@
+/**
+ * @file festival.ts
+ * @description 축제/행사 날짜 유틸리티 함수
+ *
+ * searchFestival2의 YYYYMMDD 날짜 문자열을 다루는 함수들입니다.
+ * 날짜는 모두 한국 시간(KST) 기준으로 계산합니다.
+ *
+ * @exports toYmd - Date → YYYYMMDD (KST)
+ * @exports formatYmd - YYYYMMDD → 표시용 문자열 (2025.11.07)
+ * @exports getFestivalStatus - 진행중/예정/종료 상태 계산
+ * @exports getFestivalPresetRange - 이번 주말/이번 달 기간 계산
+ */
+
+/**
+ * 축제 상태
+ */
+export type FestivalStatus = "ongoing" | "upcoming" | "ended";
+
+/**
+ * 축제 상태 표시 이름
+ */
+export const FESTIVAL_STATUS_LABEL: Record<FestivalStatus, string> = {
+  ongoing: "진행중",
+  upcoming: "예정",
+  ended: "종료",
+};
+
+/**
+ * 기간 프리셋
+ */
+export type FestivalPreset = "weekend" | "month" | "custom";
+
+const KST_OFFSET_MS = 9 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Date의 UTC 날짜를 YYYYMMDD 문자열로 변환
+ */
+function utcDateToYmd(date: Date): string {
+  const year = date.getUTCFullYear();
+  const month = String(date.getUTCMonth() + 1).padStart(2, "0");
+  const day = String(date.getUTCDate()).padStart(2, "0");
+  return `${year}${month}${day}`;
+}
+
+/**
+ * Date를 KST 기준 YYYYMMDD 문자열로 변환
+ */
+export function toYmd(date: Date): string {
+  return utcDateToYmd(new Date(date.getTime() + KST_OFFSET_MS));
+}
+
+/**
+ * YYYYMMDD 문자열을 표시용으로 변환 (예: 2025.11.07)
+ * 형식이 맞지 않으면 원래 문자열을 반환합니다.
+ */
+export function formatYmd(ymd: string): string {
+  if (!/^\d{8}$/.test(ymd)) {
+    return ymd;
+  }
+  return `${ymd.substring(0, 4)}.${ymd.substring(4, 6)}.${ymd.substring(6, 8)}`;
+}
+
+/**
+ * YYYY-MM-DD (input[type=date]) → YYYYMMDD
+ */
+export function dateInputToYmd(value: string): string {
+  return value.replace(/-/g, "");
+}
+
+/**
+ * YYYYMMDD → YYYY-MM-DD (input[type=date])
+ */
+export function ymdToDateInput(ymd: string): string {
+  if (!/^\d{8}$/.test(ymd)) {
+    return "";
+  }
+  return `${ymd.substring(0, 4)}-${ymd.substring(4, 6)}-${ymd.substring(6, 8)}`;
+}
+
+/**
+ * 축제 상태 계산 (종료일이 없으면 시작일 하루 행사로 간주)
+ * @param startDate 행사 시작일 (YYYYMMDD)
+ * @param endDate 행사 종료일 (YYYYMMDD)
+ * @param today 기준일 (YYYYMMDD, 기본: 오늘)
+ */
+export function getFestivalStatus(
+  startDate: string,
+  endDate: string,
+  today: string = toYmd(new Date()),
+): FestivalStatus {
+  const end = endDate || startDate;
+  if (today < startDate) {
+    return "upcoming";
+  }
+  if (today > end) {
+    return "ended";
+  }
+  return "ongoing";
+}
+
+/**
+ * 프리셋 기간 계산
+ * - weekend: 이번 주 토요일 ~ 일요일 (주말이면 오늘 ~ 일요일)
+ * - month: 오늘 ~ 이번 달 마지막 날
+ * @param preset 기간 프리셋 (custom 제외)
+ * @param now 기준 시각 (기본: 현재)
+ */
+export function getFestivalPresetRange(
+  preset: Exclude<FestivalPreset, "custom">,
+  now: Date = new Date(),
+): { start: string; end: string } {
+  const kst = new Date(now.getTime() + KST_OFFSET_MS);
+  const dayOfWeek = kst.getUTCDay(); // 0: 일요일, 6: 토요일
+
+  if (preset === "weekend") {
+    if (dayOfWeek === 0) {
+      return { start: toYmd(now), end: toYmd(now) };
+    }
+    const saturday = new Date(now.getTime() + (6 - dayOfWeek) * DAY_MS);
+    const sunday = new Date(saturday.getTime() + DAY_MS);
+    return {
+      start: dayOfWeek === 6 ? toYmd(now) : toYmd(saturday),
+      end: toYmd(sunday),
+    };
+  }
+
+  // 다음 달 0일 = 이번 달 마지막 날
+  const lastDay = new Date(
+    Date.UTC(kst.getUTCFullYear(), kst.getUTCMonth() + 1, 0),
+  );
+  return { start: toYmd(now), end: utcDateToYmd(lastDay) };
+}
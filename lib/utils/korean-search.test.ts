@@ -0,0 +1,111 @@
+/**
+ * @file korean-search.test.ts
+ * @description 한글 검색 유틸리티 검증 (정규화, n-gram, 로마자 변환, 검색어 강조)
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  createSearchSnippet,
+  highlightSearchMatches,
+  normalizeSearchText,
+  romanizeHangul,
+  toSearchNgrams,
+} from "./korean-search";
+
+describe("normalizeSearchText", () => {
+  it("소문자로 바꾸고 공백과 기호를 제거한다", () => {
+    expect(normalizeSearchText("경복 궁 (Gyeongbokgung)")).toBe(
+      "경복궁gyeongbokgung",
+    );
+  });
+
+  it("값이 없으면 빈 문자열을 반환한다", () => {
+    expect(normalizeSearchText(undefined)).toBe("");
+    expect(normalizeSearchText(null)).toBe("");
+    expect(normalizeSearchText(" - ")).toBe("");
+  });
+});
+
+describe("toSearchNgrams", () => {
+  it("한글은 2글자, 영문/숫자는 단어 단위로 나눈다", () => {
+    expect(toSearchNgrams("N서울타워")).toEqual(["n", "서울", "울타", "타워"]);
+  });
+
+  it("한 글자 한글은 그대로 쓰고 중복은 제거한다", () => {
+    expect(toSearchNgrams("산")).toEqual(["산"]);
+    expect(toSearchNgrams("하하하")).toEqual(["하하"]);
+  });
+
+  it("띄어쓰기가 달라도 같은 n-gram을 만든다", () => {
+    expect(toSearchNgrams("해운대 해수욕장")).toEqual(
+      toSearchNgrams("해운대해수욕장"),
+    );
+  });
+});
+
+describe("romanizeHangul", () => {
+  it.each([
+    ["경복궁", "gyeongbokgung"],
+    ["해운대 해수욕장", "haeundaehaesuyokjang"],
+    ["불국사", "bulguksa"],
+    ["서울", "seoul"],
+  ])("%s → %s", (text, expected) => {
+    expect(romanizeHangul(text)).toBe(expected);
+  });
+
+  it("영문과 숫자는 소문자로 그대로 둔다", () => {
+    expect(romanizeHangul("N서울타워 2")).toBe("nseoultawo2");
+  });
+});
+
+describe("highlightSearchMatches", () => {
+  it("띄어쓰기가 다른 검색어도 원문 위치에 표시한다", () => {
+    expect(highlightSearchMatches("경복 궁 야간개장", "경복궁")).toEqual([
+      { text: "경복", match: true },
+      { text: " ", match: false },
+      { text: "궁", match: true },
+      { text: " 야간개장", match: false },
+    ]);
+  });
+
+  it("전체가 일치하지 않으면 2글자 n-gram으로 표시한다", () => {
+    expect(highlightSearchMatches("해운대 해수욕장", "해수욕")).toEqual([
+      { text: "해운대 ", match: false },
+      { text: "해수욕", match: true },
+      { text: "장", match: false },
+    ]);
+    expect(highlightSearchMatches("남산타워", "서울타워")).toEqual([
+      { text: "남산", match: false },
+      { text: "타워", match: true },
+    ]);
+  });
+
+  it("로마자 검색어는 해당 음절에 표시한다", () => {
+    expect(highlightSearchMatches("해운대 해수욕장", "haeundae")).toEqual([
+      { text: "해운대", match: true },
+      { text: " 해수욕장", match: false },
+    ]);
+  });
+
+  it("일치하는 부분이 없으면 전체를 불일치 구간으로 반환한다", () => {
+    expect(highlightSearchMatches("불국사", "석굴암")).toEqual([
+      { text: "불국사", match: false },
+    ]);
+  });
+});
+
+describe("createSearchSnippet", () => {
+  it("일치 구간 주변을 발췌하고 잘린 쪽에 말줄임표를 붙인다", () => {
+    const text = `${"가".repeat(50)} 경복궁 ${"나".repeat(50)}`;
+
+    const snippet = createSearchSnippet(text, "경복궁", 20);
+
+    expect(snippet?.[0]).toEqual({ text: "…", match: false });
+    expect(snippet?.[snippet.length - 1]).toEqual({ text: "…", match: false });
+    expect(snippet?.find((segment) => segment.match)?.text).toBe("경복궁");
+  });
+
+  it("일치하는 부분이 없으면 null을 반환한다", () => {
+    expect(createSearchSnippet("불국사와 석굴암", "해운대")).toBeNull();
+  });
+});
@@ -0,0 +1,342 @@
+/**
+ * @file korean-search.ts
+ * @description 한글 검색 유틸리티 (정규화, n-gram, 로마자 변환, 검색어 강조)
+ *
+ * 관광지 카탈로그 검색(supabase/migrations/tour_catalog_search.sql)의 검색 컬럼과
+ * 검색어를 같은 방식으로 계산합니다. DB 로캘과 무관하게 동작하도록 n-gram과
+ * 로마자 표기는 이 파일에서 계산해 저장합니다.
+ * API 모듈에 의존하지 않아 클라이언트 컴포넌트에서도 사용할 수 있습니다.
+ *
+ * 검색 규칙:
+ * - 정규화: 소문자, 공백/기호 제거 ("경복 궁" → "경복궁")
+ * - n-gram: 한글은 2글자 단위 (한 글자면 그대로), 영문/숫자는 단어 단위
+ * - 로마자: 국어의 로마자 표기법 (음절 단위, 음운 변화 미적용, "경복궁" → "gyeongbokgung")
+ *
+ * @exports normalizeSearchText - 검색용 정규화
+ * @exports toSearchNgrams - 검색용 n-gram
+ * @exports romanizeHangul - 한글 → 로마자 표기
+ * @exports highlightSearchMatches - 검색어 일치 구간 표시
+ * @exports createSearchSnippet - 검색어 주변 발췌
+ *
+ * @dependencies
+ * - lib/types/place.ts: SearchHighlightSegment
+ */
+
+import type { SearchHighlightSegment } from "@/lib/types/place";
+
+/**
+ * 한글 음절 범위 (가~힣)
+ */
+const HANGUL_START = 0xac00;
+const HANGUL_END = 0xd7a3;
+
+/**
+ * 초성 로마자 (ㄱ ㄲ ㄴ ㄷ ㄸ ㄹ ㅁ ㅂ ㅃ ㅅ ㅆ ㅇ ㅈ ㅉ ㅊ ㅋ ㅌ ㅍ ㅎ)
+ */
+const INITIALS = [
+  "g",
+  "kk",
+  "n",
+  "d",
+  "tt",
+  "r",
+  "m",
+  "b",
+  "pp",
+  "s",
+  "ss",
+  "",
+  "j",
+  "jj",
+  "ch",
+  "k",
+  "t",
+  "p",
+  "h",
+];
+
+/**
+ * 중성 로마자 (ㅏ ㅐ ㅑ ㅒ ㅓ ㅔ ㅕ ㅖ ㅗ ㅘ ㅙ ㅚ ㅛ ㅜ ㅝ ㅞ ㅟ ㅠ ㅡ ㅢ ㅣ)
+ */
+const MEDIALS = [
+  "a",
+  "ae",
+  "ya",
+  "yae",
+  "eo",
+  "e",
+  "yeo",
+  "ye",
+  "o",
+  "wa",
+  "wae",
+  "oe",
+  "yo",
+  "u",
+  "wo",
+  "we",
+  "wi",
+  "yu",
+  "eu",
+  "ui",
+  "i",
+];
+
+/**
+ * 종성 로마자 (없음 ㄱ ㄲ ㄳ ㄴ ㄵ ㄶ ㄷ ㄹ ㄺ ㄻ ㄼ ㄽ ㄾ ㄿ ㅀ ㅁ ㅂ ㅄ ㅅ ㅆ ㅇ ㅈ ㅊ ㅋ ㅌ ㅍ ㅎ)
+ */
+const FINALS = [
+  "",
+  "k",
+  "k",
+  "k",
+  "n",
+  "n",
+  "n",
+  "t",
+  "l",
+  "k",
+  "m",
+  "l",
+  "l",
+  "l",
+  "p",
+  "l",
+  "m",
+  "p",
+  "p",
+  "t",
+  "t",
+  "ng",
+  "t",
+  "t",
+  "k",
+  "t",
+  "p",
+  "t",
+];
+
+/**
+ * 검색에 쓰는 문자 (한글 음절, 영문, 숫자)
+ */
+const SEARCH_CHAR_PATTERN = /[가-힣a-z0-9]/;
+
+function isHangul(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code >= HANGUL_START && code <= HANGUL_END;
+}
+
+/**
+ * 한 글자를 검색용 문자로 변환 (검색에 쓰지 않는 문자는 빈 문자열)
+ */
+function toSearchChar(char: string): string {
+  const value = char.normalize("NFC").toLowerCase();
+  return SEARCH_CHAR_PATTERN.test(value) ? value : "";
+}
+
+/**
+ * 한 글자를 로마자로 변환 (한글 음절이 아니면 그대로)
+ */
+function romanizeChar(char: string): string {
+  if (!isHangul(char)) {
+    return char;
+  }
+  const index = char.charCodeAt(0) - HANGUL_START;
+  return (
+    INITIALS[Math.floor(index / 588)] +
+    MEDIALS[Math.floor((index % 588) / 28)] +
+    FINALS[index % 28]
+  );
+}
+
+/**
+ * 검색용 정규화 (소문자, 한글 음절/영문/숫자만 남김)
+ * @example normalizeSearchText("경복 궁 (Gyeongbokgung)") // "경복궁gyeongbokgung"
+ */
+export function normalizeSearchText(text: string | undefined | null): string {
+  if (!text) return "";
+
+  return Array.from(text.normalize("NFC")).map(toSearchChar).join("");
+}
+
+/**
+ * 검색용 n-gram (중복 제거)
+ * 한글은 연속된 음절의 2-gram(한 글자면 그대로), 영문/숫자는 연속된 문자열 전체를 씁니다.
+ * @example toSearchNgrams("N서울타워") // ["n", "서울", "울타", "타워"]
+ */
+export function toSearchNgrams(text: string | undefined | null): string[] {
+  const normalized = normalizeSearchText(text);
+  const ngrams = new Set<string>();
+
+  for (const run of normalized.match(/[가-힣]+|[a-z0-9]+/g) || []) {
+    if (!isHangul(run[0]) || run.length === 1) {
+      ngrams.add(run);
+      continue;
+    }
+    for (let i = 0; i < run.length - 1; i++) {
+      ngrams.add(run.slice(i, i + 2));
+    }
+  }
+
+  return Array.from(ngrams);
+}
+
+/**
+ * 한글 → 로마자 표기 (정규화 후 음절 단위 변환, 영문/숫자는 그대로)
+ * @example romanizeHangul("경복궁") // "gyeongbokgung"
+ */
+export function romanizeHangul(text: string | undefined | null): string {
+  return Array.from(normalizeSearchText(text)).map(romanizeChar).join("");
+}
+
+/**
+ * 원문의 검색용 문자와 원문 위치 (공백, 기호를 건너뛴 위치 대응)
+ */
+function indexSearchChars(chars: string[]): {
+  normalized: string;
+  positions: number[];
+} {
+  let normalized = "";
+  const positions: number[] = [];
+  chars.forEach((char, index) => {
+    const value = toSearchChar(char);
+    if (value) {
+      normalized += value;
+      positions.push(index);
+    }
+  });
+  return { normalized, positions };
+}
+
+/**
+ * needle이 나오는 모든 위치에 표시
+ */
+function markOccurrences(
+  haystack: string,
+  needle: string,
+  mark: (start: number, end: number) => void,
+): void {
+  if (!needle) return;
+  let from = haystack.indexOf(needle);
+  while (from !== -1) {
+    mark(from, from + needle.length);
+    from = haystack.indexOf(needle, from + 1);
+  }
+}
+
+/**
+ * 원문 글자별 검색어 일치 여부
+ * 검색어 전체 일치(띄어쓰기 무관) → 2글자 이상 n-gram 일치 → 로마자 일치 순으로 찾습니다.
+ */
+function getMatchMarks(chars: string[], query: string): boolean[] {
+  const marks = chars.map(() => false);
+  const normalizedQuery = normalizeSearchText(query);
+  if (!normalizedQuery) {
+    return marks;
+  }
+
+  const { normalized, positions } = indexSearchChars(chars);
+  // 정규화 위치 [start, end) → 원문 글자 (사이의 공백은 표시하지 않음)
+  const mark = (start: number, end: number) => {
+    for (let i = start; i < end; i++) {
+      marks[positions[i]] = true;
+    }
+  };
+
+  markOccurrences(normalized, normalizedQuery, mark);
+  if (!marks.includes(true)) {
+    for (const ngram of toSearchNgrams(normalizedQuery)) {
+      if (ngram.length >= 2) {
+        markOccurrences(normalized, ngram, mark);
+      }
+    }
+  }
+
+  // 로마자 검색어 ("gyeongbokgung") → 로마자로 바꾼 원문에서 찾아 해당 음절 표시
+  if (!marks.includes(true) && /^[a-z0-9]+$/.test(normalizedQuery)) {
+    let romanized = "";
+    const owners: number[] = [];
+    Array.from(normalized).forEach((char, index) => {
+      const value = romanizeChar(char);
+      romanized += value;
+      owners.push(...Array.from(value, () => index));
+    });
+    markOccurrences(romanized, normalizedQuery, (start, end) =>
+      mark(owners[start], owners[end - 1] + 1),
+    );
+  }
+
+  return marks;
+}
+
+/**
+ * 연속된 같은 표시의 글자를 구간으로 묶기
+ */
+function toSegments(
+  chars: string[],
+  marks: boolean[],
+): SearchHighlightSegment[] {
+  const segments: SearchHighlightSegment[] = [];
+  chars.forEach((char, index) => {
+    const last = segments[segments.length - 1];
+    if (last && last.match === marks[index]) {
+      last.text += char;
+    } else {
+      segments.push({ text: char, match: marks[index] });
+    }
+  });
+  return segments;
+}
+
+/**
+ * 검색어 일치 구간 표시 (띄어쓰기, 로마자 검색어도 원문 위치에 표시)
+ * @param text 원문
+ * @param query 검색어
+ * @returns 원문을 일치/불일치 구간으로 나눈 목록
+ */
+export function highlightSearchMatches(
+  text: string,
+  query: string,
+): SearchHighlightSegment[] {
+  const chars = Array.from(text);
+  return toSegments(chars, getMatchMarks(chars, query));
+}
+
+/**
+ * 검색어 주변 발췌 (개요 등 긴 텍스트)
+ * @param text 원문 (HTML 제거된 텍스트)
+ * @param query 검색어
+ * @param maxLength 발췌 길이 (기본: 80자)
+ * @returns 발췌 구간 목록 (앞뒤가 잘리면 "…" 포함), 일치하는 부분이 없으면 null
+ */
+export function createSearchSnippet(
+  text: string,
+  query: string,
+  maxLength = 80,
+): SearchHighlightSegment[] | null {
+  const chars = Array.from(text.replace(/\s+/g, " ").trim());
+  const marks = getMatchMarks(chars, query);
+  const first = marks.indexOf(true);
+  if (first === -1) {
+    return null;
+  }
+
+  // 일치 구간이 발췌의 앞쪽 1/4 지점에 오도록 시작 위치 조정
+  const start = Math.max(
+    0,
+    Math.min(first - Math.floor(maxLength / 4), chars.length - maxLength),
+  );
+  const end = Math.min(chars.length, start + maxLength);
+  const segments = toSegments(
+    chars.slice(start, end),
+    marks.slice(start, end),
+  );
+
+  if (start > 0) {
+    segments.unshift({ text: "…", match: false });
+  }
+  if (end < chars.length) {
+    segments.push({ text: "…", match: false });
+  }
+  return segments;
+}
@@ -0,0 +1,30 @@
+/**
+ * @file language-server.ts
+ * @description 콘텐츠 언어 조회 (Server Component용)
+ *
+ * 요청 쿠키에서 방문자가 선택한 콘텐츠 언어를 읽습니다.
+ * 언어 선택은 Navbar의 LanguageSwitcher가 쿠키에 저장합니다.
+ *
+ * @example
+ * ```tsx
+ * const lang = await getPreferredLanguage();
+ * const result = await getAreaBasedList("1", undefined, undefined, {}, 1, 20, {
+ *   lang,
+ * });
+ * ```
+ *
+ * @dependencies
+ * - lib/utils/language.ts: 언어 쿠키 이름, 값 변환
+ */
+
+import { cookies } from "next/headers";
+import type { TourLanguage } from "@/lib/types/tour";
+import { TOUR_LANGUAGE_COOKIE, toTourLanguage } from "./language";
+
+/**
+ * 방문자가 선택한 콘텐츠 언어 (쿠키가 없거나 잘못된 값이면 한국어)
+ */
+export async function getPreferredLanguage(): Promise<TourLanguage> {
+  const cookieStore = await cookies();
+  return toTourLanguage(cookieStore.get(TOUR_LANGUAGE_COOKIE)?.value);
+}
@@ -0,0 +1,43 @@
+/**
+ * @file language.ts
+ * @description 콘텐츠 언어 유틸리티 함수
+ *
+ * 방문자가 선택한 콘텐츠 언어(관광 정보를 받아올 한국관광공사 언어별 서비스)를
+ * 쿠키로 저장하고 읽을 때 사용하는 상수와 함수들입니다.
+ * 클라이언트 컴포넌트에서도 사용할 수 있도록 서버 전용 API를 사용하지 않습니다.
+ * (서버에서 쿠키 읽기: lib/utils/language-server.ts)
+ *
+ * @exports TOUR_LANGUAGE_COOKIE - 언어 쿠키 이름
+ * @exports DEFAULT_TOUR_LANGUAGE - 기본 언어 (한국어)
+ * @exports isTourLanguage - 지원하는 언어인지 확인
+ * @exports toTourLanguage - 쿠키 값을 언어로 변환 (지원하지 않으면 기본 언어)
+ */
+
+import { TOUR_LANGUAGE, type TourLanguage } from "@/lib/types/tour";
+
+/**
+ * 언어 쿠키 이름
+ */
+export const TOUR_LANGUAGE_COOKIE = "tour-lang";
+
+/**
+ * 기본 언어 (한국어, KorService2)
+ */
+export const DEFAULT_TOUR_LANGUAGE: TourLanguage = TOUR_LANGUAGE.KO;
+
+/**
+ * 지원하는 언어인지 확인합니다.
+ */
+export function isTourLanguage(value: unknown): value is TourLanguage {
+  return (
+    typeof value === "string" &&
+    (Object.values(TOUR_LANGUAGE) as string[]).includes(value)
+  );
+}
+
+/**
+ * 쿠키 값을 언어로 변환합니다. 지원하지 않는 값이면 기본 언어를 반환합니다.
+ */
+export function toTourLanguage(value: string | undefined | null): TourLanguage {
+  return isTourLanguage(value) ? value : DEFAULT_TOUR_LANGUAGE;
+}
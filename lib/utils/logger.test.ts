@@ -0,0 +1,84 @@
+/**
+ * @file logger.test.ts
+ * @description 구조화 로거 필드 직렬화 검증 (JSON Lines 출력)
+ */
+
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { createLogger, getLogLevel, redactSecrets } from "./logger";
+
+beforeAll(() => {
+  // 설정은 처음 로그를 남길 때 한 번만 읽으므로 먼저 지정
+  vi.stubEnv("LOG_FORMAT", "json");
+  vi.stubEnv("LOG_LEVEL", "error,tour-api=debug");
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+/**
+ * error 레벨 레코드 하나를 남기고 JSON으로 읽기
+ */
+function logRecord(fields: Record<string, unknown>): Record<string, unknown> {
+  const spy = vi.spyOn(console, "error").mockImplementation(() => {});
+  createLogger("test").error("메시지", fields);
+  expect(spy).toHaveBeenCalledTimes(1);
+  return JSON.parse(spy.mock.calls[0][0] as string);
+}
+
+describe("logger", () => {
+  it("최대 깊이보다 깊은 객체는 자리 표시 문자열로 바꾼다", () => {
+    const record = logRecord({ a: { b: { c: { d: { e: 1 } }, list: [[1]] } } });
+
+    expect(record.a).toEqual({
+      b: { c: { d: "[Object]" }, list: ["[Array]"] },
+    });
+  });
+
+  it("순환 참조가 있어도 레코드를 남긴다", () => {
+    const node: Record<string, unknown> = { name: "node" };
+    node.self = node;
+
+    const record = logRecord({ node });
+
+    expect(record.node).toEqual({ name: "node", self: "[Circular]" });
+  });
+
+  it("같은 객체를 여러 필드에서 참조해도 순환 참조로 보지 않는다", () => {
+    const shared = { id: 1 };
+
+    const record = logRecord({ first: shared, second: shared });
+
+    expect(record.first).toEqual({ id: 1 });
+    expect(record.second).toEqual({ id: 1 });
+  });
+
+  it("민감 정보 필드와 URL의 serviceKey를 가린다", () => {
+    const record = logRecord({
+      serviceKey: "secret",
+      url: "https://apis.data.go.kr/B551011/KorService2/areaCode2?serviceKey=abc&pageNo=1",
+    });
+
+    expect(record.serviceKey).toBe("***");
+    expect(record.url).toContain("serviceKey=***&pageNo=1");
+    expect(redactSecrets("?serviceKey=abc")).toBe("?serviceKey=***");
+  });
+
+  it("에러는 name, message, 에러 필드, stack으로 직렬화한다", () => {
+    const error = Object.assign(new Error("실패"), { code: "E1" });
+
+    const record = logRecord({ error });
+
+    expect(record.error).toMatchObject({
+      name: "Error",
+      message: "실패",
+      code: "E1",
+    });
+    expect((record.error as { stack?: string }).stack).toContain("실패");
+  });
+
+  it("하위 모듈은 가장 가까운 상위 모듈의 레벨을 따른다", () => {
+    expect(getLogLevel("tour-api.cache")).toBe("debug");
+    expect(getLogLevel("bookmark")).toBe("error");
+  });
+});
@@ -0,0 +1,321 @@
+/**
+ * @file logger.ts
+ * @description 구조화 로거 (서버용)
+ *
+ * 서버 코드(Tour API 클라이언트, 북마크 함수, 페이지)의 로그를 한 줄짜리 레코드로 남깁니다.
+ * 레코드에는 시각, 레벨, 모듈, 상관관계 ID(요청 컨텍스트, lib/utils/request-context.ts),
+ * 메시지와 필드(엔드포인트, 지연 시간 등)가 들어갑니다.
+ * console.group과 달리 동시 요청의 로그가 섞여도 레코드 단위로 구분할 수 있습니다.
+ *
+ * 주요 기능:
+ * 1. 출력 형식 (프로덕션: JSON Lines, 개발: 사람이 읽기 쉬운 한 줄)
+ * 2. 모듈별 로그 레벨 (LOG_LEVEL=info,tour-api=debug, 하위 모듈은 상위 모듈 설정을 따름)
+ * 3. 민감 정보 마스킹 (serviceKey 등 필드, URL의 serviceKey 파라미터)
+ * 4. 에러 직렬화 (name, message, code 등 에러 필드, stack)
+ * 5. 하위 로거 (공통 필드 고정, child)
+ *
+ * 환경변수:
+ * - LOG_LEVEL: 기본 레벨과 모듈별 레벨 (예: "warn,tour-api=debug,bookmark=info")
+ *   (기본: 프로덕션 info, 개발 debug)
+ * - LOG_FORMAT: json | pretty (기본: 프로덕션 json, 개발 pretty)
+ *
+ * 모듈 이름은 점으로 계층을 나눕니다 (예: tour-api.cache는 tour-api 설정을 따름).
+ *
+ * @example
+ * ```ts
+ * const logger = createLogger("bookmark");
+ * logger.info("북마크 추가", { contentId });
+ * logger.error("북마크 추가 실패", { contentId, error });
+ * ```
+ *
+ * @dependencies
+ * - lib/utils/request-context.ts: 상관관계 ID
+ */
+
+import { getRequestContext } from "./request-context";
+
+/**
+ * 로그 레벨 (낮은 순)
+ */
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+/**
+ * 로그 필드 (레코드에 그대로 기록, 에러는 직렬화)
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * 로그 레코드 (JSON Lines 한 줄)
+ */
+export interface LogRecord {
+  time: string; // ISO 시각
+  level: LogLevel; // 로그 레벨
+  module: string; // 모듈 이름 (예: tour-api)
+  requestId?: string; // 상관관계 ID (요청 컨텍스트 밖이면 없음)
+  msg: string; // 메시지
+  [field: string]: unknown; // 필드
+}
+
+/**
+ * 로거 인터페이스
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  child(fields: LogFields): Logger; // 공통 필드를 고정한 하위 로거
+}
+
+/**
+ * 로그 설정 (환경변수에서 한 번만 읽음)
+ */
+interface LogConfig {
+  defaultLevel: LogLevel; // 기본 레벨
+  moduleLevels: Map<string, LogLevel>; // 모듈별 레벨
+  format: "json" | "pretty"; // 출력 형식
+}
+
+/**
+ * 마스킹할 필드 이름
+ */
+const REDACTED_FIELD_PATTERN =
+  /^(servicekey|apikey|authorization|password|secret|token)$/i;
+
+/**
+ * URL, 에러 메시지 안의 serviceKey 파라미터
+ */
+const SERVICE_KEY_PARAM_PATTERN = /([?&]serviceKey=)[^&\s"]+/gi;
+
+const REDACTED = "***";
+
+/**
+ * 필드 직렬화 최대 깊이 (순환 참조, 큰 응답 방지)
+ */
+const MAX_FIELD_DEPTH = 4;
+
+let logConfig: LogConfig | null = null;
+
+function isLogLevel(value: string): value is LogLevel {
+  return (LOG_LEVELS as readonly string[]).includes(value);
+}
+
+/**
+ * 환경변수에서 로그 설정 읽기
+ * LOG_LEVEL의 "모듈=레벨" 항목은 모듈별 레벨, 그 외 항목은 기본 레벨입니다.
+ */
+function getLogConfig(): LogConfig {
+  if (logConfig) {
+    return logConfig;
+  }
+
+  const isProduction = process.env.NODE_ENV === "production";
+  const config: LogConfig = {
+    defaultLevel: isProduction ? "info" : "debug",
+    moduleLevels: new Map(),
+    format:
+      process.env.LOG_FORMAT === "json" || process.env.LOG_FORMAT === "pretty"
+        ? process.env.LOG_FORMAT
+        : isProduction
+          ? "json"
+          : "pretty",
+  };
+
+  for (const entry of (process.env.LOG_LEVEL || "").split(",")) {
+    const [name, level] = entry.includes("=")
+      ? entry.split("=").map((part) => part.trim())
+      : ["", entry.trim()];
+    const normalizedLevel = level?.toLowerCase() || "";
+    if (!isLogLevel(normalizedLevel)) {
+      continue;
+    }
+    if (name) {
+      config.moduleLevels.set(name, normalizedLevel);
+    } else {
+      config.defaultLevel = normalizedLevel;
+    }
+  }
+
+  logConfig = config;
+  return config;
+}
+
+/**
+ * 모듈의 로그 레벨 (가장 가까운 상위 모듈 설정 → 기본 레벨)
+ * @param module 모듈 이름 (예: "tour-api.cache")
+ */
+export function getLogLevel(module: string): LogLevel {
+  const { defaultLevel, moduleLevels } = getLogConfig();
+
+  for (let name = module; name; ) {
+    const level = moduleLevels.get(name);
+    if (level) {
+      return level;
+    }
+    const dot = name.lastIndexOf(".");
+    name = dot > 0 ? name.slice(0, dot) : "";
+  }
+
+  return defaultLevel;
+}
+
+/**
+ * URL, 문자열 안의 serviceKey 값을 가립니다.
+ */
+export function redactSecrets(value: string): string {
+  return value.replace(SERVICE_KEY_PARAM_PATTERN, `$1${REDACTED}`);
+}
+
+/**
+ * 필드 값을 JSON으로 기록할 수 있는 값으로 변환 (에러 직렬화, 민감 정보 마스킹)
+ * 최대 깊이보다 깊은 객체와 순환 참조는 자리 표시 문자열로 바꿉니다.
+ * @param ancestors 현재 값까지 거쳐 온 객체 (순환 참조 확인용)
+ */
+function serializeField(
+  value: unknown,
+  depth = 0,
+  ancestors: Set<object> = new Set(),
+): unknown {
+  if (typeof value === "string") {
+    return redactSecrets(value);
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (ancestors.has(value)) {
+    return "[Circular]";
+  }
+  if (depth >= MAX_FIELD_DEPTH) {
+    return Array.isArray(value) ? "[Array]" : "[Object]";
+  }
+
+  ancestors.add(value);
+  try {
+    if (Array.isArray(value)) {
+      return value.map((item) => serializeField(item, depth + 1, ancestors));
+    }
+
+    // 에러: name, message, 에러 필드(code, endpoint, status 등), stack
+    const source =
+      value instanceof Error
+        ? {
+            name: value.name,
+            message: value.message,
+            ...value,
+            stack: value.stack,
+          }
+        : value;
+
+    return Object.fromEntries(
+      Object.entries(source)
+        .filter(([, field]) => field !== undefined)
+        .map(([key, field]) => [
+          key,
+          REDACTED_FIELD_PATTERN.test(key)
+            ? REDACTED
+            : serializeField(field, depth + 1, ancestors),
+        ]),
+    );
+  } finally {
+    ancestors.delete(value);
+  }
+}
+
+/**
+ * 개발용 한 줄 출력 (시각 레벨 [모듈] 메시지 필드=값 (req=ID 앞 8자리))
+ * 에러 stack은 다음 줄부터 출력합니다.
+ */
+function formatPretty(record: LogRecord): string {
+  const { time, level, module, requestId, msg, ...fields } = record;
+  const stacks: string[] = [];
+  const pairs = Object.entries(fields).map(([key, value]) => {
+    if (value && typeof value === "object" && "stack" in value) {
+      const { stack, ...error } = value as { stack?: string };
+      if (stack) {
+        stacks.push(stack);
+      }
+      return `${key}=${JSON.stringify(error)}`;
+    }
+    const text = typeof value === "string" ? value : JSON.stringify(value);
+    return `${key}=${text}`;
+  });
+
+  return [
+    time.slice(11, 23),
+    level.toUpperCase().padEnd(5),
+    `[${module}]`,
+    msg,
+    ...pairs,
+    requestId ? `(req=${requestId.slice(0, 8)})` : "",
+    ...stacks.map((stack) => `\n${stack}`),
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+/**
+ * 레코드 출력 (warn/error는 stderr)
+ */
+function writeRecord(record: LogRecord, format: LogConfig["format"]): void {
+  const line =
+    format === "json" ? JSON.stringify(record) : formatPretty(record);
+
+  if (record.level === "error") {
+    console.error(line);
+  } else if (record.level === "warn") {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+}
+
+/**
+ * 모듈 로거 생성
+ * @param module 모듈 이름 (로그 레벨 설정 단위, 예: "tour-api", "page.home")
+ * @param baseFields 모든 레코드에 넣을 필드
+ */
+export function createLogger(
+  module: string,
+  baseFields: LogFields = {},
+): Logger {
+  const log = (level: LogLevel, message: string, fields?: LogFields) => {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(getLogLevel(module))) {
+      return;
+    }
+
+    const requestId = getRequestContext()?.requestId;
+    const record: LogRecord = {
+      time: new Date().toISOString(),
+      level,
+      module,
+      ...(requestId ? { requestId } : {}),
+      msg: message,
+      ...(serializeField({ ...baseFields, ...fields }) as LogFields),
+    };
+    writeRecord(record, getLogConfig().format);
+  };
+
+  return {
+    debug: (message, fields) => log("debug", message, fields),
+    info: (message, fields) => log("info", message, fields),
+    warn: (message, fields) => log("warn", message, fields),
+    error: (message, fields) => log("error", message, fields),
+    child: (fields) => createLogger(module, { ...baseFields, ...fields }),
+  };
+}
+
+/**
+ * 아무것도 출력하지 않는 로거 (테스트, 스크립트용)
+ */
+export const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+  child: () => silentLogger,
+};
@@ -0,0 +1,298 @@
+/**
+ * @file place.ts
+ * @description 한국관광공사 API 응답 → 관광지 도메인 모델(Place) 변환
+ *
+ * API 응답의 문자열 값을 컴포넌트가 바로 쓸 수 있는 값으로 정규화합니다.
+ * 서버 컴포넌트(페이지)에서 API 응답을 Place로 변환해 컴포넌트에 전달합니다.
+ * 분류명 경로는 페이지에서 분류 트리로 조회해 옵션으로 전달합니다
+ * (lib/api/category-api.ts의 getCategoryPath). 이 파일은 API 모듈에 의존하지 않아
+ * 클라이언트 컴포넌트에서도 사용할 수 있습니다.
+ *
+ * 주요 기능:
+ * 1. 날짜 변환 (YYYYMMDDHHmmss, YYYYMMDD → Date, KST 기준)
+ * 2. 좌표 변환 (mapx/mapy 문자열 → 숫자 lat/lng)
+ * 3. 홈페이지 URL 추출 (<a href> HTML, 프로토콜 없는 URL)
+ * 4. 전화번호 정규화 (HTML 제거, 여러 번호 분리)
+ * 5. 개요 텍스트/HTML 분리
+ * 6. 관광 타입명 변환
+ * 7. 검색어 일치 구간 (키워드 검색 결과의 관광지명, 주소, 개요 발췌)
+ *
+ * @exports toPlace - 목록 항목(TourItem, FestivalItem) → Place
+ * @exports toPlaceFromDetail - 상세 정보(TourDetail) → Place
+ * @exports parseTourApiDate - API 날짜 문자열 → Date
+ * @exports parseHomepage - homepage 값 → URL, 표시 텍스트
+ * @exports parsePhoneNumbers - tel 값 → 전화번호 목록
+ * @exports toTelHref - 전화번호 → tel: 링크
+ * @exports comparePlacesByModified - 수정일 내림차순 비교 함수
+ *
+ * @dependencies
+ * - lib/types/place.ts: Place
+ * - lib/types/tour.ts: TourItem, FestivalItem, TourDetail, CONTENT_TYPE_NAME
+ * - lib/utils/image.ts: normalizeImageUrl
+ * - lib/utils/korean-search.ts: highlightSearchMatches, createSearchSnippet
+ * - lib/utils/text.ts: sanitizeText
+ */
+
+import type {
+  Place,
+  PlacePeriod,
+  PlaceSearchHighlight,
+} from "@/lib/types/place";
+import {
+  CONTENT_TYPE_NAME,
+  type ContentTypeId,
+  type FestivalItem,
+  type TourDetail,
+  type TourItem,
+} from "@/lib/types/tour";
+import { normalizeImageUrl } from "@/lib/utils/image";
+import {
+  createSearchSnippet,
+  highlightSearchMatches,
+} from "@/lib/utils/korean-search";
+import { sanitizeText } from "@/lib/utils/text";
+
+/**
+ * Place 변환 옵션
+ */
+export interface ToPlaceOptions {
+  categoryPath?: string[]; // 분류명 경로 (getCategoryPath, 대분류 → 소분류)
+  searchKeyword?: string; // 검색어 (있으면 검색어 일치 구간 계산)
+}
+
+/**
+ * API 날짜 형식 (YYYYMMDD + 선택 HHmmss)
+ */
+const API_DATE_PATTERN = /^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2}))?$/;
+
+/**
+ * API 날짜 문자열을 Date로 변환합니다.
+ * - YYYYMMDDHHmmss (createdtime, modifiedtime), YYYYMMDD (행사 기간): KST 기준
+ * - 그 외 (ISO 문자열 등): Date 생성자로 해석
+ * @returns 변환한 Date (값이 없거나 올바르지 않으면 null)
+ */
+export function parseTourApiDate(
+  value: string | undefined | null,
+): Date | null {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  const match = trimmed.match(API_DATE_PATTERN);
+  if (match) {
+    const [, year, month, day, hour = "00", minute = "00", second = "00"] =
+      match;
+    const date = new Date(
+      `${year}-${month}-${day}T${hour}:${minute}:${second}+09:00`,
+    );
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const date = new Date(trimmed);
+
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * 홈페이지 값에서 URL과 표시 텍스트를 추출합니다.
+ * - <a href="...">텍스트</a> 형식이면 첫 번째 링크 사용
+ * - 프로토콜이 없으면 https:// 추가
+ * @returns URL과 표시 텍스트 (URL이 없으면 null)
+ */
+export function parseHomepage(
+  homepage: string | undefined | null,
+): { url: string; label: string } | null {
+  if (!homepage || homepage.trim() === "") {
+    return null;
+  }
+
+  const hrefMatch = homepage.match(/href=["']([^"']+)["']/i);
+  const textMatch = homepage.match(/<a[^>]*>([^<]+)<\/a>/i);
+  const rawUrl = (hrefMatch ? hrefMatch[1] : sanitizeText(homepage))
+    .split(/\s+/)[0]
+    ?.trim();
+  if (!rawUrl) {
+    return null;
+  }
+
+  const url = /^https?:\/\//i.test(rawUrl) ? rawUrl : `https://${rawUrl}`;
+  const label = textMatch?.[1]?.trim() || rawUrl;
+  return { url, label };
+}
+
+/**
+ * 전화번호 값을 번호 목록으로 변환합니다.
+ * HTML을 제거하고, 여러 번호(<br>, 쉼표, 슬래시, 줄바꿈 구분)를 나눕니다.
+ * 숫자가 없는 항목은 제외합니다.
+ */
+export function parsePhoneNumbers(tel: string | undefined | null): string[] {
+  if (!tel) {
+    return [];
+  }
+
+  return sanitizeText(tel)
+    .split(/[\n,/]/)
+    .map((phone) => phone.trim())
+    .filter((phone) => /\d/.test(phone));
+}
+
+/**
+ * 전화번호를 tel: 링크로 변환 (숫자, +, - 외 문자 제거)
+ */
+export function toTelHref(phone: string): string {
+  return `tel:${phone.replace(/[^\d+-]/g, "")}`;
+}
+
+/**
+ * 숫자 문자열(좌표, 거리)을 숫자로 변환 (값이 없거나 숫자가 아니면 null)
+ */
+function parseNumber(value: string | undefined): number | null {
+  if (!value || value.trim() === "") {
+    return null;
+  }
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * 행사 기간 변환 (종료일이 없으면 시작일 하루 행사로 간주)
+ */
+function parseEventPeriod(
+  startDate: string | undefined,
+  endDate: string | undefined,
+): PlacePeriod | null {
+  const start = parseTourApiDate(startDate);
+  if (!start) {
+    return null;
+  }
+  return { start, end: parseTourApiDate(endDate) || start };
+}
+
+/**
+ * 목록 항목과 상세 정보의 공통 필드
+ */
+type PlaceSource = Pick<
+  TourDetail,
+  | "contentid"
+  | "contenttypeid"
+  | "title"
+  | "addr1"
+  | "addr2"
+  | "tel"
+  | "firstimage"
+  | "firstimage2"
+  | "mapx"
+  | "mapy"
+  | "modifiedtime"
+>;
+
+/**
+ * 공통 필드 변환 (목록/상세 전용 필드는 빈 값)
+ */
+function toBasePlace(source: PlaceSource, options: ToPlaceOptions): Place {
+  const categoryPath = options.categoryPath || [];
+  const address = source.addr1?.trim() || "";
+  const addressDetail = source.addr2?.trim() || undefined;
+
+  return {
+    id: source.contentid,
+    contentTypeId: source.contenttypeid,
+    typeName:
+      CONTENT_TYPE_NAME[source.contenttypeid as ContentTypeId] || "관광지",
+    categoryPath,
+    categoryName: categoryPath[categoryPath.length - 1],
+    title: source.title,
+    address,
+    addressDetail,
+    fullAddress: addressDetail ? `${address} ${addressDetail}` : address,
+    region: address.split(" ")[0] || undefined,
+    lat: parseNumber(source.mapy),
+    lng: parseNumber(source.mapx),
+    imageUrl:
+      normalizeImageUrl(source.firstimage || source.firstimage2) || undefined,
+    phoneNumbers: parsePhoneNumbers(source.tel),
+    createdAt: null,
+    modifiedAt: parseTourApiDate(source.modifiedtime),
+    distanceMeters: null,
+    eventPeriod: null,
+  };
+}
+
+/**
+ * 검색어 일치 구간 계산 (관광지명, 주소, 개요 발췌)
+ */
+function getSearchHighlight(
+  place: Place,
+  overview: string | undefined,
+  keyword: string,
+): PlaceSearchHighlight {
+  const overviewText = sanitizeText(overview);
+  return {
+    title: highlightSearchMatches(place.title, keyword),
+    address: highlightSearchMatches(place.fullAddress, keyword),
+    snippet: overviewText ? createSearchSnippet(overviewText, keyword) : null,
+  };
+}
+
+/**
+ * 목록 항목(areaBasedList2, searchKeyword2, searchFestival2 등)을 Place로 변환합니다.
+ * @param item 관광지 목록 항목 (축제 목록 항목이면 행사 기간 포함)
+ * @param options 변환 옵션 (분류명 경로, 검색어)
+ */
+export function toPlace(
+  item: TourItem | FestivalItem,
+  options: ToPlaceOptions = {},
+): Place {
+  const festival = item as Partial<FestivalItem>;
+
+  const place: Place = {
+    ...toBasePlace(item, options),
+    areaCode: item.areacode || undefined,
+    distanceMeters: parseNumber(item.dist),
+    eventPeriod: parseEventPeriod(
+      festival.eventstartdate,
+      festival.eventenddate,
+    ),
+    petInfo: item.petInfo,
+  };
+
+  const keyword = options.searchKeyword?.trim();
+  if (keyword) {
+    place.searchHighlight = getSearchHighlight(place, item.overview, keyword);
+  }
+  return place;
+}
+
+/**
+ * 상세 정보(detailCommon2)를 Place로 변환합니다.
+ * @param detail 관광지 상세 정보
+ * @param options 변환 옵션 (분류명 경로)
+ */
+export function toPlaceFromDetail(
+  detail: TourDetail,
+  options: ToPlaceOptions = {},
+): Place {
+  const homepage = parseHomepage(detail.homepage);
+  const overviewHtml = detail.overview?.trim() || undefined;
+
+  return {
+    ...toBasePlace(detail, options),
+    zipcode: detail.zipcode?.trim() || undefined,
+    homepageUrl: homepage?.url,
+    homepageLabel: homepage?.label,
+    overviewText: sanitizeText(overviewHtml) || undefined,
+    overviewHtml,
+    createdAt: parseTourApiDate(detail.createdtime),
+  };
+}
+
+/**
+ * 수정일 내림차순 비교 함수 (수정일이 없는 항목은 뒤로)
+ */
+export function comparePlacesByModified(a: Place, b: Place): number {
+  if (!a.modifiedAt && !b.modifiedAt) return 0;
+  if (!a.modifiedAt) return 1;
+  if (!b.modifiedAt) return -1;
+  return b.modifiedAt.getTime() - a.modifiedAt.getTime();
+}
@@ -0,0 +1,57 @@
+/**
+ * @file request-context-server.ts
+ * @description 요청 컨텍스트 설정 (Server Component, Server Action용)
+ *
+ * 미들웨어가 요청 헤더에 실은 상관관계 ID(x-request-id)로 요청 컨텍스트를 만듭니다.
+ * 페이지는 withRequestContext로 컴포넌트를 감싸고,
+ * Server Action은 함수 본문을 runInRequestContext로 실행합니다.
+ *
+ * @example
+ * ```tsx
+ * async function HomePage({ searchParams }: HomePageProps) { ... }
+ * export default withRequestContext(HomePage);
+ *
+ * export async function addBookmark(contentId: string) {
+ *   return runInRequestContext(async () => { ... });
+ * }
+ * ```
+ *
+ * @dependencies
+ * - lib/utils/request-context.ts: 요청 컨텍스트
+ */
+
+import { headers } from "next/headers";
+import {
+  REQUEST_ID_HEADER,
+  createRequestId,
+  getRequestContext,
+  normalizeRequestId,
+  runWithRequestContext,
+} from "./request-context";
+
+/**
+ * 요청 헤더의 상관관계 ID로 요청 컨텍스트를 만들고 함수를 실행합니다.
+ * 이미 요청 컨텍스트 안이면 그 컨텍스트를 그대로 사용합니다.
+ * 헤더에 ID가 없으면 (미들웨어를 거치지 않은 요청) 새 ID를 만듭니다.
+ */
+export async function runInRequestContext<T>(fn: () => Promise<T>): Promise<T> {
+  if (getRequestContext()) {
+    return fn();
+  }
+
+  const requestHeaders = await headers();
+  const requestId =
+    normalizeRequestId(requestHeaders.get(REQUEST_ID_HEADER)) ||
+    createRequestId();
+
+  return runWithRequestContext({ requestId }, fn);
+}
+
+/**
+ * 페이지 컴포넌트, generateMetadata를 요청 컨텍스트 안에서 실행하도록 감쌉니다.
+ */
+export function withRequestContext<Args extends unknown[], Result>(
+  handler: (...args: Args) => Promise<Result>,
+): (...args: Args) => Promise<Result> {
+  return (...args) => runInRequestContext(() => handler(...args));
+}
@@ -0,0 +1,77 @@
+/**
+ * @file request-context.ts
+ * @description 요청 컨텍스트 (상관관계 ID)
+ *
+ * 미들웨어가 요청마다 상관관계 ID(x-request-id)를 정하고 요청/응답 헤더에 싣습니다.
+ * 페이지와 Server Action은 헤더의 ID로 요청 컨텍스트를 만들고
+ * (lib/utils/request-context-server.ts), 그 안에서 실행되는 Tour API 호출과
+ * 북마크 함수의 로그(lib/utils/logger.ts)에 같은 ID가 기록됩니다.
+ * Next.js에 의존하지 않아 미들웨어(Edge)와 스크립트에서도 사용할 수 있습니다.
+ *
+ * @exports REQUEST_ID_HEADER - 상관관계 ID 헤더 이름
+ * @exports createRequestId - 새 상관관계 ID 생성
+ * @exports normalizeRequestId - 외부에서 받은 ID 검증
+ * @exports getRequestContext - 현재 요청 컨텍스트 조회
+ * @exports runWithRequestContext - 요청 컨텍스트 안에서 함수 실행
+ *
+ * @dependencies
+ * - node:async_hooks: AsyncLocalStorage
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+
+/**
+ * 상관관계 ID 헤더 이름
+ */
+export const REQUEST_ID_HEADER = "x-request-id";
+
+/**
+ * 외부에서 받은 상관관계 ID 형식 (로그 주입 방지)
+ */
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * 요청 컨텍스트
+ */
+export interface RequestContext {
+  requestId: string; // 상관관계 ID
+  staleData?: boolean; // API 장애로 마지막 캐시 응답을 사용했는지 (최신 데이터 안내 배너)
+}
+
+const requestContextStorage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * 새 상관관계 ID 생성 (UUID)
+ */
+export function createRequestId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * 외부(프록시, 클라이언트)에서 받은 상관관계 ID를 검증합니다.
+ * @returns 사용할 수 있는 ID (없거나 형식이 올바르지 않으면 null)
+ */
+export function normalizeRequestId(
+  value: string | undefined | null,
+): string | null {
+  const trimmed = value?.trim();
+  return trimmed && REQUEST_ID_PATTERN.test(trimmed) ? trimmed : null;
+}
+
+/**
+ * 현재 요청 컨텍스트 (요청 컨텍스트 밖이면 undefined)
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return requestContextStorage.getStore();
+}
+
+/**
+ * 요청 컨텍스트 안에서 함수를 실행합니다.
+ * 함수 안에서 시작한 비동기 작업(API 호출, 백그라운드 캐시 갱신 등)도 같은 컨텍스트를 사용합니다.
+ */
+export function runWithRequestContext<T>(
+  context: RequestContext,
+  fn: () => T,
+): T {
+  return requestContextStorage.run(context, fn);
+}
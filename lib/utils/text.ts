@@ -0,0 +1,22 @@
+/**
+ * @file text.ts
+ * @description API 텍스트 유틸리티 함수
+ *
+ * 한국관광공사 API 응답의 HTML이 섞인 텍스트를 화면 표시용으로 처리하는 함수들입니다.
+ *
+ * @exports sanitizeText - HTML 태그 제거 및 줄바꿈 처리
+ */
+
+/**
+ * HTML 태그를 제거하고 줄바꿈을 처리합니다.
+ * - <br>, <br/>, <br /> 태그를 줄바꿈으로 변환
+ * - 나머지 HTML 태그 제거
+ */
+export function sanitizeText(text: string | undefined | null): string {
+  if (!text) return "";
+
+  return text
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/?[^>]+(>|$)/g, "")
+    .trim();
+}
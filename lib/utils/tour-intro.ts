@@ -0,0 +1,154 @@
+/**
+ * @file tour-intro.ts
+ * @description 관광지 소개 정보 (detailIntro2) 유틸리티 함수
+ *
+ * detailIntro2는 관광 타입마다 같은 의미의 필드 이름이 다릅니다
+ * (예: 주차시설 - 관광지 parking, 문화시설 parkingculture, 음식점 parkingfood).
+ * 타입에 관계없이 공통 정보(문의처, 쉬는날, 이용시간, 주차, 반려동물)가 필요한 곳에서
+ * 이 파일의 함수로 타입별 필드를 하나로 모읍니다.
+ *
+ * @exports TourIntroSummary - 타입 공통 소개 정보
+ * @exports getTourIntroSummary - 타입별 소개 정보 → 공통 소개 정보
+ * @exports isPetLeashAllowed - detailPetTour2 chkpetleash 값의 동반 가능 여부
+ * @exports isChkpetAllowed - detailIntro2 chkpet 값의 동반 가능 여부
+ * @exports isParkingAvailable - 주차시설 값의 주차 가능 여부
+ */
+
+import { CONTENT_TYPE, type TourIntro } from "@/lib/types/tour";
+
+/**
+ * 타입 공통 소개 정보 (타입에 해당 정보가 없으면 undefined)
+ */
+export interface TourIntroSummary {
+  infocenter?: string; // 문의 및 안내
+  restdate?: string; // 쉬는날
+  usetime?: string; // 이용시간 (음식점/쇼핑은 영업시간)
+  parking?: string; // 주차시설
+  chkpet?: string; // 애완동물 동반 가능 정보
+}
+
+/**
+ * 타입별 소개 정보에서 공통 정보를 추출합니다.
+ * @param intro 관광지 소개 정보
+ */
+export function getTourIntroSummary(intro: TourIntro): TourIntroSummary {
+  switch (intro.contenttypeid) {
+    case CONTENT_TYPE.TOURIST_SPOT:
+      return {
+        infocenter: intro.infocenter,
+        restdate: intro.restdate,
+        usetime: intro.usetime,
+        parking: intro.parking,
+        chkpet: intro.chkpet,
+      };
+    case CONTENT_TYPE.CULTURAL_FACILITY:
+      return {
+        infocenter: intro.infocenterculture,
+        restdate: intro.restdateculture,
+        usetime: intro.usetimeculture,
+        parking: intro.parkingculture,
+        chkpet: intro.chkpetculture,
+      };
+    case CONTENT_TYPE.FESTIVAL:
+      return {
+        infocenter: intro.sponsor1tel,
+        usetime: intro.playtime,
+      };
+    case CONTENT_TYPE.TOUR_COURSE:
+      return {
+        infocenter: intro.infocentertourcourse,
+      };
+    case CONTENT_TYPE.LEISURE_SPORTS:
+      return {
+        infocenter: intro.infocenterleports,
+        restdate: intro.restdateleports,
+        usetime: intro.usetimeleports,
+        parking: intro.parkingleports,
+        chkpet: intro.chkpetleports,
+      };
+    case CONTENT_TYPE.ACCOMMODATION:
+      return {
+        infocenter: intro.infocenterlodging,
+        parking: intro.parkinglodging,
+      };
+    case CONTENT_TYPE.SHOPPING:
+      return {
+        infocenter: intro.infocentershopping,
+        restdate: intro.restdateshopping,
+        usetime: intro.opentime,
+        parking: intro.parkingshopping,
+        chkpet: intro.chkpetshopping,
+      };
+    case CONTENT_TYPE.RESTAURANT:
+      return {
+        infocenter: intro.infocenterfood,
+        restdate: intro.restdatefood,
+        usetime: intro.opentimefood,
+        parking: intro.parkingfood,
+      };
+    default: {
+      // 새 관광 타입이 추가되면 컴파일 오류로 알려줌
+      const unknownIntro: never = intro;
+      console.warn("[TourIntro] 지원하지 않는 관광 타입:", unknownIntro);
+      return {};
+    }
+  }
+}
+
+/**
+ * 동반 가능으로 보는 chkpetleash 값 (detailPetTour2)
+ */
+const PET_LEASH_ALLOWED_VALUES = ["가능", "Y", "가능함"];
+
+/**
+ * 동반 가능으로 보는 chkpet 값 (detailIntro2, 자유 입력이라 표기가 제각각)
+ */
+const CHKPET_ALLOWED_VALUES = [
+  "Y",
+  "y",
+  "가능",
+  "있음",
+  "있습니다",
+  "OK",
+  "ok",
+  "O",
+];
+
+/**
+ * 주차 불가로 보는 주차시설 값 (소문자, 앞뒤 공백 제거 후 비교)
+ */
+const PARKING_UNAVAILABLE_VALUES = [
+  "없음",
+  "불가",
+  "불가능",
+  "없습니다",
+  "n",
+  "no",
+];
+
+/**
+ * detailPetTour2 chkpetleash 값이 반려동물 동반 가능인지 확인
+ */
+export function isPetLeashAllowed(chkpetleash: string): boolean {
+  return PET_LEASH_ALLOWED_VALUES.includes(chkpetleash);
+}
+
+/**
+ * detailIntro2 chkpet 값이 반려동물 동반 가능인지 확인
+ */
+export function isChkpetAllowed(chkpet: string): boolean {
+  return CHKPET_ALLOWED_VALUES.includes(chkpet);
+}
+
+/**
+ * 주차시설 값이 주차 가능인지 확인 (빈 값, "없음", "불가" 등은 불가)
+ */
+export function isParkingAvailable(parking: string): boolean {
+  const value = parking.trim().toLowerCase();
+  return (
+    value !== "" &&
+    !PARKING_UNAVAILABLE_VALUES.includes(value) &&
+    !value.includes("불가") &&
+    !value.includes("없음")
+  );
+}
@@ -1,20 +1,48 @@
 import { clerkMiddleware, createRouteMatcher } from "@clerk/nextjs/server";
 import { NextResponse } from "next/server";
+import { createLogger } from "@/lib/utils/logger";
+import {
+  REQUEST_ID_HEADER,
+  createRequestId,
+  normalizeRequestId,
+  runWithRequestContext,
+} from "@/lib/utils/request-context";
 
-const isProtectedRoute = createRouteMatcher(["/bookmarks(.*)"]);
+const isProtectedRoute = createRouteMatcher(["/bookmarks(.*)", "/admin(.*)"]);
+
+const logger = createLogger("middleware");
+
+/**
+ * 상관관계 ID를 요청 헤더(페이지, Server Action에서 조회)와 응답 헤더에 싣고 요청을 통과시킴
+ */
+function nextWithRequestId(req: Request, requestId: string): NextResponse {
+  const requestHeaders = new Headers(req.headers);
+  requestHeaders.set(REQUEST_ID_HEADER, requestId);
+
+  const response = NextResponse.next({ request: { headers: requestHeaders } });
+  response.headers.set(REQUEST_ID_HEADER, requestId);
+  return response;
+}
 
 export default clerkMiddleware(async (auth, req) => {
-  try {
-    // 보호된 라우트만 인증 체크
-    if (isProtectedRoute(req)) {
-      await auth.protect();
+  // 프록시가 보낸 ID가 있으면 그대로 사용
+  const requestId =
+    normalizeRequestId(req.headers.get(REQUEST_ID_HEADER)) ||
+    createRequestId();
+
+  return runWithRequestContext({ requestId }, async () => {
+    try {
+      // 보호된 라우트만 인증 체크
+      if (isProtectedRoute(req)) {
+        await auth.protect();
+      }
+      return nextWithRequestId(req, requestId);
+    } catch (error) {
+      logger.error("미들웨어 오류", { path: req.nextUrl.pathname, error });
+      // 에러 발생시에도 요청을 통과시킴 (프로덕션에서는 로그만 남기고 계속 진행)
+      return nextWithRequestId(req, requestId);
     }
-    return NextResponse.next();
-  } catch (error) {
-    console.error("Middleware error:", error);
-    // 에러 발생시에도 요청을 통과시킴 (프로덕션에서는 로그만 남기고 계속 진행)
-    return NextResponse.next();
-  }
+  });
 });
 
 export const config = {
@@ -0,0 +1,56 @@
+-- =====================================================
+-- 마이그레이션: 한국관광공사 API 응답 캐시
+-- 작성일: 2026-10-18
+-- 설명: TourApiClient의 2단계 캐시(메모리 LRU → Supabase) 중 영구 캐시 테이블
+--       - cache_key: 서비스 + 엔드포인트 + 정규화된 파라미터
+--       - expires_at 이후 레코드는 만료 (stale 기간 포함)
+--       - 만료 후 7일 동안은 API 장애 시 마지막 정상 응답으로만 사용
+--       - 만료 후 7일이 지난 레코드는 TourApiCache가 1시간마다 삭제
+--         (TOUR_API_CACHE_RETENTION, cleanup_tour_api_cache()로 직접 정리 가능)
+--       - lib/api/tour-api-cache.ts의 SupabaseTourApiCacheStore에서 사용
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.tour_api_cache (
+    cache_key TEXT PRIMARY KEY,
+    endpoint TEXT NOT NULL,            -- 예: /areaBasedList2
+    params JSONB NOT NULL DEFAULT '{}'::jsonb,
+    payload JSONB NOT NULL,            -- items, totalCount, pageNo, numOfRows
+    stored_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.tour_api_cache OWNER TO postgres;
+
+-- 인덱스 생성 (엔드포인트별 삭제, 만료 레코드 정리)
+CREATE INDEX IF NOT EXISTS idx_tour_api_cache_endpoint ON public.tour_api_cache(endpoint);
+CREATE INDEX IF NOT EXISTS idx_tour_api_cache_expires_at ON public.tour_api_cache(expires_at);
+
+-- Row Level Security (RLS) 비활성화
+ALTER TABLE public.tour_api_cache DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여 (서버에서 service_role로만 접근)
+GRANT ALL ON TABLE public.tour_api_cache TO service_role;
+
+-- 테이블 설명
+COMMENT ON TABLE public.tour_api_cache IS '한국관광공사 API 응답 캐시 (TourApiClient 2단계 캐시)';
+COMMENT ON COLUMN public.tour_api_cache.cache_key IS '서비스/엔드포인트/정규화된 파라미터 (예: KorService2/detailCommon2?contentId=126508)';
+COMMENT ON COLUMN public.tour_api_cache.expires_at IS '이 시각 이후에는 stale 응답으로도 사용하지 않음 (API 장애 시 7일 동안 마지막 정상 응답으로만 사용, 이후 삭제)';
+
+-- 보관 기간이 지난 레코드 삭제 (pg_cron 등에서 주기적으로 호출 가능)
+CREATE OR REPLACE FUNCTION public.cleanup_tour_api_cache(
+    p_retention INTERVAL DEFAULT INTERVAL '7 days'
+) RETURNS INTEGER
+LANGUAGE sql
+AS $$
+    WITH deleted AS (
+        DELETE FROM public.tour_api_cache
+        WHERE expires_at <= now() - p_retention
+        RETURNING 1
+    )
+    SELECT count(*)::INTEGER FROM deleted;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cleanup_tour_api_cache(INTERVAL) TO service_role;
+
+COMMENT ON FUNCTION public.cleanup_tour_api_cache IS '만료 후 보관 기간(기본 7일)이 지난 캐시 레코드 삭제, 삭제한 레코드 수 반환';
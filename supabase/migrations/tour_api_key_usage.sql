@@ -0,0 +1,53 @@
+-- =====================================================
+-- 마이그레이션: 한국관광공사 API 인증키별 일일 호출 수
+-- 작성일: 2026-10-18
+-- 설명: data.go.kr 인증키별 일일 호출 한도 사용량 집계
+--       - key_id: 인증키 SHA-256 지문 앞 12자리 (인증키 원문은 저장하지 않음)
+--       - usage_date: KST 기준 날짜 (호출 한도는 KST 0시에 초기화)
+--       - lib/api/tour-api-quota.ts의 SupabaseTourApiQuotaStore에서 사용
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.tour_api_key_usage (
+    key_id TEXT NOT NULL,
+    usage_date DATE NOT NULL,
+    calls INTEGER NOT NULL DEFAULT 0,          -- 호출 수
+    quota_errors INTEGER NOT NULL DEFAULT 0,   -- 한도 초과 응답 수
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    PRIMARY KEY (key_id, usage_date)
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.tour_api_key_usage OWNER TO postgres;
+
+-- 인덱스 생성 (날짜별 조회)
+CREATE INDEX IF NOT EXISTS idx_tour_api_key_usage_date ON public.tour_api_key_usage(usage_date);
+
+-- Row Level Security (RLS) 비활성화
+ALTER TABLE public.tour_api_key_usage DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여 (서버에서 service_role로만 접근)
+GRANT ALL ON TABLE public.tour_api_key_usage TO service_role;
+
+-- 호출 수 증가 함수 (여러 서버 인스턴스가 동시에 더해도 누락되지 않도록 원자적으로 처리)
+CREATE OR REPLACE FUNCTION public.increment_tour_api_key_usage(
+    p_key_id TEXT,
+    p_usage_date DATE,
+    p_calls INTEGER,
+    p_quota_errors INTEGER
+) RETURNS VOID
+LANGUAGE sql
+AS $$
+    INSERT INTO public.tour_api_key_usage (key_id, usage_date, calls, quota_errors)
+    VALUES (p_key_id, p_usage_date, p_calls, p_quota_errors)
+    ON CONFLICT (key_id, usage_date) DO UPDATE
+    SET calls = public.tour_api_key_usage.calls + EXCLUDED.calls,
+        quota_errors = public.tour_api_key_usage.quota_errors + EXCLUDED.quota_errors,
+        updated_at = now();
+$$;
+
+GRANT EXECUTE ON FUNCTION public.increment_tour_api_key_usage(TEXT, DATE, INTEGER, INTEGER) TO service_role;
+
+-- 테이블 설명
+COMMENT ON TABLE public.tour_api_key_usage IS '한국관광공사 API 인증키별 일일 호출 수 (TourApiQuotaTracker)';
+COMMENT ON COLUMN public.tour_api_key_usage.key_id IS '인증키 SHA-256 지문 앞 12자리';
+COMMENT ON COLUMN public.tour_api_key_usage.usage_date IS 'KST 기준 날짜';
@@ -0,0 +1,157 @@
+-- =====================================================
+-- 마이그레이션: 한국관광공사 관광지 카탈로그 (로컬 사본)
+-- 작성일: 2026-10-19
+-- 설명: KorService2 관광지 목록을 Supabase에 복제해 목록/필터/통계를 SQL로 조회
+--       - tour_items: areaBasedList2 전체 가져오기 + areaBasedSyncList2 변경분 반영
+--       - tour_item_intros, tour_item_pet_info, tour_item_images: 상세 정보 (반려동물/주차 필터)
+--       - tour_catalog_sync: 동기화 작업별 체크포인트 (이어서 실행, 상태 페이지)
+--       - lib/api/tour-catalog.ts, lib/api/tour-catalog-sync.ts에서 사용
+-- =====================================================
+
+-- =====================================================
+-- tour_items 테이블 (관광지 목록)
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.tour_items (
+    content_id TEXT PRIMARY KEY,
+    content_type_id TEXT NOT NULL,
+    title TEXT NOT NULL,
+    addr1 TEXT NOT NULL DEFAULT '',
+    addr2 TEXT,
+    area_code TEXT,
+    sigungu_code TEXT,
+    cat1 TEXT,
+    cat2 TEXT,
+    cat3 TEXT,
+    map_x DOUBLE PRECISION,                 -- 경도
+    map_y DOUBLE PRECISION,                 -- 위도
+    first_image TEXT,
+    first_image2 TEXT,
+    tel TEXT,
+    created_time TEXT,                      -- 등록일 (YYYYMMDDHHmmss, API 형식)
+    modified_time TEXT NOT NULL,            -- 수정일 (YYYYMMDDHHmmss, API 형식)
+    pet_allowed BOOLEAN,                    -- 반려동물 동반 가능 (상세 정보가 없으면 NULL)
+    parking_available BOOLEAN,              -- 주차 가능 (상세 정보가 없으면 NULL)
+    details_synced_at TIMESTAMP WITH TIME ZONE, -- 상세 정보 수집 시각 (NULL이면 수집 대기)
+    synced_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.tour_items OWNER TO postgres;
+
+-- 인덱스 생성 (목록 필터, 정렬, 상세 정보 수집 대기열)
+CREATE INDEX IF NOT EXISTS idx_tour_items_area ON public.tour_items(area_code, sigungu_code);
+CREATE INDEX IF NOT EXISTS idx_tour_items_content_type ON public.tour_items(content_type_id);
+CREATE INDEX IF NOT EXISTS idx_tour_items_category ON public.tour_items(cat1, cat2, cat3);
+CREATE INDEX IF NOT EXISTS idx_tour_items_modified_time ON public.tour_items(modified_time DESC);
+CREATE INDEX IF NOT EXISTS idx_tour_items_title ON public.tour_items(title);
+CREATE INDEX IF NOT EXISTS idx_tour_items_pet_allowed ON public.tour_items(pet_allowed) WHERE pet_allowed;
+CREATE INDEX IF NOT EXISTS idx_tour_items_parking_available ON public.tour_items(parking_available) WHERE parking_available;
+CREATE INDEX IF NOT EXISTS idx_tour_items_details_pending ON public.tour_items(modified_time DESC) WHERE details_synced_at IS NULL;
+
+-- Row Level Security (RLS) 비활성화
+ALTER TABLE public.tour_items DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여 (서버에서 service_role로만 접근)
+GRANT ALL ON TABLE public.tour_items TO service_role;
+
+-- 테이블 설명
+COMMENT ON TABLE public.tour_items IS '한국관광공사 관광지 목록 사본 (areaBasedList2, areaBasedSyncList2)';
+COMMENT ON COLUMN public.tour_items.modified_time IS 'API 수정일 (YYYYMMDDHHmmss), 증분 동기화 기준';
+COMMENT ON COLUMN public.tour_items.details_synced_at IS '소개/반려동물/이미지 수집 시각 (수정일이 바뀌면 NULL로 초기화)';
+
+-- =====================================================
+-- 상세 정보 테이블 (관광지가 삭제되면 함께 삭제)
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.tour_item_intros (
+    content_id TEXT PRIMARY KEY REFERENCES public.tour_items(content_id) ON DELETE CASCADE,
+    content_type_id TEXT NOT NULL,
+    intro JSONB NOT NULL,                   -- detailIntro2 응답 항목 (타입별 필드)
+    synced_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.tour_item_pet_info (
+    content_id TEXT PRIMARY KEY REFERENCES public.tour_items(content_id) ON DELETE CASCADE,
+    pet_info JSONB NOT NULL,                -- detailPetTour2 응답 항목
+    synced_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.tour_item_images (
+    content_id TEXT NOT NULL REFERENCES public.tour_items(content_id) ON DELETE CASCADE,
+    serial_num TEXT NOT NULL,
+    image_name TEXT,
+    origin_img_url TEXT,
+    small_image_url TEXT,
+    synced_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    PRIMARY KEY (content_id, serial_num)
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.tour_item_intros OWNER TO postgres;
+ALTER TABLE public.tour_item_pet_info OWNER TO postgres;
+ALTER TABLE public.tour_item_images OWNER TO postgres;
+
+-- Row Level Security (RLS) 비활성화
+ALTER TABLE public.tour_item_intros DISABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tour_item_pet_info DISABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tour_item_images DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여 (서버에서 service_role로만 접근)
+GRANT ALL ON TABLE public.tour_item_intros TO service_role;
+GRANT ALL ON TABLE public.tour_item_pet_info TO service_role;
+GRANT ALL ON TABLE public.tour_item_images TO service_role;
+
+-- 테이블 설명
+COMMENT ON TABLE public.tour_item_intros IS '관광지 소개 정보 사본 (detailIntro2)';
+COMMENT ON TABLE public.tour_item_pet_info IS '반려동물 동반 여행 정보 사본 (detailPetTour2)';
+COMMENT ON TABLE public.tour_item_images IS '관광지 이미지 목록 사본 (detailImage2)';
+
+-- =====================================================
+-- tour_catalog_sync 테이블 (동기화 체크포인트)
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.tour_catalog_sync (
+    job TEXT PRIMARY KEY,                   -- import(전체 가져오기), incremental(변경분), details(상세 정보)
+    status TEXT NOT NULL DEFAULT 'idle',    -- idle, running, completed, failed
+    next_page INTEGER NOT NULL DEFAULT 1,   -- 다음에 가져올 페이지 (이어서 실행)
+    total_count INTEGER,                    -- 마지막으로 확인한 전체 항목 수
+    processed_count INTEGER NOT NULL DEFAULT 0, -- 이번 실행에서 저장한 항목 수
+    deleted_count INTEGER NOT NULL DEFAULT 0,   -- 이번 실행에서 삭제한 항목 수
+    watermark TEXT,                         -- 반영을 마친 가장 최근 수정일 (YYYYMMDDHHmmss)
+    last_error TEXT,
+    started_at TIMESTAMP WITH TIME ZONE,
+    finished_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.tour_catalog_sync OWNER TO postgres;
+
+-- Row Level Security (RLS) 비활성화
+ALTER TABLE public.tour_catalog_sync DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여 (서버에서 service_role로만 접근)
+GRANT ALL ON TABLE public.tour_catalog_sync TO service_role;
+
+-- 테이블 설명
+COMMENT ON TABLE public.tour_catalog_sync IS '관광지 카탈로그 동기화 작업별 체크포인트 (TourCatalogSync)';
+COMMENT ON COLUMN public.tour_catalog_sync.watermark IS '이 수정일까지의 변경분은 반영됨 (증분 동기화 시작점)';
+
+-- =====================================================
+-- 통계 집계 함수 (지역별, 타입별 관광지 수)
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.tour_catalog_counts()
+RETURNS TABLE (dimension TEXT, code TEXT, item_count BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT 'area', area_code, count(*) FROM public.tour_items
+    WHERE area_code IS NOT NULL GROUP BY area_code
+    UNION ALL
+    SELECT 'content_type', content_type_id, count(*) FROM public.tour_items
+    GROUP BY content_type_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.tour_catalog_counts() TO service_role;
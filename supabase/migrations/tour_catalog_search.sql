@@ -0,0 +1,129 @@
+-- =====================================================
+-- 마이그레이션: 관광지 카탈로그 검색 (pg_trgm + 한글 n-gram)
+-- 작성일: 2026-10-19
+-- 설명: 띄어쓰기, 오타, 로마자 표기에 관대한 관광지 검색
+--       - search_title: 관광지명 정규화 (소문자, 공백/기호 제거) → 부분 일치
+--       - search_title_ngrams, search_ngrams: 한글 2-gram (관광지명 / 관광지명+주소+개요) → 띄어쓰기 무관 일치
+--       - search_romanized: 관광지명 로마자 표기 (pg_trgm) → 오타, "gyeongbokgung" 같은 로마자 검색
+--       - 정규화, n-gram, 로마자 변환은 lib/utils/korean-search.ts에서 계산해 저장 (DB 로캘과 무관)
+--       - lib/api/tour-catalog.ts(searchTourCatalog)에서 사용
+-- =====================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- =====================================================
+-- 검색 컬럼 추가
+-- =====================================================
+
+ALTER TABLE public.tour_items
+    ADD COLUMN IF NOT EXISTS overview TEXT,                -- 개요 (detailCommon2, HTML 제거)
+    ADD COLUMN IF NOT EXISTS search_title TEXT,            -- 관광지명 정규화
+    ADD COLUMN IF NOT EXISTS search_romanized TEXT,        -- 관광지명 로마자 표기 (정규화)
+    ADD COLUMN IF NOT EXISTS search_title_ngrams TEXT[],   -- 관광지명 n-gram
+    ADD COLUMN IF NOT EXISTS search_ngrams TEXT[];         -- 관광지명 + 주소 + 개요 n-gram
+
+-- 인덱스 생성 (n-gram 후보 검색, 로마자 유사도 검색)
+CREATE INDEX IF NOT EXISTS idx_tour_items_search_ngrams ON public.tour_items USING GIN (search_ngrams);
+CREATE INDEX IF NOT EXISTS idx_tour_items_search_romanized ON public.tour_items USING GIN (search_romanized gin_trgm_ops);
+
+-- 기존 항목은 상세 정보 수집 때 개요와 검색 컬럼을 채우도록 다시 수집 대기열에 넣음
+UPDATE public.tour_items SET details_synced_at = NULL WHERE search_title IS NULL;
+
+COMMENT ON COLUMN public.tour_items.search_ngrams IS '관광지명, 주소, 개요의 한글 2-gram (공백 제거 후 계산, 영문/숫자는 단어 단위)';
+COMMENT ON COLUMN public.tour_items.search_romanized IS '관광지명 로마자 표기 (국어의 로마자 표기법, 음운 변화 미적용)';
+
+-- =====================================================
+-- 검색 함수
+-- =====================================================
+
+-- 검색어 n-gram 중 항목에 포함된 비율 (0~1)
+CREATE OR REPLACE FUNCTION public.tour_search_overlap(p_ngrams TEXT[], p_query_ngrams TEXT[])
+RETURNS REAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE
+        WHEN coalesce(cardinality(p_query_ngrams), 0) = 0 OR p_ngrams IS NULL THEN 0
+        ELSE (
+            SELECT count(*) FROM unnest(p_query_ngrams) AS q(ngram)
+            WHERE q.ngram = ANY (p_ngrams)
+        )::REAL / cardinality(p_query_ngrams)
+    END;
+$$;
+
+-- 관련도순 검색 (정확한 관광지명 일치 > 관광지명 n-gram > 로마자 유사도 > 주소/개요 n-gram)
+-- 후보: 검색어 n-gram의 절반 이상이 포함되거나 로마자 단어 유사도가 0.4 이상인 항목
+CREATE OR REPLACE FUNCTION public.search_tour_catalog(
+    p_query TEXT,                 -- 정규화한 검색어
+    p_ngrams TEXT[],              -- 검색어 n-gram
+    p_romanized TEXT,             -- 검색어 로마자 표기
+    p_area_code TEXT DEFAULT NULL,
+    p_sigungu_code TEXT DEFAULT NULL,
+    p_content_type_id TEXT DEFAULT NULL,
+    p_cat1 TEXT DEFAULT NULL,
+    p_cat2 TEXT DEFAULT NULL,
+    p_cat3 TEXT DEFAULT NULL,
+    p_limit INTEGER DEFAULT 20,
+    p_offset INTEGER DEFAULT 0
+) RETURNS TABLE (
+    content_id TEXT,
+    content_type_id TEXT,
+    title TEXT,
+    addr1 TEXT,
+    addr2 TEXT,
+    area_code TEXT,
+    sigungu_code TEXT,
+    cat1 TEXT,
+    cat2 TEXT,
+    cat3 TEXT,
+    map_x DOUBLE PRECISION,
+    map_y DOUBLE PRECISION,
+    first_image TEXT,
+    first_image2 TEXT,
+    tel TEXT,
+    created_time TEXT,
+    modified_time TEXT,
+    overview TEXT,
+    rank REAL,
+    total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET pg_trgm.word_similarity_threshold = 0.4
+AS $$
+    WITH candidates AS (
+        SELECT t.*,
+            (CASE
+                WHEN t.search_title = p_query THEN 2
+                WHEN p_query <> '' AND strpos(t.search_title, p_query) > 0 THEN 1
+                ELSE 0
+            END)
+            + public.tour_search_overlap(t.search_title_ngrams, p_ngrams)
+            + 0.8 * CASE WHEN p_romanized <> '' THEN word_similarity(p_romanized, t.search_romanized) ELSE 0 END
+            + 0.5 * public.tour_search_overlap(t.search_ngrams, p_ngrams) AS score
+        FROM public.tour_items t
+        WHERE (
+                (t.search_ngrams && p_ngrams AND public.tour_search_overlap(t.search_ngrams, p_ngrams) >= 0.5)
+                OR (p_romanized <> '' AND p_romanized <% t.search_romanized)
+            )
+            AND (p_area_code IS NULL OR t.area_code = p_area_code)
+            AND (p_sigungu_code IS NULL OR t.sigungu_code = p_sigungu_code)
+            AND (p_content_type_id IS NULL OR t.content_type_id = p_content_type_id)
+            AND (p_cat1 IS NULL OR t.cat1 = p_cat1)
+            AND (p_cat2 IS NULL OR t.cat2 = p_cat2)
+            AND (p_cat3 IS NULL OR t.cat3 = p_cat3)
+    )
+    SELECT c.content_id, c.content_type_id, c.title, c.addr1, c.addr2, c.area_code, c.sigungu_code,
+        c.cat1, c.cat2, c.cat3, c.map_x, c.map_y, c.first_image, c.first_image2, c.tel,
+        c.created_time, c.modified_time, c.overview,
+        c.score::REAL AS rank,
+        count(*) OVER () AS total_count
+    FROM candidates c
+    ORDER BY c.score DESC, c.modified_time DESC, c.content_id
+    LIMIT p_limit OFFSET p_offset;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.tour_search_overlap(TEXT[], TEXT[]) TO service_role;
+GRANT EXECUTE ON FUNCTION public.search_tour_catalog(TEXT, TEXT[], TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER) TO service_role;
+
+COMMENT ON FUNCTION public.search_tour_catalog IS '관광지 카탈로그 관련도순 검색 (searchTourCatalog), total_count는 페이지와 무관한 전체 결과 수';
@@ -0,0 +1,17 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+const vitestConfig = defineConfig({
+  resolve: {
+    // tsconfig.json의 paths와 동일 (@/* → 프로젝트 루트)
+    alias: { "@": fileURLToPath(new URL(".", import.meta.url)) },
+  },
+  test: {
+    environment: "node",
+    include: ["lib/**/*.test.ts"],
+    // 실패 주입 등에서 남기는 경고 로그 숨김
+    env: { LOG_LEVEL: "error" },
+  },
+});
+
+export default vitestConfig;